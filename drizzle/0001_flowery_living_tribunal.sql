@@ -0,0 +1,14 @@
+CREATE TABLE "tenant_domains" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"domain" varchar(253) NOT NULL,
+	"verified" boolean DEFAULT false NOT NULL,
+	"verification_token" varchar(64) NOT NULL,
+	"verified_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "tenant_domains_domain_unique" UNIQUE("domain")
+);
+--> statement-breakpoint
+ALTER TABLE "tenant_domains" ADD CONSTRAINT "tenant_domains_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_tenant_domain_tenant_id" ON "tenant_domains" USING btree ("tenant_id");
\ No newline at end of file
@@ -5,12 +5,12 @@ import {
   MULTI_TENANT_CONFIG_SERVICE,
   MultiTenantConfigService,
 } from '../core/services/multi-tenant-config.service';
-import { Tenant } from './entities/tenant.entity';
+import { Tenant, TenantDomain } from './entities/tenant.entity';
 import { TENANT_ADMIN_SERVICE } from './interfaces/tenant-admin.interface';
 import { TenantAdminService } from './services/tenant-admin.service';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Tenant], 'admin')],
+  imports: [TypeOrmModule.forFeature([Tenant, TenantDomain], 'admin')],
   providers: [
     {
       provide: TENANT_ADMIN_SERVICE,
@@ -11,9 +11,12 @@ import {
 } from '@nestjs/common';
 
 import { CreateTenantDto } from '../../admin/dto/create-tenant.dto';
+import { CreateTenantDomainDto } from '../../admin/dto/create-tenant-domain.dto';
 import { TenantFilterDto } from '../../admin/dto/filter-tenant.dto';
 import { UpdateTenantDto } from '../../admin/dto/update-tenant.dto';
-import { Tenant } from '../../admin/entities/tenant.entity';
+import { Tenant, TenantDomain } from '../../admin/entities/tenant.entity';
+import { PublicRoute } from '../../core/decorators/tenant-requirement.decorator';
+import { TenantStatusInfo } from '../../core/interfaces/tenant.interface';
 import {
   FindAllTenants,
   ITenantAdminController,
@@ -21,12 +24,16 @@ import {
   TENANT_ADMIN_SERVICE,
   TenantStats,
 } from '../interfaces/tenant-admin.interface';
-import { Tenant as TenantSchema } from '../schema/tenant.schema';
+import {
+  Tenant as TenantSchema,
+  TenantDomain as TenantDomainSchema,
+} from '../schema/tenant.schema';
 
 /**
  * Tenant Admin Controller
  * @description Controller for tenant admin operations
  */
+@PublicRoute()
 @Controller('admin/tenant')
 export class TenantAdminController implements ITenantAdminController {
   constructor(
@@ -125,4 +132,75 @@ export class TenantAdminController implements ITenantAdminController {
   validate(@Param('code') code: string): Promise<{ exists: boolean }> {
     return this.tenantAdminService.validate(code);
   }
+
+  /**
+   * Get the status of a tenant, including suspended and removed ones
+   * @param code Tenant code
+   */
+  @Get('status/:code')
+  findStatusByCode(@Param('code') code: string): Promise<TenantStatusInfo> {
+    return this.tenantAdminService.findStatusByCode(code);
+  }
+
+  /**
+   * Find the tenant mapped to a verified custom domain
+   * @param domain Custom domain
+   */
+  @Get('domain/:domain')
+  findByDomain(
+    @Param('domain') domain: string,
+  ): Promise<Tenant | TenantSchema> {
+    return this.tenantAdminService.findByDomain(domain);
+  }
+
+  /**
+   * Add a custom domain to a tenant. The domain resolves to the tenant
+   * once it has been verified.
+   * @param id Tenant id
+   * @param createDomainDto Domain to add
+   */
+  @Post(':id/domains')
+  addDomain(
+    @Param('id') id: string,
+    @Body() createDomainDto: CreateTenantDomainDto,
+  ): Promise<TenantDomain | TenantDomainSchema> {
+    return this.tenantAdminService.addDomain(id, createDomainDto);
+  }
+
+  /**
+   * Get the custom domains of a tenant
+   * @param id Tenant id
+   */
+  @Get(':id/domains')
+  findDomains(
+    @Param('id') id: string,
+  ): Promise<TenantDomain[] | TenantDomainSchema[]> {
+    return this.tenantAdminService.findDomains(id);
+  }
+
+  /**
+   * Verify a custom domain through its DNS TXT record
+   * @param id Tenant id
+   * @param domainId Domain id to verify
+   */
+  @Patch(':id/domains/:domainId/verify')
+  verifyDomain(
+    @Param('id') id: string,
+    @Param('domainId') domainId: string,
+  ): Promise<TenantDomain | TenantDomainSchema> {
+    return this.tenantAdminService.verifyDomain(id, domainId);
+  }
+
+  /**
+   * Remove a custom domain from a tenant
+   * @param id Tenant id
+   * @param domainId Domain id to remove
+   */
+  @Delete(':id/domains/:domainId')
+  removeDomain(
+    @Param('id') id: string,
+    @Param('domainId') domainId: string,
+  ): Promise<void> {
+    return this.tenantAdminService.removeDomain(id, domainId);
+  }
 }
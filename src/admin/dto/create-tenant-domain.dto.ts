@@ -0,0 +1,11 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class CreateTenantDomainDto {
+  /**
+   * Fully qualified custom domain, e.g. portal.customer.com
+   */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(253)
+  domain!: string;
+}
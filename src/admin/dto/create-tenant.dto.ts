@@ -1,6 +1,7 @@
 import {
   IsArray,
   IsEnum,
+  IsIn,
   IsNotEmpty,
   IsObject,
   IsOptional,
@@ -11,6 +12,10 @@ import {
 } from 'class-validator';
 
 import { EntityName, REGEX_TENANT_NAME, TenantStatus } from '../../constants';
+import {
+  TenantDatabaseConnectionInfo,
+  TenantIsolation,
+} from '../../core/interfaces/tenant.interface';
 
 export class CreateTenantDto {
   /**
@@ -78,4 +83,18 @@ export class CreateTenantDto {
   @IsOptional()
   @IsObject()
   entityCustomSettings?: Record<string, unknown>;
+
+  /**
+   * Location of the tenant database, used in 'database' isolation
+   */
+  @IsOptional()
+  @IsObject()
+  connection?: TenantDatabaseConnectionInfo;
+
+  /**
+   * Isolation of the tenant, overriding the module `isolation` option
+   */
+  @IsOptional()
+  @IsIn(['schema', 'database', 'row'])
+  isolation?: TenantIsolation;
 }
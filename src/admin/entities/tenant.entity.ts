@@ -4,12 +4,21 @@ import {
   DeleteDateColumn,
   Entity,
   Index,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
   PrimaryGeneratedColumn,
   UpdateDateColumn,
 } from 'typeorm';
 
 import { TenantStatus } from '../../constants';
-import { IEntityConfig, ITenant } from '../../core/interfaces/tenant.interface';
+import {
+  IEntityConfig,
+  ITenant,
+  ITenantDomain,
+  TenantDatabaseConnectionInfo,
+  TenantIsolation,
+} from '../../core/interfaces/tenant.interface';
 
 /**
  * Tenant entity stored in the public/admin schema
@@ -26,7 +35,7 @@ export class Tenant implements ITenant {
 
   /**
    * Unique tenant code used as schema name
-   * Format: tenant_{code}
+   * Format: the schema naming strategy applied to the code (tenant_{code} by default)
    */
   @Column({ type: 'varchar', length: 50, unique: true })
   code!: string;
@@ -67,6 +76,18 @@ export class Tenant implements ITenant {
   @Column({ type: 'jsonb', nullable: true })
   entityConfig?: IEntityConfig;
 
+  /**
+   * Location of the tenant database in 'database' isolation
+   */
+  @Column({ type: 'jsonb', nullable: true })
+  connection?: TenantDatabaseConnectionInfo;
+
+  /**
+   * Isolation of the tenant, overriding the module `isolation` option
+   */
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  isolation?: TenantIsolation;
+
   /**
    * Timestamp when the tenant was created
    */
@@ -85,6 +106,12 @@ export class Tenant implements ITenant {
   @DeleteDateColumn()
   deletedAt?: Date;
 
+  /**
+   * Custom domains mapped to this tenant
+   */
+  @OneToMany(() => TenantDomain, domain => domain.tenant)
+  domains?: TenantDomain[];
+
   /**
    * Get the schema name for this tenant
    */
@@ -121,3 +148,63 @@ export class Tenant implements ITenant {
     return (settings as Record<string, unknown>) || {};
   }
 }
+
+/**
+ * Custom domain mapped to a tenant, stored in the public/admin schema
+ * A domain only resolves to its tenant once ownership has been verified
+ */
+@Entity('tenant_domains')
+export class TenantDomain implements ITenantDomain {
+  /**
+   * Unique identifier for the domain mapping
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  /**
+   * Tenant that owns the domain
+   */
+  @Column({ type: 'uuid' })
+  @Index()
+  tenantId!: string;
+
+  @ManyToOne(() => Tenant, tenant => tenant.domains, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'tenantId' })
+  tenant?: Tenant;
+
+  /**
+   * Fully qualified host name, lowercase and without port
+   */
+  @Column({ type: 'varchar', length: 253, unique: true })
+  domain!: string;
+
+  /**
+   * Whether ownership of the domain has been verified
+   */
+  @Column({ type: 'boolean', default: false })
+  verified!: boolean;
+
+  /**
+   * Token expected in the DNS TXT verification record
+   */
+  @Column({ type: 'varchar', length: 64 })
+  verificationToken!: string;
+
+  /**
+   * Timestamp when the domain was verified
+   */
+  @Column({ type: 'timestamp', nullable: true })
+  verifiedAt?: Date | null;
+
+  /**
+   * Timestamp when the domain was added
+   */
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  /**
+   * Timestamp when the domain was last updated
+   */
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
@@ -1,8 +1,13 @@
+import { TenantStatusInfo } from '../../core/interfaces/tenant.interface';
 import { CreateTenantDto } from '../dto/create-tenant.dto';
+import { CreateTenantDomainDto } from '../dto/create-tenant-domain.dto';
 import { TenantFilterDto } from '../dto/filter-tenant.dto';
 import { UpdateTenantDto } from '../dto/update-tenant.dto';
-import { Tenant } from '../entities/tenant.entity';
-import { Tenant as TenantSchema } from '../schema/tenant.schema';
+import { Tenant, TenantDomain } from '../entities/tenant.entity';
+import {
+  Tenant as TenantSchema,
+  TenantDomain as TenantDomainSchema,
+} from '../schema/tenant.schema';
 
 export interface FindAllTenants {
   data: Tenant[] | TenantSchema[];
@@ -45,6 +50,24 @@ export interface ITenantAdminController {
   findByCode(code: string): Promise<Tenant | TenantSchema>;
 
   validate(code: string): Promise<{ exists: boolean }>;
+
+  findStatusByCode(code: string): Promise<TenantStatusInfo>;
+
+  addDomain(
+    id: string,
+    createDomainDto: CreateTenantDomainDto,
+  ): Promise<TenantDomain | TenantDomainSchema>;
+
+  findDomains(id: string): Promise<TenantDomain[] | TenantDomainSchema[]>;
+
+  verifyDomain(
+    id: string,
+    domainId: string,
+  ): Promise<TenantDomain | TenantDomainSchema>;
+
+  removeDomain(id: string, domainId: string): Promise<void>;
+
+  findByDomain(domain: string): Promise<Tenant | TenantSchema>;
 }
 
 // eslint-disable-next-line @typescript-eslint/no-empty-object-type
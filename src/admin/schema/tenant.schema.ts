@@ -1,5 +1,11 @@
+import type {
+  TenantDatabaseConnectionInfo,
+  TenantIsolation,
+} from '../../core/interfaces/tenant.interface';
+
 import { InferInsertModel, InferSelectModel } from 'drizzle-orm';
 import {
+  boolean,
   index,
   jsonb,
   pgEnum,
@@ -40,6 +46,8 @@ export const tenants = pgTable(
       preset?: string;
       customSettings?: Record<string, unknown>;
     }>(),
+    connection: jsonb('connection').$type<TenantDatabaseConnectionInfo>(),
+    isolation: varchar('isolation', { length: 20 }).$type<TenantIsolation>(),
     createdAt: timestamp('created_at').defaultNow().notNull(),
     updatedAt: timestamp('updated_at')
       .defaultNow()
@@ -54,6 +62,30 @@ export const tenants = pgTable(
   ],
 );
 
+/**
+ * Custom domains mapped to tenants, stored in the public/admin schema
+ * A domain only resolves to its tenant once ownership has been verified
+ */
+export const tenantDomains = pgTable(
+  'tenant_domains',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    domain: varchar('domain', { length: 253 }).notNull().unique(),
+    verified: boolean('verified').default(false).notNull(),
+    verificationToken: varchar('verification_token', { length: 64 }).notNull(),
+    verifiedAt: timestamp('verified_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at')
+      .defaultNow()
+      .$onUpdate(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  table => [index('idx_tenant_domain_tenant_id').on(table.tenantId)],
+);
+
 /**
  * Type inference for SELECT operations
  */
@@ -64,6 +96,16 @@ export type Tenant = InferSelectModel<typeof tenants>;
  */
 export type NewTenant = InferInsertModel<typeof tenants>;
 
+/**
+ * Type inference for tenant domain SELECT operations
+ */
+export type TenantDomain = InferSelectModel<typeof tenantDomains>;
+
+/**
+ * Type inference for tenant domain INSERT operations
+ */
+export type NewTenantDomain = InferInsertModel<typeof tenantDomains>;
+
 /**
  * Helper type for tenant with computed fields
  */
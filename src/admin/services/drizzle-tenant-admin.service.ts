@@ -8,7 +8,18 @@ import {
   NotFoundException,
   Optional,
 } from '@nestjs/common';
-import { and, count, desc, eq, ilike, isNull, or, sql } from 'drizzle-orm';
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  getTableColumns,
+  ilike,
+  isNull,
+  or,
+  sql,
+} from 'drizzle-orm';
 
 import {
   FindAllTenants,
@@ -24,13 +35,43 @@ import {
 import {
   IEntityConfig,
   IMultiTenantConfigService,
+  ITenantConnectionService,
+  TenantDatabaseConnectionInfo,
+  TenantStatusInfo,
 } from '../../core/interfaces/tenant.interface';
+import {
+  ITenantEventTransport,
+  TENANT_EVENT_TRANSPORT,
+  TenantChangeType,
+} from '../../core/interfaces/tenant-events.interface';
+import {
+  ITenantValidationStrategy,
+  TENANT_VALIDATION_STRATEGY,
+} from '../../core/interfaces/tenant-validation.interface';
 import { MULTI_TENANT_CONFIG_SERVICE } from '../../core/services/multi-tenant-config.service';
+import { TENANT_CONNECTION_SERVICE } from '../../core/services/tenant-connection.service';
+import {
+  generateDomainVerificationToken,
+  getDomainVerificationRecord,
+  isDomainVerificationPublished,
+  normalizeDomain,
+} from '../../core/utils/domain-verification.utils';
 import { validateEntityNames } from '../../core/utils/entity-registry.utils';
+import {
+  ensureTenantDatabase,
+  resolveTenantDatabaseConfig,
+} from '../../core/utils/tenant-database.utils';
 import { CreateTenantDto } from '../dto/create-tenant.dto';
+import { CreateTenantDomainDto } from '../dto/create-tenant-domain.dto';
 import { TenantFilterDto } from '../dto/filter-tenant.dto';
 import { UpdateTenantDto } from '../dto/update-tenant.dto';
-import { type NewTenant, type Tenant, tenants } from '../schema/tenant.schema';
+import {
+  type NewTenant,
+  type Tenant,
+  type TenantDomain,
+  tenantDomains,
+  tenants,
+} from '../schema/tenant.schema';
 
 /**
  * Token for injecting the admin database
@@ -54,6 +95,18 @@ export class DrizzleTenantAdminService implements ITenantAdminService {
     @Optional()
     @Inject(MULTI_TENANT_CONFIG_SERVICE)
     private readonly configService?: IMultiTenantConfigService,
+
+    @Optional()
+    @Inject(TENANT_CONNECTION_SERVICE)
+    private readonly connectionService?: ITenantConnectionService,
+
+    @Optional()
+    @Inject(TENANT_VALIDATION_STRATEGY)
+    private readonly validationStrategy?: ITenantValidationStrategy,
+
+    @Optional()
+    @Inject(TENANT_EVENT_TRANSPORT)
+    private readonly eventTransport?: ITenantEventTransport,
   ) {}
 
   /**
@@ -67,7 +120,7 @@ export class DrizzleTenantAdminService implements ITenantAdminService {
       `Creating tenant with code: ${tenantDto.code}, name: ${tenantDto.name}`,
     );
 
-    const tenantCode = `tenant_${tenantDto.code}`;
+    const tenantCode = this.getSchemaName(tenantDto.code);
 
     // Check if tenant already exists
     const [existingTenant] = await this.db
@@ -101,6 +154,8 @@ export class DrizzleTenantAdminService implements ITenantAdminService {
         status: tenantDto.status || TenantStatus.ACTIVE,
         settings: tenantDto.settings,
         entityConfig: entityConfig,
+        connection: tenantDto.connection,
+        isolation: tenantDto.isolation,
       };
 
       const [createdTenant] = await this.db
@@ -108,8 +163,20 @@ export class DrizzleTenantAdminService implements ITenantAdminService {
         .values(newTenant)
         .returning();
 
+      await this.onTenantChanged(createdTenant, 'created');
+
       // Auto-create schema if enabled
-      if (this.configService?.isAutoCreateSchemasEnabled()) {
+      // Tenants in 'row' isolation only need their record
+      const isolation =
+        tenantDto.isolation ?? this.configService?.getIsolation();
+      if (isolation === 'database') {
+        if (this.configService?.isAutoCreateDatabasesEnabled()) {
+          await this.createTenantDatabase(tenantCode, tenantDto.connection);
+        }
+      } else if (
+        isolation !== 'row' &&
+        this.configService?.isAutoCreateSchemasEnabled()
+      ) {
         await this.createTenantSchema(tenantCode);
       }
 
@@ -239,6 +306,8 @@ export class DrizzleTenantAdminService implements ITenantAdminService {
         description: updateTenantDto.description,
         status: updateTenantDto.status,
         settings: updateTenantDto.settings,
+        connection: updateTenantDto.connection,
+        isolation: updateTenantDto.isolation,
         updatedAt: new Date(),
       };
 
@@ -260,6 +329,7 @@ export class DrizzleTenantAdminService implements ITenantAdminService {
         .set(updateData)
         .where(eq(tenants.id, id))
         .returning();
+      await this.onTenantChanged(updatedTenant, 'updated');
 
       this.logger.log(`Tenant with ID ${id} updated successfully`);
       return updatedTenant;
@@ -276,7 +346,7 @@ export class DrizzleTenantAdminService implements ITenantAdminService {
    * @returns A promise that resolves when the tenant is successfully removed
    */
   async remove(id: string): Promise<void> {
-    await this.findOne(id); // Verify tenant exists
+    const tenant = await this.findOne(id); // Verify tenant exists
 
     await this.db
       .update(tenants)
@@ -286,6 +356,7 @@ export class DrizzleTenantAdminService implements ITenantAdminService {
         updatedAt: new Date(),
       })
       .where(eq(tenants.id, id));
+    await this.onTenantChanged(tenant, 'removed');
 
     this.logger.log(`Tenant with ID ${id} removed successfully`);
   }
@@ -369,6 +440,7 @@ export class DrizzleTenantAdminService implements ITenantAdminService {
       })
       .where(eq(tenants.id, id))
       .returning();
+    await this.onTenantChanged(updatedTenant, 'activated');
 
     this.logger.log(`Tenant with ID ${id} activated successfully`);
     return updatedTenant;
@@ -396,6 +468,7 @@ export class DrizzleTenantAdminService implements ITenantAdminService {
       })
       .where(eq(tenants.id, id))
       .returning();
+    await this.onTenantChanged(updatedTenant, 'deactivated');
 
     this.logger.log(`Tenant with ID ${id} deactivated successfully`);
     return updatedTenant;
@@ -437,6 +510,262 @@ export class DrizzleTenantAdminService implements ITenantAdminService {
     return { exists: !!result };
   }
 
+  /**
+   * Finds the status of a tenant, including suspended and removed ones
+   *
+   * @param code The tenant code
+   * @returns A promise that resolves to the tenant status and settings
+   */
+  async findStatusByCode(code: string): Promise<TenantStatusInfo> {
+    const [tenant] = await this.db
+      .select({ status: tenants.status, settings: tenants.settings })
+      .from(tenants)
+      .where(eq(tenants.code, code))
+      .orderBy(sql`${tenants.deletedAt} DESC NULLS FIRST`)
+      .limit(1);
+
+    if (!tenant) {
+      throw new NotFoundException(`Tenant with code ${code} not found`);
+    }
+
+    return tenant;
+  }
+
+  /**
+   * Adds a custom domain to a tenant
+   *
+   * @param id The tenant ID
+   * @param createDomainDto The domain creation DTO
+   * @returns A promise that resolves to the unverified domain mapping
+   */
+  async addDomain(
+    id: string,
+    createDomainDto: CreateTenantDomainDto,
+  ): Promise<TenantDomain> {
+    const tenant = await this.findOne(id);
+    const domain = this.parseDomain(createDomainDto.domain);
+
+    const [existingDomain] = await this.db
+      .select({ id: tenantDomains.id })
+      .from(tenantDomains)
+      .where(eq(tenantDomains.domain, domain))
+      .limit(1);
+
+    if (existingDomain) {
+      throw new TenantConflictError(
+        `Domain ${domain} is already mapped to a tenant`,
+      );
+    }
+
+    const [createdDomain] = await this.db
+      .insert(tenantDomains)
+      .values({
+        tenantId: tenant.id,
+        domain,
+        verified: false,
+        verificationToken: generateDomainVerificationToken(),
+      })
+      .returning();
+
+    this.logger.log(`Domain ${domain} added to tenant with ID ${id}`);
+    return createdDomain;
+  }
+
+  /**
+   * Finds the custom domains of a tenant
+   *
+   * @param id The tenant ID
+   * @returns A promise that resolves to the domain mappings of the tenant
+   */
+  async findDomains(id: string): Promise<TenantDomain[]> {
+    await this.findOne(id);
+
+    return this.db
+      .select()
+      .from(tenantDomains)
+      .where(eq(tenantDomains.tenantId, id))
+      .orderBy(asc(tenantDomains.createdAt));
+  }
+
+  /**
+   * Verifies a custom domain by checking its DNS TXT record
+   *
+   * @param id The tenant ID
+   * @param domainId The domain mapping ID
+   * @returns A promise that resolves to the verified domain mapping
+   */
+  async verifyDomain(id: string, domainId: string): Promise<TenantDomain> {
+    const { tenant, tenantDomain } = await this.findDomain(id, domainId);
+
+    if (tenantDomain.verified) {
+      return tenantDomain;
+    }
+
+    const { domain, verificationToken } = tenantDomain;
+
+    if (!(await isDomainVerificationPublished(domain, verificationToken))) {
+      const record = getDomainVerificationRecord(domain, verificationToken);
+      throw new BadRequestException(
+        `Domain ${domain} is not verified. Publish a ${record.type} record ${record.name} with value ${record.value}`,
+      );
+    }
+
+    const [verifiedDomain] = await this.db
+      .update(tenantDomains)
+      .set({ verified: true, verifiedAt: new Date(), updatedAt: new Date() })
+      .where(eq(tenantDomains.id, domainId))
+      .returning();
+
+    this.logger.log(`Domain ${domain} verified for tenant with ID ${id}`);
+    await this.onTenantChanged(tenant, 'domainChanged', domain);
+    return verifiedDomain;
+  }
+
+  /**
+   * Removes a custom domain from a tenant
+   *
+   * @param id The tenant ID
+   * @param domainId The domain mapping ID
+   * @returns A promise that resolves when the domain is removed
+   */
+  async removeDomain(id: string, domainId: string): Promise<void> {
+    const { tenant, tenantDomain } = await this.findDomain(id, domainId);
+
+    await this.db.delete(tenantDomains).where(eq(tenantDomains.id, domainId));
+
+    this.logger.log(
+      `Domain ${tenantDomain.domain} removed from tenant with ID ${id}`,
+    );
+    await this.onTenantChanged(tenant, 'domainChanged', tenantDomain.domain);
+  }
+
+  /**
+   * Finds the tenant mapped to a verified custom domain
+   *
+   * @param domain The custom domain
+   * @returns A promise that resolves to the tenant entity mapped to the domain
+   */
+  async findByDomain(domain: string): Promise<Tenant> {
+    const normalizedDomain = normalizeDomain(domain);
+
+    const [tenant] = normalizedDomain
+      ? await this.db
+          .select(getTableColumns(tenants))
+          .from(tenants)
+          .innerJoin(tenantDomains, eq(tenantDomains.tenantId, tenants.id))
+          .where(
+            and(
+              eq(tenantDomains.domain, normalizedDomain),
+              eq(tenantDomains.verified, true),
+              isNull(tenants.deletedAt),
+            ),
+          )
+          .limit(1)
+      : [];
+
+    if (!tenant) {
+      throw new NotFoundException(`Tenant with domain ${domain} not found`);
+    }
+
+    return tenant;
+  }
+
+  /**
+   * Drops the cached lookups of a changed tenant and closes its pooled
+   * connections, which may serve a stale status or entity list, then tells
+   * the other instances to do the same
+   *
+   * @param tenant The changed tenant
+   * @param type The change made to the tenant
+   * @param domain The custom domain of a 'domainChanged' change
+   */
+  private async onTenantChanged(
+    tenant: Pick<Tenant, 'code'>,
+    type: TenantChangeType,
+    domain?: string,
+  ): Promise<void> {
+    this.validationStrategy?.invalidate?.(tenant.code);
+    if (domain) {
+      this.validationStrategy?.invalidateDomain?.(domain);
+    }
+    if (
+      type !== 'created' &&
+      type !== 'activated' &&
+      type !== 'domainChanged'
+    ) {
+      await this.connectionService?.removeConnection(tenant.code);
+    }
+
+    try {
+      await this.eventTransport?.publish({ type, code: tenant.code, domain });
+    } catch (error) {
+      this.logger.error(
+        `Error publishing tenant change ${type} for ${tenant.code}: ${error}`,
+      );
+    }
+  }
+
+  /**
+   * Finds a domain mapping of a tenant
+   *
+   * @param id The tenant ID
+   * @param domainId The domain mapping ID
+   * @returns A promise that resolves to the tenant and the domain mapping
+   */
+  private async findDomain(
+    id: string,
+    domainId: string,
+  ): Promise<{ tenant: Tenant; tenantDomain: TenantDomain }> {
+    const tenant = await this.findOne(id);
+
+    const [tenantDomain] = await this.db
+      .select()
+      .from(tenantDomains)
+      .where(
+        and(eq(tenantDomains.id, domainId), eq(tenantDomains.tenantId, id)),
+      )
+      .limit(1);
+
+    if (!tenantDomain) {
+      throw new NotFoundException(
+        `Domain with ID ${domainId} not found for tenant ${id}`,
+      );
+    }
+
+    return { tenant, tenantDomain };
+  }
+
+  /**
+   * Normalizes and validates a custom domain
+   *
+   * @param domain The domain to validate
+   * @returns The normalized domain
+   */
+  private parseDomain(domain: string): string {
+    const normalizedDomain = normalizeDomain(domain);
+
+    if (!normalizedDomain) {
+      throw new TenantValidationError(
+        ['Invalid domain name'],
+        `Domain ${domain} is not a valid host name`,
+      );
+    }
+
+    return normalizedDomain;
+  }
+
+  /**
+   * Maps a tenant code to its schema name with the configured schema naming
+   * strategy, so the runtime finds the schemas the admin API creates
+   *
+   * @param code The tenant code
+   * @returns The schema name, stored as the tenant code
+   */
+  private getSchemaName(code: string): string {
+    const schemaNamingStrategy = this.configService?.getSchemaNamingStrategy();
+    return schemaNamingStrategy ? schemaNamingStrategy(code) : `tenant_${code}`;
+  }
+
   /**
    * Validates whether a schema name is valid for a tenant
    *
@@ -518,4 +847,34 @@ export class DrizzleTenantAdminService implements ITenantAdminService {
       throw error;
     }
   }
+
+  /**
+   * Creates the database of a tenant in 'database' isolation
+   *
+   * @param tenantCode The tenant code
+   * @param connection The location of the tenant database
+   * @returns A promise that resolves when the database exists
+   */
+  private async createTenantDatabase(
+    tenantCode: string,
+    connection?: TenantDatabaseConnectionInfo,
+  ): Promise<void> {
+    const databaseConfig = await resolveTenantDatabaseConfig(
+      this.configService!.getDatabaseConfig(),
+      tenantCode,
+      connection,
+      this.configService!.getTenantCredentialsResolver(),
+    );
+
+    try {
+      if (await ensureTenantDatabase(databaseConfig, tenantCode)) {
+        this.logger.log(`Database ${databaseConfig.database} created`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error creating database ${databaseConfig.database}: ${error}`,
+      );
+      throw error;
+    }
+  }
 }
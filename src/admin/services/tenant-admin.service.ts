@@ -19,13 +19,37 @@ import {
   IEntityConfig,
   IMultiTenantConfigService,
   ITenant,
+  ITenantConnectionService,
+  TenantDatabaseConnectionInfo,
+  TenantStatusInfo,
 } from '../../core/interfaces/tenant.interface';
+import {
+  ITenantEventTransport,
+  TENANT_EVENT_TRANSPORT,
+  TenantChangeType,
+} from '../../core/interfaces/tenant-events.interface';
+import {
+  ITenantValidationStrategy,
+  TENANT_VALIDATION_STRATEGY,
+} from '../../core/interfaces/tenant-validation.interface';
 import { MULTI_TENANT_CONFIG_SERVICE } from '../../core/services/multi-tenant-config.service';
+import { TENANT_CONNECTION_SERVICE } from '../../core/services/tenant-connection.service';
+import {
+  generateDomainVerificationToken,
+  getDomainVerificationRecord,
+  isDomainVerificationPublished,
+  normalizeDomain,
+} from '../../core/utils/domain-verification.utils';
 import { validateEntityNames } from '../../core/utils/entity-registry.utils';
+import {
+  ensureTenantDatabase,
+  resolveTenantDatabaseConfig,
+} from '../../core/utils/tenant-database.utils';
 import { CreateTenantDto } from '../dto/create-tenant.dto';
+import { CreateTenantDomainDto } from '../dto/create-tenant-domain.dto';
 import { TenantFilterDto } from '../dto/filter-tenant.dto';
 import { UpdateTenantDto } from '../dto/update-tenant.dto';
-import { Tenant } from '../entities/tenant.entity';
+import { Tenant, TenantDomain } from '../entities/tenant.entity';
 import {
   FindAllTenants,
   ITenantAdminService,
@@ -50,6 +74,18 @@ export class TenantAdminService implements ITenantAdminService {
     @Optional()
     @Inject(MULTI_TENANT_CONFIG_SERVICE)
     private readonly configService?: IMultiTenantConfigService,
+
+    @Optional()
+    @Inject(TENANT_CONNECTION_SERVICE)
+    private readonly connectionService?: ITenantConnectionService,
+
+    @Optional()
+    @Inject(TENANT_VALIDATION_STRATEGY)
+    private readonly validationStrategy?: ITenantValidationStrategy,
+
+    @Optional()
+    @Inject(TENANT_EVENT_TRANSPORT)
+    private readonly eventTransport?: ITenantEventTransport,
   ) {}
 
   /**
@@ -63,7 +99,7 @@ export class TenantAdminService implements ITenantAdminService {
       `Creating tenant with code: ${tenantDto.code}, name: ${tenantDto.name}`,
     );
 
-    tenantDto.code = `tenant_${tenantDto.code}`;
+    tenantDto.code = this.getSchemaName(tenantDto.code);
 
     const existingTenant = await this.tenantRepository.findOne({
       where: { code: tenantDto.code },
@@ -95,7 +131,19 @@ export class TenantAdminService implements ITenantAdminService {
 
       const savedTenant = await this.tenantRepository.save(tenant);
 
-      if (this.configService?.isAutoCreateSchemasEnabled()) {
+      await this.onTenantChanged(savedTenant, 'created');
+
+      // Tenants in 'row' isolation only need their record
+      const isolation =
+        tenantDto.isolation ?? this.configService?.getIsolation();
+      if (isolation === 'database') {
+        if (this.configService?.isAutoCreateDatabasesEnabled()) {
+          await this.createTenantDatabase(tenantDto.code, tenantDto.connection);
+        }
+      } else if (
+        isolation !== 'row' &&
+        this.configService?.isAutoCreateSchemasEnabled()
+      ) {
         await this.createTenantSchema(tenantDto.code);
       }
 
@@ -189,6 +237,7 @@ export class TenantAdminService implements ITenantAdminService {
    */
   async update(id: string, updateTenantDto: UpdateTenantDto): Promise<Tenant> {
     const tenant = await this.findOne(id);
+    const { code } = tenant;
 
     try {
       const updateData = { ...updateTenantDto } as Partial<ITenant>;
@@ -209,6 +258,8 @@ export class TenantAdminService implements ITenantAdminService {
       Object.assign(tenant, updateData);
 
       const updatedTenant = await this.tenantRepository.save(tenant);
+      // The code cannot change, but the DTO may carry it as undefined
+      await this.onTenantChanged({ code }, 'updated');
 
       this.logger.log(`Tenant with ID ${id} updated successfully}`);
       return updatedTenant;
@@ -229,6 +280,7 @@ export class TenantAdminService implements ITenantAdminService {
     tenant.deletedAt = new Date();
     tenant.status = TenantStatus.INACTIVE;
     await this.tenantRepository.save(tenant);
+    await this.onTenantChanged(tenant, 'removed');
     this.logger.log(`Tenant with ID ${id} removed successfully}`);
   }
 
@@ -281,6 +333,7 @@ export class TenantAdminService implements ITenantAdminService {
     tenant.status = TenantStatus.ACTIVE;
     tenant.deletedAt = undefined;
     const updatedTenant = await this.tenantRepository.save(tenant);
+    await this.onTenantChanged(updatedTenant, 'activated');
     this.logger.log(`Tenant with ID ${id} activated successfully}`);
     return updatedTenant;
   }
@@ -301,6 +354,7 @@ export class TenantAdminService implements ITenantAdminService {
     tenant.status = TenantStatus.SUSPENDED;
     tenant.deletedAt = new Date();
     const updatedTenant = await this.tenantRepository.save(tenant);
+    await this.onTenantChanged(updatedTenant, 'deactivated');
     this.logger.log(`Tenant with ID ${id} deactivated successfully}`);
     return updatedTenant;
   }
@@ -338,6 +392,249 @@ export class TenantAdminService implements ITenantAdminService {
     return { exists: !!tenant };
   }
 
+  /**
+   * Finds the status of a tenant, including suspended and removed ones
+   *
+   * @param code The tenant code
+   * @returns A promise that resolves to the tenant status and settings
+   */
+  async findStatusByCode(code: string): Promise<TenantStatusInfo> {
+    const tenant = await this.tenantRepository.findOne({
+      where: { code },
+      select: { id: true, status: true, settings: true },
+      order: { deletedAt: { direction: 'DESC', nulls: 'FIRST' } },
+      withDeleted: true,
+    });
+
+    if (!tenant) {
+      throw new NotFoundException(`Tenant with code ${code} not found`);
+    }
+
+    return { status: tenant.status, settings: tenant.settings };
+  }
+
+  /**
+   * Adds a custom domain to a tenant
+   *
+   * @param id The tenant ID
+   * @param createDomainDto The domain creation DTO
+   * @returns A promise that resolves to the unverified domain mapping
+   */
+  async addDomain(
+    id: string,
+    createDomainDto: CreateTenantDomainDto,
+  ): Promise<TenantDomain> {
+    const tenant = await this.findOne(id);
+    const domain = this.parseDomain(createDomainDto.domain);
+
+    const existingDomain = await this.domainRepository.findOne({
+      where: { domain },
+    });
+
+    if (existingDomain) {
+      throw new TenantConflictError(
+        `Domain ${domain} is already mapped to a tenant`,
+      );
+    }
+
+    const tenantDomain = this.domainRepository.create({
+      tenantId: tenant.id,
+      domain,
+      verified: false,
+      verificationToken: generateDomainVerificationToken(),
+    });
+
+    const savedDomain = await this.domainRepository.save(tenantDomain);
+    this.logger.log(`Domain ${domain} added to tenant with ID ${id}`);
+    return savedDomain;
+  }
+
+  /**
+   * Finds the custom domains of a tenant
+   *
+   * @param id The tenant ID
+   * @returns A promise that resolves to the domain mappings of the tenant
+   */
+  async findDomains(id: string): Promise<TenantDomain[]> {
+    await this.findOne(id);
+
+    return this.domainRepository.find({
+      where: { tenantId: id },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Verifies a custom domain by checking its DNS TXT record
+   *
+   * @param id The tenant ID
+   * @param domainId The domain mapping ID
+   * @returns A promise that resolves to the verified domain mapping
+   */
+  async verifyDomain(id: string, domainId: string): Promise<TenantDomain> {
+    const { tenant, tenantDomain } = await this.findDomain(id, domainId);
+
+    if (tenantDomain.verified) {
+      return tenantDomain;
+    }
+
+    const { domain, verificationToken } = tenantDomain;
+
+    if (!(await isDomainVerificationPublished(domain, verificationToken))) {
+      const record = getDomainVerificationRecord(domain, verificationToken);
+      throw new BadRequestException(
+        `Domain ${domain} is not verified. Publish a ${record.type} record ${record.name} with value ${record.value}`,
+      );
+    }
+
+    tenantDomain.verified = true;
+    tenantDomain.verifiedAt = new Date();
+    const verifiedDomain = await this.domainRepository.save(tenantDomain);
+    this.logger.log(`Domain ${domain} verified for tenant with ID ${id}`);
+    await this.onTenantChanged(tenant, 'domainChanged', domain);
+    return verifiedDomain;
+  }
+
+  /**
+   * Removes a custom domain from a tenant
+   *
+   * @param id The tenant ID
+   * @param domainId The domain mapping ID
+   * @returns A promise that resolves when the domain is removed
+   */
+  async removeDomain(id: string, domainId: string): Promise<void> {
+    const { tenant, tenantDomain } = await this.findDomain(id, domainId);
+    const { domain } = tenantDomain;
+    await this.domainRepository.remove(tenantDomain);
+    this.logger.log(`Domain ${domain} removed from tenant with ID ${id}`);
+    await this.onTenantChanged(tenant, 'domainChanged', domain);
+  }
+
+  /**
+   * Finds the tenant mapped to a verified custom domain
+   *
+   * @param domain The custom domain
+   * @returns A promise that resolves to the tenant entity mapped to the domain
+   */
+  async findByDomain(domain: string): Promise<Tenant> {
+    const normalizedDomain = normalizeDomain(domain);
+
+    const tenant = normalizedDomain
+      ? await this.tenantRepository
+          .createQueryBuilder('tenant')
+          .innerJoin('tenant.domains', 'domain')
+          .where('domain.domain = :domain', { domain: normalizedDomain })
+          .andWhere('domain.verified = true')
+          .andWhere('tenant.deletedAt IS NULL')
+          .getOne()
+      : undefined;
+
+    if (!tenant) {
+      throw new NotFoundException(`Tenant with domain ${domain} not found`);
+    }
+
+    return tenant;
+  }
+
+  /**
+   * Repository for custom domains, sharing the admin connection of tenants
+   */
+  private get domainRepository(): Repository<TenantDomain> {
+    return this.tenantRepository.manager.getRepository(TenantDomain);
+  }
+
+  /**
+   * Drops the cached lookups of a changed tenant and closes its pooled
+   * connections, which may serve a stale status or entity list, then tells
+   * the other instances to do the same
+   *
+   * @param tenant The changed tenant
+   * @param type The change made to the tenant
+   * @param domain The custom domain of a 'domainChanged' change
+   */
+  private async onTenantChanged(
+    tenant: Pick<Tenant, 'code'>,
+    type: TenantChangeType,
+    domain?: string,
+  ): Promise<void> {
+    this.validationStrategy?.invalidate?.(tenant.code);
+    if (domain) {
+      this.validationStrategy?.invalidateDomain?.(domain);
+    }
+    if (
+      type !== 'created' &&
+      type !== 'activated' &&
+      type !== 'domainChanged'
+    ) {
+      await this.connectionService?.removeConnection(tenant.code);
+    }
+
+    try {
+      await this.eventTransport?.publish({ type, code: tenant.code, domain });
+    } catch (error) {
+      this.logger.error(
+        `Error publishing tenant change ${type} for ${tenant.code}: ${error}`,
+      );
+    }
+  }
+
+  /**
+   * Finds a domain mapping of a tenant
+   *
+   * @param id The tenant ID
+   * @param domainId The domain mapping ID
+   * @returns A promise that resolves to the tenant and the domain mapping
+   */
+  private async findDomain(
+    id: string,
+    domainId: string,
+  ): Promise<{ tenant: Tenant; tenantDomain: TenantDomain }> {
+    const tenant = await this.findOne(id);
+
+    const tenantDomain = await this.domainRepository.findOne({
+      where: { id: domainId, tenantId: id },
+    });
+
+    if (!tenantDomain) {
+      throw new NotFoundException(
+        `Domain with ID ${domainId} not found for tenant ${id}`,
+      );
+    }
+
+    return { tenant, tenantDomain };
+  }
+
+  /**
+   * Normalizes and validates a custom domain
+   *
+   * @param domain The domain to validate
+   * @returns The normalized domain
+   */
+  private parseDomain(domain: string): string {
+    const normalizedDomain = normalizeDomain(domain);
+
+    if (!normalizedDomain) {
+      throw new TenantValidationError(
+        ['Invalid domain name'],
+        `Domain ${domain} is not a valid host name`,
+      );
+    }
+
+    return normalizedDomain;
+  }
+
+  /**
+   * Maps a tenant code to its schema name with the configured schema naming
+   * strategy, so the runtime finds the schemas the admin API creates
+   *
+   * @param code The tenant code
+   * @returns The schema name, stored as the tenant code
+   */
+  private getSchemaName(code: string): string {
+    const schemaNamingStrategy = this.configService?.getSchemaNamingStrategy();
+    return schemaNamingStrategy ? schemaNamingStrategy(code) : `tenant_${code}`;
+  }
+
   /**
    * Validates whether a schema name is valid for a tenant
    *
@@ -418,4 +715,34 @@ export class TenantAdminService implements ITenantAdminService {
       throw error;
     }
   }
+
+  /**
+   * Creates the database of a tenant in 'database' isolation
+   *
+   * @param tenantCode The tenant code
+   * @param connection The location of the tenant database
+   * @returns A promise that resolves when the database exists
+   */
+  private async createTenantDatabase(
+    tenantCode: string,
+    connection?: TenantDatabaseConnectionInfo,
+  ): Promise<void> {
+    const databaseConfig = await resolveTenantDatabaseConfig(
+      this.configService!.getDatabaseConfig(),
+      tenantCode,
+      connection,
+      this.configService!.getTenantCredentialsResolver(),
+    );
+
+    try {
+      if (await ensureTenantDatabase(databaseConfig, tenantCode)) {
+        this.logger.log(`Database ${databaseConfig.database} created`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error creating database ${databaseConfig.database}: ${error}`,
+      );
+      throw error;
+    }
+  }
 }
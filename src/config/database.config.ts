@@ -2,10 +2,11 @@ import { ConfigService } from '@nestjs/config';
 import { TypeOrmModuleOptions } from '@nestjs/typeorm';
 import { EntitySchema } from 'typeorm';
 
-import { Tenant } from '../admin/entities/tenant.entity';
+import { Tenant, TenantDomain } from '../admin/entities/tenant.entity';
 import { EntityName } from '../constants';
 import { DatabaseConfig } from '../core/interfaces/typeorm.interface';
 import { getEntityClasses } from '../core/utils/entity-registry.utils';
+import { getReplicaConfig } from '../core/utils/read-replica.utils';
 
 /**
  * Configures the database connection for administrative operations.
@@ -40,7 +41,7 @@ export const getAdminDatabaseConfig = (
     synchronize: config.synchronize,
     logging: config.logging,
     ssl: config.ssl,
-    entities: [Tenant], // Only administrative entities
+    entities: [Tenant, TenantDomain], // Only administrative entities
     migrations: [__dirname + '/../migrations/admin/*{.ts,.js}'],
     migrationsRun: false,
   };
@@ -48,6 +49,32 @@ export const getAdminDatabaseConfig = (
 
 type Entities = (string | (new () => unknown) | EntitySchema<unknown>)[];
 
+const toCredentials = ({
+  host,
+  port,
+  username,
+  password,
+  database,
+  ssl,
+}: DatabaseConfig) => ({ host, port, username, password, database, ssl });
+
+/**
+ * Builds the TypeORM replication options of a database with read replicas.
+ * Reads use the primary unless they run in a read-only scope.
+ */
+const getReplicationOptions = (config: DatabaseConfig) =>
+  config.replicas?.length
+    ? {
+        replication: {
+          master: toCredentials(config),
+          slaves: config.replicas.map(replica =>
+            toCredentials(getReplicaConfig(config, replica)),
+          ),
+          defaultMode: 'master' as const,
+        },
+      }
+    : {};
+
 /**
  * Configures the database connection for multi-tenant operations.
  * This connection is used to load tenant-specific entities and migrations.
@@ -99,6 +126,8 @@ export const getMultiTenantDatabaseConfig = (
     synchronize: config.synchronize,
     logging: config.logging,
     ssl: config.ssl,
+    poolSize: config.poolSize,
+    ...getReplicationOptions(config),
     entities: entities as Entities,
     migrations: [__dirname + '/../migrations/tenant/*{.ts,.js}'],
     migrationsRun: false,
@@ -0,0 +1,30 @@
+import { Inject } from '@nestjs/common';
+
+import { getTenantClientToken } from '../utils/generate-token.provider';
+
+/**
+ * Inject the TenantClientProxy registered with `createTenantClientProvider`.
+ *
+ * @param clientToken The injection token of the wrapped ClientProxy.
+ * @returns The parameter decorator.
+ *
+ * @example
+ * ```ts
+ * @Injectable()
+ * export class OrderService {
+ *   constructor(
+ *     @InjectTenantClient('ORDERS_SERVICE')
+ *     private readonly ordersClient: TenantClientProxy,
+ *   ) {}
+ *
+ *   findOrders() {
+ *     return this.ordersClient.send({ cmd: 'orders.find' }, {});
+ *   }
+ * }
+ * ```
+ */
+export function InjectTenantClient(
+  clientToken: string | symbol,
+): ParameterDecorator {
+  return Inject(getTenantClientToken(clientToken));
+}
@@ -2,10 +2,19 @@ import { Inject } from '@nestjs/common';
 
 import { TOKEN_CONSTANTS } from '../utils/generate-token.provider';
 
+export interface InjectTenantDbOptions {
+  /**
+   * Inject an instance whose queries always run on the read replicas of the
+   * tenant database, or on the primary when it has none (default: false)
+   */
+  readOnly?: boolean;
+}
+
 /**
  * Inject the tenant Drizzle database instance (Drizzle only).
  * This decorator should only be used when the module is configured with Drizzle ORM.
  *
+ * @param options - The injection options
  * @returns The parameter decorator.
  *
  * @example
@@ -15,12 +24,21 @@ import { TOKEN_CONSTANTS } from '../utils/generate-token.provider';
  *   constructor(
  *     @InjectTenantDb()
  *     private readonly db: NodePgDatabase,
+ *
+ *     @InjectTenantDb({ readOnly: true })
+ *     private readonly readDb: NodePgDatabase,
  *   ) {}
  * }
  * ```
  */
-export function InjectTenantDb(): ParameterDecorator {
-  return Inject(TOKEN_CONSTANTS.DRIZZLE_DB);
+export function InjectTenantDb(
+  options: InjectTenantDbOptions = {},
+): ParameterDecorator {
+  return Inject(
+    options.readOnly
+      ? TOKEN_CONSTANTS.DRIZZLE_READ_DB
+      : TOKEN_CONSTANTS.DRIZZLE_DB,
+  );
 }
 
 /**
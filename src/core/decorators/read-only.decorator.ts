@@ -0,0 +1,23 @@
+import { UseInterceptors } from '@nestjs/common';
+
+import { ReadOnlyInterceptor } from '../interceptors/read-only.interceptor';
+
+/**
+ * Routes the tenant queries of a route to the read replicas of the tenant
+ * database. Queries fall back to the primary while no replica is available.
+ * Can be applied to a controller or a single handler.
+ *
+ * @returns The method or class decorator.
+ *
+ * @example
+ * ```ts
+ * @ReadOnly()
+ * @Get('reports')
+ * getReports() {
+ *   return this.reportRepository.find();
+ * }
+ * ```
+ */
+export function ReadOnly(): MethodDecorator & ClassDecorator {
+  return UseInterceptors(ReadOnlyInterceptor);
+}
@@ -0,0 +1,79 @@
+import { CustomDecorator, SetMetadata } from '@nestjs/common';
+
+/**
+ * Metadata key read by the TenantGuard
+ */
+export const TENANT_REQUIREMENT_KEY = 'multitenant:tenant-requirement';
+
+/**
+ * How strictly a route requires a tenant
+ * - 'required': reject requests without a known tenant
+ * - 'optional': allow requests with or without a tenant
+ * - 'public': skip tenant checks entirely
+ */
+export type TenantRequirementLevel = 'required' | 'optional' | 'public';
+
+export interface TenantRequirement {
+  level: TenantRequirementLevel;
+
+  /**
+   * Accept the configured default tenant when no tenant was resolved
+   * from the request (default: false)
+   */
+  allowDefault?: boolean;
+}
+
+export interface RequireTenantOptions {
+  /**
+   * Accept the configured default tenant when no tenant was resolved
+   * from the request (default: false)
+   */
+  allowDefault?: boolean;
+}
+
+/**
+ * Rejects requests without a tenant, or with a tenant that does not exist.
+ * Can be applied to a controller or a single handler.
+ *
+ * @param options - The requirement options
+ * @returns The method or class decorator.
+ *
+ * @example
+ * ```ts
+ * @RequireTenant()
+ * @Controller('orders')
+ * export class OrdersController {}
+ * ```
+ */
+export function RequireTenant(
+  options: RequireTenantOptions = {},
+): CustomDecorator<string> {
+  return SetMetadata<string, TenantRequirement>(TENANT_REQUIREMENT_KEY, {
+    level: 'required',
+    allowDefault: options.allowDefault,
+  });
+}
+
+/**
+ * Allows requests without a tenant, overriding `requireTenant` or a
+ * controller-level `@RequireTenant()`.
+ *
+ * @returns The method or class decorator.
+ */
+export function TenantOptional(): CustomDecorator<string> {
+  return SetMetadata<string, TenantRequirement>(TENANT_REQUIREMENT_KEY, {
+    level: 'optional',
+  });
+}
+
+/**
+ * Marks a route as not tenant-scoped (health checks, admin endpoints),
+ * skipping every tenant check.
+ *
+ * @returns The method or class decorator.
+ */
+export function PublicRoute(): CustomDecorator<string> {
+  return SetMetadata<string, TenantRequirement>(TENANT_REQUIREMENT_KEY, {
+    level: 'public',
+  });
+}
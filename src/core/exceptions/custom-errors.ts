@@ -37,6 +37,17 @@ export class ConnectionPoolExhaustedError extends Error {
   }
 }
 
+export class TenantUnavailableError extends Error {
+  constructor(
+    public readonly tenantCode: string,
+    public readonly retryAfter: number,
+    message: string = `Tenant ${tenantCode} is unavailable, retry in ${retryAfter}s`,
+  ) {
+    super(message);
+    this.name = 'TenantUnavailableError';
+  }
+}
+
 export class InvalidConnectionTypeError extends Error {
   constructor(
     public readonly connectionType: string,
@@ -77,3 +88,48 @@ export class TransactionFailedError extends Error {
     this.name = 'TransactionFailedError';
   }
 }
+
+export class TenantResolutionConflictError extends Error {
+  constructor(
+    public readonly candidates: Array<{ source: string; tenantId: string }>,
+    message: string = `Tenant resolution strategies disagree: ${candidates
+      .map(candidate => candidate.source)
+      .join(', ')}`,
+  ) {
+    super(message);
+    this.name = 'TenantResolutionConflictError';
+  }
+}
+
+export class InvalidTenantTokenError extends Error {
+  constructor(
+    public readonly reason: string,
+    message: string = `Invalid tenant token: ${reason}`,
+  ) {
+    super(message);
+    this.name = 'InvalidTenantTokenError';
+  }
+}
+
+export class JwtVerificationConfigError extends Error {
+  constructor(
+    public readonly reason: string,
+    message: string = `Invalid JWT verification configuration: ${reason}`,
+  ) {
+    super(message);
+    this.name = 'JwtVerificationConfigError';
+  }
+}
+
+export class TenantNotActiveError extends Error {
+  constructor(
+    public readonly tenantCode: string,
+    public readonly status: string,
+    public readonly statusCode: number,
+    public readonly reason?: string,
+    message: string = `Tenant ${tenantCode} is ${status}${reason ? `: ${reason}` : ''}`,
+  ) {
+    super(message);
+    this.name = 'TenantNotActiveError';
+  }
+}
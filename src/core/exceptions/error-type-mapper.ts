@@ -162,6 +162,24 @@ export class ErrorTypeMapper {
     const err = error as { name?: string };
     const errorName = err.name ?? '';
 
+    // Status rejections carry the HTTP status of the configured policy
+    if (errorName === 'TenantNotActiveError') {
+      const statusError = error as {
+        status?: string;
+        statusCode?: number;
+        reason?: string;
+      };
+      const status = statusError.status ?? 'inactive';
+      return {
+        statusCode: statusError.statusCode ?? HttpStatus.FORBIDDEN,
+        message: statusError.reason
+          ? `Tenant is ${status}: ${statusError.reason}`
+          : `Tenant is ${status}`,
+        errorCode: `TENANT_${status.toUpperCase()}`,
+        category: 'TENANT',
+      };
+    }
+
     const tenantErrorMappings: Record<string, ErrorMapping> = {
       NoTenantContextError: {
         statusCode: HttpStatus.BAD_REQUEST,
@@ -187,6 +205,12 @@ export class ErrorTypeMapper {
         errorCode: 'CONNECTION_POOL_EXHAUSTED',
         category: 'CONNECTION',
       },
+      TenantUnavailableError: {
+        statusCode: HttpStatus.SERVICE_UNAVAILABLE,
+        message: 'Tenant database temporarily unavailable',
+        errorCode: 'TENANT_UNAVAILABLE',
+        category: 'CONNECTION',
+      },
       InvalidConnectionTypeError: {
         statusCode: HttpStatus.BAD_REQUEST,
         message: 'Invalid database connection type',
@@ -211,6 +235,18 @@ export class ErrorTypeMapper {
         errorCode: 'TRANSACTION_FAILED',
         category: 'DATABASE',
       },
+      TenantResolutionConflictError: {
+        statusCode: HttpStatus.BAD_REQUEST,
+        message: 'Request resolves to conflicting tenants',
+        errorCode: 'TENANT_RESOLUTION_CONFLICT',
+        category: 'TENANT',
+      },
+      InvalidTenantTokenError: {
+        statusCode: HttpStatus.UNAUTHORIZED,
+        message: 'Tenant token is invalid',
+        errorCode: 'INVALID_TENANT_TOKEN',
+        category: 'TENANT',
+      },
     };
 
     return (
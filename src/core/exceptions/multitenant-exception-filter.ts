@@ -1,6 +1,7 @@
 import {
   ArgumentsHost,
   Catch,
+  ContextType,
   ExceptionFilter,
   HttpException,
   HttpStatus,
@@ -8,6 +9,7 @@ import {
 } from '@nestjs/common';
 // Import custom errors
 import { DrizzleQueryError } from 'drizzle-orm';
+import { throwError } from 'rxjs';
 import { TypeORMError } from 'typeorm';
 
 import {
@@ -18,9 +20,13 @@ import {
   ConnectionPoolExhaustedError,
   InvalidConnectionTypeError,
   InvalidTenantCodeError,
+  InvalidTenantTokenError,
   NoTenantContextError,
   SchemaNotFoundError,
   TenantConflictError,
+  TenantNotActiveError,
+  TenantResolutionConflictError,
+  TenantUnavailableError,
   TenantValidationError,
   TransactionFailedError,
 } from './custom-errors';
@@ -61,12 +67,29 @@ interface FastifyRequest {
   };
 }
 
+type HostType = ContextType | 'graphql';
+
+interface WsClient {
+  emit?(event: string, data: unknown): unknown;
+  handshake?: unknown;
+}
+
 @Injectable()
 @Catch()
 export class MultitenantExceptionFilter implements ExceptionFilter {
   private readonly structuredLogger = new StructuredLogger();
 
-  catch(exception: unknown, host: ArgumentsHost): void {
+  catch(exception: unknown, host: ArgumentsHost): unknown {
+    const type = host.getType<HostType>();
+    if (type !== 'http') {
+      return this.catchNonHttp(exception, host, type);
+    }
+
+    this.catchHttp(exception, host);
+    return;
+  }
+
+  private catchHttp(exception: unknown, host: ArgumentsHost): void {
     const ctx = host.switchToHttp();
     const response = ctx.getResponse<ExpressResponse | FastifyResponse>();
     const request = ctx.getRequest<ExpressRequest | FastifyRequest>();
@@ -82,6 +105,10 @@ export class MultitenantExceptionFilter implements ExceptionFilter {
     if (context.tenantCode) {
       this.setResponseHeader(response, 'X-Tenant-Code', context.tenantCode);
     }
+    const retryAfter = errorResponse.error.details?.connection?.retryAfter;
+    if (retryAfter !== undefined) {
+      this.setResponseHeader(response, 'Retry-After', String(retryAfter));
+    }
 
     // Log the error with full context
     this.logError(exception, context, errorResponse);
@@ -90,6 +117,67 @@ export class MultitenantExceptionFilter implements ExceptionFilter {
     this.sendResponse(response, errorResponse.error.statusCode, errorResponse);
   }
 
+  /**
+   * Handles errors of GraphQL resolvers, WebSocket gateways and microservice
+   * handlers, which have no HTTP response to write to.
+   * - graphql: returns an error carrying the response in its `extensions`
+   * - ws: emits an `exception` event with the response to the client
+   * - rpc: returns an observable erroring with the response error
+   */
+  private catchNonHttp(
+    exception: unknown,
+    host: ArgumentsHost,
+    type: HostType,
+  ): unknown {
+    const request = this.getNonHttpRequest(host, type);
+    const context = this.structuredLogger.extractContextFromRequest(
+      this.convertToSupportedRequest(request),
+    );
+    const errorResponse = this.buildErrorResponse(exception, context);
+
+    this.logError(exception, context, errorResponse);
+
+    if (type === 'ws') {
+      const client = host.switchToWs().getClient<WsClient>();
+      client?.emit?.('exception', errorResponse);
+      return;
+    }
+
+    if (type === 'rpc') {
+      return throwError(() => errorResponse.error);
+    }
+
+    return Object.assign(new Error(errorResponse.error.message), {
+      extensions: { ...errorResponse.error },
+    });
+  }
+
+  /**
+   * Finds the request behind a non-HTTP context for the log context: the
+   * HTTP request of a GraphQL operation or the handshake of a socket.io
+   * client.
+   */
+  private getNonHttpRequest(
+    host: ArgumentsHost,
+    type: HostType,
+  ): ExpressRequest | FastifyRequest {
+    let request: unknown;
+
+    if (type === 'graphql') {
+      const gqlContext = host.getArgByIndex<
+        { req?: unknown; extra?: { request?: unknown } } | undefined
+      >(2);
+      request = gqlContext?.req ?? gqlContext?.extra?.request;
+    } else if (type === 'ws') {
+      request = host.switchToWs().getClient<WsClient>()?.handshake;
+    }
+
+    const { headers } = (request ?? {}) as { headers?: unknown };
+    return headers && typeof headers === 'object'
+      ? (request as ExpressRequest | FastifyRequest)
+      : { headers: {}, method: type.toUpperCase() };
+  }
+
   private convertToSupportedRequest(
     request: ExpressRequest | FastifyRequest,
   ): SupportedRequest {
@@ -151,7 +239,11 @@ export class MultitenantExceptionFilter implements ExceptionFilter {
       exception instanceof InvalidConnectionTypeError ||
       exception instanceof TenantValidationError ||
       exception instanceof TenantConflictError ||
-      exception instanceof TransactionFailedError
+      exception instanceof TransactionFailedError ||
+      exception instanceof TenantResolutionConflictError ||
+      exception instanceof InvalidTenantTokenError ||
+      exception instanceof TenantNotActiveError ||
+      exception instanceof TenantUnavailableError
     ) {
       errorMapping = ErrorTypeMapper.mapTenantError(exception);
       originalError = exception;
@@ -267,6 +359,25 @@ export class MultitenantExceptionFilter implements ExceptionFilter {
           conflictingCode: error.tenantCode,
         };
       }
+      if (error instanceof TenantResolutionConflictError) {
+        details.tenant = {
+          conflictingSources: error.candidates.map(
+            candidate => candidate.source,
+          ),
+        };
+      }
+      if (error instanceof InvalidTenantTokenError) {
+        details.tenant = {
+          tokenError: error.reason,
+        };
+      }
+      if (error instanceof TenantNotActiveError) {
+        details.tenant = {
+          code: error.tenantCode,
+          status: error.status,
+          reason: error.reason,
+        };
+      }
     }
 
     if (
@@ -280,6 +391,18 @@ export class MultitenantExceptionFilter implements ExceptionFilter {
       };
     }
 
+    if (
+      mapping.category === 'CONNECTION' &&
+      error instanceof TenantUnavailableError
+    ) {
+      // Remaining backoff of the tenant's open circuit
+      details.connection = {
+        tenantCode: error.tenantCode,
+        retryAfter: error.retryAfter,
+        suggestion: `Retry after ${error.retryAfter} seconds`,
+      };
+    }
+
     return Object.keys(details).length > 0 ? details : undefined;
   }
 
@@ -0,0 +1,137 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Inject,
+  Injectable,
+  Logger,
+  Optional,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+
+import {
+  TENANT_REQUIREMENT_KEY,
+  TenantRequirement,
+} from '../decorators/tenant-requirement.decorator';
+import {
+  NoTenantContextError,
+  SchemaNotFoundError,
+} from '../exceptions/custom-errors';
+import { IMultiTenantConfigService } from '../interfaces/tenant.interface';
+import {
+  TenantExpressRequest,
+  TenantFastifyRequest,
+} from '../interfaces/tenant-middleware.interface';
+import {
+  ITenantValidationStrategy,
+  TENANT_VALIDATION_STRATEGY,
+} from '../interfaces/tenant-validation.interface';
+import { TenantContext } from '../services/async-local-tenant-context.service';
+import { MULTI_TENANT_CONFIG_SERVICE } from '../services/multi-tenant-config.service';
+import { checkTenantAvailable } from '../utils/tenant-status.utils';
+
+type TenantRequest = (TenantExpressRequest | TenantFastifyRequest) & {
+  raw?: Pick<TenantExpressRequest, 'tenant'>;
+};
+
+/**
+ * Global guard enforcing the tenant requirement of each route.
+ * Routes marked with `@RequireTenant()` (or every route when `requireTenant`
+ * is enabled) are rejected up front with NoTenantContextError when no tenant
+ * was resolved, with SchemaNotFoundError when the tenant does not exist and
+ * with TenantNotActiveError when its status is not allowed.
+ *
+ * The guard is a singleton: it reads the tenant the middleware set on the
+ * request, or the tenant of TenantContext.
+ */
+@Injectable()
+export class TenantGuard implements CanActivate {
+  private readonly logger = new Logger(TenantGuard.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+
+    @Inject(MULTI_TENANT_CONFIG_SERVICE)
+    private readonly configService: IMultiTenantConfigService,
+
+    @Optional()
+    @Inject(TENANT_VALIDATION_STRATEGY)
+    private readonly validationStrategy?: ITenantValidationStrategy,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (context.getType() !== 'http') return true;
+
+    const requirement = this.getRequirement(context);
+    if (requirement.level !== 'required') return true;
+
+    const request = context.switchToHttp().getRequest<TenantRequest>();
+    const tenant = request.tenant ?? request.raw?.tenant;
+    const current = TenantContext.current();
+    const tenantId = tenant ? tenant.id : current?.tenantId;
+    const tenantSchema = tenant ? tenant.schema : current?.tenantSchema;
+    const source = tenant?.source;
+
+    if (
+      !tenantId ||
+      !tenantSchema ||
+      (source === 'default' && !requirement.allowDefault)
+    ) {
+      throw new NoTenantContextError();
+    }
+
+    await this.validateTenant(tenantId, tenantSchema);
+    return true;
+  }
+
+  /**
+   * Reads the requirement from the handler, then the controller, falling
+   * back to the module-wide `requireTenant` option.
+   * @param context - The execution context
+   * @returns The tenant requirement of the route
+   */
+  private getRequirement(context: ExecutionContext): TenantRequirement {
+    const requirement = this.reflector.getAllAndOverride<
+      TenantRequirement | undefined
+    >(TENANT_REQUIREMENT_KEY, [context.getHandler(), context.getClass()]);
+
+    if (requirement) return requirement;
+
+    return {
+      level: this.configService.getAllOptions().requireTenant
+        ? 'required'
+        : 'optional',
+    };
+  }
+
+  /**
+   * Checks that the tenant exists and that its status is allowed, like the
+   * connection service does before opening a connection.
+   * @param tenantId - The resolved tenant ID
+   * @param schema - The tenant schema
+   * @throws SchemaNotFoundError if the tenant does not exist
+   * @throws TenantNotActiveError if the tenant status is not allowed
+   */
+  private async validateTenant(
+    tenantId: string,
+    schema: string,
+  ): Promise<void> {
+    if (
+      !this.validationStrategy ||
+      schema === 'public' ||
+      schema === 'default'
+    ) {
+      return;
+    }
+
+    const tenantExists = await checkTenantAvailable(
+      this.validationStrategy,
+      schema,
+      this.configService.getTenantStatusPolicy(),
+    );
+
+    if (!tenantExists) {
+      this.logger.debug(`Rejected request for unknown tenant: ${tenantId}`);
+      throw new SchemaNotFoundError(tenantId);
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+
+import { ReadOnlyScope } from '../utils/read-replica.utils';
+
+/**
+ * Runs the handler in a read-only scope, so its tenant queries run on the
+ * read replicas. Applied by `@ReadOnly()`.
+ */
+@Injectable()
+export class ReadOnlyInterceptor implements NestInterceptor {
+  intercept(
+    _context: ExecutionContext,
+    next: CallHandler,
+  ): Observable<unknown> {
+    return new Observable(subscriber =>
+      ReadOnlyScope.run(() => next.handle().subscribe(subscriber)),
+    );
+  }
+}
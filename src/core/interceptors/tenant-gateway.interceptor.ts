@@ -0,0 +1,100 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Inject,
+  Injectable,
+  Logger,
+  NestInterceptor,
+  Optional,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+
+import {
+  IMultiTenantConfigService,
+  ITenantConnectionService,
+} from '../interfaces/tenant.interface';
+import { MULTI_TENANT_CONFIG_SERVICE } from '../services/multi-tenant-config.service';
+import { TENANT_CONNECTION_SERVICE } from '../services/tenant-connection.service';
+import { TenantHandshakeResolver } from '../services/tenant-handshake-resolver.service';
+import { handleInTenantScope } from '../utils/tenant-scope.utils';
+
+/**
+ * Global interceptor setting the tenant context for `@WebSocketGateway`
+ * message handlers and GraphQL resolvers. Gateway clients use the tenant
+ * bound on connection (see TenantHandshakeResolver); resolvers use the
+ * `tenantId` added by `createGraphQLContext()` or resolved by the middleware.
+ */
+@Injectable()
+export class TenantGatewayInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(TenantGatewayInterceptor.name);
+
+  constructor(
+    @Inject(MULTI_TENANT_CONFIG_SERVICE)
+    private readonly configService: IMultiTenantConfigService,
+
+    private readonly handshakeResolver: TenantHandshakeResolver,
+
+    @Optional()
+    @Inject(TENANT_CONNECTION_SERVICE)
+    private readonly connectionService?: ITenantConnectionService,
+  ) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    const type = context.getType<string>();
+    let tenantId: string | undefined;
+
+    if (type === 'ws') {
+      tenantId = await this.resolveClientTenant(
+        context.switchToWs().getClient(),
+      );
+    } else if (type === 'graphql') {
+      tenantId = this.resolveGraphQLTenant(context.getArgByIndex(2));
+    } else {
+      return next.handle();
+    }
+
+    if (!tenantId) {
+      this.logger.debug(`[${type.toUpperCase()}] No tenant found for handler`);
+      return next.handle();
+    }
+
+    return handleInTenantScope(tenantId, next, {
+      schemaNamingStrategy: this.configService.getSchemaNamingStrategy(),
+      connectionService: this.connectionService,
+      logger: this.logger,
+      label: `[${type.toUpperCase()}]`,
+    });
+  }
+
+  /**
+   * Returns the tenant bound to the client, binding socket.io clients from
+   * their handshake on the first message.
+   * @param client - The socket
+   * @returns The tenant ID or undefined
+   */
+  private async resolveClientTenant(
+    client: unknown,
+  ): Promise<string | undefined> {
+    if (typeof client !== 'object' || client === null) return undefined;
+
+    return (
+      this.handshakeResolver.getClientTenant(client) ??
+      (await this.handshakeResolver.bindClient(client))
+    );
+  }
+
+  /**
+   * Reads the tenant of a GraphQL operation from its context.
+   * @param gqlContext - The GraphQL context
+   * @returns The tenant ID or undefined
+   */
+  private resolveGraphQLTenant(gqlContext: unknown): string | undefined {
+    const context = gqlContext as
+      | { tenantId?: string; req?: { tenant?: { id?: string } } }
+      | undefined;
+    return context?.tenantId ?? context?.req?.tenant?.id;
+  }
+}
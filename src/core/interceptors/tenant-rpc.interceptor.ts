@@ -0,0 +1,92 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Inject,
+  Injectable,
+  Logger,
+  NestInterceptor,
+  Optional,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+
+import {
+  IMultiTenantConfigService,
+  ITenantConnectionService,
+} from '../interfaces/tenant.interface';
+import { MULTI_TENANT_CONFIG_SERVICE } from '../services/multi-tenant-config.service';
+import { TENANT_CONNECTION_SERVICE } from '../services/tenant-connection.service';
+import { extractRpcTenant } from '../utils/rpc-tenant.utils';
+import { handleInTenantScope } from '../utils/tenant-scope.utils';
+
+/**
+ * Global interceptor setting the tenant context for `@MessagePattern` and
+ * `@EventPattern` handlers. The tenant is read from the message payload or
+ * headers (see `microservices` options), falling back to the default tenant.
+ * HTTP requests are left to the tenant middleware.
+ *
+ * Registered when the `microservices` option is set. The interceptor is a
+ * singleton: the handler runs inside the tenant context, which the
+ * request-scoped context service of the message also reads.
+ */
+@Injectable()
+export class TenantRpcInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(TenantRpcInterceptor.name);
+
+  constructor(
+    @Inject(MULTI_TENANT_CONFIG_SERVICE)
+    private readonly configService: IMultiTenantConfigService,
+
+    @Optional()
+    @Inject(TENANT_CONNECTION_SERVICE)
+    private readonly connectionService?: ITenantConnectionService,
+  ) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    if (context.getType() !== 'rpc') return next.handle();
+
+    const rpc = context.switchToRpc();
+    const tenantId =
+      (await this.resolveTenantId(rpc.getData(), rpc.getContext())) ||
+      this.configService.getTenantResolutionConfig().defaultTenant;
+
+    if (!tenantId) {
+      this.logger.debug(
+        '[RPC] No tenant found in message and no default tenant configured',
+      );
+      return next.handle();
+    }
+
+    return handleInTenantScope(tenantId, next, {
+      schemaNamingStrategy: this.configService.getSchemaNamingStrategy(),
+      connectionService: this.connectionService,
+      logger: this.logger,
+      label: '[RPC]',
+    });
+  }
+
+  /**
+   * Resolves the tenant ID of the message with the configured extractor.
+   * @param data - The message payload
+   * @param rpcContext - The transport context
+   * @returns The tenant ID or undefined
+   */
+  private async resolveTenantId(
+    data: unknown,
+    rpcContext: unknown,
+  ): Promise<string | undefined> {
+    const config = this.configService.getMicroserviceConfig() || {};
+
+    try {
+      const tenantId = config.extractor
+        ? await config.extractor(data, rpcContext)
+        : extractRpcTenant(data, rpcContext, config);
+      return tenantId?.trim() || undefined;
+    } catch (error) {
+      this.logger.error('[RPC] Error resolving tenant context:', error);
+      return undefined;
+    }
+  }
+}
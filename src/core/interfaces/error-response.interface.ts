@@ -20,9 +20,14 @@ export interface ErrorDetails {
     invalidCode?: string;
     validationErrors?: string[];
     conflictingCode?: string;
+    conflictingSources?: string[];
+    tokenError?: string;
+    status?: string;
+    reason?: string;
   };
   connection?: {
     tenantCode?: string;
+    retryAfter?: number;
     suggestion?: string;
   };
   database?: {
@@ -5,12 +5,21 @@ import type {
   ObjectLiteral,
   Repository,
 } from 'typeorm';
+import type { DatabaseConfig, TenantPoolSettings } from './typeorm.interface';
 
 /**
  * Supported ORM types
  */
 export type OrmType = 'typeorm' | 'drizzle';
 
+/**
+ * How tenant connections map to database connections
+ * - 'pool-per-tenant': each tenant gets its own pool, bound to its schema
+ * - 'shared-pool': every tenant uses one pool; each unit of work checks out a
+ *   client and sets its search_path to the tenant schema
+ */
+export type ConnectionMode = 'pool-per-tenant' | 'shared-pool';
+
 /**
  * Base ORM connection interface
  * Abstracts the connection type to support multiple ORMs
@@ -35,6 +44,12 @@ export interface ITypeOrmConnection extends IOrmConnection {
 export interface IDrizzleConnection extends IOrmConnection {
   readonly type: 'drizzle';
   readonly db: NodePgDatabase;
+
+  /**
+   * Drizzle instance reading from the read replicas, when the database has
+   * any
+   */
+  readonly readDb?: NodePgDatabase;
   readonly pool: unknown; // Pool from pg
 }
 
@@ -57,6 +72,31 @@ export interface IDrizzleDbProvider {
   getDb(): NodePgDatabase;
 }
 
+/**
+ * Where a tenant connection points when the tenant is not isolated by a
+ * schema of the shared database, and how its pool is sized
+ */
+export interface TenantConnectionTarget {
+  /**
+   * Database of the tenant, in 'database' isolation
+   */
+  database?: DatabaseConfig;
+
+  /**
+   * Shared tables and the ID of the tenant whose rows are visible, in 'row'
+   * isolation
+   */
+  rowLevel?: {
+    schema: string;
+    tenant: string;
+  };
+
+  /**
+   * Settings of the pool of the tenant, when it has a pool of its own
+   */
+  pool?: TenantPoolSettings;
+}
+
 /**
  * ORM strategy interface
  * Defines how to create and manage connections for different ORMs
@@ -65,11 +105,13 @@ export interface IOrmStrategy {
   readonly type: OrmType;
 
   /**
-   * Create a new connection for the specified schema
+   * Create a new connection for the specified schema, or for the target of
+   * tenants in 'database' or 'row' isolation
    */
   createConnection(
     schema: string,
     enabledEntities?: string[],
+    target?: TenantConnectionTarget,
   ): Promise<TenantOrmConnection>;
 
   /**
@@ -81,6 +123,12 @@ export interface IOrmStrategy {
    * Destroy a connection
    */
   destroyConnection(connection: TenantOrmConnection): Promise<void>;
+
+  /**
+   * Close resources shared by the connections of every tenant, such as the
+   * pool of the 'shared-pool' mode
+   */
+  dispose?(): Promise<void>;
 }
 
 /**
@@ -126,6 +174,13 @@ export interface OrmConfig {
      * Enable query logging
      */
     logger?: boolean;
+
+    /**
+     * Check `current_schema()` on every client checkout of a tenant pool and
+     * close clients bound to another schema. Meant for debugging, as it adds
+     * a query per checkout (default: false)
+     */
+    verifySchema?: boolean;
   };
 }
 
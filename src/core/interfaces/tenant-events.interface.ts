@@ -0,0 +1,77 @@
+/**
+ * Change made to a tenant by the admin services
+ */
+export type TenantChangeType =
+  | 'created'
+  | 'updated'
+  | 'removed'
+  | 'activated'
+  | 'deactivated'
+  | 'domainChanged';
+
+/**
+ * Event published when a tenant changes, so every instance can drop what it
+ * holds for the tenant
+ */
+export interface TenantChangeEvent {
+  type: TenantChangeType;
+
+  /**
+   * The tenant code (schema name)
+   */
+  code: string;
+
+  /**
+   * The custom domain verified or removed by a 'domainChanged' event
+   */
+  domain?: string;
+}
+
+export type TenantChangeHandler = (
+  event: TenantChangeEvent,
+) => void | Promise<void>;
+
+/**
+ * Bus that carries tenant change events between the instances of an
+ * application. Events are delivered to every subscriber, including the
+ * instance that published them.
+ */
+export interface ITenantEventTransport {
+  /**
+   * Publishes an event to every instance
+   */
+  publish(event: TenantChangeEvent): Promise<void>;
+
+  /**
+   * Calls the handler for every event published from now on
+   */
+  subscribe(handler: TenantChangeHandler): Promise<void>;
+
+  /**
+   * Stops delivering events and releases the connection to the bus
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Cluster-wide invalidation of tenant caches and connections
+ */
+export interface TenantEventsConfig {
+  /**
+   * Enable tenant change events (default: true)
+   */
+  enabled?: boolean;
+
+  /**
+   * Bus of the events: Postgres LISTEN/NOTIFY on the admin database, or a
+   * TENANT_EVENT_TRANSPORT provider of the application (default: 'postgres')
+   */
+  transport?: 'postgres' | 'custom';
+
+  /**
+   * Postgres channel of the events (default: 'tenant_changes')
+   */
+  channel?: string;
+}
+
+export const TENANT_EVENT_TRANSPORT = Symbol('ITenantEventTransport');
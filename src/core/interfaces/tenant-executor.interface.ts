@@ -0,0 +1,44 @@
+import { Type } from '@nestjs/common';
+
+import { TenantStatus } from '../../constants';
+
+/**
+ * Tenant scope passed to functions run by the TenantExecutor
+ */
+export interface TenantExecutionContext {
+  tenantId: string;
+  tenantSchema: string;
+
+  /**
+   * Resolves a provider bound to this tenant, such as a tenant repository
+   * (`getTenantRepositoryToken(User)`) or a service injecting one.
+   *
+   * @param token - The provider class or injection token
+   */
+  resolve<T = unknown>(token: Type<T> | string | symbol): Promise<T>;
+}
+
+export interface ForEachTenantOptions {
+  /**
+   * Number of tenants processed in parallel (default: 1)
+   */
+  concurrency?: number;
+
+  /**
+   * Only process tenants with these statuses (default: active)
+   */
+  statusFilter?: TenantStatus | TenantStatus[];
+
+  /**
+   * Keep processing the remaining tenants after a failure (default: false).
+   * When disabled no new tenant is started after the first failure.
+   */
+  continueOnError?: boolean;
+}
+
+/**
+ * Outcome of a function run for one tenant by `forEachTenant`
+ */
+export type TenantExecutionResult<T> =
+  | { tenantId: string; status: 'fulfilled'; value: T }
+  | { tenantId: string; status: 'rejected'; error: unknown };
@@ -1,6 +1,8 @@
 import { NextFunction, Request, Response } from 'express';
 import { FastifyReply, FastifyRequest } from 'fastify';
 
+import { TenantResolutionSource } from './tenant.interface';
+
 /**
  * Extended Express request with tenant information
  */
@@ -8,6 +10,7 @@ export interface TenantExpressRequest extends Request {
   tenant?: {
     id: string | undefined;
     schema: string | undefined;
+    source?: TenantResolutionSource;
   };
 }
 
@@ -18,6 +21,7 @@ export interface TenantFastifyRequest extends FastifyRequest {
   tenant?: {
     id: string | undefined;
     schema: string | undefined;
+    source?: TenantResolutionSource;
   };
 }
 
@@ -0,0 +1,105 @@
+/**
+ * Platform-independent view of an incoming request, passed to TenantResolver
+ * implementations so the same resolver works on Express and Fastify.
+ */
+export interface TenantResolverRequest {
+  method: string;
+
+  /**
+   * The original request URL, including the query string
+   */
+  url: string;
+
+  /**
+   * The URL path without the query string
+   */
+  path: string;
+
+  /**
+   * Host name without port, lowercased
+   */
+  hostname?: string;
+
+  ip?: string;
+
+  /**
+   * Request headers with lowercased names
+   */
+  headers: Record<string, string | string[] | undefined>;
+
+  /**
+   * Parsed query string parameters
+   */
+  query: Record<string, string | string[] | undefined>;
+
+  /**
+   * Returns a header value, joining repeated headers with a comma.
+   *
+   * @param name - The header name (case-insensitive)
+   */
+  header(name: string): string | undefined;
+
+  /**
+   * The underlying Express or Fastify request
+   */
+  raw: unknown;
+}
+
+/**
+ * Resolves the tenant of a request. Implementations are regular Nest
+ * providers, so they can inject services and perform async lookups.
+ *
+ * @example
+ * @Injectable()
+ * export class ApiKeyTenantResolver implements TenantResolver {
+ *   constructor(private readonly apiKeys: ApiKeyService) {}
+ *
+ *   async resolve(request: TenantResolverRequest) {
+ *     const apiKey = request.header('x-api-key');
+ *     return apiKey ? this.apiKeys.findTenantId(apiKey) : undefined;
+ *   }
+ * }
+ */
+export interface TenantResolver {
+  /**
+   * @param request - The normalized request
+   * @returns The tenant ID, or undefined if the request has none
+   */
+  resolve(request: TenantResolverRequest): Promise<string | undefined>;
+}
+
+export const TENANT_RESOLVER = Symbol('TenantResolver');
+
+/**
+ * Connection data of a WebSocket client or GraphQL subscription, resolved
+ * with the same strategies as HTTP requests.
+ */
+export interface TenantHandshake {
+  /**
+   * Handshake (upgrade request) headers
+   */
+  headers?: Record<string, string | string[] | undefined>;
+
+  /**
+   * Handshake URL, including the query string
+   */
+  url?: string;
+
+  ip?: string;
+
+  /**
+   * GraphQL subscription connection params or socket.io `auth` payload.
+   * String values are treated as headers with lowercased names.
+   */
+  connectionParams?: Record<string, unknown>;
+
+  /**
+   * Bearer token, used as the `authorization` header when none is sent
+   */
+  authToken?: string;
+
+  /**
+   * The underlying socket, upgrade request or GraphQL context
+   */
+  raw?: unknown;
+}
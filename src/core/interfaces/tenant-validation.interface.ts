@@ -1,9 +1,61 @@
 import { Tenant } from '../../admin/entities/tenant.entity';
 import { Tenant as TenantSchema } from '../../admin/schema/tenant.schema';
+import { TenantStatusInfo } from './tenant.interface';
 
 export interface ITenantValidationStrategy {
   validateTenantExists(tenantCode: string): Promise<boolean>;
   findByCode(code: string): Promise<Tenant | TenantSchema | undefined>;
+
+  /**
+   * Finds the tenant mapped to a verified custom domain.
+   * Required by the 'domain' resolution strategy for custom domains.
+   */
+  findByDomain?(domain: string): Promise<Tenant | TenantSchema | undefined>;
+
+  /**
+   * Finds the status of a tenant, including suspended and soft-deleted ones.
+   * Used to enforce the tenant status policy; without it only existence is
+   * checked.
+   */
+  findStatusByCode?(code: string): Promise<TenantStatusInfo | undefined>;
+
+  /**
+   * Drops what is cached about a tenant, so the next lookups see its
+   * current record. Called by the admin services when a tenant changes.
+   */
+  invalidate?(code: string): void;
+
+  /**
+   * Drops the cached lookup of a custom domain, including a miss. Called by
+   * the admin services when a domain is verified or removed.
+   */
+  invalidateDomain?(domain: string): void;
+}
+
+/**
+ * Cache of tenant lookups in front of a validation strategy
+ */
+export interface TenantCacheConfig {
+  /**
+   * Enable the cache (default: true)
+   */
+  enabled?: boolean;
+
+  /**
+   * Time in milliseconds a found tenant is cached (default: 30000)
+   */
+  ttl?: number;
+
+  /**
+   * Time in milliseconds a missing tenant is cached (default: 5000)
+   */
+  negativeTtl?: number;
+
+  /**
+   * Maximum number of cached lookups; the least recently used ones are
+   * evicted first (default: 1000)
+   */
+  maxEntries?: number;
 }
 
 export const TENANT_VALIDATION_STRATEGY = Symbol('ITenantValidationStrategy');
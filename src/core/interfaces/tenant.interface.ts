@@ -2,10 +2,18 @@ import { DynamicModule, ModuleMetadata, Provider, Type } from '@nestjs/common';
 
 import { EntityRegistryType } from '../../config/entity.registry';
 import { EntityName, TenantPreset, TenantStatus } from '../../constants';
-import { OrmConfig, TenantOrmConnection } from './orm-abstraction.interface';
+import {
+  ConnectionMode,
+  OrmConfig,
+  TenantOrmConnection,
+} from './orm-abstraction.interface';
+import { TenantEventsConfig } from './tenant-events.interface';
+import { TenantResolver } from './tenant-resolver.interface';
+import { TenantCacheConfig } from './tenant-validation.interface';
 import {
   ConnectionPoolConfig,
   DatabaseConfig,
+  DatabaseReplicaConfig,
   IConnectionPoolStats,
 } from './typeorm.interface';
 
@@ -15,6 +23,73 @@ export interface IEntityConfig {
   customSettings?: Record<string, unknown>;
 }
 
+/**
+ * Where the data of each tenant is stored
+ * - 'schema': one schema per tenant in the shared database
+ * - 'database': one database per tenant, possibly on separate servers
+ * - 'row': tables shared by all tenants, with a tenant column filtered by
+ *   PostgreSQL row-level security policies
+ */
+export type TenantIsolation = 'schema' | 'database' | 'row';
+
+/**
+ * Location of a tenant database in 'database' isolation, stored on the tenant
+ * record. Unset fields default to the module `database` configuration.
+ * Passwords are not stored: `credentialRef` is resolved by the
+ * `tenantCredentials` option.
+ */
+export interface TenantDatabaseConnectionInfo {
+  host?: string;
+  port?: number;
+
+  /**
+   * Name of the tenant database (default: the tenant schema name)
+   */
+  database?: string;
+
+  /**
+   * Reference to the credentials of the database, such as a secret name
+   */
+  credentialRef?: string;
+
+  ssl?: boolean | object;
+
+  /**
+   * Read replicas of the tenant database (default: the replicas of
+   * `database` when the tenant database is on the same server)
+   */
+  replicas?: DatabaseReplicaConfig[];
+}
+
+export interface TenantDatabaseCredentials {
+  username: string;
+  password: string;
+}
+
+/**
+ * Shared tables of the tenants in 'row' isolation
+ */
+export interface RowLevelSecurityConfig {
+  /**
+   * Schema of the shared tables (default: 'public')
+   */
+  schema?: string;
+
+  /**
+   * Column holding the tenant of each row (default: 'tenant_id')
+   */
+  tenantColumn?: string;
+}
+
+/**
+ * Resolves the credentials referenced by a tenant record, e.g. from a secret
+ * manager
+ */
+export type TenantCredentialsResolver = (
+  credentialRef: string,
+  tenantCode: string,
+) => Promise<TenantDatabaseCredentials> | TenantDatabaseCredentials;
+
 export interface ITenant {
   id: string;
   code: string;
@@ -23,38 +98,328 @@ export interface ITenant {
   status: TenantStatus;
   settings?: Record<string, unknown>;
   entityConfig?: IEntityConfig;
+  connection?: TenantDatabaseConnectionInfo;
+
+  /**
+   * Isolation of this tenant, overriding the `isolation` option
+   */
+  isolation?: TenantIsolation;
   createdAt: Date;
   updatedAt: Date;
   deletedAt?: Date;
 }
 
+/**
+ * Status of a tenant as seen by the validation strategies, including
+ * soft-deleted tenants
+ */
+export interface TenantStatusInfo {
+  status: TenantStatus;
+  settings?: Record<string, unknown> | null;
+}
+
+/**
+ * How requests to tenants in a given status are rejected
+ */
+export interface TenantStatusRule {
+  /**
+   * HTTP status code of the rejection (e.g. 423 for suspended tenants)
+   */
+  statusCode: number;
+
+  /**
+   * Key of the tenant `settings` entry holding the reason returned to clients
+   */
+  reasonSetting?: string;
+}
+
+/**
+ * Per-status request policy. Statuses set to 'allow' are served normally.
+ */
+export type TenantStatusPolicy = Partial<
+  Record<TenantStatus, TenantStatusRule | 'allow'>
+>;
+
+export interface ITenantDomain {
+  id: string;
+  tenantId: string;
+  domain: string;
+  verified: boolean;
+  verificationToken: string;
+  verifiedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface ITenantContextService {
   setContext(tenantId: string): void;
   getTenantSchema(): string | undefined;
   getContext(): ITenantContext;
 }
 
+/**
+ * How the tenant context is stored
+ * - 'request': REQUEST-scoped TenantContextService (default)
+ * - 'async-local-storage': singleton services reading the context from
+ *   AsyncLocalStorage, with tenant repositories and databases injected as
+ *   lazy singleton proxies
+ */
+export type TenantContextMode = 'request' | 'async-local-storage';
+
 export interface ITenantContext {
   tenantId: string | undefined;
   tenantSchema: string | undefined;
   hasTenant: boolean;
 }
 
+/**
+ * Built-in strategies for resolving the tenant from a request
+ */
+export type TenantResolutionStrategyType =
+  | 'header'
+  | 'subdomain'
+  | 'jwt'
+  | 'path'
+  | 'query'
+  | 'domain'
+  | 'custom';
+
+/**
+ * Where the resolved tenant came from: a strategy or the configured default
+ */
+export type TenantResolutionSource = TenantResolutionStrategyType | 'default';
+
+/**
+ * What to do when two strategies in the chain resolve different tenants
+ * - 'first-wins': Use the first hit and skip the remaining strategies
+ * - 'reject': Fail the request with a TenantResolutionConflictError
+ * - 'log': Use the first hit and log a warning about the disagreement
+ */
+export type TenantConflictPolicy = 'first-wins' | 'reject' | 'log';
+
+export interface HeaderResolutionStrategy {
+  type: 'header';
+
+  /**
+   * Header name for tenant ID (default: 'x-tenant-id')
+   */
+  headerName?: string;
+}
+
+export interface SubdomainResolutionStrategy {
+  type: 'subdomain';
+
+  /**
+   * Position of the subdomain to use as tenant ID (default: 0)
+   */
+  position?: number;
+
+  /**
+   * Domain the tenant subdomains live under (e.g. 'example.co.uk').
+   * Without it the last two labels of the host are treated as the domain.
+   */
+  baseDomain?: string;
+
+  /**
+   * Subdomains that never identify a tenant (default: ['www'])
+   */
+  reservedSubdomains?: string[];
+}
+
+export interface DomainResolutionStrategy {
+  type: 'domain';
+
+  /**
+   * Domain the tenant subdomains live under (e.g. 'example.com').
+   * Hosts under it resolve like the 'subdomain' strategy; any other host
+   * is looked up in the verified custom domains of the admin catalog.
+   */
+  baseDomain?: string;
+
+  /**
+   * Subdomains of the base domain that never identify a tenant (default: ['www'])
+   */
+  reservedSubdomains?: string[];
+}
+
+/**
+ * Signature algorithms accepted for verified JWT resolution
+ */
+export type JwtAlgorithm =
+  | 'HS256'
+  | 'HS384'
+  | 'HS512'
+  | 'RS256'
+  | 'RS384'
+  | 'RS512'
+  | 'ES256'
+  | 'ES384'
+  | 'ES512';
+
+/**
+ * JSON Web Key Set document
+ */
+export interface JsonWebKeySet {
+  keys: Array<{
+    kty: string;
+    kid?: string;
+    alg?: string;
+    use?: string;
+    [parameter: string]: unknown;
+  }>;
+}
+
+export interface JwtVerificationOptions {
+  /**
+   * Shared secret(s) for HS256/HS384/HS512 tokens
+   */
+  secret?: string | string[];
+
+  /**
+   * PEM-encoded public key(s) for RS* and ES* tokens
+   */
+  publicKeys?: string | string[];
+
+  /**
+   * JWKS document or path to a local JWKS JSON file.
+   * The key is selected by the token `kid` header when present.
+   */
+  jwks?: JsonWebKeySet | string;
+
+  /**
+   * Allowed algorithms. Defaults to the algorithm families matching the
+   * configured keys. 'none' is never accepted.
+   */
+  algorithms?: JwtAlgorithm[];
+
+  /**
+   * Accepted issuer(s) (`iss` claim)
+   */
+  issuer?: string | string[];
+
+  /**
+   * Accepted audience(s) (`aud` claim)
+   */
+  audience?: string | string[];
+
+  /**
+   * Clock skew tolerance in seconds for `exp` and `nbf` (default: 0)
+   */
+  clockTolerance?: number;
+
+  /**
+   * Reject tokens without an `exp` claim (default: false)
+   */
+  requireExpiration?: boolean;
+}
+
+export interface JwtResolutionStrategy {
+  type: 'jwt';
+
+  /**
+   * JWT claim name for tenant ID (default: 'tenantId')
+   */
+  claimName?: string;
+
+  /**
+   * Verify the token signature and claims before trusting the tenant claim.
+   * Defaults to `TenantResolutionConfig.jwtVerification`.
+   */
+  verification?: JwtVerificationOptions;
+}
+
+export interface PathResolutionStrategy {
+  type: 'path';
+
+  /**
+   * Path pattern with a `:tenant` placeholder matched against the start of
+   * the URL. Other `:param` segments match any value (default: '/t/:tenant')
+   */
+  pattern?: string;
+
+  /**
+   * Remove the matched prefix from the URL before routing so controllers
+   * keep their tenant-less paths (default: false).
+   * On Fastify routing happens before middleware, so also pass
+   * `createTenantPathRewriter()` as the adapter `rewriteUrl` option.
+   */
+  stripPrefix?: boolean;
+}
+
+export interface QueryResolutionStrategy {
+  type: 'query';
+
+  /**
+   * Query parameter name for tenant ID (default: 'tenant')
+   */
+  parameterName?: string;
+}
+
+export interface CustomResolutionStrategy {
+  type: 'custom';
+
+  /**
+   * Custom resolver function. Defaults to the registered `resolverClass`.
+   */
+  resolver?: (request: unknown) => string | undefined;
+}
+
+/**
+ * A single entry of the tenant resolution chain with its own options
+ */
+export type TenantResolutionStrategyConfig =
+  | HeaderResolutionStrategy
+  | SubdomainResolutionStrategy
+  | JwtResolutionStrategy
+  | PathResolutionStrategy
+  | QueryResolutionStrategy
+  | DomainResolutionStrategy
+  | CustomResolutionStrategy;
+
 export interface TenantResolutionConfig {
   /**
    * Strategy for resolving tenant from request
    * - 'header': Use x-tenant-id header
    * - 'subdomain': Extract from subdomain
    * - 'jwt': Extract from JWT token
-   * - 'custom': Use custom resolver function
+   * - 'path': Extract from a URL path prefix (e.g. /t/acme/orders)
+   * - 'query': Extract from a query parameter
+   * - 'domain': Match the full host against verified custom domains
+   * - 'custom': Use the custom resolver function or resolver class
+   *
+   * Ignored when `strategies` is provided.
+   */
+  strategy?: TenantResolutionStrategyType;
+
+  /**
+   * Ordered list of strategies to try. Resolution stops at the first
+   * strategy that yields a tenant unless `conflictPolicy` requires
+   * evaluating all of them.
+   *
+   * @example ['jwt', { type: 'header', headerName: 'x-tenant-id' }, 'subdomain']
+   */
+  strategies?: Array<
+    TenantResolutionStrategyType | TenantResolutionStrategyConfig
+  >;
+
+  /**
+   * Policy applied when strategies resolve different tenants (default: 'first-wins')
    */
-  strategy: 'header' | 'subdomain' | 'jwt' | 'custom';
+  conflictPolicy?: TenantConflictPolicy;
 
   /**
-   * Custom resolver function (required when strategy is 'custom')
+   * Custom resolver function for the 'custom' strategy
    */
   customResolver?: (request: unknown) => string | undefined;
 
+  /**
+   * Injectable resolver class for the 'custom' strategy, registered as a
+   * provider by `MultiTenantModule.forRoot`. Used when no `customResolver`
+   * function is configured. With `forRootAsync` use the `resolverClass`
+   * option of the async options instead.
+   */
+  resolverClass?: Type<TenantResolver>;
+
   /**
    * Header name for tenant ID (default: 'x-tenant-id')
    */
@@ -65,12 +430,147 @@ export interface TenantResolutionConfig {
    */
   jwtClaimName?: string;
 
+  /**
+   * Verified mode for the 'jwt' strategy. When set, tokens with an invalid
+   * signature or claims fail the request with an InvalidTenantTokenError
+   * instead of falling back to the default tenant.
+   */
+  jwtVerification?: JwtVerificationOptions;
+
+  /**
+   * Path pattern for the 'path' strategy (default: '/t/:tenant')
+   */
+  pathPattern?: string;
+
+  /**
+   * Strip the tenant path prefix before routing (default: false)
+   */
+  stripTenantPath?: boolean;
+
+  /**
+   * Query parameter name for the 'query' strategy (default: 'tenant')
+   */
+  queryParamName?: string;
+
+  /**
+   * Base domain for the 'subdomain' and 'domain' strategies
+   */
+  baseDomain?: string;
+
+  /**
+   * Reserved subdomains for the 'subdomain' and 'domain' strategies (default: ['www'])
+   */
+  reservedSubdomains?: string[];
+
   /**
    * Default tenant ID when none is resolved
    */
   defaultTenant?: string;
 }
 
+/**
+ * Reads the tenant of an incoming microservice message
+ * @param data - The message payload
+ * @param context - The transport context (TcpContext, NatsContext, RmqContext...)
+ * @returns The tenant ID, or undefined if the message has none
+ */
+export type RpcTenantExtractor = (
+  data: unknown,
+  context: unknown,
+) => string | undefined | Promise<string | undefined>;
+
+/**
+ * Adds the tenant to an outgoing microservice message
+ * @param data - The message payload
+ * @param tenantId - The current tenant ID
+ * @returns The payload to send
+ */
+export type RpcTenantStamper = (data: unknown, tenantId: string) => unknown;
+
+export interface MicroserviceTenantConfig {
+  /**
+   * Payload property carrying the tenant ID (default: 'tenantId')
+   */
+  payloadKey?: string;
+
+  /**
+   * Message header carrying the tenant ID, read from transports with
+   * metadata such as NATS, RabbitMQ, Kafka or gRPC (default: 'x-tenant-id')
+   */
+  headerName?: string;
+
+  /**
+   * Custom extractor replacing the payload and header lookup
+   */
+  extractor?: RpcTenantExtractor;
+
+  /**
+   * Custom stamper for outgoing messages. By default the tenant is added
+   * to plain object payloads under `payloadKey`.
+   */
+  stamper?: RpcTenantStamper;
+}
+
+/**
+ * Signed tenant token added to outgoing HTTP requests. The receiving service
+ * can verify it with the 'jwt' strategy and the same secret.
+ */
+export interface TenantTokenSigningOptions {
+  /**
+   * HMAC secret used to sign the token
+   */
+  secret: string;
+
+  /**
+   * HMAC algorithm (default: 'HS256')
+   */
+  algorithm?: Extract<JwtAlgorithm, 'HS256' | 'HS384' | 'HS512'>;
+
+  /**
+   * Header carrying the token (default: 'x-tenant-token')
+   */
+  headerName?: string;
+
+  /**
+   * Claim holding the tenant ID (default: 'tenantId')
+   */
+  claimName?: string;
+
+  /**
+   * Token lifetime in seconds (default: 60)
+   */
+  expiresIn?: number;
+
+  issuer?: string;
+  audience?: string;
+}
+
+export interface HttpTenantPropagationConfig {
+  /**
+   * Hosts that receive the tenant and trace headers. Entries match the host
+   * name (`users.internal`), the host with port (`localhost:3001`) or, with a
+   * leading `*.`, any subdomain (`*.svc.cluster.local`). Requests to any
+   * other host are sent unchanged.
+   */
+  allowedHosts: string[];
+
+  /**
+   * Header carrying the tenant ID (default: 'x-tenant-id')
+   */
+  headerName?: string;
+
+  /**
+   * Header carrying the trace ID, read from inbound requests and sent on
+   * outgoing ones (default: 'x-trace-id')
+   */
+  traceHeaderName?: string;
+
+  /**
+   * Also send the tenant as a signed JWT
+   */
+  signedToken?: TenantTokenSigningOptions;
+}
+
 export type PlatformType = 'express' | 'fastify';
 
 export interface MultiTenantModuleOptions {
@@ -94,11 +594,61 @@ export interface MultiTenantModuleOptions {
    */
   tenantResolution?: TenantResolutionConfig;
 
+  /**
+   * Tenant propagation for `@MessagePattern` and `@EventPattern` handlers
+   * and outgoing `ClientProxy` messages. Setting it registers the
+   * `TenantRpcInterceptor` with `forRoot`, as does `enableMicroservices`.
+   */
+  microservices?: MicroserviceTenantConfig;
+
+  /**
+   * Registers the `TenantRpcInterceptor` with the default `microservices`
+   * options (default: false). Same flag as the `forRootAsync` option.
+   */
+  enableMicroservices?: boolean;
+
+  /**
+   * Adds the current tenant and trace ID to outgoing `HttpService` requests
+   * sent to the allowed hosts (disabled by default)
+   */
+  httpPropagation?: HttpTenantPropagationConfig;
+
+  /**
+   * Require a tenant on every route not marked with `@TenantOptional()` or
+   * `@PublicRoute()` (default: false, only `@RequireTenant()` routes)
+   */
+  requireTenant?: boolean;
+
+  /**
+   * Request policy for tenants that are not active, merged over the default
+   * (suspended → 423, pending → 403, inactive → 404)
+   */
+  tenantStatusPolicy?: TenantStatusPolicy;
+
+  /**
+   * How the tenant context is stored (default: 'request'). With
+   * `forRootAsync` use the `contextMode` option of the async options instead.
+   */
+  contextMode?: TenantContextMode;
+
   /**
    * Connection pool configuration for tenant connections
    */
   connectionPool?: ConnectionPoolConfig;
 
+  /**
+   * Whether each tenant gets its own database pool or every tenant shares one
+   * pool and switches the search_path per unit of work
+   * (default: 'pool-per-tenant')
+   */
+  connectionMode?: ConnectionMode;
+
+  /**
+   * Time in milliseconds application shutdown waits for in-flight tenant work
+   * before closing the tenant and admin connections (default: 10000)
+   */
+  shutdownTimeout?: number;
+
   /**
    * Enable the admin module for tenant management
    */
@@ -119,6 +669,30 @@ export interface MultiTenantModuleOptions {
    */
   autoCreateSchemas?: boolean;
 
+  /**
+   * Whether tenants share a database with one schema each, each tenant has
+   * its own database described by the `connection` of its record, or tenants
+   * share tables filtered by row-level security (default: 'schema').
+   * Tenant records can override it with their own `isolation`.
+   */
+  isolation?: TenantIsolation;
+
+  /**
+   * Shared tables of the tenants in 'row' isolation
+   */
+  rowLevelSecurity?: RowLevelSecurityConfig;
+
+  /**
+   * Resolves the `credentialRef` of tenant databases in 'database' isolation.
+   * Tenants without a reference use the credentials of `database`.
+   */
+  tenantCredentials?: TenantCredentialsResolver;
+
+  /**
+   * Run `CREATE DATABASE` when a tenant is created in 'database' isolation
+   */
+  autoCreateDatabases?: boolean;
+
   /**
    * Strategy for naming tenant schemas
    */
@@ -134,6 +708,17 @@ export interface MultiTenantModuleOptions {
    */
   remoteServiceUrl?: string;
 
+  /**
+   * Cache tenant lookups of the 'local' and 'remote' validation strategies
+   */
+  tenantCache?: TenantCacheConfig;
+
+  /**
+   * Publish tenant changes of the admin services to every instance, which
+   * drop their cached lookups and connections of the changed tenant
+   */
+  tenantEvents?: TenantEventsConfig;
+
   /**
    * Custom providers for tenant management
    */
@@ -183,10 +768,32 @@ export interface MultiTenantModuleAsyncOptions
    */
   managementStrategyProvider?: Provider;
 
+  /**
+   * Tenant event transport provider, for `tenantEvents.transport: 'custom'`
+   */
+  eventTransportProvider?: Provider;
+
   /**
    * Custom ORM strategy provider
    */
   ormStrategyProvider?: Provider;
+
+  /**
+   * Injectable resolver class for the 'custom' tenant resolution strategy
+   */
+  resolverClass?: Type<TenantResolver>;
+
+  /**
+   * How the tenant context is stored (default: 'request')
+   */
+  contextMode?: TenantContextMode;
+
+  /**
+   * Registers the `TenantRpcInterceptor` for `@MessagePattern` and
+   * `@EventPattern` handlers (default: false), like the
+   * `enableMicroservices` option of `forRoot`.
+   */
+  enableMicroservices?: boolean;
 }
 
 export interface BuildMultitenantModuleOptions {
@@ -230,6 +837,23 @@ export interface BuildMultitenantModuleOptions {
    * Custom management strategy provider
    */
   managementStrategyProvider?: Provider;
+
+  /**
+   * Injectable resolver class for the 'custom' tenant resolution strategy
+   */
+  resolverClass?: Type<TenantResolver>;
+
+  /**
+   * How the tenant context is stored (default: 'request')
+   */
+  contextMode?: TenantContextMode;
+
+  /**
+   * Registers the `TenantRpcInterceptor` for `@MessagePattern` and
+   * `@EventPattern` handlers (default: false), like the
+   * `enableMicroservices` option of `forRoot`.
+   */
+  enableMicroservices?: boolean;
 }
 
 export interface IMultiTenantConfigService {
@@ -240,13 +864,38 @@ export interface IMultiTenantConfigService {
   getEntityRegistry(): EntityRegistryType;
   getDefaultEntityPresets(): Record<TenantPreset, EntityName[]>;
   isAutoCreateSchemasEnabled(): boolean;
+  isAutoCreateDatabasesEnabled(): boolean;
+  getConnectionMode(): ConnectionMode;
+  getIsolation(): TenantIsolation;
+  getRowLevelSecurityConfig(): RowLevelSecurityConfig;
+  getTenantCredentialsResolver(): TenantCredentialsResolver | undefined;
   getSchemaNamingStrategy(): (tenantId: string) => string;
+  getTenantStatusPolicy(): TenantStatusPolicy;
+  getMicroserviceConfig(): MicroserviceTenantConfig;
+  getHttpPropagationConfig(): HttpTenantPropagationConfig | undefined;
   getAllOptions(): MultiTenantModuleOptions;
 }
 
+/**
+ * A tenant connection held for the duration of some work. Leased connections
+ * are never destroyed by eviction; they drain and close once released.
+ */
+export interface TenantConnectionLease {
+  readonly schema: string;
+  readonly connection: TenantOrmConnection;
+
+  /**
+   * Returns the connection to the pool. Calling it again has no effect.
+   */
+  release(): void;
+}
+
 export interface ITenantConnectionService {
   getConnectionForSchema(schema: string): Promise<TenantOrmConnection>;
+  acquire(schema: string): Promise<TenantConnectionLease>;
+  getPooledConnection(schema: string): TenantOrmConnection | undefined;
   getTenantConnection(): Promise<TenantOrmConnection>;
+  drain(timeout: number): Promise<boolean>;
   closeAllConnections(): Promise<void>;
   getConnectionPoolStats(): IConnectionPoolStats;
   removeConnection(schema: string): Promise<void>;
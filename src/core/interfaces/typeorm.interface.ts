@@ -1,3 +1,13 @@
+/**
+ * Read replica of a database. Unset fields default to the primary.
+ */
+export interface DatabaseReplicaConfig {
+  host: string;
+  port?: number;
+  username?: string;
+  password?: string;
+}
+
 export interface DatabaseConfig {
   host: string;
   port: number;
@@ -7,6 +17,84 @@ export interface DatabaseConfig {
   synchronize?: boolean;
   logging?: boolean;
   ssl?: boolean | object;
+
+  /**
+   * Maximum number of clients of each connection pool. In 'shared-pool' mode
+   * this is the size of the pool shared by every tenant.
+   */
+  poolSize?: number;
+
+  /**
+   * Read replicas of the database. Queries of read-only scopes (see
+   * `@ReadOnly()`) run on a replica, and fall back to the primary while no
+   * replica accepts connections.
+   */
+  replicas?: DatabaseReplicaConfig[];
+}
+
+/**
+ * Tenants whose connections are opened on startup
+ */
+export interface ConnectionWarmUpConfig {
+  /**
+   * Tenant IDs to connect
+   */
+  tenants?: string[];
+
+  /**
+   * Also connect this many active tenants of the admin catalog, most
+   * recently updated first
+   */
+  mostRecentlyActive?: number;
+}
+
+/**
+ * Settings of the database pool of a tenant
+ */
+export interface TenantPoolSettings {
+  /**
+   * Maximum number of clients of the pool
+   */
+  max?: number;
+
+  /**
+   * Time in milliseconds after which an idle client is closed
+   */
+  idleTimeoutMillis?: number;
+
+  /**
+   * Time in milliseconds to wait for a new client to connect
+   */
+  connectionTimeoutMillis?: number;
+}
+
+/**
+ * Circuit breaker of the connections of each tenant schema. After
+ * `failureThreshold` consecutive failed connection attempts the circuit
+ * opens and requests for the tenant fail fast with TenantUnavailableError.
+ * Once the open period is over the circuit is half-open: the next attempt
+ * closes it on success, or reopens it for twice as long on failure.
+ */
+export interface TenantCircuitBreakerConfig {
+  /**
+   * Enable the circuit breaker (default: true)
+   */
+  enabled?: boolean;
+
+  /**
+   * Consecutive failed connection attempts that open the circuit (default: 3)
+   */
+  failureThreshold?: number;
+
+  /**
+   * Time in milliseconds the circuit stays open the first time (default: 5000)
+   */
+  resetTimeout?: number;
+
+  /**
+   * Maximum time in milliseconds the circuit stays open (default: 300000)
+   */
+  maxResetTimeout?: number;
 }
 
 export interface ConnectionPoolConfig {
@@ -16,10 +104,58 @@ export interface ConnectionPoolConfig {
   maxConnections?: number;
 
   /**
-   * Connection idle timeout in milliseconds
+   * Time in milliseconds after which an unused connection is closed by the
+   * scheduled cleanup (default: 300000)
    */
   idleTimeout?: number;
 
+  /**
+   * Maximum number of callers waiting for a free connection slot when the
+   * pool is full and every connection is leased (default: 100)
+   */
+  maxWaitingRequests?: number;
+
+  /**
+   * Time in milliseconds a caller waits for a free connection slot before
+   * failing with ConnectionPoolExhaustedError (default: 10000)
+   */
+  acquireTimeout?: number;
+
+  /**
+   * Tenants to connect during module initialization, so their first
+   * requests do not pay for opening the connection
+   */
+  warmUp?: ConnectionWarmUpConfig;
+
+  /**
+   * Default settings of the database pool of each tenant
+   */
+  tenantPool?: TenantPoolSettings;
+
+  /**
+   * Pool settings of each tier, applied over `tenantPool` to the tenants
+   * whose `settings[tierSetting]` names the tier
+   */
+  tiers?: Record<string, TenantPoolSettings>;
+
+  /**
+   * Key of the tenant `settings` entry naming the tier of the tenant, such
+   * as 'plan' (default: 'tier')
+   */
+  tierSetting?: string;
+
+  /**
+   * Maximum number of physical database connections across the pools of
+   * every tenant. Opening a pool that would exceed it evicts least recently
+   * used connections, or waits like a full pool.
+   */
+  maxPhysicalConnections?: number;
+
+  /**
+   * Circuit breaker of the connections of each tenant schema
+   */
+  circuitBreaker?: TenantCircuitBreakerConfig;
+
   /**
    * Enable connection cleanup
    */
@@ -31,9 +167,90 @@ export interface ConnectionPoolConfig {
   cleanupInterval?: number;
 }
 
+/**
+ * Usage of a single pooled connection
+ */
+export interface IConnectionUsageStats {
+  schema: string;
+  active: boolean;
+
+  /**
+   * Milliseconds since the connection was opened
+   */
+  age: number;
+
+  /**
+   * Milliseconds since the connection was last used
+   */
+  idleTime: number;
+
+  /**
+   * Number of times the connection was handed out
+   */
+  hits: number;
+
+  /**
+   * Number of leases currently held on the connection
+   */
+  leases: number;
+
+  createdAt: Date;
+  lastUsedAt: Date;
+}
+
+/**
+ * State of the circuit breaker of a tenant schema
+ */
+export type TenantCircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker of a schema with failed connection attempts
+ */
+export interface IConnectionCircuitStats {
+  schema: string;
+  state: TenantCircuitState;
+
+  /**
+   * Consecutive failed connection attempts
+   */
+  failures: number;
+
+  /**
+   * When an open circuit lets the next connection attempt through
+   */
+  retryAt?: Date;
+}
+
 export interface IConnectionPoolStats {
   total: number;
   active: number;
   inactive: number;
+
+  /**
+   * Pooled schemas from least to most recently used
+   */
   schemas: string[];
+
+  connections: IConnectionUsageStats[];
+
+  /**
+   * Connections removed from the pool that close once their leases are released
+   */
+  draining: number;
+
+  /**
+   * Callers waiting for a free connection slot
+   */
+  waiting: number;
+
+  /**
+   * Physical connections the open tenant pools can hold, reported with
+   * `maxPhysicalConnections`
+   */
+  physicalConnections?: number;
+
+  /**
+   * Circuit breakers of the schemas whose last connection attempts failed
+   */
+  circuits: IConnectionCircuitStats[];
 }
@@ -1,20 +1,51 @@
-import { Inject, Injectable, Logger, NestMiddleware } from '@nestjs/common';
+import {
+  Inject,
+  Injectable,
+  Logger,
+  NestMiddleware,
+  Optional,
+} from '@nestjs/common';
 import { FastifyReply, FastifyRequest } from 'fastify';
 
 import {
   IMultiTenantConfigService,
+  ITenantConnectionService,
   ITenantContextService,
   TenantResolutionConfig,
+  TenantResolutionSource,
 } from '../interfaces/tenant.interface';
 import {
   ITenantMiddlewareFastify,
   TenantFastifyRequest,
 } from '../interfaces/tenant-middleware.interface';
+import {
+  TENANT_RESOLVER,
+  TenantResolver,
+} from '../interfaces/tenant-resolver.interface';
+import {
+  ITenantValidationStrategy,
+  TENANT_VALIDATION_STRATEGY,
+} from '../interfaces/tenant-validation.interface';
+import {
+  AsyncLocalTenantContextService,
+  runInTenantScope,
+} from '../services/async-local-tenant-context.service';
 import { MULTI_TENANT_CONFIG_SERVICE } from '../services/multi-tenant-config.service';
+import { TENANT_CONNECTION_SERVICE } from '../services/tenant-connection.service';
 import { TENANT_CONTEXT_SERVICE } from '../services/tenant-context.service';
+import { getInboundTraceId } from '../services/tenant-http-propagation.service';
+import {
+  createTenantResolverRequest,
+  isTenantResolutionRejection,
+  resolveFromStrategy,
+  resolveTenantChain,
+  TenantResolutionCandidate,
+  TenantStrategyServices,
+} from '../utils/tenant-resolution.utils';
 
 /**
  * Middleware to resolve tenant ID from Fastify request and set it in the tenant context.
+ * Strategies are tried in the configured order until one yields a tenant.
  */
 @Injectable()
 export class TenantFastifyMiddleware
@@ -28,9 +59,43 @@ export class TenantFastifyMiddleware
 
     @Inject(MULTI_TENANT_CONFIG_SERVICE)
     private readonly configService: IMultiTenantConfigService,
+
+    @Optional()
+    @Inject(TENANT_VALIDATION_STRATEGY)
+    private readonly validationStrategy?: ITenantValidationStrategy,
+
+    @Optional()
+    @Inject(TENANT_RESOLVER)
+    private readonly tenantResolver?: TenantResolver,
+
+    @Optional()
+    @Inject(TENANT_CONNECTION_SERVICE)
+    private readonly connectionService?: ITenantConnectionService,
   ) {}
 
-  async use(
+  use(
+    req: TenantFastifyRequest,
+    reply: FastifyReply['raw'],
+    done: (error?: Error) => void,
+  ): Promise<void> {
+    return runInTenantScope(
+      this.configService.getSchemaNamingStrategy(),
+      () => this.resolveTenant(req, reply, done),
+      getInboundTraceId(
+        req.headers,
+        this.configService.getHttpPropagationConfig()?.traceHeaderName,
+      ),
+    );
+  }
+
+  /**
+   * Resolves the tenant of the request and sets the tenant context. Runs in
+   * its own tenant scope, which the rest of the request runs in.
+   * @param req - The Fastify request object
+   * @param reply - The raw Fastify reply
+   * @param done - The done callback
+   */
+  private async resolveTenant(
     req: TenantFastifyRequest,
     reply: FastifyReply['raw'],
     done: (error?: Error) => void,
@@ -38,17 +103,22 @@ export class TenantFastifyMiddleware
     try {
       const tenantResolutionConfig =
         this.configService.getTenantResolutionConfig();
-      const tenantId = await this.resolveTenantId(req, tenantResolutionConfig);
+      const resolution = await this.resolveTenantId(
+        req,
+        tenantResolutionConfig,
+      );
 
       // Use resolved tenant or fallback to default
-      const finalTenantId = tenantId || tenantResolutionConfig.defaultTenant;
+      const finalTenantId =
+        resolution?.tenantId || tenantResolutionConfig.defaultTenant;
 
       if (finalTenantId) {
         this.setTenantContext(
           req,
           finalTenantId,
-          tenantId ? tenantResolutionConfig.strategy : 'default',
+          resolution?.source || 'default',
         );
+        await this.openTenantConnection(reply);
 
         reply.setHeader('X-Tenant-ID', finalTenantId || 'unknown');
         reply.setHeader(
@@ -61,44 +131,87 @@ export class TenantFastifyMiddleware
         );
       }
     } catch (error) {
+      if (isTenantResolutionRejection(error)) {
+        return done(error);
+      }
       this.logger.error('[Fastify] Error resolving tenant context:', error);
     }
     done();
   }
 
   /**
-   * Resolves tenant ID based on the configured strategy.
+   * Resolves tenant ID by running the configured strategy chain.
    * @param req - The Fastify request object
    * @param config - The tenant resolution configuration
-   * @returns The resolved tenant ID or undefined
+   * @returns The resolved tenant ID and its source, or undefined
    */
   private async resolveTenantId(
     req: TenantFastifyRequest,
     config: TenantResolutionConfig,
-  ): Promise<string | undefined> {
-    switch (config.strategy) {
-      case 'header': {
-        return this.resolveFromHeader(req, config.headerName || 'x-tenant-id');
-      }
-      case 'subdomain': {
-        return this.resolveFromSubdomain(req, 0);
-      }
-      case 'jwt': {
-        return await this.resolveFromJWT(
-          req,
-          config.jwtClaimName || 'tenantId',
-        );
-      }
-      case 'custom': {
-        const adatedReq = this.adaptFastifyRequest(req);
-        return config.customResolver?.(adatedReq);
-      }
-      default: {
-        this.logger.warn(
-          `[Fastify] Unknown tenant resolution strategy: ${config.strategy}`,
-        );
-        return undefined;
-      }
+  ): Promise<TenantResolutionCandidate | undefined> {
+    const request = createTenantResolverRequest({
+      method: req.method,
+      url: req.originalUrl || req.url,
+      headers: req.headers,
+      ip: req.ip,
+      raw: req,
+    });
+    const services: TenantStrategyServices = {
+      schemaNamingStrategy: this.configService.getSchemaNamingStrategy(),
+      findByDomain: this.validationStrategy?.findByDomain?.bind(
+        this.validationStrategy,
+      ),
+      tenantResolver: this.tenantResolver,
+      customResolverRequest: this.adaptFastifyRequest(req),
+      logger: this.logger,
+      label: '[Fastify]',
+    };
+
+    const { resolved, candidates, conflict } = await resolveTenantChain(
+      config,
+      strategy => resolveFromStrategy(request, strategy, services),
+    );
+
+    if (conflict) {
+      this.logger.warn(
+        `[Fastify] Tenant resolution strategies disagree: ${candidates
+          .map(candidate => `${candidate.source}=${candidate.tenantId}`)
+          .join(', ')}. Using ${resolved?.source}.`,
+      );
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Opens the tenant connection before the route handler when the context
+   * lives in AsyncLocalStorage, so the singleton repository proxies can use
+   * it synchronously. The connection is leased until the response is sent.
+   * Failures surface again when the connection is used.
+   * @param reply - The response that ends the lease
+   */
+  private async openTenantConnection(
+    reply: FastifyReply['raw'],
+  ): Promise<void> {
+    const schema = this.tenantContextService.getTenantSchema();
+
+    if (
+      !schema ||
+      !this.connectionService ||
+      !(this.tenantContextService instanceof AsyncLocalTenantContextService)
+    ) {
+      return;
+    }
+
+    try {
+      const lease = await this.connectionService.acquire(schema);
+      reply.once('close', lease.release);
+    } catch (error) {
+      this.logger.debug(
+        `[Fastify] Could not open connection for schema ${schema}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
     }
   }
 
@@ -111,7 +224,7 @@ export class TenantFastifyMiddleware
   private setTenantContext(
     req: TenantFastifyRequest,
     tenantId: string,
-    source: string,
+    source: TenantResolutionSource,
   ): void {
     this.tenantContextService.setContext(tenantId);
     const context = this.tenantContextService.getContext();
@@ -126,6 +239,7 @@ export class TenantFastifyMiddleware
     req.tenant = {
       id: context.tenantId,
       schema: context.tenantSchema,
+      source,
     };
 
     const logMessage =
@@ -139,83 +253,6 @@ export class TenantFastifyMiddleware
     );
   }
 
-  /**
-   * Resolve tenant ID from request header.
-   * @param req - The Fastify request object.
-   * @param headerName - The name of the header to check for tenant ID.
-   * @returns The tenant ID if found, otherwise undefined.
-   */
-  private resolveFromHeader(
-    req: FastifyRequest,
-    headerName: string,
-  ): string | undefined {
-    const tenantId = req.headers[headerName.toLowerCase()] as string;
-    return tenantId?.trim() || undefined;
-  }
-
-  /**
-   * Resolve tenant ID from request subdomain.
-   * @param req - The Fastify request object.
-   * @param position - The position of the subdomain to use as tenant ID.
-   * @returns The tenant ID if found, otherwise undefined.
-   */
-  private resolveFromSubdomain(
-    req: FastifyRequest,
-    position: number,
-  ): string | undefined {
-    const host = req.headers.host;
-    if (!host) return undefined;
-
-    const subdomains = host.split('.').slice(0, -2);
-    return subdomains[position]?.trim() || undefined;
-  }
-
-  /**
-   * Resolve tenant ID from request JWT.
-   * @param req - The Fastify request object.
-   * @param jwtField - The key in the JWT payload to use as tenant ID.
-   * @returns The tenant ID if found, otherwise undefined.
-   */
-  private async resolveFromJWT(
-    req: FastifyRequest,
-    jwtField: string,
-  ): Promise<string | undefined> {
-    try {
-      const authHeader = req.headers.authorization;
-      if (!authHeader?.startsWith('Bearer ')) return undefined;
-
-      const token = authHeader.slice(7);
-      const payload = this.decodeJWTPayload(token);
-
-      const tenantId = (payload as Record<string, unknown>)?.[
-        jwtField
-      ] as string;
-      return tenantId?.trim() || undefined;
-    } catch (error) {
-      this.logger.debug('[Fastify] Error extracting tenant from JWT:', error);
-      return undefined;
-    }
-  }
-
-  /**
-   * Decode JWT payload.
-   * @param token - The JWT token to decode.
-   * @returns The decoded payload if valid, otherwise undefined.
-   */
-  private decodeJWTPayload(token: string): unknown {
-    try {
-      const parts = token.split('.');
-      if (parts.length !== 3) return undefined;
-
-      const payload = parts[1];
-      const decoded = Buffer.from(payload, 'base64url').toString('utf8');
-      return JSON.parse(decoded);
-    } catch (error) {
-      this.logger.debug('[Fastify] Error decoding JWT payload:', error);
-      return undefined;
-    }
-  }
-
   /**
    * Adapt Fastify request to Express-like format.
    * @param req - The Fastify request object.
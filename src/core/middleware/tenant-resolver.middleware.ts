@@ -1,20 +1,54 @@
-import { Inject, Injectable, Logger, NestMiddleware } from '@nestjs/common';
-import { NextFunction, Request, Response } from 'express';
+import {
+  Inject,
+  Injectable,
+  Logger,
+  NestMiddleware,
+  Optional,
+} from '@nestjs/common';
+import { NextFunction, Response } from 'express';
 
 import {
   IMultiTenantConfigService,
+  ITenantConnectionService,
   ITenantContextService,
   TenantResolutionConfig,
+  TenantResolutionSource,
 } from '../interfaces/tenant.interface';
 import {
   ITenantMiddlewareExpress,
   TenantExpressRequest,
 } from '../interfaces/tenant-middleware.interface';
+import {
+  TENANT_RESOLVER,
+  TenantResolver,
+} from '../interfaces/tenant-resolver.interface';
+import {
+  ITenantValidationStrategy,
+  TENANT_VALIDATION_STRATEGY,
+} from '../interfaces/tenant-validation.interface';
+import {
+  AsyncLocalTenantContextService,
+  runInTenantScope,
+} from '../services/async-local-tenant-context.service';
 import { MULTI_TENANT_CONFIG_SERVICE } from '../services/multi-tenant-config.service';
+import { TENANT_CONNECTION_SERVICE } from '../services/tenant-connection.service';
 import { TENANT_CONTEXT_SERVICE } from '../services/tenant-context.service';
+import { getInboundTraceId } from '../services/tenant-http-propagation.service';
+import {
+  createTenantResolverRequest,
+  isTenantResolutionRejection,
+  matchTenantPath,
+  normalizeResolutionStrategies,
+  resolveFromStrategy,
+  resolveTenantChain,
+  TenantResolutionCandidate,
+  TenantStrategyServices,
+} from '../utils/tenant-resolution.utils';
 
 /**
- * Middleware to resolve tenant context from request headers, subdomain, or JWT.
+ * Middleware to resolve tenant context from request headers, subdomain, JWT,
+ * path prefix or query parameter.
+ * Strategies are tried in the configured order until one yields a tenant.
  * If no tenant is found, sets the default tenant context if configured.
  */
 @Injectable()
@@ -29,33 +63,76 @@ export class TenantResolverMiddleware
 
     @Inject(MULTI_TENANT_CONFIG_SERVICE)
     private readonly configService: IMultiTenantConfigService,
+
+    @Optional()
+    @Inject(TENANT_VALIDATION_STRATEGY)
+    private readonly validationStrategy?: ITenantValidationStrategy,
+
+    @Optional()
+    @Inject(TENANT_RESOLVER)
+    private readonly tenantResolver?: TenantResolver,
+
+    @Optional()
+    @Inject(TENANT_CONNECTION_SERVICE)
+    private readonly connectionService?: ITenantConnectionService,
   ) {}
 
-  async use(
+  use(
     req: TenantExpressRequest,
-    _res: Response,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    return runInTenantScope(
+      this.configService.getSchemaNamingStrategy(),
+      () => this.resolveTenant(req, res, next),
+      getInboundTraceId(
+        req.headers,
+        this.configService.getHttpPropagationConfig()?.traceHeaderName,
+      ),
+    );
+  }
+
+  /**
+   * Resolves the tenant of the request and sets the tenant context. Runs in
+   * its own tenant scope, which the rest of the request runs in.
+   * @param req - The Express request object
+   * @param res - The Express response object
+   * @param next - The next function
+   */
+  private async resolveTenant(
+    req: TenantExpressRequest,
+    res: Response,
     next: NextFunction,
   ): Promise<void> {
     try {
       const tenantResolutionConfig =
         this.configService.getTenantResolutionConfig();
-      const tenantId = await this.resolveTenantId(req, tenantResolutionConfig);
+      const resolution = await this.resolveTenantId(
+        req,
+        tenantResolutionConfig,
+      );
+      this.stripTenantPath(req, tenantResolutionConfig);
 
       // Use resolved tenant or fallback to default
-      const finalTenantId = tenantId || tenantResolutionConfig.defaultTenant;
+      const finalTenantId =
+        resolution?.tenantId || tenantResolutionConfig.defaultTenant;
 
       if (finalTenantId) {
         this.setTenantContext(
           req,
           finalTenantId,
-          tenantId ? tenantResolutionConfig.strategy : 'default',
+          resolution?.source || 'default',
         );
+        await this.openTenantConnection(res);
       } else {
         this.logger.debug(
           '[Express] No tenant found in request and no default tenant configured',
         );
       }
     } catch (error) {
+      if (isTenantResolutionRejection(error)) {
+        return next(error);
+      }
       this.logger.error('[Express] Error resolving tenant context:', error);
     }
 
@@ -63,41 +140,100 @@ export class TenantResolverMiddleware
   }
 
   /**
-   * Resolves tenant ID based on the configured strategy.
+   * Resolves tenant ID by running the configured strategy chain.
    * @param req - The Express request object
    * @param config - The tenant resolution configuration
-   * @returns The resolved tenant ID or undefined
+   * @returns The resolved tenant ID and its source, or undefined
    */
   private async resolveTenantId(
     req: TenantExpressRequest,
     config: TenantResolutionConfig,
-  ): Promise<string | undefined> {
-    switch (config.strategy) {
-      case 'header': {
-        return this.resolveFromHeader(req, config.headerName || 'x-tenant-id');
-      }
+  ): Promise<TenantResolutionCandidate | undefined> {
+    const request = createTenantResolverRequest({
+      method: req.method,
+      url: req.originalUrl || req.url,
+      headers: req.headers,
+      ip: req.ip,
+      raw: req,
+    });
+    const services: TenantStrategyServices = {
+      schemaNamingStrategy: this.configService.getSchemaNamingStrategy(),
+      findByDomain: this.validationStrategy?.findByDomain?.bind(
+        this.validationStrategy,
+      ),
+      tenantResolver: this.tenantResolver,
+      logger: this.logger,
+      label: '[Express]',
+    };
 
-      case 'subdomain': {
-        return this.resolveFromSubdomain(req, 0);
-      }
+    const { resolved, candidates, conflict } = await resolveTenantChain(
+      config,
+      strategy => resolveFromStrategy(request, strategy, services),
+    );
 
-      case 'jwt': {
-        return this.resolveFromJWT(req, config.jwtClaimName || 'tenantId');
-      }
+    if (conflict) {
+      this.logger.warn(
+        `[Express] Tenant resolution strategies disagree: ${candidates
+          .map(candidate => `${candidate.source}=${candidate.tenantId}`)
+          .join(', ')}. Using ${resolved?.source}.`,
+      );
+    }
 
-      case 'custom': {
-        return config.customResolver?.(req);
-      }
+    return resolved;
+  }
 
-      default: {
-        this.logger.warn(
-          `[Express] Unknown tenant resolution strategy: ${config.strategy}`,
-        );
-        return undefined;
+  /**
+   * Removes the tenant path prefix from the URL so routing sees the
+   * tenant-less path. Runs regardless of which strategy won the chain.
+   * @param req - The Express request object
+   * @param config - The tenant resolution configuration
+   */
+  private stripTenantPath(
+    req: TenantExpressRequest,
+    config: TenantResolutionConfig,
+  ): void {
+    for (const strategy of normalizeResolutionStrategies(config)) {
+      if (strategy.type !== 'path' || !strategy.stripPrefix) continue;
+
+      const match = matchTenantPath(req.url, strategy.pattern);
+      if (match) {
+        req.url = match.strippedUrl;
+        this.logger.debug(`[Express] Stripped tenant path prefix: ${req.url}`);
+        return;
       }
     }
   }
 
+  /**
+   * Opens the tenant connection before the route handler when the context
+   * lives in AsyncLocalStorage, so the singleton repository proxies can use
+   * it synchronously. The connection is leased until the response is sent.
+   * Failures surface again when the connection is used.
+   * @param res - The response that ends the lease
+   */
+  private async openTenantConnection(res: Response): Promise<void> {
+    const schema = this.tenantContextService.getTenantSchema();
+
+    if (
+      !schema ||
+      !this.connectionService ||
+      !(this.tenantContextService instanceof AsyncLocalTenantContextService)
+    ) {
+      return;
+    }
+
+    try {
+      const lease = await this.connectionService.acquire(schema);
+      res.once('close', lease.release);
+    } catch (error) {
+      this.logger.debug(
+        `[Express] Could not open connection for schema ${schema}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+  }
+
   /**
    * Sets the tenant context and updates the request object.
    * @param req - The Express request object
@@ -107,7 +243,7 @@ export class TenantResolverMiddleware
   private setTenantContext(
     req: TenantExpressRequest,
     tenantId: string,
-    source: string,
+    source: TenantResolutionSource,
   ): void {
     this.tenantContextService.setContext(tenantId);
     const context = this.tenantContextService.getContext();
@@ -122,6 +258,7 @@ export class TenantResolverMiddleware
     req.tenant = {
       id: context.tenantId,
       schema: context.tenantSchema,
+      source,
     };
 
     const logMessage =
@@ -134,79 +271,4 @@ export class TenantResolverMiddleware
       `[Express] Tenant context set: ID=${context.tenantId}, Schema=${context.tenantSchema}`,
     );
   }
-
-  /**
-   * Resolve tenant ID from request header.
-   * @param req - The Express request object.
-   * @param headerName - The name of the header to check for tenant ID.
-   * @returns The tenant ID if found, otherwise undefined.
-   */
-  private resolveFromHeader(
-    req: Request,
-    headerName: string,
-  ): string | undefined {
-    const tenantId = req.headers[headerName.toLowerCase()] as string;
-    return tenantId?.trim() || undefined;
-  }
-
-  /**
-   * Resolve tenant ID from request subdomain.
-   * @param req - The Express request object.
-   * @param position - The position of the subdomain to use as tenant ID.
-   * @returns The tenant ID if found, otherwise undefined.
-   */
-  private resolveFromSubdomain(
-    req: Request,
-    position: number,
-  ): string | undefined {
-    const host = req.get('host');
-    if (!host) return undefined;
-
-    const subdomains = host.split('.').slice(0, -2);
-    return subdomains[position]?.trim() || undefined;
-  }
-
-  /**
-   * Resolve tenant ID from request JWT.
-   * @param req - The Express request object.
-   * @param jwtKey - The key in the JWT payload to use as tenant ID.
-   * @returns The tenant ID if found, otherwise undefined.
-   */
-  private async resolveFromJWT(
-    req: Request,
-    jwtKey: string,
-  ): Promise<string | undefined> {
-    try {
-      const authHeader = req.headers.authorization;
-      if (!authHeader?.startsWith('Bearer ')) return undefined;
-
-      const token = authHeader.slice(7);
-      const payload = this.decodeJWTPayload(token);
-
-      const tenantId = (payload as Record<string, unknown>)?.[jwtKey] as string;
-      return tenantId?.trim() || undefined;
-    } catch (error) {
-      this.logger.debug('[Express] Error resolving tenant from JWT:', error);
-      return undefined;
-    }
-  }
-
-  /**
-   * Decode JWT payload.
-   * @param token - The JWT token to decode.
-   * @returns The decoded payload if valid, otherwise undefined.
-   */
-  private decodeJWTPayload(token: string): unknown {
-    try {
-      const parts = token.split('.');
-      if (parts.length !== 3) return undefined;
-
-      const payload = parts[1];
-      const decoded = Buffer.from(payload, 'base64url').toString('utf8');
-      return JSON.parse(decoded);
-    } catch (error) {
-      this.logger.debug('[Express] Error decoding JWT payload:', error);
-      return undefined;
-    }
-  }
 }
@@ -10,7 +10,12 @@ import { ADMIN_DATABASE } from '../../admin/services/drizzle-tenant-admin.servic
 import { DatabaseConfig } from '../interfaces/typeorm.interface';
 import { runDrizzleMigrations } from '../utils/drizzle-migration.helper';
 
-export type AdminDatabaseType = NodePgDatabase<typeof tenantSchema>;
+/**
+ * Drizzle admin database, with the pool it was created on in `$client`
+ */
+export type AdminDatabaseType = NodePgDatabase<typeof tenantSchema> & {
+  $client: Pool;
+};
 
 /**
  * Creates the admin database provider for Drizzle ORM
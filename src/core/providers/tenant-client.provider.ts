@@ -0,0 +1,103 @@
+import type { ClientProxy } from '@nestjs/microservices';
+
+import { Provider } from '@nestjs/common';
+import { Observable } from 'rxjs';
+
+import {
+  IMultiTenantConfigService,
+  ITenantContextService,
+  MicroserviceTenantConfig,
+} from '../interfaces/tenant.interface';
+import { MULTI_TENANT_CONFIG_SERVICE } from '../services/multi-tenant-config.service';
+import { TENANT_CONTEXT_SERVICE } from '../services/tenant-context.service';
+import { getTenantClientToken } from '../utils/generate-token.provider';
+import { stampRpcTenant } from '../utils/rpc-tenant.utils';
+
+/**
+ * Wraps a microservice ClientProxy and stamps the current tenant onto every
+ * outgoing message, so the receiving service's TenantRpcInterceptor handles
+ * it for the same tenant.
+ */
+export class TenantClientProxy {
+  constructor(
+    readonly client: ClientProxy,
+    private readonly tenantContextService: ITenantContextService,
+    private readonly config: MicroserviceTenantConfig = {},
+  ) {}
+
+  connect(): Promise<unknown> {
+    return this.client.connect();
+  }
+
+  close(): unknown {
+    return this.client.close();
+  }
+
+  /**
+   * Sends a request-response message stamped with the current tenant
+   * @param pattern - The message pattern
+   * @param data - The message payload
+   */
+  send<TResult = unknown, TInput = unknown>(
+    pattern: unknown,
+    data: TInput,
+  ): Observable<TResult> {
+    return this.client.send<TResult>(pattern, this.stamp(data));
+  }
+
+  /**
+   * Emits an event stamped with the current tenant
+   * @param pattern - The event pattern
+   * @param data - The event payload
+   */
+  emit<TResult = unknown, TInput = unknown>(
+    pattern: unknown,
+    data: TInput,
+  ): Observable<TResult> {
+    return this.client.emit<TResult>(pattern, this.stamp(data));
+  }
+
+  private stamp(data: unknown): unknown {
+    const { tenantId } = this.tenantContextService.getContext();
+    return tenantId ? stampRpcTenant(data, tenantId, this.config) : data;
+  }
+}
+
+/**
+ * Creates a provider wrapping a registered ClientProxy in a
+ * TenantClientProxy, injectable with `@InjectTenantClient(clientToken)`.
+ *
+ * @param clientToken - The injection token of the ClientProxy
+ * @returns The provider
+ *
+ * @example
+ * ```ts
+ * @Module({
+ *   imports: [
+ *     ClientsModule.register([
+ *       { name: 'ORDERS_SERVICE', transport: Transport.TCP },
+ *     ]),
+ *   ],
+ *   providers: [createTenantClientProvider('ORDERS_SERVICE')],
+ * })
+ * export class OrdersModule {}
+ * ```
+ */
+export function createTenantClientProvider(
+  clientToken: string | symbol,
+): Provider {
+  return {
+    provide: getTenantClientToken(clientToken),
+    useFactory: (
+      client: ClientProxy,
+      tenantContextService: ITenantContextService,
+      configService: IMultiTenantConfigService,
+    ): TenantClientProxy =>
+      new TenantClientProxy(
+        client,
+        tenantContextService,
+        configService.getMicroserviceConfig(),
+      ),
+    inject: [clientToken, TENANT_CONTEXT_SERVICE, MULTI_TENANT_CONFIG_SERVICE],
+  };
+}
@@ -1,22 +1,184 @@
 import { Provider } from '@nestjs/common';
 import { NodePgDatabase } from 'drizzle-orm/node-postgres';
-import { EntityTarget, ObjectLiteral, Repository } from 'typeorm';
+import { DataSource, EntityTarget, ObjectLiteral, Repository } from 'typeorm';
 
+import { NoTenantContextError } from '../exceptions/custom-errors';
 import {
   isDrizzleConnection,
   isTypeOrmConnection,
+  TenantOrmConnection,
 } from '../interfaces/orm-abstraction.interface';
 import {
+  IMultiTenantConfigService,
   ITenantConnectionService,
   ITenantContextService,
 } from '../interfaces/tenant.interface';
+import {
+  AsyncLocalTenantContextService,
+  TenantContext,
+} from '../services/async-local-tenant-context.service';
+import { MULTI_TENANT_CONFIG_SERVICE } from '../services/multi-tenant-config.service';
 import { TENANT_CONNECTION_SERVICE } from '../services/tenant-connection.service';
-import { TENANT_CONTEXT_SERVICE } from '../services/tenant-context.service';
+import {
+  TENANT_CONTEXT_SERVICE,
+  TenantContextService,
+} from '../services/tenant-context.service';
 import {
   getTenantRepositoryToken,
   TOKEN_CONSTANTS,
 } from '../utils/generate-token.provider';
 
+function toTypeOrmRepository<T extends ObjectLiteral>(
+  connection: TenantOrmConnection,
+  entity: EntityTarget<T>,
+): Repository<T> {
+  if (!isTypeOrmConnection(connection)) {
+    throw new Error(
+      'Cannot create TypeORM repository with non-TypeORM connection. Use InjectTenantDb() for Drizzle.',
+    );
+  }
+
+  return connection.dataSource.getRepository(entity);
+}
+
+function toTypeOrmDataSource(connection: TenantOrmConnection): DataSource {
+  if (!isTypeOrmConnection(connection)) {
+    throw new Error(
+      'Cannot provide TypeORM DataSource with non-TypeORM connection',
+    );
+  }
+
+  return connection.dataSource;
+}
+
+function toDrizzleDb(connection: TenantOrmConnection): NodePgDatabase {
+  if (!isDrizzleConnection(connection)) {
+    throw new Error(
+      'Cannot provide Drizzle DB with non-Drizzle connection. Use InjectTenantDataSource() for TypeORM.',
+    );
+  }
+
+  return connection.db;
+}
+
+function toDrizzleReadDb(connection: TenantOrmConnection): NodePgDatabase {
+  return (
+    (isDrizzleConnection(connection) && connection.readDb) ||
+    toDrizzleDb(connection)
+  );
+}
+
+/**
+ * Opens the tenant connection for a REQUEST-scoped provider. Within HTTP
+ * requests the connection is leased until the response is sent, so it is not
+ * destroyed while the request uses it.
+ */
+async function openRequestConnection(
+  tenantConnectionService: ITenantConnectionService,
+  tenantContextService: ITenantContextService,
+  schema: string,
+): Promise<TenantOrmConnection> {
+  if (!(tenantContextService instanceof TenantContextService)) {
+    return tenantConnectionService.getConnectionForSchema(schema);
+  }
+
+  const lease = await tenantConnectionService.acquire(schema);
+  if (!tenantContextService.onRequestClose(lease.release)) {
+    lease.release();
+  }
+
+  return lease.connection;
+}
+
+/**
+ * Returns whether a member is a method of the proxied type
+ */
+function isMethodOf(prototype: object, property: string | symbol): boolean {
+  for (
+    let current: object | null = prototype;
+    current;
+    current = Object.getPrototypeOf(current)
+  ) {
+    const descriptor = Object.getOwnPropertyDescriptor(current, property);
+    if (descriptor) return typeof descriptor.value === 'function';
+  }
+  return false;
+}
+
+/**
+ * Creates a singleton stand-in for a tenant-scoped object, used with
+ * `contextMode: 'async-local-storage'`. Every member access resolves the
+ * connection of the current tenant from TenantContext:
+ * - when the connection is open, the member of the real object is used
+ * - when it is not, methods open it first and return a promise
+ *
+ * The tenant middleware leases the connection for the whole request, so
+ * synchronous members such as query builders work inside requests. Calls
+ * that have to open the connection hold a lease until they settle.
+ *
+ * @param tenantConnectionService - The tenant connection service
+ * @param prototype - Prototype of the proxied type, used to tell methods apart
+ * @param select - Returns the proxied object from a tenant connection
+ * @param usage - Description used in error messages
+ * @returns The proxy
+ */
+function createTenantConnectionProxy<T extends object>(
+  tenantConnectionService: ITenantConnectionService,
+  prototype: object,
+  select: (connection: TenantOrmConnection) => T,
+  usage: string,
+): T {
+  return new Proxy({} as T, {
+    get: (_target, property) => {
+      // Not thenable, and invisible to Nest provider introspection
+      if (
+        property === 'then' ||
+        property === 'constructor' ||
+        typeof property === 'symbol'
+      ) {
+        return;
+      }
+
+      const isMethod = isMethodOf(prototype, property);
+      const tenantSchema = TenantContext.current()?.tenantSchema;
+
+      if (!tenantSchema) {
+        if (!isMethod) return;
+        throw new NoTenantContextError(
+          `No tenant context available for ${usage}`,
+        );
+      }
+
+      const connection =
+        tenantConnectionService.getPooledConnection(tenantSchema);
+
+      if (connection) {
+        const target = select(connection);
+        const value: unknown = Reflect.get(target, property);
+        return typeof value === 'function' ? value.bind(target) : value;
+      }
+
+      if (!isMethod) {
+        throw new Error(
+          `Connection for schema ${tenantSchema} is not open yet. Call an async method first to open it.`,
+        );
+      }
+
+      return async (...args: unknown[]) => {
+        const lease = await tenantConnectionService.acquire(tenantSchema);
+        try {
+          const target = select(lease.connection);
+          return await (
+            Reflect.get(target, property) as (...args: unknown[]) => unknown
+          ).apply(target, args);
+        } finally {
+          lease.release();
+        }
+      };
+    },
+  });
+}
+
 // TYPEORM
 /**
  * Creates a provider for TypeORM repository injection
@@ -31,23 +193,30 @@ export function createTenantRepositoryProvider<T extends ObjectLiteral>(
       tenantConnectionService: ITenantConnectionService,
       tenantContextService: ITenantContextService,
     ): Promise<Repository<T>> => {
+      if (tenantContextService instanceof AsyncLocalTenantContextService) {
+        return createTenantConnectionProxy(
+          tenantConnectionService,
+          Repository.prototype,
+          connection => toTypeOrmRepository(connection, entity),
+          'repository creation',
+        );
+      }
+
       const tenantContext = tenantContextService.getContext();
 
       if (!tenantContext || !tenantContext.tenantSchema) {
-        throw new Error('No tenant context available for repository creation');
+        throw new NoTenantContextError(
+          'No tenant context available for repository creation',
+        );
       }
 
-      const connection = await tenantConnectionService.getConnectionForSchema(
+      const connection = await openRequestConnection(
+        tenantConnectionService,
+        tenantContextService,
         tenantContext.tenantSchema,
       );
 
-      if (!isTypeOrmConnection(connection)) {
-        throw new Error(
-          'Cannot create TypeORM repository with non-TypeORM connection. Use InjectTenantDb() for Drizzle.',
-        );
-      }
-
-      return connection.dataSource.getRepository(entity);
+      return toTypeOrmRepository(connection, entity);
     },
     inject: [TENANT_CONNECTION_SERVICE, TENANT_CONTEXT_SERVICE],
   };
@@ -72,23 +241,30 @@ export const TenantDataSourceProvider: Provider = {
     tenantConnectionService: ITenantConnectionService,
     tenantContextService: ITenantContextService,
   ): Promise<unknown> => {
+    if (tenantContextService instanceof AsyncLocalTenantContextService) {
+      return createTenantConnectionProxy(
+        tenantConnectionService,
+        DataSource.prototype,
+        toTypeOrmDataSource,
+        'data source creation',
+      );
+    }
+
     const tenantContext = tenantContextService.getContext();
 
     if (!tenantContext || !tenantContext.tenantSchema) {
-      throw new Error('No tenant context available for data source creation');
+      throw new NoTenantContextError(
+        'No tenant context available for data source creation',
+      );
     }
 
-    const connection = await tenantConnectionService.getConnectionForSchema(
+    const connection = await openRequestConnection(
+      tenantConnectionService,
+      tenantContextService,
       tenantContext.tenantSchema,
     );
 
-    if (!isTypeOrmConnection(connection)) {
-      throw new Error(
-        'Cannot provide TypeORM DataSource with non-TypeORM connection',
-      );
-    }
-
-    return connection.dataSource;
+    return toTypeOrmDataSource(connection);
   },
   inject: [TENANT_CONNECTION_SERVICE, TENANT_CONTEXT_SERVICE],
 };
@@ -104,8 +280,9 @@ export function createSpecificTenantRepositoryProvider<T extends ObjectLiteral>(
     provide: `${getTenantRepositoryToken(entity)}_${tenantId}`,
     useFactory: async (
       tenantConnectionService: ITenantConnectionService,
+      configService: IMultiTenantConfigService,
     ): Promise<Repository<T>> => {
-      const schemaName = `tenant_${tenantId}`;
+      const schemaName = configService.getSchemaNamingStrategy()(tenantId);
       const connection =
         await tenantConnectionService.getConnectionForSchema(schemaName);
 
@@ -117,7 +294,7 @@ export function createSpecificTenantRepositoryProvider<T extends ObjectLiteral>(
 
       return connection.dataSource.getRepository(entity);
     },
-    inject: [TENANT_CONNECTION_SERVICE],
+    inject: [TENANT_CONNECTION_SERVICE, MULTI_TENANT_CONFIG_SERVICE],
   };
 }
 
@@ -131,9 +308,12 @@ export function createTenantRepositoryFactory<T extends ObjectLiteral>(
     provide: `${getTenantRepositoryToken(entity)}${
       TOKEN_CONSTANTS.FACTORY_SUFFIX
     }`,
-    useFactory: (tenantConnectionService: ITenantConnectionService) => {
+    useFactory: (
+      tenantConnectionService: ITenantConnectionService,
+      configService: IMultiTenantConfigService,
+    ) => {
       return async (tenantId: string): Promise<Repository<T>> => {
-        const schemaName = `tenant_${tenantId}`;
+        const schemaName = configService.getSchemaNamingStrategy()(tenantId);
         const connection =
           await tenantConnectionService.getConnectionForSchema(schemaName);
 
@@ -146,7 +326,7 @@ export function createTenantRepositoryFactory<T extends ObjectLiteral>(
         return connection.dataSource.getRepository(entity);
       };
     },
-    inject: [TENANT_CONNECTION_SERVICE],
+    inject: [TENANT_CONNECTION_SERVICE, MULTI_TENANT_CONFIG_SERVICE],
   };
 }
 
@@ -161,23 +341,69 @@ export const TenantDrizzleDbProvider: Provider = {
     tenantConnectionService: ITenantConnectionService,
     tenantContextService: ITenantContextService,
   ): Promise<NodePgDatabase> => {
+    if (tenantContextService instanceof AsyncLocalTenantContextService) {
+      return createTenantConnectionProxy(
+        tenantConnectionService,
+        NodePgDatabase.prototype,
+        toDrizzleDb,
+        'database creation',
+      );
+    }
+
     const tenantContext = tenantContextService.getContext();
 
     if (!tenantContext || !tenantContext.tenantSchema) {
-      throw new Error('No tenant context available for database creation');
+      throw new NoTenantContextError(
+        'No tenant context available for database creation',
+      );
     }
 
-    const connection = await tenantConnectionService.getConnectionForSchema(
+    const connection = await openRequestConnection(
+      tenantConnectionService,
+      tenantContextService,
       tenantContext.tenantSchema,
     );
 
-    if (!isDrizzleConnection(connection)) {
-      throw new Error(
-        'Cannot provide Drizzle DB with non-Drizzle connection. Use InjectTenantDataSource() for TypeORM.',
+    return toDrizzleDb(connection);
+  },
+  inject: [TENANT_CONNECTION_SERVICE, TENANT_CONTEXT_SERVICE],
+};
+
+/**
+ * Provider for the Drizzle Database instance reading from the read replicas.
+ * Without replicas it is the same instance as TenantDrizzleDbProvider.
+ * Only available when using Drizzle strategy
+ */
+export const TenantDrizzleReadDbProvider: Provider = {
+  provide: TOKEN_CONSTANTS.DRIZZLE_READ_DB,
+  useFactory: async (
+    tenantConnectionService: ITenantConnectionService,
+    tenantContextService: ITenantContextService,
+  ): Promise<NodePgDatabase> => {
+    if (tenantContextService instanceof AsyncLocalTenantContextService) {
+      return createTenantConnectionProxy(
+        tenantConnectionService,
+        NodePgDatabase.prototype,
+        toDrizzleReadDb,
+        'database creation',
+      );
+    }
+
+    const tenantContext = tenantContextService.getContext();
+
+    if (!tenantContext || !tenantContext.tenantSchema) {
+      throw new NoTenantContextError(
+        'No tenant context available for database creation',
       );
     }
 
-    return connection.db;
+    const connection = await openRequestConnection(
+      tenantConnectionService,
+      tenantContextService,
+      tenantContext.tenantSchema,
+    );
+
+    return toDrizzleReadDb(connection);
   },
   inject: [TENANT_CONNECTION_SERVICE, TENANT_CONTEXT_SERVICE],
 };
@@ -188,9 +414,12 @@ export const TenantDrizzleDbProvider: Provider = {
 export function createTenantDrizzleDbFactory(): Provider {
   return {
     provide: `${TOKEN_CONSTANTS.DRIZZLE_DB}${TOKEN_CONSTANTS.FACTORY_SUFFIX}`,
-    useFactory: (tenantConnectionService: ITenantConnectionService) => {
+    useFactory: (
+      tenantConnectionService: ITenantConnectionService,
+      configService: IMultiTenantConfigService,
+    ) => {
       return async (tenantId: string): Promise<NodePgDatabase> => {
-        const schemaName = `tenant_${tenantId}`;
+        const schemaName = configService.getSchemaNamingStrategy()(tenantId);
         const connection =
           await tenantConnectionService.getConnectionForSchema(schemaName);
 
@@ -203,6 +432,6 @@ export function createTenantDrizzleDbFactory(): Provider {
         return connection.db;
       };
     },
-    inject: [TENANT_CONNECTION_SERVICE],
+    inject: [TENANT_CONNECTION_SERVICE, MULTI_TENANT_CONFIG_SERVICE],
   };
 }
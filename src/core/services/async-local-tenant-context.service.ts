@@ -0,0 +1,231 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import { Inject, Injectable } from '@nestjs/common';
+
+import {
+  IMultiTenantConfigService,
+  ITenantContext,
+  ITenantContextService,
+} from '../interfaces/tenant.interface';
+import {
+  defaultSchemaNamingStrategy,
+  MULTI_TENANT_CONFIG_SERVICE,
+} from './multi-tenant-config.service';
+
+type SchemaNamingStrategy = (tenantId: string) => string;
+
+/**
+ * Tenant context of an async execution. It keeps the naming strategy of the
+ * module that opened it, so nested `TenantContext.run()` calls derive the
+ * schema the same way, and the trace ID of the request it runs for.
+ */
+interface TenantScope extends ITenantContext {
+  schemaNamingStrategy: SchemaNamingStrategy;
+  traceId?: string;
+}
+
+const tenantContextStorage = new AsyncLocalStorage<TenantScope>();
+
+function createTenantScope(
+  tenantId: string,
+  schemaNamingStrategy: SchemaNamingStrategy,
+): TenantScope {
+  return {
+    tenantId,
+    tenantSchema: schemaNamingStrategy(tenantId),
+    hasTenant: true,
+    schemaNamingStrategy,
+  };
+}
+
+/**
+ * Runs a function with the given tenant as the current tenant, deriving its
+ * schema with the given naming strategy
+ * @param tenantId - The tenant ID
+ * @param schemaNamingStrategy - The schema naming strategy
+ * @param fn - The function to run
+ * @returns The result of the function
+ */
+export function runInTenantContext<T>(
+  tenantId: string,
+  schemaNamingStrategy: SchemaNamingStrategy,
+  fn: () => T,
+): T {
+  return tenantContextStorage.run(
+    {
+      ...createTenantScope(tenantId, schemaNamingStrategy),
+      traceId: tenantContextStorage.getStore()?.traceId,
+    },
+    fn,
+  );
+}
+
+/**
+ * Runs a function in a new, empty tenant scope that the tenant context
+ * services fill in. The tenant middleware runs each request in its own scope
+ * in every context mode, so singletons can read the tenant of the request.
+ * @param schemaNamingStrategy - The schema naming strategy
+ * @param fn - The function to run
+ * @param traceId - The trace ID of the request, if it sent one
+ * @returns The result of the function
+ */
+export function runInTenantScope<T>(
+  schemaNamingStrategy: SchemaNamingStrategy,
+  fn: () => T,
+  traceId?: string,
+): T {
+  return tenantContextStorage.run(
+    {
+      tenantId: undefined,
+      tenantSchema: undefined,
+      hasTenant: false,
+      schemaNamingStrategy,
+      traceId,
+    },
+    fn,
+  );
+}
+
+/**
+ * Sets the tenant of the current scope
+ * @param tenantId - The tenant ID
+ * @param schemaNamingStrategy - The schema naming strategy
+ * @returns false outside of a scope, in which case nothing is set
+ */
+export function setScopeTenant(
+  tenantId: string,
+  schemaNamingStrategy: SchemaNamingStrategy,
+): boolean {
+  const store = tenantContextStorage.getStore();
+  if (!store) return false;
+
+  Object.assign(store, createTenantScope(tenantId, schemaNamingStrategy));
+  return true;
+}
+
+/**
+ * Returns the trace ID of the current scope, setting it to a new one when
+ * the request did not send one, so every call made for the request shares it
+ * @param generate - Creates a trace ID
+ * @returns The trace ID, or a new one on each call outside of a scope
+ */
+export function getScopeTraceId(generate: () => string): string {
+  const store = tenantContextStorage.getStore();
+  if (!store) return generate();
+
+  store.traceId ??= generate();
+  return store.traceId;
+}
+
+/**
+ * Tenant context of the current async execution. With
+ * `contextMode: 'async-local-storage'` it is the tenant context itself; in
+ * 'request' mode it follows the tenant set on the request context service.
+ *
+ * @example
+ * ```ts
+ * await TenantContext.run('acme', () => this.reportService.generate());
+ * ```
+ */
+export const TenantContext = {
+  /**
+   * @returns The tenant context of the current execution, or undefined
+   * outside of a tenant request or `run()` callback
+   */
+  current(): ITenantContext | undefined {
+    const store = tenantContextStorage.getStore();
+    if (!store?.hasTenant) return undefined;
+
+    const { tenantId, tenantSchema, hasTenant } = store;
+    return { tenantId, tenantSchema, hasTenant };
+  },
+
+  /**
+   * Runs a function with the given tenant as the current tenant. The
+   * context is kept across every async call made by the function.
+   *
+   * The schema is derived with the naming strategy of the request or
+   * handler the call is made from. Outside of them the default naming is
+   * used; run background work through `TenantExecutor.runInTenant()` to
+   * apply the configured `schemaNamingStrategy`.
+   *
+   * @param tenantId - The tenant ID
+   * @param fn - The function to run
+   * @returns The result of the function
+   */
+  run<T>(tenantId: string, fn: () => T): T {
+    return runInTenantContext(
+      tenantId,
+      tenantContextStorage.getStore()?.schemaNamingStrategy ??
+        defaultSchemaNamingStrategy,
+      fn,
+    );
+  },
+};
+
+/**
+ * Singleton ITenantContextService backed by AsyncLocalStorage. Unlike the
+ * REQUEST-scoped TenantContextService it does not force the services that
+ * inject it to be re-created on every request.
+ */
+@Injectable()
+export class AsyncLocalTenantContextService implements ITenantContextService {
+  private readonly schemaNamingStrategy: SchemaNamingStrategy;
+
+  constructor(
+    @Inject(MULTI_TENANT_CONFIG_SERVICE)
+    configService: IMultiTenantConfigService,
+  ) {
+    this.schemaNamingStrategy = configService.getSchemaNamingStrategy();
+  }
+
+  /**
+   * Runs a function with the given tenant as the current tenant, deriving
+   * its schema with the configured naming strategy
+   * @param tenantId - The tenant ID
+   * @param fn - The function to run
+   * @returns The result of the function
+   */
+  run<T>(tenantId: string, fn: () => T): T {
+    return runInTenantContext(tenantId, this.schemaNamingStrategy, fn);
+  }
+
+  /**
+   * Runs a function in a new, empty tenant scope that `setContext` fills in.
+   * @param fn - The function to run
+   * @returns The result of the function
+   */
+  runInScope<T>(fn: () => T): T {
+    return runInTenantScope(this.schemaNamingStrategy, fn);
+  }
+
+  /**
+   * Sets the tenant of the current scope. Outside of a scope the tenant would
+   * leak into every later continuation of a shared execution, such as a cron
+   * job or an event handler, so it is rejected: open one with `runInScope()`
+   * or use `run()`.
+   * @param tenantId - The tenant ID
+   * @throws Error when called outside of a scope
+   */
+  setContext(tenantId: string): void {
+    if (!setScopeTenant(tenantId, this.schemaNamingStrategy)) {
+      throw new Error(
+        'No tenant scope to set the tenant in: call setContext() inside runInScope(), or use run()',
+      );
+    }
+  }
+
+  getTenantSchema(): string | undefined {
+    return TenantContext.current()?.tenantSchema;
+  }
+
+  getContext(): ITenantContext {
+    return (
+      TenantContext.current() ?? {
+        tenantId: undefined,
+        tenantSchema: undefined,
+        hasTenant: false,
+      }
+    );
+  }
+}
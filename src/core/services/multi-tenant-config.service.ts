@@ -2,15 +2,68 @@ import { Inject, Injectable } from '@nestjs/common';
 
 import { EntityRegistryType } from '../../config/entity.registry';
 import { EntityName, TenantPreset } from '../../constants';
+import { ConnectionMode } from '../interfaces/orm-abstraction.interface';
 import {
+  HttpTenantPropagationConfig,
   IMultiTenantConfigService,
+  MicroserviceTenantConfig,
   MultiTenantModuleOptions,
+  RowLevelSecurityConfig,
+  TenantCredentialsResolver,
+  TenantIsolation,
   TenantResolutionConfig,
+  TenantStatusPolicy,
 } from '../interfaces/tenant.interface';
 import {
   ConnectionPoolConfig,
   DatabaseConfig,
 } from '../interfaces/typeorm.interface';
+import { DEFAULT_TENANT_STATUS_POLICY } from '../utils/tenant-status.utils';
+
+/**
+ * Default schema naming: `tenant_<sanitized id>`, keeping 'default' as is
+ * @param tenantId - The tenant ID
+ * @returns The schema name
+ */
+export function defaultSchemaNamingStrategy(tenantId: string): string {
+  const sanitized = tenantId.toLowerCase().replaceAll(/[^a-z0-9]/g, '_');
+  return tenantId === 'default' ? 'default' : `tenant_${sanitized}`;
+}
+
+/**
+ * Tenant ID used to find where a naming strategy puts the ID in the schema
+ */
+const NAMING_STRATEGY_PROBE = 'tenantid';
+
+/**
+ * Maps a stored tenant code (`tenant_acme`) back to its tenant ID (`acme`)
+ * with a schema naming strategy. Values the strategy does not produce, such
+ * as tenant IDs, are returned as is.
+ * @param code - The stored tenant code or a tenant ID
+ * @param schemaNamingStrategy - The configured schema naming strategy
+ * @returns The tenant ID
+ */
+export function tenantIdFromCode(
+  code: string,
+  schemaNamingStrategy: (tenantId: string) => string,
+): string {
+  const probe = schemaNamingStrategy(NAMING_STRATEGY_PROBE);
+  const index = probe.lastIndexOf(NAMING_STRATEGY_PROBE);
+  if (index === -1) return code;
+
+  const prefix = probe.slice(0, index);
+  const suffix = probe.slice(index + NAMING_STRATEGY_PROBE.length);
+  if (
+    code.length <= prefix.length + suffix.length ||
+    !code.startsWith(prefix) ||
+    !code.endsWith(suffix)
+  ) {
+    return code;
+  }
+
+  const tenantId = code.slice(prefix.length, code.length - suffix.length);
+  return schemaNamingStrategy(tenantId) === code ? tenantId : code;
+}
 
 /**
  * Symbol for multi-tenant config service
@@ -97,18 +150,79 @@ export class MultiTenantConfigService implements IMultiTenantConfigService {
     return this.options.autoCreateSchemas || false;
   }
 
+  /**
+   * Check if tenant databases are created with their tenants
+   * @returns boolean
+   */
+  isAutoCreateDatabasesEnabled(): boolean {
+    return this.options.autoCreateDatabases || false;
+  }
+
+  /**
+   * Get whether tenants get their own pool or share one
+   * @returns ConnectionMode
+   */
+  getConnectionMode(): ConnectionMode {
+    return this.options.connectionMode || 'pool-per-tenant';
+  }
+
+  /**
+   * Get how tenant data is isolated
+   * @returns TenantIsolation
+   */
+  getIsolation(): TenantIsolation {
+    return this.options.isolation || 'schema';
+  }
+
+  /**
+   * Get the shared tables of tenants in 'row' isolation
+   * @returns RowLevelSecurityConfig
+   */
+  getRowLevelSecurityConfig(): RowLevelSecurityConfig {
+    return this.options.rowLevelSecurity || {};
+  }
+
+  /**
+   * Get the resolver of tenant database credentials
+   * @returns TenantCredentialsResolver, or undefined when not configured
+   */
+  getTenantCredentialsResolver(): TenantCredentialsResolver | undefined {
+    return this.options.tenantCredentials;
+  }
+
+  /**
+   * Get the tenant status policy merged over the default policy
+   * @returns TenantStatusPolicy
+   */
+  getTenantStatusPolicy(): TenantStatusPolicy {
+    return {
+      ...DEFAULT_TENANT_STATUS_POLICY,
+      ...this.options.tenantStatusPolicy,
+    };
+  }
+
+  /**
+   * Get microservice tenant propagation configuration
+   * @returns MicroserviceTenantConfig
+   */
+  getMicroserviceConfig(): MicroserviceTenantConfig {
+    return this.options.microservices || {};
+  }
+
+  /**
+   * Get outgoing HTTP tenant propagation configuration
+   * @returns HttpTenantPropagationConfig, or undefined when disabled
+   */
+  getHttpPropagationConfig(): HttpTenantPropagationConfig | undefined {
+    return this.options.httpPropagation;
+  }
+
   /**
    * Get schema naming strategy for multi-tenant module
    * @returns (tenantId: string) => string
    */
   getSchemaNamingStrategy(): (tenantId: string) => string {
-    return (
-      this.options.schemaNamingStrategy ||
-      ((tenantId: string) => {
-        const sanitized = tenantId.toLowerCase().replaceAll(/[^a-z0-9]/g, '_');
-        return tenantId === 'default' ? 'default' : `tenant_${sanitized}`;
-      })
-    );
+    return this.options.schemaNamingStrategy || defaultSchemaNamingStrategy;
   }
 
   /**
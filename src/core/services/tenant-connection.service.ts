@@ -3,47 +3,175 @@ import {
   Injectable,
   Logger,
   NotFoundException,
+  OnModuleInit,
   Optional,
 } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
 
-import { EntityName } from '../../constants';
+import { Tenant } from '../../admin/entities/tenant.entity';
+import {
+  ITenantAdminService,
+  TENANT_ADMIN_SERVICE,
+} from '../../admin/interfaces/tenant-admin.interface';
+import { Tenant as TenantSchema } from '../../admin/schema/tenant.schema';
+import { EntityName, TenantStatus } from '../../constants';
+import {
+  ConnectionPoolExhaustedError,
+  TenantNotActiveError,
+  TenantUnavailableError,
+} from '../exceptions/custom-errors';
 import {
   IOrmStrategy,
+  TenantConnectionTarget,
   TenantOrmConnection,
 } from '../interfaces/orm-abstraction.interface';
 import {
   IMultiTenantConfigService,
   ITenantConnectionService,
-  ITenantContextService,
+  TenantConnectionLease,
 } from '../interfaces/tenant.interface';
 import {
   ITenantValidationStrategy,
   TENANT_VALIDATION_STRATEGY,
 } from '../interfaces/tenant-validation.interface';
-import { IConnectionPoolStats } from '../interfaces/typeorm.interface';
-import { MULTI_TENANT_CONFIG_SERVICE } from './multi-tenant-config.service';
-import { TENANT_CONTEXT_SERVICE } from './tenant-context.service';
+import {
+  ConnectionWarmUpConfig,
+  DatabaseConfig,
+  IConnectionCircuitStats,
+  IConnectionPoolStats,
+  IConnectionUsageStats,
+  TenantCircuitState,
+  TenantPoolSettings,
+} from '../interfaces/typeorm.interface';
+import { resolveTenantDatabaseConfig } from '../utils/tenant-database.utils';
+import {
+  DEFAULT_TENANT_POOL_SETTINGS,
+  resolveTenantPoolSettings,
+} from '../utils/tenant-pool.utils';
+import { checkTenantAvailable } from '../utils/tenant-status.utils';
+import { TenantContext } from './async-local-tenant-context.service';
+import {
+  MULTI_TENANT_CONFIG_SERVICE,
+  tenantIdFromCode,
+} from './multi-tenant-config.service';
 
 export const TENANT_CONNECTION_SERVICE = Symbol('ITenantConnectionService');
 export const ORM_STRATEGY = Symbol('IOrmStrategy');
 
+/**
+ * Usage tracked for each pooled connection, timestamps in epoch milliseconds
+ */
+interface ConnectionUsage {
+  createdAt: number;
+  lastUsedAt: number;
+  hits: number;
+}
+
+const UNTRACKED_USAGE: ConnectionUsage = {
+  createdAt: 0,
+  lastUsedAt: 0,
+  hits: 0,
+};
+
+/**
+ * Circuit breaker of a schema whose connection attempts failed. Schemas
+ * without a tracked circuit are closed.
+ */
+interface TenantCircuit {
+  state: TenantCircuitState;
+  failures: number;
+
+  /**
+   * Times the circuit opened in a row, doubling the open period each time
+   */
+  opens: number;
+
+  /**
+   * When an open circuit turns half-open, in epoch milliseconds
+   */
+  retryAt: number;
+}
+
+/**
+ * How the connection of a schema is opened
+ */
+interface ConnectionPlan {
+  enabledEntities?: string[];
+  target?: TenantConnectionTarget;
+
+  /**
+   * Physical connections the pools of the connection can open, 0 when the
+   * connection uses the shared pool
+   */
+  physicalConnections: number;
+}
+
 /**
  * Service to manage tenant connections and connection pooling.
  * Implements ITenantConnectionService interface.
+ *
+ * The pool is kept in least recently used order: a full pool evicts the
+ * connection that went unused the longest, and the scheduled cleanup closes
+ * connections idle for longer than `idleTimeout`. Connections leased with
+ * `acquire()` are never destroyed while in use: they are removed from the
+ * pool and drain until their last lease is released. When every connection
+ * of a full pool is leased, callers wait for a release.
+ *
+ * With `maxPhysicalConnections` the pools of the tenants are also limited to
+ * that many database connections in total, counting the maximum size of
+ * each pool. Opening a pool that does not fit is handled like a full pool.
+ *
+ * Each schema has a circuit breaker: after consecutive failed connection
+ * attempts its circuit opens and callers fail fast with
+ * TenantUnavailableError instead of waiting out the connect timeout. Once
+ * the open period is over a single attempt probes the tenant; the open
+ * period doubles every time the probe fails.
+ *
+ * The service is a singleton in every context mode, so the pools, limits
+ * and circuits are shared by every request.
  */
 @Injectable()
-export class TenantConnectionService implements ITenantConnectionService {
+export class TenantConnectionService
+  implements ITenantConnectionService, OnModuleInit
+{
   private readonly logger = new Logger(TenantConnectionService.name);
   private readonly connectionPool = new Map<string, TenantOrmConnection>();
+  private readonly connectionUsage = new Map<string, ConnectionUsage>();
+  private readonly pendingConnections = new Map<
+    string,
+    Promise<TenantOrmConnection>
+  >();
+  private readonly leaseCounts = new Map<TenantOrmConnection, number>();
+  private readonly drainingConnections = new Map<TenantOrmConnection, string>();
+  private readonly physicalConnectionCounts = new Map<
+    TenantOrmConnection,
+    number
+  >();
+  private physicalConnections = 0;
+
+  /**
+   * Connections being created, counted against `maxConnections` until they
+   * join the pool
+   */
+  private openingConnections = 0;
+  private readonly circuits = new Map<string, TenantCircuit>();
+  private readonly idleWaiters = new Set<() => void>();
+  private shuttingDown = false;
+  private readonly waitingRequests: Array<() => void> = [];
   private readonly maxConnections: number;
+  private readonly maxPhysicalConnections?: number;
+  private readonly idleTimeout: number;
+  private readonly maxWaitingRequests: number;
+  private readonly acquireTimeout: number;
   private readonly enableCleanup: boolean;
   private readonly cleanupInterval: number;
+  private readonly circuitBreakerEnabled: boolean;
+  private readonly failureThreshold: number;
+  private readonly resetTimeout: number;
+  private readonly maxResetTimeout: number;
   private cleanupTimer?: NodeJS.Timeout;
 
   constructor(
-    @Inject(TENANT_CONTEXT_SERVICE)
-    private readonly tenantContextService: ITenantContextService,
-
     @Inject(MULTI_TENANT_CONFIG_SERVICE)
     private readonly multiTenantConfigService: IMultiTenantConfigService,
 
@@ -53,11 +181,23 @@ export class TenantConnectionService implements ITenantConnectionService {
     @Inject(TENANT_VALIDATION_STRATEGY)
     @Optional()
     private readonly tenantValidationStrategy?: ITenantValidationStrategy,
+
+    @Optional()
+    private readonly moduleRef?: ModuleRef,
   ) {
     const poolConfig = this.multiTenantConfigService.getConnectionPoolConfig();
     this.maxConnections = poolConfig.maxConnections || 50;
+    this.maxPhysicalConnections = poolConfig.maxPhysicalConnections;
+    this.idleTimeout = poolConfig.idleTimeout || 300_000; // Default 5 minutes
+    this.maxWaitingRequests = poolConfig.maxWaitingRequests ?? 100;
+    this.acquireTimeout = poolConfig.acquireTimeout ?? 10_000;
     this.enableCleanup = poolConfig.enableCleanup !== false;
     this.cleanupInterval = poolConfig.cleanupInterval || 60_000; // Default 1 minute
+    const circuitBreaker = poolConfig.circuitBreaker || {};
+    this.circuitBreakerEnabled = circuitBreaker.enabled !== false;
+    this.failureThreshold = circuitBreaker.failureThreshold || 3;
+    this.resetTimeout = circuitBreaker.resetTimeout || 5000;
+    this.maxResetTimeout = circuitBreaker.maxResetTimeout || 300_000;
 
     this.logger.log(`Initialized with ORM strategy: ${this.ormStrategy.type}`);
 
@@ -66,18 +206,100 @@ export class TenantConnectionService implements ITenantConnectionService {
     }
   }
 
+  /**
+   * Opens the connections of the warm-up tenants. Failures are logged and do
+   * not prevent the application from starting.
+   */
+  async onModuleInit(): Promise<void> {
+    const { warmUp } = this.multiTenantConfigService.getConnectionPoolConfig();
+    if (!warmUp) {
+      return;
+    }
+
+    const warmUpSchemas = await this.getWarmUpSchemas(warmUp);
+    const schemas = warmUpSchemas.slice(0, this.maxConnections);
+    const results = await Promise.allSettled(
+      schemas.map(schema => this.getConnectionForSchema(schema)),
+    );
+
+    for (const [index, result] of results.entries()) {
+      if (result.status === 'rejected') {
+        this.logger.warn(
+          `Could not warm up connection for schema ${schemas[index]}: ${
+            result.reason instanceof Error
+              ? result.reason.message
+              : String(result.reason)
+          }`,
+        );
+      }
+    }
+
+    this.logger.log(
+      `Warmed up ${
+        results.filter(result => result.status === 'fulfilled').length
+      } of ${schemas.length} tenant connections`,
+    );
+  }
+
+  /**
+   * Lists the schemas to warm up: the configured tenants, then the most
+   * recently updated active tenants of the admin catalog
+   */
+  private async getWarmUpSchemas(
+    warmUp: ConnectionWarmUpConfig,
+  ): Promise<string[]> {
+    const namingStrategy =
+      this.multiTenantConfigService.getSchemaNamingStrategy();
+    const schemas = new Set(
+      (warmUp.tenants || []).map(tenantId => namingStrategy(tenantId)),
+    );
+
+    if (warmUp.mostRecentlyActive) {
+      try {
+        const adminService = this.moduleRef?.get<ITenantAdminService>(
+          TENANT_ADMIN_SERVICE,
+          { strict: false },
+        );
+        if (!adminService) {
+          throw new Error('the tenant admin service is not available');
+        }
+
+        const { data } = await adminService.findAll({
+          status: TenantStatus.ACTIVE,
+          sortBy: 'updatedAt',
+          sortOrder: 'DESC',
+          limit: warmUp.mostRecentlyActive,
+        });
+        // Stored tenant codes are the tenant schemas
+        for (const tenant of data) {
+          schemas.add(tenant.code);
+        }
+      } catch (error) {
+        this.logger.warn(
+          `Could not list recently active tenants for warm-up: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        );
+      }
+    }
+
+    return [...schemas];
+  }
+
   /**
    * Get a connection for the specified schema
    * Returns the appropriate ORM connection (TypeORM DataSource or Drizzle DB)
    */
   async getConnectionForSchema(schema: string): Promise<TenantOrmConnection> {
+    // Fail fast without looking the tenant up while its database is down
+    this.checkCircuit(schema);
+
     if (
       schema !== 'public' &&
       schema !== 'default' &&
       this.tenantValidationStrategy
     ) {
-      const tenantExists =
-        await this.tenantValidationStrategy.validateTenantExists(schema);
+      const tenantExists = await this.checkTenantAvailable(schema);
 
       if (!tenantExists) {
         this.logger.debug(`Tenant does not exist: ${schema}`);
@@ -89,75 +311,554 @@ export class TenantConnectionService implements ITenantConnectionService {
     if (this.connectionPool.has(schema)) {
       const existingConnection = this.connectionPool.get(schema)!;
       if (this.ormStrategy.isConnectionValid(existingConnection)) {
+        this.markUsed(schema, existingConnection);
         return existingConnection;
       } else {
         // Remove invalid connection
         this.connectionPool.delete(schema);
+        this.connectionUsage.delete(schema);
+        this.releasePhysicalConnections(existingConnection);
       }
     }
 
-    // Check connection limit
-    if (this.connectionPool.size >= this.maxConnections) {
-      this.logger.warn(
-        `Connection pool limit reached (${this.maxConnections}). Consider optimizing connection usage.`,
+    // Share the connection being opened by a concurrent caller
+    const pendingConnection = this.pendingConnections.get(schema);
+    if (pendingConnection) {
+      return pendingConnection;
+    }
+
+    if (this.shuttingDown) {
+      throw new ConnectionPoolExhaustedError(
+        schema,
+        `Not opening connections while shutting down, tenant: ${schema}`,
       );
-      await this.cleanupOldConnections();
     }
 
+    const creation = this.openConnection(schema).finally(() => {
+      this.pendingConnections.delete(schema);
+      this.notifyIfIdle();
+    });
+    this.pendingConnections.set(schema, creation);
+    return creation;
+  }
+
+  /**
+   * Opens a new connection for a schema and adds it to the pool, making room
+   * first when the pool is full
+   */
+  private async openConnection(schema: string): Promise<TenantOrmConnection> {
+    let plan: ConnectionPlan;
+    try {
+      plan = await this.planConnection(schema);
+    } catch (error) {
+      // An unreachable tenant catalog or credential store opens the circuit
+      // like an unreachable database
+      this.recordConnectionFailure(schema);
+      throw error;
+    }
+
+    await this.reserveSlot(schema, plan.physicalConnections);
+
     // Create new connection using the ORM strategy
-    const connection = await this.createConnection(schema);
+    let connection: TenantOrmConnection;
+    try {
+      connection = await (plan.target
+        ? this.ormStrategy.createConnection(
+            schema,
+            plan.enabledEntities,
+            plan.target,
+          )
+        : this.ormStrategy.createConnection(schema, plan.enabledEntities));
+    } catch (error) {
+      this.openingConnections--;
+      this.physicalConnections -= plan.physicalConnections;
+      this.recordConnectionFailure(schema);
+      this.notifyWaitingRequest();
+      throw error;
+    }
+    this.openingConnections--;
+    this.physicalConnectionCounts.set(connection, plan.physicalConnections);
+    this.recordConnectionSuccess(schema);
 
+    const now = Date.now();
     this.connectionPool.set(schema, connection);
+    this.connectionUsage.set(schema, {
+      createdAt: now,
+      lastUsedAt: now,
+      hits: 1,
+    });
     this.logger.log(
       `Created new ${this.ormStrategy.type} connection for schema: ${schema}`,
     );
+    // The new connection can be evicted to make room for a waiting caller
+    this.notifyWaitingRequest();
     return connection;
   }
 
-  private async cleanupOldConnections() {
-    const connectionsToRemove = Math.floor(this.maxConnections * 0.1); // Remove 10%
-    const connections = [...this.connectionPool.entries()];
+  /**
+   * Fails fast while the circuit of a schema is open. Once the open period
+   * is over the circuit turns half-open and lets the next attempt through.
+   * @throws TenantUnavailableError when the circuit is open
+   */
+  private checkCircuit(schema: string): void {
+    const circuit = this.circuits.get(schema);
+    if (circuit?.state !== 'open') {
+      return;
+    }
 
-    for (let i = 0; i < connectionsToRemove && i < connections.length; i++) {
-      const [schema, connection] = connections[i];
-      try {
-        await this.ormStrategy.destroyConnection(connection);
-        this.connectionPool.delete(schema);
-        this.logger.log(`Cleaned up connection for schema: ${schema}`);
-      } catch (error) {
-        this.logger.error(
-          `Error cleaning up connection for schema ${schema}:`,
-          error,
-        );
+    const now = Date.now();
+    if (now >= circuit.retryAt) {
+      circuit.state = 'half-open';
+      this.logger.log(`Circuit half-open for schema: ${schema}`);
+      return;
+    }
+
+    throw new TenantUnavailableError(
+      schema,
+      Math.ceil((circuit.retryAt - now) / 1000),
+    );
+  }
+
+  /**
+   * Counts a failed connection attempt, opening the circuit of the schema
+   * when the failure threshold is reached or a half-open probe fails
+   */
+  private recordConnectionFailure(schema: string): void {
+    if (!this.circuitBreakerEnabled) {
+      return;
+    }
+
+    const circuit = this.circuits.get(schema) ?? {
+      state: 'closed',
+      failures: 0,
+      opens: 0,
+      retryAt: 0,
+    };
+    circuit.failures++;
+
+    if (
+      circuit.state === 'half-open' ||
+      circuit.failures >= this.failureThreshold
+    ) {
+      const openFor = Math.min(
+        this.resetTimeout * 2 ** circuit.opens,
+        this.maxResetTimeout,
+      );
+      circuit.state = 'open';
+      circuit.opens++;
+      circuit.retryAt = Date.now() + openFor;
+      this.logger.warn(
+        `Circuit open for schema ${schema} after ${circuit.failures} failed connection attempts. Retrying in ${openFor}ms`,
+      );
+    }
+
+    this.circuits.set(schema, circuit);
+  }
+
+  private recordConnectionSuccess(schema: string): void {
+    if (this.circuits.delete(schema)) {
+      this.logger.log(`Circuit closed for schema: ${schema}`);
+    }
+  }
+
+  /**
+   * Records a use of a pooled connection and moves it to the most recently
+   * used end of the pool
+   */
+  private markUsed(schema: string, connection: TenantOrmConnection): void {
+    const usage = this.connectionUsage.get(schema) ?? {
+      ...UNTRACKED_USAGE,
+      createdAt: Date.now(),
+    };
+    usage.lastUsedAt = Date.now();
+    usage.hits++;
+
+    this.connectionPool.delete(schema);
+    this.connectionPool.set(schema, connection);
+    this.connectionUsage.set(schema, usage);
+  }
+
+  /**
+   * Checks a new connection opening that many physical connections fits in
+   * the pool
+   */
+  private hasRoomFor(physicalConnections: number): boolean {
+    return (
+      this.getOpenConnectionCount() < this.maxConnections &&
+      (this.maxPhysicalConnections === undefined ||
+        this.physicalConnections + physicalConnections <=
+          this.maxPhysicalConnections)
+    );
+  }
+
+  /**
+   * Reserves a slot and the physical connections of a new connection. When
+   * the pool is full, room is made first by evicting the least recently used
+   * unleased connection, or by waiting for a lease to be released. The
+   * reservation is taken in the same tick as the last check, so concurrent
+   * openings cannot overshoot the limits.
+   * @throws ConnectionPoolExhaustedError when the wait queue is full or the
+   * acquire timeout expires
+   */
+  private async reserveSlot(
+    schema: string,
+    physicalConnections: number,
+  ): Promise<void> {
+    const deadline = Date.now() + this.acquireTimeout;
+
+    if (!this.hasRoomFor(physicalConnections)) {
+      this.logger.warn(
+        `Connection pool limit reached (${this.maxConnections} connections, ${
+          this.maxPhysicalConnections ?? 'unlimited'
+        } physical connections). Evicting least recently used connections.`,
+      );
+    }
+
+    while (!this.hasRoomFor(physicalConnections)) {
+      if (!(await this.evictLeastRecentlyUsed())) {
+        await this.waitForRelease(schema, deadline - Date.now());
+      }
+    }
+
+    this.openingConnections++;
+    this.physicalConnections += physicalConnections;
+  }
+
+  /**
+   * Closes the least recently used connection without leases. Map iteration
+   * follows insertion order, and `markUsed` re-inserts every connection it
+   * hands out.
+   * @returns Whether a connection was evicted
+   */
+  private async evictLeastRecentlyUsed(): Promise<boolean> {
+    for (const [schema, connection] of this.connectionPool) {
+      if (!this.leaseCounts.has(connection)) {
+        await this.closeConnection(schema, 'Evicted least recently used');
+        return true;
       }
     }
+    return false;
   }
 
-  private async createConnection(schema: string): Promise<TenantOrmConnection> {
-    const enabledEntities =
-      schema === 'public'
-        ? undefined
-        : await this.getTenantEntityConfig(schema);
+  private waitForRelease(schema: string, timeout: number): Promise<void> {
+    if (
+      timeout <= 0 ||
+      this.waitingRequests.length >= this.maxWaitingRequests
+    ) {
+      return Promise.reject(new ConnectionPoolExhaustedError(schema));
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        this.waitingRequests.splice(this.waitingRequests.indexOf(waiter), 1);
+        reject(
+          new ConnectionPoolExhaustedError(
+            schema,
+            `Timed out after ${this.acquireTimeout}ms waiting for a connection for tenant: ${schema}`,
+          ),
+        );
+      }, timeout);
+
+      this.waitingRequests.push(waiter);
+    });
+  }
+
+  /**
+   * Wakes the oldest caller waiting for a connection slot
+   */
+  private notifyWaitingRequest(): void {
+    this.waitingRequests.shift()?.();
+  }
+
+  /**
+   * Closes the connections that were not used within the idle timeout
+   */
+  private async closeIdleConnections() {
+    const idleSince = Date.now() - this.idleTimeout;
+    const idleSchemas = [...this.connectionPool.entries()]
+      .filter(
+        ([schema, connection]) =>
+          !this.leaseCounts.has(connection) &&
+          (this.connectionUsage.get(schema) ?? UNTRACKED_USAGE).lastUsedAt <=
+            idleSince,
+      )
+      .map(([schema]) => schema);
+
+    for (const schema of idleSchemas) {
+      await this.closeConnection(schema, 'Closed idle');
+    }
+  }
+
+  /**
+   * Removes a connection from the pool and destroys it, or lets it drain
+   * when it is leased
+   */
+  private async closeConnection(schema: string, reason: string) {
+    const connection = this.connectionPool.get(schema)!;
+    this.connectionPool.delete(schema);
+    this.connectionUsage.delete(schema);
+
+    if (this.leaseCounts.has(connection)) {
+      this.drainingConnections.set(connection, schema);
+      this.logger.log(`Draining leased connection for schema: ${schema}`);
+      return;
+    }
+
+    await this.destroyConnection(schema, connection, reason);
+  }
+
+  private async destroyConnection(
+    schema: string,
+    connection: TenantOrmConnection,
+    reason: string,
+  ) {
+    try {
+      await this.ormStrategy.destroyConnection(connection);
+      this.logger.log(`${reason} connection for schema: ${schema}`);
+    } catch (error) {
+      this.logger.error(
+        `Error cleaning up connection for schema ${schema}:`,
+        error,
+      );
+    } finally {
+      this.releasePhysicalConnections(connection);
+      this.notifyWaitingRequest();
+    }
+  }
+
+  private releasePhysicalConnections(connection: TenantOrmConnection): void {
+    this.physicalConnections -=
+      this.physicalConnectionCounts.get(connection) ?? 0;
+    this.physicalConnectionCounts.delete(connection);
+  }
+
+  private getOpenConnectionCount(): number {
+    return (
+      this.connectionPool.size +
+      this.drainingConnections.size +
+      this.openingConnections
+    );
+  }
+
+  /**
+   * Resolves where the connection of a schema points and how its pool is
+   * sized, from the isolation and settings of the tenant
+   */
+  private async planConnection(schema: string): Promise<ConnectionPlan> {
+    const isPublic = schema === 'public';
+    const tenant = isPublic
+      ? undefined
+      : await this.tenantValidationStrategy?.findByCode(schema);
+    const enabledEntities = isPublic
+      ? undefined
+      : this.getTenantEntityConfig(tenant);
 
     this.logger.debug(
       `Enabled entities for tenant ${schema}: ${enabledEntities?.join(', ') || 'all'}`,
     );
 
-    return this.ormStrategy.createConnection(schema, enabledEntities);
+    const isolation = isPublic
+      ? 'schema'
+      : (tenant?.isolation ?? this.multiTenantConfigService.getIsolation());
+
+    if (isolation === 'row') {
+      const { schema: sharedSchema = 'public' } =
+        this.multiTenantConfigService.getRowLevelSecurityConfig();
+
+      // The policies match the tenant column against the tenant ID
+      const tenantId = tenantIdFromCode(
+        schema,
+        this.multiTenantConfigService.getSchemaNamingStrategy(),
+      );
+
+      return {
+        enabledEntities,
+        target: { rowLevel: { schema: sharedSchema, tenant: tenantId } },
+        physicalConnections: 0,
+      };
+    }
+
+    if (isolation !== 'database') {
+      if (this.multiTenantConfigService.getConnectionMode() === 'shared-pool') {
+        return { enabledEntities, physicalConnections: 0 };
+      }
+
+      const databaseConfig = this.multiTenantConfigService.getDatabaseConfig();
+      const pool = this.getPoolSettings(databaseConfig, tenant?.settings);
+
+      return {
+        enabledEntities,
+        target: pool && { pool },
+        physicalConnections: this.countPhysicalConnections(
+          databaseConfig,
+          pool,
+        ),
+      };
+    }
+
+    const databaseConfig = await resolveTenantDatabaseConfig(
+      this.multiTenantConfigService.getDatabaseConfig(),
+      schema,
+      tenant?.connection,
+      this.multiTenantConfigService.getTenantCredentialsResolver(),
+    );
+
+    this.logger.debug(
+      `Database for tenant ${schema}: ${databaseConfig.host}:${databaseConfig.port}/${databaseConfig.database}`,
+    );
+
+    const pool = this.getPoolSettings(databaseConfig, tenant?.settings);
+
+    return {
+      enabledEntities,
+      target: { database: databaseConfig, ...(pool && { pool }) },
+      physicalConnections: this.countPhysicalConnections(databaseConfig, pool),
+    };
   }
 
-  private async getTenantEntityConfig(
-    tenantCode: string,
-  ): Promise<EntityName[]> {
-    if (!this.tenantValidationStrategy) {
-      // Return default entities if admin service is not available
-      return ['user', 'role'];
+  /**
+   * Resolves the pool settings of a tenant. With a physical connection cap
+   * the pool size is always set, and shrunk so the pools of the database
+   * and its replicas fit in the cap.
+   */
+  private getPoolSettings(
+    databaseConfig: DatabaseConfig | undefined,
+    tenantSettings?: Record<string, unknown> | null,
+  ): TenantPoolSettings | undefined {
+    const settings = resolveTenantPoolSettings(
+      this.multiTenantConfigService.getConnectionPoolConfig(),
+      tenantSettings,
+    );
+
+    if (this.maxPhysicalConnections === undefined) {
+      return settings;
+    }
+
+    const pools = 1 + (databaseConfig?.replicas?.length ?? 0);
+    const max =
+      settings?.max ??
+      databaseConfig?.poolSize ??
+      DEFAULT_TENANT_POOL_SETTINGS.max;
+
+    return {
+      ...settings,
+      max: Math.max(
+        1,
+        Math.min(max, Math.floor(this.maxPhysicalConnections / pools)),
+      ),
+    };
+  }
+
+  /**
+   * Counts the physical connections the pools of a dedicated connection can
+   * open. Only tracked with a physical connection cap.
+   */
+  private countPhysicalConnections(
+    databaseConfig: DatabaseConfig | undefined,
+    pool: TenantPoolSettings | undefined,
+  ): number {
+    if (this.maxPhysicalConnections === undefined || !pool?.max) {
+      return 0;
+    }
+
+    return pool.max * (1 + (databaseConfig?.replicas?.length ?? 0));
+  }
+
+  /**
+   * Leases the connection of a schema, opening it if needed. The connection
+   * is not destroyed by eviction, idle cleanup or `removeConnection` until
+   * the lease is released.
+   * @param schema - The tenant schema
+   * @returns The lease holding the connection
+   * @throws ConnectionPoolExhaustedError when no connection slot frees up in time
+   */
+  async acquire(schema: string): Promise<TenantConnectionLease> {
+    const connection = await this.getConnectionForSchema(schema);
+    this.leaseCounts.set(
+      connection,
+      (this.leaseCounts.get(connection) ?? 0) + 1,
+    );
+
+    let released = false;
+    return {
+      schema,
+      connection,
+      release: () => {
+        if (!released) {
+          released = true;
+          this.releaseLease(connection);
+        }
+      },
+    };
+  }
+
+  private releaseLease(connection: TenantOrmConnection): void {
+    const leases = (this.leaseCounts.get(connection) ?? 1) - 1;
+    if (leases > 0) {
+      this.leaseCounts.set(connection, leases);
+      return;
+    }
+
+    this.leaseCounts.delete(connection);
+    this.notifyIfIdle();
+    const drainingSchema = this.drainingConnections.get(connection);
+
+    if (drainingSchema === undefined) {
+      // The connection can be evicted again
+      this.notifyWaitingRequest();
+      return;
+    }
+
+    this.drainingConnections.delete(connection);
+    void this.destroyConnection(drainingSchema, connection, 'Closed drained');
+  }
+
+  /**
+   * Returns the pooled connection of a schema without opening or validating
+   * it, so it can be used synchronously.
+   * @param schema - The tenant schema
+   * @returns The valid pooled connection, or undefined if none is open
+   */
+  getPooledConnection(schema: string): TenantOrmConnection | undefined {
+    const connection = this.connectionPool.get(schema);
+
+    if (!connection || !this.ormStrategy.isConnectionValid(connection)) {
+      return undefined;
     }
 
-    const tenant = await this.tenantValidationStrategy.findByCode(tenantCode);
+    this.markUsed(schema, connection);
+    return connection;
+  }
 
+  /**
+   * Checks the tenant exists and its status is allowed by the status policy.
+   * Pooled connections of tenants that are no longer active are closed.
+   */
+  private async checkTenantAvailable(schema: string): Promise<boolean> {
+    try {
+      return await checkTenantAvailable(
+        this.tenantValidationStrategy!,
+        schema,
+        this.multiTenantConfigService.getTenantStatusPolicy(),
+      );
+    } catch (error) {
+      if (error instanceof TenantNotActiveError) {
+        this.logger.debug(`Tenant is ${error.status}: ${schema}`);
+        await this.removeConnection(schema);
+      }
+      throw error;
+    }
+  }
+
+  private getTenantEntityConfig(
+    tenant: Tenant | TenantSchema | undefined,
+  ): EntityName[] {
     if (!tenant?.entityConfig?.enabledEntities) {
-      // Default configuration if not specified
+      // Default configuration without the admin service or an entity config
       return ['user', 'role'];
     }
 
@@ -168,67 +869,161 @@ export class TenantConnectionService implements ITenantConnectionService {
     this.cleanupTimer = setInterval(() => {
       this.performScheduledCleanup();
     }, this.cleanupInterval);
+    // The cleanup alone must not keep the process alive
+    this.cleanupTimer.unref();
   }
 
   private async performScheduledCleanup() {
-    // This is a simplified cleanup - in a real implementation,
-    // you would track connection usage and idle time
-    if (this.connectionPool.size > this.maxConnections * 0.8) {
-      await this.cleanupOldConnections();
-    }
+    await this.closeIdleConnections();
   }
 
   // Secondary methods
+  /**
+   * Returns the connection of the tenant of the current request or
+   * `TenantContext.run()` callback
+   */
   async getTenantConnection(): Promise<TenantOrmConnection> {
-    const schema = this.tenantContextService.getTenantSchema();
+    const schema = TenantContext.current()?.tenantSchema;
     if (!schema) {
       throw new Error('No tenant context available');
     }
     return this.getConnectionForSchema(schema);
   }
 
+  /**
+   * Stops opening new connections and waits for the leased connections to
+   * be released and the connections being opened to settle. Pooled
+   * connections are still handed out, so in-flight work can finish.
+   * @param timeout - Maximum time to wait in milliseconds
+   * @returns Whether the in-flight work finished in time
+   */
+  async drain(timeout: number): Promise<boolean> {
+    this.shuttingDown = true;
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+    }
+
+    if (this.isIdle()) {
+      return true;
+    }
+
+    return new Promise(resolve => {
+      const waiter = () => {
+        clearTimeout(timer);
+        this.idleWaiters.delete(waiter);
+        resolve(true);
+      };
+      const timer = setTimeout(() => {
+        this.idleWaiters.delete(waiter);
+        resolve(false);
+      }, timeout);
+
+      this.idleWaiters.add(waiter);
+    });
+  }
+
+  private isIdle(): boolean {
+    return this.leaseCounts.size === 0 && this.pendingConnections.size === 0;
+  }
+
+  /**
+   * Wakes the callers of `drain()` once no work is in flight
+   */
+  private notifyIfIdle(): void {
+    if (this.idleWaiters.size > 0 && this.isIdle()) {
+      for (const waiter of this.idleWaiters) {
+        waiter();
+      }
+    }
+  }
+
   async closeAllConnections(): Promise<void> {
     if (this.cleanupTimer) {
       clearInterval(this.cleanupTimer);
     }
 
-    const closePromises = [...this.connectionPool.entries()].map(
-      async ([, connection]) => {
-        await this.ormStrategy.destroyConnection(connection);
-      },
+    const connections = [
+      ...[...this.connectionPool.entries()].map(
+        ([schema, connection]) => [connection, schema] as const,
+      ),
+      ...this.drainingConnections.entries(),
+    ];
+    const results = await Promise.allSettled(
+      connections.map(([connection]) =>
+        this.ormStrategy.destroyConnection(connection),
+      ),
     );
 
-    await Promise.all(closePromises);
+    // A connection that fails to close must not keep the shared resources
+    // of the strategy open
+    for (const [index, result] of results.entries()) {
+      if (result.status === 'rejected') {
+        this.logger.error(
+          `Error closing connection for schema ${connections[index][1]}:`,
+          result.reason,
+        );
+      }
+    }
+
     this.connectionPool.clear();
+    this.connectionUsage.clear();
+    this.drainingConnections.clear();
+    this.leaseCounts.clear();
+    this.physicalConnectionCounts.clear();
+    this.physicalConnections = 0;
+    this.circuits.clear();
+    await this.ormStrategy.dispose?.();
     this.logger.log(`All tenant connections closed`);
   }
 
   getConnectionPoolStats(): IConnectionPoolStats {
-    const active = [...this.connectionPool.values()].filter(connection =>
-      this.ormStrategy.isConnectionValid(connection),
-    ).length;
+    const now = Date.now();
+    const connections: IConnectionUsageStats[] = [
+      ...this.connectionPool.entries(),
+    ].map(([schema, connection]) => {
+      const usage = this.connectionUsage.get(schema) ?? UNTRACKED_USAGE;
+      return {
+        schema,
+        active: this.ormStrategy.isConnectionValid(connection),
+        age: now - usage.createdAt,
+        idleTime: now - usage.lastUsedAt,
+        hits: usage.hits,
+        leases: this.leaseCounts.get(connection) ?? 0,
+        createdAt: new Date(usage.createdAt),
+        lastUsedAt: new Date(usage.lastUsedAt),
+      };
+    });
+    const active = connections.filter(connection => connection.active).length;
 
     return {
       total: this.connectionPool.size,
       active,
       inactive: this.connectionPool.size - active,
       schemas: [...this.connectionPool.keys()],
+      connections,
+      draining: this.drainingConnections.size,
+      waiting: this.waitingRequests.length,
+      ...(this.maxPhysicalConnections !== undefined && {
+        physicalConnections: this.physicalConnections,
+      }),
+      circuits: [...this.circuits.entries()].map(
+        ([schema, circuit]): IConnectionCircuitStats => ({
+          schema,
+          state: circuit.state,
+          failures: circuit.failures,
+          ...(circuit.state === 'open' && {
+            retryAt: new Date(circuit.retryAt),
+          }),
+        }),
+      ),
     };
   }
 
   async removeConnection(schema: string): Promise<void> {
-    const connection = this.connectionPool.get(schema);
-    if (connection) {
-      try {
-        await this.ormStrategy.destroyConnection(connection);
-        this.connectionPool.delete(schema);
-        this.logger.log(`Removed connection for schema: ${schema}`);
-      } catch (error) {
-        this.logger.error(
-          `Error removing connection for schema ${schema}:`,
-          error,
-        );
-      }
+    // The connection leaves the pool before it is destroyed, so concurrent
+    // callers open a new one instead of getting the closing one
+    if (this.connectionPool.has(schema)) {
+      await this.closeConnection(schema, 'Removed');
     }
   }
 
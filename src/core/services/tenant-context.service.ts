@@ -1,14 +1,26 @@
-import { Inject, Injectable, Scope } from '@nestjs/common';
+import { IncomingMessage } from 'node:http';
+
+import { Inject, Injectable, Optional, Scope } from '@nestjs/common';
+import { REQUEST } from '@nestjs/core';
 
 import {
   IMultiTenantConfigService,
   ITenantContext,
   ITenantContextService,
 } from '../interfaces/tenant.interface';
+import {
+  setScopeTenant,
+  TenantContext,
+} from './async-local-tenant-context.service';
 import { MULTI_TENANT_CONFIG_SERVICE } from './multi-tenant-config.service';
 
 export const TENANT_CONTEXT_SERVICE = Symbol('ITenantContextService');
 
+/**
+ * REQUEST-scoped ITenantContextService. The tenant is also set on the tenant
+ * scope of the request, so singletons read it through TenantContext; tenants
+ * set there by the RPC and gateway interceptors are read back here.
+ */
 @Injectable({ scope: Scope.REQUEST })
 export class TenantContextService implements ITenantContextService {
   public tenantId: string | undefined = undefined;
@@ -17,6 +29,10 @@ export class TenantContextService implements ITenantContextService {
   constructor(
     @Inject(MULTI_TENANT_CONFIG_SERVICE)
     private readonly configService: IMultiTenantConfigService,
+
+    @Optional()
+    @Inject(REQUEST)
+    private readonly request?: unknown,
   ) {}
 
   setContext(tenantId: string): void {
@@ -24,24 +40,55 @@ export class TenantContextService implements ITenantContextService {
   }
 
   private setTenant(tenantId: string): void {
+    const namingStrategy = this.configService.getSchemaNamingStrategy();
     this.tenantId = tenantId;
-    this.tenantSchema = this.calculateSchemaName(tenantId);
+    this.tenantSchema = namingStrategy(tenantId);
+    setScopeTenant(tenantId, namingStrategy);
   }
 
-  private calculateSchemaName(tenantId: string): string {
-    const namingStrategy = this.configService.getSchemaNamingStrategy();
-    return namingStrategy(tenantId);
+  /**
+   * Runs a callback once the HTTP request of this scope has been answered or
+   * aborted. Works with Express requests and Fastify requests (through their
+   * raw request).
+   * @param callback - The callback to run
+   * @returns false when the scope does not belong to an HTTP request, in which
+   * case the callback is never run
+   */
+  onRequestClose(callback: () => void): boolean {
+    const message =
+      (this.request as { raw?: unknown } | undefined)?.raw ?? this.request;
+
+    if (!(message instanceof IncomingMessage)) {
+      return false;
+    }
+
+    if (message.closed) {
+      callback();
+    } else {
+      message.once('close', callback);
+    }
+    return true;
   }
 
   getTenantSchema(): string | undefined {
-    return this.tenantSchema;
+    return this.getContext().tenantSchema;
   }
 
   getContext(): ITenantContext {
+    if (this.tenantId === undefined) {
+      return (
+        TenantContext.current() ?? {
+          tenantId: undefined,
+          tenantSchema: undefined,
+          hasTenant: false,
+        }
+      );
+    }
+
     return {
       tenantId: this.tenantId,
       tenantSchema: this.tenantSchema,
-      hasTenant: this.tenantId !== undefined,
+      hasTenant: true,
     };
   }
 }
@@ -0,0 +1,93 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+  Optional,
+} from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+
+import { ITenantConnectionService } from '../interfaces/tenant.interface';
+import {
+  ITenantEventTransport,
+  TENANT_EVENT_TRANSPORT,
+  TenantChangeEvent,
+} from '../interfaces/tenant-events.interface';
+import {
+  ITenantValidationStrategy,
+  TENANT_VALIDATION_STRATEGY,
+} from '../interfaces/tenant-validation.interface';
+import { TENANT_CONNECTION_SERVICE } from './tenant-connection.service';
+
+/**
+ * Listens for tenant changes published by the admin services of any
+ * instance, and drops the cached lookups and pooled connections this
+ * instance holds for the changed tenant
+ */
+@Injectable()
+export class TenantEventListener
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger(TenantEventListener.name);
+
+  constructor(
+    private readonly moduleRef: ModuleRef,
+
+    @Optional()
+    @Inject(TENANT_EVENT_TRANSPORT)
+    private readonly transport?: ITenantEventTransport,
+
+    @Optional()
+    @Inject(TENANT_VALIDATION_STRATEGY)
+    private readonly validationStrategy?: ITenantValidationStrategy,
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    await this.transport?.subscribe(event => this.handle(event));
+  }
+
+  async onApplicationShutdown(): Promise<void> {
+    await this.transport?.close();
+  }
+
+  /**
+   * Drops what this instance holds for a changed tenant. Connections are
+   * kept for created and activated tenants, which cannot have stale ones,
+   * and for domain changes, which do not affect them.
+   *
+   * @param event The tenant change event
+   */
+  async handle(event: TenantChangeEvent): Promise<void> {
+    this.logger.debug(`Tenant ${event.code} ${event.type}`);
+    this.validationStrategy?.invalidate?.(event.code);
+    if (event.domain) {
+      this.validationStrategy?.invalidateDomain?.(event.domain);
+    }
+
+    if (
+      event.type === 'created' ||
+      event.type === 'activated' ||
+      event.type === 'domainChanged'
+    ) {
+      return;
+    }
+
+    await this.getConnectionService()?.removeConnection(event.code);
+  }
+
+  /**
+   * Resolves the connection service shared by every request, or undefined
+   * when the application replaced it with one that cannot be resolved here
+   */
+  private getConnectionService(): ITenantConnectionService | undefined {
+    try {
+      return this.moduleRef.get<ITenantConnectionService>(
+        TENANT_CONNECTION_SERVICE,
+        { strict: false },
+      );
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,178 @@
+import { Inject, Injectable, Logger, Type } from '@nestjs/common';
+import { ContextId, ContextIdFactory, ModuleRef } from '@nestjs/core';
+
+import {
+  ITenantAdminService,
+  TENANT_ADMIN_SERVICE,
+} from '../../admin/interfaces/tenant-admin.interface';
+import { TenantStatus } from '../../constants';
+import {
+  IMultiTenantConfigService,
+  ITenantConnectionService,
+} from '../interfaces/tenant.interface';
+import {
+  ForEachTenantOptions,
+  TenantExecutionContext,
+  TenantExecutionResult,
+} from '../interfaces/tenant-executor.interface';
+import { runInTenantContext } from './async-local-tenant-context.service';
+import {
+  MULTI_TENANT_CONFIG_SERVICE,
+  tenantIdFromCode,
+} from './multi-tenant-config.service';
+import { TENANT_CONNECTION_SERVICE } from './tenant-connection.service';
+
+const TENANT_PAGE_SIZE = 100;
+
+/**
+ * Runs code for a tenant outside of an HTTP request, such as in cron jobs,
+ * queue consumers or bootstrap scripts.
+ *
+ * @example
+ * ```ts
+ * await this.tenantExecutor.forEachTenant(
+ *   async ({ resolve }) => {
+ *     const users = await resolve<Repository<User>>(
+ *       getTenantRepositoryToken(User),
+ *     );
+ *     return users.count();
+ *   },
+ *   { concurrency: 4, continueOnError: true },
+ * );
+ * ```
+ */
+@Injectable()
+export class TenantExecutor {
+  private readonly logger = new Logger(TenantExecutor.name);
+
+  constructor(
+    private readonly moduleRef: ModuleRef,
+
+    @Inject(MULTI_TENANT_CONFIG_SERVICE)
+    private readonly configService: IMultiTenantConfigService,
+
+    @Inject(TENANT_CONNECTION_SERVICE)
+    private readonly connectionService: ITenantConnectionService,
+  ) {}
+
+  /**
+   * Runs a function with the full tenant context set: the tenant context
+   * service, TenantContext and the providers resolved through the execution
+   * context all see the tenant. The tenant is validated and its connection
+   * leased before the function runs, until it settles.
+   *
+   * @param tenantIdOrCode - The tenant ID (`acme`) or stored code (`tenant_acme`)
+   * @param fn - The function to run
+   * @returns The result of the function
+   * @throws NotFoundException if the tenant does not exist
+   * @throws TenantNotActiveError if the tenant status is not allowed
+   */
+  async runInTenant<T>(
+    tenantIdOrCode: string,
+    fn: (context: TenantExecutionContext) => T | Promise<T>,
+  ): Promise<T> {
+    const schemaNamingStrategy = this.configService.getSchemaNamingStrategy();
+    const tenantId = tenantIdFromCode(tenantIdOrCode, schemaNamingStrategy);
+    const tenantSchema = schemaNamingStrategy(tenantId);
+
+    // Request-scoped providers are only created when the function resolves one
+    let contextId: ContextId | undefined;
+    const resolve = <R>(token: Type<R> | string | symbol): Promise<R> => {
+      contextId ??= ContextIdFactory.create();
+      return this.moduleRef.resolve<R>(token, contextId, { strict: false });
+    };
+
+    return runInTenantContext(tenantId, schemaNamingStrategy, async () => {
+      const lease = await this.connectionService.acquire(tenantSchema);
+      try {
+        return await fn({ tenantId, tenantSchema, resolve });
+      } finally {
+        lease.release();
+      }
+    });
+  }
+
+  /**
+   * Runs a function for every tenant matching the status filter.
+   *
+   * @param fn - The function to run for each tenant
+   * @param options - Concurrency, status filter and error handling
+   * @returns The result or error of each processed tenant, in tenant order
+   */
+  async forEachTenant<T>(
+    fn: (context: TenantExecutionContext) => T | Promise<T>,
+    options: ForEachTenantOptions = {},
+  ): Promise<TenantExecutionResult<T>[]> {
+    const {
+      concurrency = 1,
+      statusFilter = TenantStatus.ACTIVE,
+      continueOnError = false,
+    } = options;
+
+    const codes = await this.findTenantCodes(statusFilter);
+    const results: TenantExecutionResult<T>[] = [];
+    let next = 0;
+    let failed = false;
+
+    const worker = async (): Promise<void> => {
+      while (next < codes.length && (continueOnError || !failed)) {
+        const index = next++;
+        const tenantId = tenantIdFromCode(
+          codes[index],
+          this.configService.getSchemaNamingStrategy(),
+        );
+
+        try {
+          const value = await this.runInTenant(tenantId, fn);
+          results[index] = { tenantId, status: 'fulfilled', value };
+        } catch (error) {
+          failed = true;
+          results[index] = { tenantId, status: 'rejected', error };
+          this.logger.error(`Tenant task failed for ${tenantId}:`, error);
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.max(1, concurrency) }, () => worker()),
+    );
+
+    return results.filter(Boolean);
+  }
+
+  /**
+   * Lists the codes of the tenants matching the status filter
+   * @param statusFilter - The accepted statuses
+   * @returns The stored tenant codes
+   */
+  private async findTenantCodes(
+    statusFilter: TenantStatus | TenantStatus[],
+  ): Promise<string[]> {
+    const statuses = new Set(
+      Array.isArray(statusFilter) ? statusFilter : [statusFilter],
+    );
+    const adminService = await this.moduleRef.resolve<ITenantAdminService>(
+      TENANT_ADMIN_SERVICE,
+      ContextIdFactory.create(),
+      { strict: false },
+    );
+
+    const codes: string[] = [];
+    for (let page = 1, totalPages = 1; page <= totalPages; page++) {
+      const { data, meta } = await adminService.findAll({
+        page,
+        limit: TENANT_PAGE_SIZE,
+        status: statuses.size === 1 ? [...statuses][0] : undefined,
+      });
+
+      for (const tenant of data) {
+        if (statuses.has(tenant.status as TenantStatus)) {
+          codes.push(tenant.code);
+        }
+      }
+      totalPages = meta.totalPages;
+    }
+
+    return codes;
+  }
+}
@@ -0,0 +1,244 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+
+import { IMultiTenantConfigService } from '../interfaces/tenant.interface';
+import {
+  TENANT_RESOLVER,
+  TenantHandshake,
+  TenantResolver,
+} from '../interfaces/tenant-resolver.interface';
+import {
+  ITenantValidationStrategy,
+  TENANT_VALIDATION_STRATEGY,
+} from '../interfaces/tenant-validation.interface';
+import {
+  createTenantResolverRequest,
+  isTenantResolutionRejection,
+  resolveFromStrategy,
+  resolveTenantChain,
+  TenantStrategyServices,
+} from '../utils/tenant-resolution.utils';
+import { MULTI_TENANT_CONFIG_SERVICE } from './multi-tenant-config.service';
+
+type Headers = Record<string, string | string[] | undefined>;
+
+/**
+ * Tenant of each connected client, kept for the lifetime of the socket
+ */
+const clientTenants = new WeakMap<object, string>();
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Reads the connection data of a socket.io socket (`handshake`) or of a raw
+ * upgrade request (IncomingMessage).
+ */
+function toHandshake(client: unknown, request?: unknown): TenantHandshake {
+  const source = request ?? (isRecord(client) ? client.handshake : undefined);
+  if (!isRecord(source)) return { raw: client };
+
+  const auth = isRecord(source.auth) ? source.auth : undefined;
+  const socket = isRecord(source.socket) ? source.socket : undefined;
+
+  return {
+    headers: isRecord(source.headers) ? (source.headers as Headers) : {},
+    url: typeof source.url === 'string' ? source.url : undefined,
+    ip:
+      typeof source.address === 'string'
+        ? source.address
+        : (socket?.remoteAddress as string | undefined),
+    connectionParams: auth,
+    authToken: typeof auth?.token === 'string' ? auth.token : undefined,
+    raw: client,
+  };
+}
+
+/**
+ * Merges the handshake headers, connection params and auth token into a
+ * single set of lowercased headers.
+ */
+function toHeaders(handshake: TenantHandshake): Headers {
+  const headers: Headers = {};
+
+  for (const [name, value] of Object.entries(handshake.headers ?? {})) {
+    headers[name.toLowerCase()] = value;
+  }
+
+  for (const [name, value] of Object.entries(
+    handshake.connectionParams ?? {},
+  )) {
+    const key = name.toLowerCase();
+    if (typeof value === 'string' && headers[key] === undefined) {
+      headers[key] = value;
+    }
+  }
+
+  if (handshake.authToken && !headers.authorization) {
+    headers.authorization = handshake.authToken.startsWith('Bearer ')
+      ? handshake.authToken
+      : `Bearer ${handshake.authToken}`;
+  }
+
+  return headers;
+}
+
+/**
+ * Resolves the tenant of WebSocket clients and GraphQL subscriptions from
+ * their handshake headers, connection params or auth token, using the same
+ * strategy chain as the HTTP middleware. Clients keep their tenant for the
+ * lifetime of the socket.
+ *
+ * @example
+ * ```ts
+ * @WebSocketGateway()
+ * export class ChatGateway implements OnGatewayConnection {
+ *   constructor(private readonly tenantHandshake: TenantHandshakeResolver) {}
+ *
+ *   async handleConnection(client: WebSocket, request: IncomingMessage) {
+ *     await this.tenantHandshake.bindClient(client, request);
+ *   }
+ * }
+ * ```
+ */
+@Injectable()
+export class TenantHandshakeResolver {
+  private readonly logger = new Logger(TenantHandshakeResolver.name);
+
+  constructor(
+    @Inject(MULTI_TENANT_CONFIG_SERVICE)
+    private readonly configService: IMultiTenantConfigService,
+
+    @Optional()
+    @Inject(TENANT_VALIDATION_STRATEGY)
+    private readonly validationStrategy?: ITenantValidationStrategy,
+
+    @Optional()
+    @Inject(TENANT_RESOLVER)
+    private readonly tenantResolver?: TenantResolver,
+  ) {}
+
+  /**
+   * Resolves the tenant of a connection, falling back to the default tenant.
+   * @param handshake - The connection data
+   * @returns The tenant ID, or undefined if none was resolved
+   * @throws TenantResolutionConflictError or InvalidTenantTokenError when the
+   * configured strategies reject the connection
+   */
+  async resolve(handshake: TenantHandshake): Promise<string | undefined> {
+    const config = this.configService.getTenantResolutionConfig();
+    const request = createTenantResolverRequest({
+      method: 'GET',
+      url: handshake.url || '/',
+      headers: toHeaders(handshake),
+      ip: handshake.ip,
+      raw: handshake.raw,
+    });
+    const services: TenantStrategyServices = {
+      schemaNamingStrategy: this.configService.getSchemaNamingStrategy(),
+      findByDomain: this.validationStrategy?.findByDomain?.bind(
+        this.validationStrategy,
+      ),
+      tenantResolver: this.tenantResolver,
+      logger: this.logger,
+      label: '[WS]',
+    };
+
+    try {
+      const { resolved } = await resolveTenantChain(config, strategy =>
+        resolveFromStrategy(request, strategy, services),
+      );
+      return resolved?.tenantId || config.defaultTenant;
+    } catch (error) {
+      if (isTenantResolutionRejection(error)) throw error;
+      this.logger.error('[WS] Error resolving tenant context:', error);
+      return config.defaultTenant;
+    }
+  }
+
+  /**
+   * Resolves the tenant of a connected client and keeps it for the lifetime
+   * of the socket. Call it from `handleConnection`; socket.io clients are
+   * also bound on their first message.
+   *
+   * @param client - The socket
+   * @param request - The upgrade request, for clients without a `handshake`
+   * @returns The tenant ID, or undefined if none was resolved
+   */
+  async bindClient(
+    client: object,
+    request?: unknown,
+  ): Promise<string | undefined> {
+    const tenantId = await this.resolve(toHandshake(client, request));
+
+    if (tenantId) {
+      clientTenants.set(client, tenantId);
+    }
+    return tenantId;
+  }
+
+  /**
+   * @param client - The socket
+   * @returns The tenant bound to the client, if any
+   */
+  getClientTenant(client: object): string | undefined {
+    return clientTenants.get(client);
+  }
+
+  /**
+   * Creates a GraphQL `context` factory adding the `tenantId` of the request
+   * or subscription to the context. HTTP requests keep the tenant resolved by
+   * the middleware; graphql-ws subscriptions are resolved from their
+   * connection params and upgrade request.
+   *
+   * @returns The context factory
+   *
+   * @example
+   * ```ts
+   * GraphQLModule.forRootAsync<ApolloDriverConfig>({
+   *   driver: ApolloDriver,
+   *   inject: [TenantHandshakeResolver],
+   *   useFactory: (tenantHandshake: TenantHandshakeResolver) => ({
+   *     subscriptions: { 'graphql-ws': true },
+   *     context: tenantHandshake.createGraphQLContext(),
+   *   }),
+   * });
+   * ```
+   */
+  createGraphQLContext(): <T extends Record<string, unknown>>(
+    context: T,
+  ) => Promise<T & { tenantId?: string }> {
+    return this.withGraphQLTenant.bind(this);
+  }
+
+  /**
+   * Adds the tenant of a GraphQL request or subscription to its context.
+   * @param context - The GraphQL context
+   * @returns The context with its `tenantId`
+   */
+  private async withGraphQLTenant<T extends Record<string, unknown>>(
+    context: T,
+  ): Promise<T & { tenantId?: string }> {
+    const request = isRecord(context.req)
+      ? context.req
+      : isRecord(context.extra)
+        ? context.extra.request
+        : undefined;
+    const resolvedTenant =
+      isRecord(request) && isRecord(request.tenant)
+        ? (request.tenant.id as string | undefined)
+        : undefined;
+
+    const tenantId =
+      resolvedTenant ??
+      (await this.resolve({
+        ...toHandshake(undefined, request),
+        connectionParams: isRecord(context.connectionParams)
+          ? context.connectionParams
+          : undefined,
+        raw: context,
+      }));
+
+    return { ...context, tenantId };
+  }
+}
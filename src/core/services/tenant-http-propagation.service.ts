@@ -0,0 +1,196 @@
+import { HttpService } from '@nestjs/axios';
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleInit,
+  Optional,
+} from '@nestjs/common';
+
+import { StructuredLogger } from '../exceptions/structured-logger';
+import {
+  HttpTenantPropagationConfig,
+  IMultiTenantConfigService,
+} from '../interfaces/tenant.interface';
+import { signJwt } from '../utils/jwt-verifier';
+import {
+  getScopeTraceId,
+  TenantContext,
+} from './async-local-tenant-context.service';
+import { MULTI_TENANT_CONFIG_SERVICE } from './multi-tenant-config.service';
+
+type AxiosInstance = HttpService['axiosRef'];
+
+type AxiosRequestConfig = Parameters<
+  NonNullable<Parameters<AxiosInstance['interceptors']['request']['use']>[0]>
+>[0];
+
+export const DEFAULT_HTTP_TENANT_HEADER = 'x-tenant-id';
+export const DEFAULT_HTTP_TRACE_HEADER = 'x-trace-id';
+export const DEFAULT_HTTP_TENANT_TOKEN_HEADER = 'x-tenant-token';
+
+const DEFAULT_TENANT_TOKEN_TTL = 60;
+
+/**
+ * Headers also read for the trace ID of an inbound request
+ */
+const CORRELATION_HEADERS = ['x-correlation-id', 'x-request-id'];
+
+/**
+ * Reads the trace ID an inbound request was sent with, from the trace header
+ * or a correlation header, so the requests made for it carry the same ID
+ * @param headers - The inbound request headers
+ * @param traceHeaderName - The trace header (default: 'x-trace-id')
+ * @returns The trace ID, or undefined if the request has none
+ */
+export function getInboundTraceId(
+  headers: Record<string, string | string[] | undefined>,
+  traceHeaderName: string = DEFAULT_HTTP_TRACE_HEADER,
+): string | undefined {
+  for (const name of [traceHeaderName.toLowerCase(), ...CORRELATION_HEADERS]) {
+    const value = headers[name];
+    const traceId = Array.isArray(value) ? value[0] : value;
+    if (traceId) return traceId;
+  }
+  return undefined;
+}
+
+/**
+ * Checks a target host against the allow-list entries: `host`, `host:port`
+ * or `*.domain` for any subdomain
+ */
+export function isAllowedHost(url: URL, allowedHosts: string[]): boolean {
+  const hostname = url.hostname.toLowerCase();
+  const host = url.host.toLowerCase();
+
+  return allowedHosts.some(entry => {
+    const allowed = entry.toLowerCase();
+    if (allowed.startsWith('*.')) {
+      return hostname.endsWith(allowed.slice(1));
+    }
+    return allowed === hostname || allowed === host;
+  });
+}
+
+function resolveTargetUrl(config: AxiosRequestConfig): URL | undefined {
+  try {
+    return new URL(config.url ?? '', config.baseURL);
+  } catch {
+    // Relative URL without a base URL: the target host is unknown
+    return undefined;
+  }
+}
+
+/**
+ * Adds the current tenant and a trace ID to outgoing `HttpService` requests
+ * sent to the hosts allowed by `httpPropagation`. The tenant is read from
+ * `TenantContext`, which the tenant middleware sets in both context modes.
+ * The trace ID is the one of the inbound request, or one generated for it.
+ *
+ * The interceptor is added to the injected `HttpService` on startup. Axios
+ * instances of other `HttpModule.register()` imports can be added with
+ * `apply()`.
+ */
+@Injectable()
+export class TenantHttpPropagator implements OnModuleInit {
+  private readonly logger = new Logger(TenantHttpPropagator.name);
+  private readonly structuredLogger = new StructuredLogger();
+
+  constructor(
+    @Inject(MULTI_TENANT_CONFIG_SERVICE)
+    private readonly configService: IMultiTenantConfigService,
+    @Optional()
+    private readonly httpService?: HttpService,
+  ) {}
+
+  onModuleInit(): void {
+    if (!this.configService.getHttpPropagationConfig()) {
+      return;
+    }
+
+    if (!this.httpService) {
+      this.logger.warn(
+        'httpPropagation is enabled but HttpService is not available. Add HttpModule to imports.',
+      );
+      return;
+    }
+
+    this.apply(this.httpService.axiosRef);
+  }
+
+  /**
+   * Adds the propagation interceptor to an axios instance
+   * @param axios - The axios instance
+   * @returns The interceptor ID, usable with `interceptors.request.eject()`
+   */
+  apply(axios: AxiosInstance): number {
+    return axios.interceptors.request.use(config => this.decorate(config));
+  }
+
+  private decorate(config: AxiosRequestConfig): AxiosRequestConfig {
+    const propagation = this.configService.getHttpPropagationConfig();
+    if (!propagation) {
+      return config;
+    }
+
+    const url = resolveTargetUrl(config);
+    if (!url || !isAllowedHost(url, propagation.allowedHosts)) {
+      return config;
+    }
+
+    const traceHeader =
+      propagation.traceHeaderName || DEFAULT_HTTP_TRACE_HEADER;
+    if (!config.headers.has(traceHeader)) {
+      config.headers.set(
+        traceHeader,
+        getScopeTraceId(() => this.structuredLogger.generateTraceId()),
+      );
+    }
+
+    const tenantId = TenantContext.current()?.tenantId;
+    if (!tenantId) {
+      return config;
+    }
+
+    config.headers.set(
+      propagation.headerName || DEFAULT_HTTP_TENANT_HEADER,
+      tenantId,
+    );
+
+    if (propagation.signedToken) {
+      config.headers.set(
+        propagation.signedToken.headerName || DEFAULT_HTTP_TENANT_TOKEN_HEADER,
+        this.createTenantToken(tenantId, propagation),
+      );
+    }
+
+    return config;
+  }
+
+  private createTenantToken(
+    tenantId: string,
+    propagation: HttpTenantPropagationConfig,
+  ): string {
+    const {
+      secret,
+      algorithm,
+      claimName = 'tenantId',
+      expiresIn = DEFAULT_TENANT_TOKEN_TTL,
+      issuer,
+      audience,
+    } = propagation.signedToken!;
+    const now = Math.floor(Date.now() / 1000);
+
+    return signJwt(
+      {
+        [claimName]: tenantId,
+        iat: now,
+        exp: now + expiresIn,
+        ...(issuer && { iss: issuer }),
+        ...(audience && { aud: audience }),
+      },
+      secret,
+      algorithm,
+    );
+  }
+}
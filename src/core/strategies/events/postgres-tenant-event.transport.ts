@@ -0,0 +1,183 @@
+import { Logger } from '@nestjs/common';
+import { Client, ClientConfig, Notification } from 'pg';
+
+import {
+  ITenantEventTransport,
+  TenantChangeEvent,
+  TenantChangeHandler,
+} from '../../interfaces/tenant-events.interface';
+import { DatabaseConfig } from '../../interfaces/typeorm.interface';
+import { quoteIdentifier } from '../../utils/shared-pool.utils';
+
+export const DEFAULT_TENANT_EVENT_CHANNEL = 'tenant_changes';
+
+/**
+ * Time in milliseconds before a lost listener connection is reopened
+ */
+const RECONNECT_DELAY = 5000;
+
+/**
+ * Carries tenant change events with Postgres LISTEN/NOTIFY on the admin
+ * database. One dedicated connection listens on the channel and publishes
+ * with `pg_notify`; when it cannot be opened or is lost it is retried, and
+ * events published meanwhile are missed.
+ */
+export class PostgresTenantEventTransport implements ITenantEventTransport {
+  private readonly logger = new Logger(PostgresTenantEventTransport.name);
+  private readonly handlers: TenantChangeHandler[] = [];
+  private connection?: Promise<Client>;
+  private client?: Client;
+  private reconnectTimer?: NodeJS.Timeout;
+  private closed = false;
+
+  constructor(
+    private readonly config: DatabaseConfig,
+    private readonly channel = DEFAULT_TENANT_EVENT_CHANNEL,
+  ) {}
+
+  async publish(event: TenantChangeEvent): Promise<void> {
+    const client = await this.connect();
+    await client.query('SELECT pg_notify($1, $2)', [
+      this.channel,
+      JSON.stringify(event),
+    ]);
+  }
+
+  /**
+   * Adds a handler and opens the listener connection. A database that is
+   * unavailable does not fail the subscription: the connection is retried
+   * in the background.
+   */
+  async subscribe(handler: TenantChangeHandler): Promise<void> {
+    this.handlers.push(handler);
+
+    try {
+      await this.connect();
+    } catch (error) {
+      this.logger.error(
+        `Tenant event connection failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      this.scheduleReconnect();
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    clearTimeout(this.reconnectTimer);
+
+    const connection = this.connection;
+    this.connection = undefined;
+    const client = await connection?.catch(() => {});
+    await client?.end();
+  }
+
+  /**
+   * Opens the listener connection, or returns the one being opened
+   */
+  private connect(): Promise<Client> {
+    if (this.closed) {
+      return Promise.reject(new Error('Tenant event transport is closed'));
+    }
+    this.connection ??= this.open();
+    return this.connection;
+  }
+
+  private async open(): Promise<Client> {
+    const client = new Client(this.getClientConfig());
+
+    client.on('notification', message => this.dispatch(message));
+    client.on('error', error => {
+      this.logger.error(`Tenant event connection failed: ${error.message}`);
+    });
+    client.on('end', () => this.onEnd(client));
+
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${quoteIdentifier(this.channel)}`);
+    } catch (error) {
+      this.connection = undefined;
+      await client.end().catch(() => {});
+      throw error;
+    }
+
+    this.client = client;
+    this.logger.log(`Listening for tenant changes on ${this.channel}`);
+    return client;
+  }
+
+  /**
+   * Reopens a listener connection that was lost while subscribed
+   */
+  private onEnd(client?: Client): void {
+    if (this.closed || (client && this.client !== client)) {
+      return;
+    }
+    this.client = undefined;
+    this.connection = undefined;
+
+    if (this.handlers.length === 0) {
+      return;
+    }
+
+    this.logger.warn('Tenant event connection lost');
+    this.scheduleReconnect();
+  }
+
+  /**
+   * Reopens the listener connection after the reconnect delay, until it
+   * succeeds or the transport is closed
+   */
+  private scheduleReconnect(): void {
+    if (this.closed || this.reconnectTimer) {
+      return;
+    }
+
+    this.logger.warn(`Reconnecting tenant events in ${RECONNECT_DELAY}ms`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.connect().catch(error => {
+        this.logger.error(
+          `Tenant event connection failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        this.scheduleReconnect();
+      });
+    }, RECONNECT_DELAY);
+    this.reconnectTimer.unref();
+  }
+
+  private dispatch(message: Notification): void {
+    if (message.channel !== this.channel || !message.payload) {
+      return;
+    }
+
+    let event: TenantChangeEvent;
+    try {
+      event = JSON.parse(message.payload) as TenantChangeEvent;
+    } catch {
+      this.logger.warn(`Ignoring malformed tenant event: ${message.payload}`);
+      return;
+    }
+
+    for (const handler of this.handlers) {
+      Promise.resolve()
+        .then(() => handler(event))
+        .catch(error =>
+          this.logger.error(
+            `Error handling tenant event ${event.type} for ${event.code}:`,
+            error,
+          ),
+        );
+    }
+  }
+
+  private getClientConfig(): ClientConfig {
+    return {
+      host: this.config.host,
+      port: this.config.port,
+      user: this.config.username,
+      password: this.config.password,
+      database: this.config.database,
+      ssl: this.config.ssl as ClientConfig['ssl'],
+    };
+  }
+}
@@ -1,15 +1,42 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { drizzle, NodePgDatabase } from 'drizzle-orm/node-postgres';
-import { Pool } from 'pg';
+import { Client, Pool, PoolClient } from 'pg';
 
 import {
+  ConnectionMode,
   IOrmStrategy,
   isDrizzleConnection,
   OrmConfig,
+  TenantConnectionTarget,
   TenantOrmConnection,
 } from '../../interfaces/orm-abstraction.interface';
-import { DatabaseConfig } from '../../interfaces/typeorm.interface';
+import {
+  DatabaseConfig,
+  TenantPoolSettings,
+} from '../../interfaces/typeorm.interface';
+import {
+  getReplicaConfig,
+  ReadReplicaPool,
+} from '../../utils/read-replica.utils';
+import {
+  quoteIdentifier,
+  TenantSchemaPool,
+} from '../../utils/shared-pool.utils';
+import { DEFAULT_TENANT_POOL_SETTINGS } from '../../utils/tenant-pool.utils';
+
+/**
+ * Builds the `options` startup parameter that sets the search_path of every
+ * client of a pool. Whitespace and backslashes are escaped, as the server
+ * splits the options on whitespace.
+ */
+function getSearchPathOption(schema: string): string {
+  const searchPath = quoteIdentifier(schema).replaceAll(
+    /[\\\s]/g,
+    String.raw`\$&`,
+  );
+  return `-c search_path=${searchPath}`;
+}
 
 /**
  * Drizzle ORM implementation of the ORM strategy
@@ -18,51 +45,71 @@ import { DatabaseConfig } from '../../interfaces/typeorm.interface';
 export class DrizzleStrategy implements IOrmStrategy {
   readonly type = 'drizzle' as const;
   private readonly logger = new Logger(DrizzleStrategy.name);
+  private sharedPool?: Pool | ReadReplicaPool;
+  private readonly sharedConnections = new WeakSet<TenantOrmConnection>();
 
   constructor(
     private readonly configService: ConfigService,
     private readonly ormConfig?: OrmConfig,
     private readonly databaseConfig?: DatabaseConfig,
+    private readonly connectionMode: ConnectionMode = 'pool-per-tenant',
   ) {}
 
-  async createConnection(schema: string): Promise<TenantOrmConnection> {
+  async createConnection(
+    schema: string,
+    _enabledEntities?: string[],
+    target?: TenantConnectionTarget,
+  ): Promise<TenantOrmConnection> {
     this.logger.debug(`Creating Drizzle connection for schema: ${schema}`);
 
-    const config = this.databaseConfig || {
-      host: this.configService.get<string>('DB_HOST', 'localhost'),
-      port: this.configService.get<number>('DB_PORT', 5432),
-      username: this.configService.get<string>('DB_USERNAME', 'postgres'),
-      password: this.configService.get<string>('DB_PASSWORD', 'password'),
-      database: this.configService.get<string>('DB_DATABASE', 'multitenant_db'),
-    };
+    if (target?.rowLevel) {
+      return this.createSharedConnection(
+        target.rowLevel.schema,
+        target.rowLevel.tenant,
+      );
+    }
 
-    const connectionString = this.buildConnectionString(config, schema);
+    // Tenants with their own database cannot use the shared pool
+    if (this.connectionMode === 'shared-pool' && !target?.database) {
+      return this.createSharedConnection(schema);
+    }
 
     try {
-      const pool = new Pool({
-        connectionString,
-        max: 20,
-        idleTimeoutMillis: 30_000,
-        connectionTimeoutMillis: 2000,
-      });
+      const databaseConfig = target?.database ?? this.databaseConfig;
+      const primaryPool = this.createPool(schema, databaseConfig, target?.pool);
+      const replicaPools = this.createReplicaPools(
+        schema,
+        databaseConfig,
+        target?.pool,
+      );
 
-      // Test the connection
-      const client = await pool.connect();
+      if (this.ormConfig?.drizzle?.verifySchema) {
+        for (const tenantPool of [primaryPool, ...replicaPools]) {
+          // Pool clients are Client instances
+          tenantPool.on('acquire', client =>
+            this.verifyClientSchema(client as PoolClient & Client, schema),
+          );
+        }
+      }
 
-      // Set the search_path to the tenant schema
-      await client.query(`SET search_path TO "${schema}"`);
+      // Test the connection
+      const client = await primaryPool.connect();
       client.release();
 
-      const db = drizzle(pool, {
-        schema: this.ormConfig?.drizzle?.schema || {},
-        logger: this.ormConfig?.drizzle?.logger || false,
-      }) as NodePgDatabase<Record<string, unknown>>;
+      const pool =
+        replicaPools.length > 0
+          ? new ReadReplicaPool(primaryPool, replicaPools)
+          : primaryPool;
 
       this.logger.log(`Drizzle connection initialized for schema: ${schema}`);
 
       return {
         type: 'drizzle',
-        db: db as NodePgDatabase,
+        db: this.createDb(pool),
+        readDb:
+          pool instanceof ReadReplicaPool
+            ? this.createDb(pool.asReadOnly())
+            : undefined,
         pool,
         isInitialized: () => true, // Pool is always "initialized" once created
         destroy: async () => {
@@ -78,6 +125,144 @@ export class DrizzleStrategy implements IOrmStrategy {
     }
   }
 
+  /**
+   * Creates a Drizzle instance for the tenant on top of the shared pool:
+   * every query and transaction runs on a client whose search_path is set to
+   * the tenant schema. In 'row' isolation the search_path is the schema of the
+   * shared tables and the tenant is set in `app.tenant_id`.
+   */
+  private async createSharedConnection(
+    schema: string,
+    rowLevelTenant?: string,
+  ): Promise<TenantOrmConnection> {
+    if (!this.sharedPool) {
+      const primaryPool = this.createPool();
+      const replicaPools = this.createReplicaPools();
+      this.sharedPool =
+        replicaPools.length > 0
+          ? new ReadReplicaPool(primaryPool, replicaPools)
+          : primaryPool;
+      this.logger.log('Drizzle shared pool initialized');
+    }
+
+    const sharedPool = this.sharedPool;
+    const pool = new TenantSchemaPool(sharedPool, schema, rowLevelTenant);
+
+    const connection: TenantOrmConnection = {
+      type: 'drizzle',
+      db: this.createDb(pool),
+      readDb:
+        sharedPool instanceof ReadReplicaPool
+          ? this.createDb(
+              new TenantSchemaPool(
+                sharedPool.asReadOnly(),
+                schema,
+                rowLevelTenant,
+              ),
+            )
+          : undefined,
+      pool,
+      isInitialized: () => true,
+      // The shared pool outlives the connections of the tenants
+      destroy: async () => {},
+    };
+    this.sharedConnections.add(connection);
+
+    return connection;
+  }
+
+  /**
+   * Checks that a client checked out of a tenant pool uses the tenant schema.
+   * The check is queued before the queries of the caller; a client bound to
+   * another schema is closed so those queries fail instead.
+   */
+  private verifyClientSchema(
+    client: PoolClient & Client,
+    schema: string,
+  ): void {
+    client
+      .query<{ current_schema: string }>('SELECT current_schema()')
+      .then(
+        ({ rows }) => {
+          const currentSchema = rows[0]?.current_schema;
+          if (currentSchema === schema) {
+            return;
+          }
+
+          this.logger.error(
+            `Client of the pool for schema ${schema} uses schema ${currentSchema}. Closing it.`,
+          );
+          return client.end();
+        },
+        (error: Error) => {
+          this.logger.warn(
+            `Could not verify the schema of a client for ${schema}: ${error.message}`,
+          );
+        },
+      )
+      .catch(() => {});
+  }
+
+  /**
+   * Creates a pool whose clients use the schema as search_path through the
+   * `options` startup parameter, or the default search_path without one.
+   * Pool settings of the tenant override the defaults.
+   */
+  private createPool(
+    schema?: string,
+    databaseConfig = this.databaseConfig,
+    poolSettings?: TenantPoolSettings,
+  ): Pool {
+    const config = databaseConfig || {
+      host: this.configService.get<string>('DB_HOST', 'localhost'),
+      port: this.configService.get<number>('DB_PORT', 5432),
+      username: this.configService.get<string>('DB_USERNAME', 'postgres'),
+      password: this.configService.get<string>('DB_PASSWORD', 'password'),
+      database: this.configService.get<string>('DB_DATABASE', 'multitenant_db'),
+    };
+
+    return new Pool({
+      connectionString: this.buildConnectionString(config),
+      ...(schema && { options: getSearchPathOption(schema) }),
+      ...DEFAULT_TENANT_POOL_SETTINGS,
+      max: config.poolSize ?? DEFAULT_TENANT_POOL_SETTINGS.max,
+      ...poolSettings,
+    });
+  }
+
+  /**
+   * Creates the pools of the read replicas of a database, sized like the pool
+   * of the primary
+   */
+  private createReplicaPools(
+    schema?: string,
+    databaseConfig = this.databaseConfig,
+    poolSettings?: TenantPoolSettings,
+  ): Pool[] {
+    if (!databaseConfig?.replicas) {
+      return [];
+    }
+
+    return databaseConfig.replicas.map(replica =>
+      this.createPool(
+        schema,
+        getReplicaConfig(databaseConfig, replica),
+        poolSettings,
+      ),
+    );
+  }
+
+  private createDb(
+    pool: Pool | ReadReplicaPool | TenantSchemaPool,
+  ): NodePgDatabase {
+    const db = drizzle(pool as Pool, {
+      schema: this.ormConfig?.drizzle?.schema || {},
+      logger: this.ormConfig?.drizzle?.logger || false,
+    }) as NodePgDatabase<Record<string, unknown>>;
+
+    return db as NodePgDatabase;
+  }
+
   isConnectionValid(connection: TenantOrmConnection): boolean {
     if (!isDrizzleConnection(connection)) {
       return false;
@@ -91,24 +276,36 @@ export class DrizzleStrategy implements IOrmStrategy {
       throw new Error('Invalid connection type for Drizzle strategy');
     }
 
+    // The shared pool outlives the connections of the tenants
+    if (this.sharedConnections.has(connection)) {
+      this.sharedConnections.delete(connection);
+      return;
+    }
+
     if (connection.pool) {
-      await (connection.pool as Pool).end();
+      await (connection.pool as Pool | ReadReplicaPool).end();
       this.logger.log('Drizzle connection destroyed');
     }
   }
 
-  private buildConnectionString(
-    config: DatabaseConfig,
-    schema: string,
-  ): string {
+  async dispose(): Promise<void> {
+    const sharedPool = this.sharedPool;
+    this.sharedPool = undefined;
+
+    if (sharedPool) {
+      await sharedPool.end();
+      this.logger.log('Drizzle shared pool closed');
+    }
+  }
+
+  private buildConnectionString(config: DatabaseConfig): string {
     const { host, port, username, password, database, ssl } = config;
 
-    let connectionString = `postgresql://${username}:${password}@${host}:${port}/${database}`;
+    // Credentials from a resolver can contain URL delimiters such as @ or /
+    const credentials = `${encodeURIComponent(username)}:${encodeURIComponent(password)}`;
+    let connectionString = `postgresql://${credentials}@${host}:${port}/${database}`;
 
     const params = new URLSearchParams();
-    if (schema && schema !== 'public') {
-      params.append('schema', schema);
-    }
     if (ssl) {
       params.append('ssl', 'true');
     }
@@ -1,16 +1,66 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { DataSource, DataSourceOptions } from 'typeorm';
+import { PostgresConnectionOptions } from 'typeorm/driver/postgres/PostgresConnectionOptions';
+import { PostgresDriver } from 'typeorm/driver/postgres/PostgresDriver';
 
 import { getMultiTenantDatabaseConfig } from '../../../config/database.config';
+import { EntityRegistry } from '../../../config/entity.registry';
 import { EntityName } from '../../../constants';
 import {
+  ConnectionMode,
   IOrmStrategy,
   isTypeOrmConnection,
+  TenantConnectionTarget,
   TenantOrmConnection,
 } from '../../interfaces/orm-abstraction.interface';
-import { DatabaseConfig } from '../../interfaces/typeorm.interface';
+import {
+  DatabaseConfig,
+  TenantPoolSettings,
+} from '../../interfaces/typeorm.interface';
 import { getEntityClasses } from '../../utils/entity-registry.utils';
+import { ReplicaRouter } from '../../utils/read-replica.utils';
+import {
+  ReleasePoolClient,
+  scopeClientToSchema,
+} from '../../utils/shared-pool.utils';
+
+type ObtainConnection = PostgresDriver['obtainMasterConnection'];
+
+type PoolConnection = Awaited<ReturnType<ObtainConnection>>;
+
+/**
+ * Checks out a client of a pg pool the way PostgresDriver does
+ */
+function obtainPoolConnection(pool: {
+  connect: (
+    callback: (error: Error, client: unknown, release: unknown) => void,
+  ) => void;
+}): Promise<PoolConnection> {
+  return new Promise((resolve, reject) => {
+    pool.connect((error, client, release) =>
+      error ? reject(error) : resolve([client, release as ReleasePoolClient]),
+    );
+  });
+}
+
+/**
+ * Maps the pool settings of a tenant to the pool options of PostgresDriver.
+ * Unset settings keep the driver defaults.
+ */
+function getPoolOptions(
+  pool: TenantPoolSettings = {},
+): Pick<PostgresConnectionOptions, 'poolSize' | 'connectTimeoutMS' | 'extra'> {
+  return {
+    ...(pool.max !== undefined && { poolSize: pool.max }),
+    ...(pool.connectionTimeoutMillis !== undefined && {
+      connectTimeoutMS: pool.connectionTimeoutMillis,
+    }),
+    ...(pool.idleTimeoutMillis !== undefined && {
+      extra: { idleTimeoutMillis: pool.idleTimeoutMillis },
+    }),
+  };
+}
 
 /**
  * TypeORM implementation of the ORM strategy
@@ -19,18 +69,34 @@ import { getEntityClasses } from '../../utils/entity-registry.utils';
 export class TypeOrmStrategy implements IOrmStrategy {
   readonly type = 'typeorm' as const;
   private readonly logger = new Logger(TypeOrmStrategy.name);
+  private sharedDataSource?: Promise<DataSource>;
+  private readonly sharedViews = new WeakSet<TenantOrmConnection>();
 
   constructor(
     private readonly configService: ConfigService,
     private readonly databaseConfig?: DatabaseConfig,
+    private readonly connectionMode: ConnectionMode = 'pool-per-tenant',
   ) {}
 
   async createConnection(
     schema: string,
     enabledEntities?: string[],
+    target?: TenantConnectionTarget,
   ): Promise<TenantOrmConnection> {
     this.logger.debug(`Creating TypeORM connection for schema: ${schema}`);
 
+    if (target?.rowLevel) {
+      return this.createSharedConnection(
+        target.rowLevel.schema,
+        target.rowLevel.tenant,
+      );
+    }
+
+    // Tenants with their own database cannot use the shared pool
+    if (this.connectionMode === 'shared-pool' && !target?.database) {
+      return this.createSharedConnection(schema);
+    }
+
     const entities =
       enabledEntities && enabledEntities.length > 0
         ? getEntityClasses(enabledEntities as EntityName[])
@@ -40,17 +106,19 @@ export class TypeOrmStrategy implements IOrmStrategy {
       this.configService,
       schema,
       enabledEntities as EntityName[],
-      this.databaseConfig,
-    ) as DataSourceOptions;
+      target?.database ?? this.databaseConfig,
+    ) as PostgresConnectionOptions;
 
     const dataSource = new DataSource({
       ...config,
+      ...getPoolOptions(target?.pool),
       name: `tenant_${schema}`,
       entities: entities as (string | (new () => unknown))[],
     });
 
     try {
       await dataSource.initialize();
+      this.useReadReplicas(dataSource);
       this.logger.log(`TypeORM connection initialized for schema: ${schema}`);
 
       return {
@@ -72,6 +140,122 @@ export class TypeOrmStrategy implements IOrmStrategy {
     }
   }
 
+  /**
+   * Creates a tenant view of the shared DataSource: repositories, query
+   * builders and transactions of the view run on clients of the shared pool
+   * with the search_path set to the tenant schema. In 'row' isolation the
+   * search_path is the schema of the shared tables and the tenant is set in
+   * `app.tenant_id`.
+   */
+  private async createSharedConnection(
+    schema: string,
+    rowLevelTenant?: string,
+  ): Promise<TenantOrmConnection> {
+    const dataSource = await this.getSharedDataSource();
+
+    const driver = dataSource.driver as PostgresDriver;
+    const scope =
+      (obtain: ObtainConnection): ObtainConnection =>
+      async () => {
+        const [client, release] = await obtain();
+        return [
+          client,
+          await scopeClientToSchema(
+            client,
+            schema,
+            release as ReleasePoolClient,
+            rowLevelTenant,
+          ),
+        ];
+      };
+    const tenantDriver: PostgresDriver = Object.create(driver, {
+      obtainMasterConnection: {
+        value: scope(() => driver.obtainMasterConnection()),
+      },
+      obtainSlaveConnection: {
+        value: scope(() => driver.obtainSlaveConnection()),
+      },
+    });
+
+    const view: DataSource = Object.create(dataSource, {
+      driver: { value: tenantDriver },
+    });
+    Object.defineProperty(view, 'manager', {
+      value: view.createEntityManager(),
+    });
+
+    const connection: TenantOrmConnection = {
+      type: 'typeorm',
+      dataSource: view,
+      isInitialized: () => dataSource.isInitialized,
+      // The shared DataSource outlives the views of the tenants
+      destroy: async () => {},
+    };
+    this.sharedViews.add(connection);
+
+    return connection;
+  }
+
+  private getSharedDataSource(): Promise<DataSource> {
+    this.sharedDataSource ??= this.initializeSharedDataSource().catch(
+      (error: unknown) => {
+        this.sharedDataSource = undefined;
+        throw error;
+      },
+    );
+    return this.sharedDataSource;
+  }
+
+  private async initializeSharedDataSource(): Promise<DataSource> {
+    const entityNames = EntityRegistry.getInstance().getEntityNames();
+    const config = getMultiTenantDatabaseConfig(
+      this.configService,
+      '',
+      entityNames,
+      this.databaseConfig,
+    ) as DataSourceOptions;
+
+    // Tables are resolved through the search_path, so entities must not be
+    // bound to a schema and the default schema must not be synchronized
+    const dataSource = new DataSource({
+      ...config,
+      schema: undefined,
+      synchronize: false,
+      name: 'tenant_shared_pool',
+    } as DataSourceOptions);
+
+    try {
+      await dataSource.initialize();
+      this.useReadReplicas(dataSource);
+      this.logger.log('TypeORM shared pool initialized');
+      return dataSource;
+    } catch (error) {
+      this.logger.error('Failed to initialize the TypeORM shared pool:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Routes the clients of a DataSource with read replicas: read-only scopes
+   * and slave query runners use a healthy replica, everything else the
+   * primary.
+   */
+  private useReadReplicas(dataSource: DataSource): void {
+    const driver = dataSource.driver as PostgresDriver;
+    if (driver.slaves.length === 0) {
+      return;
+    }
+
+    const obtainPrimary = driver.obtainMasterConnection.bind(driver);
+    const router = new ReplicaRouter<PoolConnection>(
+      driver.slaves.map(pool => () => obtainPoolConnection(pool)),
+      obtainPrimary,
+    );
+
+    driver.obtainMasterConnection = () => router.connect();
+    driver.obtainSlaveConnection = () => router.connect(true);
+  }
+
   isConnectionValid(connection: TenantOrmConnection): boolean {
     if (!isTypeOrmConnection(connection)) {
       return false;
@@ -84,9 +268,26 @@ export class TypeOrmStrategy implements IOrmStrategy {
       throw new Error('Invalid connection type for TypeORM strategy');
     }
 
+    // The shared DataSource outlives the views of the tenants
+    if (this.sharedViews.has(connection)) {
+      this.sharedViews.delete(connection);
+      return;
+    }
+
     if (connection.dataSource.isInitialized) {
       await connection.dataSource.destroy();
       this.logger.log('TypeORM connection destroyed');
     }
   }
+
+  async dispose(): Promise<void> {
+    const sharedDataSource = this.sharedDataSource;
+    this.sharedDataSource = undefined;
+
+    const dataSource = await sharedDataSource?.catch(() => {});
+    if (dataSource?.isInitialized) {
+      await dataSource.destroy();
+      this.logger.log('TypeORM shared pool closed');
+    }
+  }
 }
@@ -0,0 +1,194 @@
+import { Tenant } from '../../../admin/entities/tenant.entity';
+import { Tenant as TenantSchema } from '../../../admin/schema/tenant.schema';
+import { TenantStatusInfo } from '../../interfaces/tenant.interface';
+import {
+  ITenantValidationStrategy,
+  TenantCacheConfig,
+} from '../../interfaces/tenant-validation.interface';
+
+type TenantRecord = Tenant | TenantSchema;
+
+interface CacheEntry {
+  value: Promise<unknown>;
+  expiresAt: number;
+  /**
+   * Code of the tenant a domain lookup resolved to
+   */
+  tenantCode?: string;
+}
+
+const DEFAULT_TTL = 30_000;
+const DEFAULT_NEGATIVE_TTL = 5000;
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * Caches the lookups of another validation strategy. Found tenants are kept
+ * for `ttl` and missing ones for `negativeTtl`; concurrent lookups of the same
+ * key share one call to the strategy.
+ *
+ * Existence and status checks are answered from the cached tenant record when
+ * there is one, so validating a tenant and then loading it queries once.
+ */
+export class CachedTenantValidationStrategy
+  implements ITenantValidationStrategy
+{
+  findByDomain?: (domain: string) => Promise<TenantRecord | undefined>;
+  findStatusByCode?: (code: string) => Promise<TenantStatusInfo | undefined>;
+
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly ttl: number;
+  private readonly negativeTtl: number;
+  private readonly maxEntries: number;
+
+  constructor(
+    private readonly strategy: ITenantValidationStrategy,
+    config: TenantCacheConfig = {},
+  ) {
+    this.ttl = config.ttl ?? DEFAULT_TTL;
+    this.negativeTtl = config.negativeTtl ?? DEFAULT_NEGATIVE_TTL;
+    this.maxEntries = config.maxEntries ?? DEFAULT_MAX_ENTRIES;
+
+    // Optional lookups are only offered when the strategy implements them
+    if (strategy.findByDomain) {
+      this.findByDomain = domain =>
+        this.lookup(`domain:${domain}`, () => strategy.findByDomain!(domain));
+    }
+    if (strategy.findStatusByCode) {
+      this.findStatusByCode = code => this.findStatus(code);
+    }
+  }
+
+  /**
+   * Validates whether a tenant exists, from its cached record when there is one
+   *
+   * @param tenantCode The tenant code
+   * @returns A promise that resolves to true if the tenant exists, false otherwise
+   */
+  async validateTenantExists(tenantCode: string): Promise<boolean> {
+    if (await this.findByCode(tenantCode)) {
+      return true;
+    }
+
+    return this.lookup(`exists:${tenantCode}`, () =>
+      this.strategy.validateTenantExists(tenantCode),
+    );
+  }
+
+  /**
+   * Finds a tenant by its code
+   *
+   * @param code The tenant code
+   * @returns A promise that resolves to the tenant, or undefined if no tenant is found
+   */
+  findByCode(code: string): Promise<TenantRecord | undefined> {
+    return this.lookup(`code:${code}`, () => this.strategy.findByCode(code));
+  }
+
+  /**
+   * Drops the cached lookups of a tenant, including the domains that
+   * resolved to it
+   *
+   * @param code The tenant code
+   */
+  invalidate(code: string): void {
+    this.entries.delete(`code:${code}`);
+    this.entries.delete(`exists:${code}`);
+    this.entries.delete(`status:${code}`);
+
+    for (const [key, entry] of this.entries) {
+      if (entry.tenantCode === code) {
+        this.entries.delete(key);
+      }
+    }
+
+    this.strategy.invalidate?.(code);
+  }
+
+  /**
+   * Drops the cached lookup of a custom domain, which may be a miss cached
+   * before the domain was verified
+   *
+   * @param domain The custom domain
+   */
+  invalidateDomain(domain: string): void {
+    this.entries.delete(`domain:${domain}`);
+    this.strategy.invalidateDomain?.(domain);
+  }
+
+  /**
+   * Drops every cached lookup
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Finds the status of a tenant. Tenants that are not deleted take it from
+   * their cached record; deleted and missing ones ask the strategy.
+   */
+  private async findStatus(
+    code: string,
+  ): Promise<TenantStatusInfo | undefined> {
+    const tenant = await this.findByCode(code);
+    if (tenant) {
+      return { status: tenant.status, settings: tenant.settings };
+    }
+
+    return this.lookup(`status:${code}`, () =>
+      this.strategy.findStatusByCode!(code),
+    );
+  }
+
+  /**
+   * Returns the cached result of a lookup, or runs it and caches its result.
+   * Failed lookups are not cached.
+   */
+  private lookup<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const cached = this.entries.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      // Move the entry to the end, which keeps the map in LRU order
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+      return cached.value as Promise<T>;
+    }
+
+    const entry: CacheEntry = {
+      value: load(),
+      expiresAt: Date.now() + this.ttl,
+    };
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.evict();
+
+    entry.value.then(
+      value => {
+        entry.expiresAt =
+          Date.now() +
+          (value === undefined || value === false
+            ? this.negativeTtl
+            : this.ttl);
+        entry.tenantCode = (value as TenantRecord | undefined)?.code;
+      },
+      () => {
+        // Keep a newer entry stored after an invalidation
+        if (this.entries.get(key) === entry) {
+          this.entries.delete(key);
+        }
+      },
+    );
+
+    return entry.value as Promise<T>;
+  }
+
+  /**
+   * Evicts the least recently used entries over the size limit
+   */
+  private evict(): void {
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        return;
+      }
+      this.entries.delete(key);
+    }
+  }
+}
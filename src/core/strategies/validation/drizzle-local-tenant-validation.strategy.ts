@@ -1,10 +1,15 @@
 import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
 
 import { Inject, Injectable } from '@nestjs/common';
-import { and, eq, isNull } from 'drizzle-orm';
+import { and, eq, getTableColumns, isNull, sql } from 'drizzle-orm';
 
-import { type Tenant, tenants } from '../../../admin/schema/tenant.schema';
+import {
+  type Tenant,
+  tenantDomains,
+  tenants,
+} from '../../../admin/schema/tenant.schema';
 import { ADMIN_DATABASE } from '../../../admin/services/drizzle-tenant-admin.service';
+import { TenantStatusInfo } from '../../interfaces/tenant.interface';
 import { ITenantValidationStrategy } from '../../interfaces/tenant-validation.interface';
 
 /**
@@ -51,4 +56,45 @@ export class DrizzleLocalTenantValidationStrategy
 
     return tenant || undefined;
   }
+
+  /**
+   * Finds the tenant mapped to a verified custom domain
+   *
+   * @param domain The normalized custom domain
+   * @returns A promise that resolves to the tenant entity mapped to the domain, or undefined if no tenant is found
+   */
+  async findByDomain(domain: string): Promise<Tenant | undefined> {
+    const [tenant] = await this.db
+      .select(getTableColumns(tenants))
+      .from(tenants)
+      .innerJoin(tenantDomains, eq(tenantDomains.tenantId, tenants.id))
+      .where(
+        and(
+          eq(tenantDomains.domain, domain),
+          eq(tenantDomains.verified, true),
+          isNull(tenants.deletedAt),
+        ),
+      )
+      .limit(1);
+
+    return tenant || undefined;
+  }
+
+  /**
+   * Finds the status of a tenant, including soft-deleted ones.
+   * The current (not deleted) tenant wins over deleted ones with the same code.
+   *
+   * @param code The tenant code
+   * @returns A promise that resolves to the tenant status and settings, or undefined if no tenant is found
+   */
+  async findStatusByCode(code: string): Promise<TenantStatusInfo | undefined> {
+    const [tenant] = await this.db
+      .select({ status: tenants.status, settings: tenants.settings })
+      .from(tenants)
+      .where(eq(tenants.code, code))
+      .orderBy(sql`${tenants.deletedAt} DESC NULLS FIRST`)
+      .limit(1);
+
+    return tenant || undefined;
+  }
 }
@@ -3,6 +3,7 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { IsNull, Repository } from 'typeorm';
 
 import { Tenant } from '../../../admin/entities/tenant.entity';
+import { TenantStatusInfo } from '../../interfaces/tenant.interface';
 import { ITenantValidationStrategy } from '../../interfaces/tenant-validation.interface';
 
 @Injectable()
@@ -40,4 +41,42 @@ export class LocalTenantValidationStrategy
 
     return tenant || undefined;
   }
+
+  /**
+   * Finds the tenant mapped to a verified custom domain
+   *
+   * @param domain The normalized custom domain
+   * @returns A promise that resolves to the tenant entity mapped to the domain, or undefined if no tenant is found
+   */
+  async findByDomain(domain: string): Promise<Tenant | undefined> {
+    const tenant = await this.tenantRepository
+      .createQueryBuilder('tenant')
+      .innerJoin('tenant.domains', 'domain')
+      .where('domain.domain = :domain', { domain })
+      .andWhere('domain.verified = true')
+      .andWhere('tenant.deletedAt IS NULL')
+      .getOne();
+
+    return tenant || undefined;
+  }
+
+  /**
+   * Finds the status of a tenant, including soft-deleted ones.
+   * The current (not deleted) tenant wins over deleted ones with the same code.
+   *
+   * @param code The tenant code
+   * @returns A promise that resolves to the tenant status and settings, or undefined if no tenant is found
+   */
+  async findStatusByCode(code: string): Promise<TenantStatusInfo | undefined> {
+    const tenant = await this.tenantRepository.findOne({
+      where: { code },
+      select: { id: true, status: true, settings: true },
+      order: { deletedAt: { direction: 'DESC', nulls: 'FIRST' } },
+      withDeleted: true,
+    });
+
+    return tenant
+      ? { status: tenant.status, settings: tenant.settings }
+      : undefined;
+  }
 }
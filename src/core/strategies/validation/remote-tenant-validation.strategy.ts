@@ -3,6 +3,7 @@ import { Injectable } from '@nestjs/common';
 import { firstValueFrom } from 'rxjs';
 
 import { Tenant } from '../../../admin/entities/tenant.entity';
+import { TenantStatusInfo } from '../../interfaces/tenant.interface';
 import { ITenantValidationStrategy } from '../../interfaces/tenant-validation.interface';
 
 @Injectable()
@@ -49,4 +50,40 @@ export class RemoteTenantValidationStrategy
       return undefined;
     }
   }
+
+  /**
+   * Finds the tenant mapped to a verified custom domain
+   *
+   * @param domain The normalized custom domain
+   * @returns A promise that resolves to the tenant entity mapped to the domain, or undefined if no tenant is found
+   */
+  async findByDomain(domain: string): Promise<Tenant | undefined> {
+    try {
+      const response = await firstValueFrom(
+        this.httpService.get(
+          `${this.basePath}/admin/tenant/domain/${encodeURIComponent(domain)}`,
+        ),
+      );
+      return response.data;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Finds the status of a tenant, including suspended and soft-deleted ones
+   *
+   * @param code The tenant code
+   * @returns A promise that resolves to the tenant status and settings, or undefined if no tenant is found
+   */
+  async findStatusByCode(code: string): Promise<TenantStatusInfo | undefined> {
+    try {
+      const response = await firstValueFrom(
+        this.httpService.get(`${this.basePath}/admin/tenant/status/${code}`),
+      );
+      return response.data;
+    } catch {
+      return undefined;
+    }
+  }
 }
@@ -0,0 +1,80 @@
+import { randomBytes } from 'node:crypto';
+import { resolveTxt } from 'node:dns/promises';
+
+import { normalizeHost } from './tenant-resolution.utils';
+
+/**
+ * Prefix of the DNS TXT record used to prove ownership of a custom domain
+ */
+export const DOMAIN_VERIFICATION_RECORD_PREFIX = '_tenant-verification';
+
+const REGEX_DOMAIN_NAME =
+  /^(?=.{1,253}$)(?:[a-z\d](?:[a-z\d-]{0,61}[a-z\d])?\.)+[a-z\d-]{2,63}$/;
+
+/**
+ * DNS record a tenant must publish to verify a custom domain
+ */
+export interface DomainVerificationRecord {
+  type: 'TXT';
+  name: string;
+  value: string;
+}
+
+/**
+ * Normalizes a custom domain and checks it is a valid host name.
+ *
+ * @param domain - The domain as entered by the user
+ * @returns The normalized domain, or undefined if it is not valid
+ */
+export function normalizeDomain(domain: string): string | undefined {
+  const hostname = normalizeHost(domain);
+  return hostname && REGEX_DOMAIN_NAME.test(hostname) ? hostname : undefined;
+}
+
+/**
+ * Generates a random token for the verification record.
+ *
+ * @returns A 32 character hex token
+ */
+export function generateDomainVerificationToken(): string {
+  return randomBytes(16).toString('hex');
+}
+
+/**
+ * Builds the DNS record a tenant must publish to verify a domain.
+ *
+ * @param domain - The normalized domain
+ * @param token - The verification token
+ * @returns The expected TXT record
+ */
+export function getDomainVerificationRecord(
+  domain: string,
+  token: string,
+): DomainVerificationRecord {
+  return {
+    type: 'TXT',
+    name: `${DOMAIN_VERIFICATION_RECORD_PREFIX}.${domain}`,
+    value: token,
+  };
+}
+
+/**
+ * Checks whether the verification TXT record for a domain contains the token.
+ *
+ * @param domain - The normalized domain
+ * @param token - The verification token
+ * @returns True if the record is published, false otherwise
+ */
+export async function isDomainVerificationPublished(
+  domain: string,
+  token: string,
+): Promise<boolean> {
+  const { name } = getDomainVerificationRecord(domain, token);
+
+  try {
+    const records = await resolveTxt(name);
+    return records.some(chunks => chunks.join('') === token);
+  } catch {
+    return false;
+  }
+}
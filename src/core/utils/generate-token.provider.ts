@@ -5,6 +5,8 @@ export const TOKEN_CONSTANTS = {
   DATA_SOURCE: 'TENANT_DATA_SOURCE',
   FACTORY_SUFFIX: '_FACTORY',
   DRIZZLE_DB: 'TENANT_DRIZZLE_DB',
+  DRIZZLE_READ_DB: 'TENANT_DRIZZLE_READ_DB',
+  CLIENT_PREFIX: 'TENANT_CLIENT_',
 } as const;
 
 type EntityName = {
@@ -29,3 +31,17 @@ export function getTenantRepositoryToken(
         'Unknown';
   return `${TOKEN_CONSTANTS.REPOSITORY_PREFIX}${entityName}`;
 }
+
+/**
+ * Generates the token of the tenant-aware wrapper of a microservice client
+ * @param clientToken - The injection token of the wrapped ClientProxy
+ * @returns Formatted token string for DI container
+ * @example getTenantClientToken('ORDERS_SERVICE') // "TENANT_CLIENT_ORDERS_SERVICE"
+ */
+export function getTenantClientToken(clientToken: string | symbol): string {
+  const name =
+    typeof clientToken === 'symbol'
+      ? clientToken.description || 'Unknown'
+      : clientToken;
+  return `${TOKEN_CONSTANTS.CLIENT_PREFIX}${name}`;
+}
@@ -0,0 +1,325 @@
+import {
+  createHmac,
+  createPublicKey,
+  KeyObject,
+  timingSafeEqual,
+  verify as verifySignature,
+} from 'node:crypto';
+import { readFileSync } from 'node:fs';
+
+import {
+  InvalidTenantTokenError,
+  JwtVerificationConfigError,
+} from '../exceptions/custom-errors';
+import {
+  JsonWebKeySet,
+  JwtAlgorithm,
+  JwtVerificationOptions,
+} from '../interfaces/tenant.interface';
+
+const HMAC_ALGORITHMS: JwtAlgorithm[] = ['HS256', 'HS384', 'HS512'];
+const RSA_ALGORITHMS: JwtAlgorithm[] = ['RS256', 'RS384', 'RS512'];
+const EC_ALGORITHMS: JwtAlgorithm[] = ['ES256', 'ES384', 'ES512'];
+
+const ALGORITHM_HASHES: Record<JwtAlgorithm, string> = {
+  HS256: 'sha256',
+  HS384: 'sha384',
+  HS512: 'sha512',
+  RS256: 'sha256',
+  RS384: 'sha384',
+  RS512: 'sha512',
+  ES256: 'sha256',
+  ES384: 'sha384',
+  ES512: 'sha512',
+};
+
+const EC_CURVES: Partial<Record<JwtAlgorithm, string>> = {
+  ES256: 'prime256v1',
+  ES384: 'secp384r1',
+  ES512: 'secp521r1',
+};
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+}
+
+interface VerificationKey {
+  kid?: string;
+  key: KeyObject;
+}
+
+const verifierCache = new WeakMap<JwtVerificationOptions, JwtVerifier>();
+
+/**
+ * Returns a verifier for the given options, reusing the one built for the
+ * same options object so key material and JWKS files are loaded only once.
+ *
+ * @param options - The JWT verification options
+ * @returns The cached verifier
+ */
+export function getJwtVerifier(options: JwtVerificationOptions): JwtVerifier {
+  let verifier = verifierCache.get(options);
+  if (!verifier) {
+    verifier = new JwtVerifier(options);
+    verifierCache.set(options, verifier);
+  }
+  return verifier;
+}
+
+function encodeSegment(segment: object): string {
+  return Buffer.from(JSON.stringify(segment)).toString('base64url');
+}
+
+/**
+ * Signs a compact JWS token with an HMAC secret, verifiable by the 'jwt'
+ * strategy configured with the same secret.
+ *
+ * @param payload - The token claims
+ * @param secret - The HMAC secret
+ * @param algorithm - The HMAC algorithm (default: HS256)
+ * @returns The signed token
+ */
+export function signJwt(
+  payload: Record<string, unknown>,
+  secret: string,
+  algorithm: JwtAlgorithm = 'HS256',
+): string {
+  if (!HMAC_ALGORITHMS.includes(algorithm)) {
+    throw new Error(`Unsupported JWT signing algorithm: ${algorithm}`);
+  }
+
+  const signingInput = `${encodeSegment({ alg: algorithm, typ: 'JWT' })}.${encodeSegment(payload)}`;
+  const signature = createHmac(ALGORITHM_HASHES[algorithm], secret)
+    .update(signingInput)
+    .digest('base64url');
+
+  return `${signingInput}.${signature}`;
+}
+
+/**
+ * Verifies compact JWS tokens (HS*, RS*, ES*) and their registered claims.
+ * Every failure is reported as an InvalidTenantTokenError.
+ */
+export class JwtVerifier {
+  private readonly secrets: Buffer[];
+  private readonly publicKeys: VerificationKey[];
+  private readonly jwks: VerificationKey[];
+  private readonly algorithms: JwtAlgorithm[];
+
+  /**
+   * @throws JwtVerificationConfigError if the key material cannot be loaded
+   */
+  constructor(private readonly options: JwtVerificationOptions) {
+    this.secrets = this.toArray(options.secret).map(secret =>
+      Buffer.from(secret),
+    );
+    this.publicKeys = this.loadKeys('public key', () =>
+      this.toArray(options.publicKeys).map(pem => ({
+        key: createPublicKey(pem),
+      })),
+    );
+    const { jwks } = options;
+    this.jwks = jwks
+      ? this.loadKeys('JWKS document', () => this.loadJwks(jwks))
+      : [];
+    this.algorithms = options.algorithms || this.getDefaultAlgorithms();
+
+    if (
+      this.secrets.length === 0 &&
+      this.publicKeys.length === 0 &&
+      this.jwks.length === 0
+    ) {
+      throw new JwtVerificationConfigError(
+        'a secret, public keys or a JWKS document is required',
+      );
+    }
+  }
+
+  /**
+   * Verifies the token signature and claims.
+   *
+   * @param token - The compact JWT
+   * @returns The verified payload
+   * @throws InvalidTenantTokenError if the token is not valid
+   */
+  verify(token: string): Record<string, unknown> {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new InvalidTenantTokenError('Malformed token');
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+    const header = this.decodeSegment(encodedHeader) as JwtHeader;
+    const algorithm = header.alg as JwtAlgorithm;
+
+    if (!algorithm || !this.algorithms.includes(algorithm)) {
+      throw new InvalidTenantTokenError(
+        `Algorithm not allowed: ${header.alg ?? 'none'}`,
+      );
+    }
+
+    const signingInput = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+    const signature = Buffer.from(encodedSignature, 'base64url');
+
+    if (!this.verifyWith(algorithm, header.kid, signingInput, signature)) {
+      throw new InvalidTenantTokenError('Invalid signature');
+    }
+
+    const payload = this.decodeSegment(encodedPayload);
+    this.validateClaims(payload);
+    return payload;
+  }
+
+  private verifyWith(
+    algorithm: JwtAlgorithm,
+    kid: string | undefined,
+    signingInput: Buffer,
+    signature: Buffer,
+  ): boolean {
+    const hash = ALGORITHM_HASHES[algorithm];
+
+    if (HMAC_ALGORITHMS.includes(algorithm)) {
+      return this.secrets.some(secret => {
+        const expected = createHmac(hash, secret).update(signingInput).digest();
+        return (
+          expected.length === signature.length &&
+          timingSafeEqual(expected, signature)
+        );
+      });
+    }
+
+    const keyType = RSA_ALGORITHMS.includes(algorithm) ? 'rsa' : 'ec';
+
+    return this.selectKeys(kid)
+      .filter(({ key }) => this.isKeyUsableFor(key, keyType, algorithm))
+      .some(({ key }) =>
+        verifySignature(
+          hash,
+          signingInput,
+          keyType === 'ec' ? { key, dsaEncoding: 'ieee-p1363' } : key,
+          signature,
+        ),
+      );
+  }
+
+  /**
+   * Selects the keys for a token: the JWKS keys with its `kid`, falling back
+   * to the static public keys when no JWKS key has it
+   */
+  private selectKeys(kid: string | undefined): VerificationKey[] {
+    if (kid && this.jwks.length > 0) {
+      const matching = this.jwks.filter(jwk => jwk.kid === kid);
+      if (matching.length > 0) {
+        return matching;
+      }
+      if (this.publicKeys.length === 0) {
+        throw new InvalidTenantTokenError(`Unknown key id: ${kid}`);
+      }
+      return this.publicKeys;
+    }
+
+    return [...this.jwks, ...this.publicKeys];
+  }
+
+  private isKeyUsableFor(
+    key: KeyObject,
+    keyType: 'rsa' | 'ec',
+    algorithm: JwtAlgorithm,
+  ): boolean {
+    if (key.asymmetricKeyType !== keyType) return false;
+    if (keyType === 'rsa') return true;
+    return key.asymmetricKeyDetails?.namedCurve === EC_CURVES[algorithm];
+  }
+
+  private validateClaims(payload: Record<string, unknown>): void {
+    const now = Math.floor(Date.now() / 1000);
+    const tolerance = this.options.clockTolerance ?? 0;
+    const { exp, nbf, iss, aud } = payload;
+
+    if (exp === undefined) {
+      if (this.options.requireExpiration) {
+        throw new InvalidTenantTokenError('Missing exp claim');
+      }
+    } else if (typeof exp !== 'number' || exp <= now - tolerance) {
+      throw new InvalidTenantTokenError('Token expired');
+    }
+
+    if (
+      nbf !== undefined &&
+      (typeof nbf !== 'number' || nbf > now + tolerance)
+    ) {
+      throw new InvalidTenantTokenError('Token not yet valid');
+    }
+
+    const issuers = this.toArray(this.options.issuer);
+    if (issuers.length > 0 && !issuers.includes(iss as string)) {
+      throw new InvalidTenantTokenError('Invalid issuer');
+    }
+
+    const audiences = this.toArray(this.options.audience);
+    if (audiences.length > 0) {
+      const tokenAudiences = Array.isArray(aud) ? aud : [aud];
+      if (!tokenAudiences.some(value => audiences.includes(value as string))) {
+        throw new InvalidTenantTokenError('Invalid audience');
+      }
+    }
+  }
+
+  private decodeSegment(segment: string): Record<string, unknown> {
+    try {
+      const decoded = JSON.parse(
+        Buffer.from(segment, 'base64url').toString('utf8'),
+      );
+      if (!decoded || typeof decoded !== 'object') {
+        throw new Error('Segment is not a JSON object');
+      }
+      return decoded;
+    } catch {
+      throw new InvalidTenantTokenError('Malformed token');
+    }
+  }
+
+  private loadKeys(
+    source: string,
+    load: () => VerificationKey[],
+  ): VerificationKey[] {
+    try {
+      return load();
+    } catch (error) {
+      throw new JwtVerificationConfigError(
+        `cannot load ${source}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  private loadJwks(jwks: JsonWebKeySet | string): VerificationKey[] {
+    const document: JsonWebKeySet =
+      typeof jwks === 'string' ? JSON.parse(readFileSync(jwks, 'utf8')) : jwks;
+
+    return (document.keys || [])
+      .filter(jwk => jwk.use !== 'enc' && jwk.kty !== 'oct')
+      .map(jwk => ({
+        kid: jwk.kid,
+        key: createPublicKey({ key: jwk, format: 'jwk' }),
+      }));
+  }
+
+  private getDefaultAlgorithms(): JwtAlgorithm[] {
+    const keys = [...this.publicKeys, ...this.jwks];
+    return [
+      ...(this.secrets.length > 0 ? HMAC_ALGORITHMS : []),
+      ...(keys.some(({ key }) => key.asymmetricKeyType === 'rsa')
+        ? RSA_ALGORITHMS
+        : []),
+      ...(keys.some(({ key }) => key.asymmetricKeyType === 'ec')
+        ? EC_ALGORITHMS
+        : []),
+    ];
+  }
+
+  private toArray<T>(value: T | T[] | undefined): T[] {
+    if (value === undefined) return [];
+    return Array.isArray(value) ? value : [value];
+  }
+}
@@ -0,0 +1,167 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import { Logger } from '@nestjs/common';
+import { Pool, PoolClient, QueryConfig, QueryResult } from 'pg';
+
+import {
+  DatabaseConfig,
+  DatabaseReplicaConfig,
+} from '../interfaces/typeorm.interface';
+
+/**
+ * Time in milliseconds a replica that refused a connection is skipped
+ */
+const REPLICA_RETRY_DELAY = 30_000;
+
+const readOnlyStorage = new AsyncLocalStorage<boolean>();
+
+/**
+ * Read-only scope of the current async execution. Tenant connections with
+ * read replicas check out replica clients inside the scope, and primary
+ * clients outside of it.
+ *
+ * @example
+ * ```ts
+ * const report = await ReadOnlyScope.run(() => this.reportService.build());
+ * ```
+ */
+export const ReadOnlyScope = {
+  /**
+   * Runs a function in a read-only scope. The scope is kept across every
+   * async call made by the function.
+   *
+   * @param fn - The function to run
+   * @returns The result of the function
+   */
+  run<T>(fn: () => T): T {
+    return readOnlyStorage.run(true, fn);
+  },
+
+  /**
+   * @returns Whether the current execution runs in a read-only scope
+   */
+  isActive(): boolean {
+    return readOnlyStorage.getStore() ?? false;
+  },
+};
+
+/**
+ * Builds the database configuration of a replica from the configuration of
+ * its primary
+ */
+export function getReplicaConfig(
+  config: DatabaseConfig,
+  replica: DatabaseReplicaConfig,
+): DatabaseConfig {
+  return {
+    ...config,
+    host: replica.host,
+    port: replica.port ?? config.port,
+    username: replica.username ?? config.username,
+    password: replica.password ?? config.password,
+    replicas: undefined,
+  };
+}
+
+/**
+ * Checks out connections for reads from the healthy replicas, starting with
+ * a different one each time. A replica that fails to connect is skipped for
+ * a while; when no replica connects, the primary is used.
+ */
+export class ReplicaRouter<TConnection> {
+  private readonly logger = new Logger(ReplicaRouter.name);
+  private readonly unhealthyUntil = new Map<number, number>();
+  private next = 0;
+
+  constructor(
+    private readonly replicas: Array<() => Promise<TConnection>>,
+    private readonly primary: () => Promise<TConnection>,
+  ) {}
+
+  /**
+   * Checks out a connection
+   * @param readOnly - Use a replica (default: whether a read-only scope is active)
+   * @returns The connection
+   */
+  async connect(readOnly = ReadOnlyScope.isActive()): Promise<TConnection> {
+    if (!readOnly) {
+      return this.primary();
+    }
+
+    const start = this.next++ % this.replicas.length;
+    for (let offset = 0; offset < this.replicas.length; offset++) {
+      const index = (start + offset) % this.replicas.length;
+      if ((this.unhealthyUntil.get(index) ?? 0) > Date.now()) {
+        continue;
+      }
+
+      try {
+        const connection = await this.replicas[index]();
+        this.unhealthyUntil.delete(index);
+        return connection;
+      } catch (error) {
+        this.unhealthyUntil.set(index, Date.now() + REPLICA_RETRY_DELAY);
+        this.logger.warn(
+          `Read replica ${index} is unavailable, skipping it for ${REPLICA_RETRY_DELAY}ms: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        );
+      }
+    }
+
+    return this.primary();
+  }
+}
+
+/**
+ * Pool handed to Drizzle for a connection with read replicas. Clients are
+ * checked out of a replica in read-only scopes, or always when `readOnly` is
+ * set, and of the primary otherwise.
+ *
+ * The class name has to contain "Pool": Drizzle only checks out a dedicated
+ * client for transactions when its client looks like a pool.
+ */
+export class ReadReplicaPool {
+  private readonly router: ReplicaRouter<PoolClient>;
+
+  constructor(
+    readonly primary: Pool,
+    readonly replicas: Pool[],
+    private readonly readOnly = false,
+    router?: ReplicaRouter<PoolClient>,
+  ) {
+    this.router =
+      router ??
+      new ReplicaRouter(
+        replicas.map(replica => () => replica.connect()),
+        () => primary.connect(),
+      );
+  }
+
+  /**
+   * @returns A pool over the same clients that always reads from the replicas
+   */
+  asReadOnly(): ReadReplicaPool {
+    return new ReadReplicaPool(this.primary, this.replicas, true, this.router);
+  }
+
+  connect(): Promise<PoolClient> {
+    return this.router.connect(this.readOnly || ReadOnlyScope.isActive());
+  }
+
+  async query(
+    queryTextOrConfig: string | QueryConfig,
+    values?: unknown[],
+  ): Promise<QueryResult> {
+    const client = await this.connect();
+    try {
+      return await client.query(queryTextOrConfig, values);
+    } finally {
+      client.release();
+    }
+  }
+
+  async end(): Promise<void> {
+    await Promise.all([this.primary, ...this.replicas].map(pool => pool.end()));
+  }
+}
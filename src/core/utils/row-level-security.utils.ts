@@ -0,0 +1,102 @@
+import { getTableName, isTable } from 'drizzle-orm';
+import { DefaultNamingStrategy, getMetadataArgsStorage } from 'typeorm';
+
+import { EntityRegistry } from '../../config/entity.registry';
+import { EntityName } from '../../constants';
+import { RowLevelSecurityConfig } from '../interfaces/tenant.interface';
+import { quoteIdentifier, ROW_LEVEL_TENANT_SETTING } from './shared-pool.utils';
+
+const DEFAULT_SHARED_SCHEMA = 'public';
+const DEFAULT_TENANT_COLUMN = 'tenant_id';
+
+export interface RowLevelSecurityPolicyOptions extends RowLevelSecurityConfig {
+  /**
+   * Registered entities to generate policies for (default: all of them)
+   */
+  entityNames?: EntityName[];
+}
+
+/**
+ * Generates the statements enabling row-level security on a shared table.
+ * The policy only exposes, and only accepts, the rows whose tenant column
+ * matches the `app.tenant_id` setting of the connection. Without a tenant
+ * set no row is visible.
+ *
+ * Row-level security is forced so the policy also applies to the table
+ * owner; superusers and roles with BYPASSRLS still see every row.
+ *
+ * @param tableName - The shared table
+ * @param config - The shared schema and tenant column
+ * @returns The SQL statements, in order
+ */
+export function getRowLevelSecurityStatements(
+  tableName: string,
+  config: RowLevelSecurityConfig = {},
+): string[] {
+  const {
+    schema = DEFAULT_SHARED_SCHEMA,
+    tenantColumn = DEFAULT_TENANT_COLUMN,
+  } = config;
+  const table = `${quoteIdentifier(schema)}.${quoteIdentifier(tableName)}`;
+  const policy = quoteIdentifier(`${tableName}_tenant_isolation`);
+  const condition = `${quoteIdentifier(tenantColumn)} = current_setting('${ROW_LEVEL_TENANT_SETTING}', true)`;
+
+  return [
+    `ALTER TABLE ${table} ENABLE ROW LEVEL SECURITY`,
+    `ALTER TABLE ${table} FORCE ROW LEVEL SECURITY`,
+    `DROP POLICY IF EXISTS ${policy} ON ${table}`,
+    `CREATE POLICY ${policy} ON ${table} USING (${condition}) WITH CHECK (${condition})`,
+  ];
+}
+
+/**
+ * Resolves the table name of a registered entity: TypeORM entity classes,
+ * Drizzle tables, or table names registered as strings
+ */
+function getEntityTableName(entity: unknown): string | undefined {
+  if (typeof entity === 'string') {
+    return entity;
+  }
+
+  if (isTable(entity)) {
+    return getTableName(entity);
+  }
+
+  if (typeof entity !== 'function') {
+    return undefined;
+  }
+
+  const table = getMetadataArgsStorage().tables.find(
+    args => args.target === entity,
+  );
+
+  return table
+    ? new DefaultNamingStrategy().tableName(entity.name, table.name)
+    : undefined;
+}
+
+/**
+ * Generates the row-level security statements of the shared tables of the
+ * entities registered in the EntityRegistry, to run in a migration
+ *
+ * @param options - The shared schema, tenant column and entities
+ * @returns The SQL statements, in order
+ */
+export function generateRowLevelSecurityPolicies(
+  options: RowLevelSecurityPolicyOptions = {},
+): string[] {
+  const { entityNames, ...config } = options;
+  const registry = EntityRegistry.getInstance();
+  const tableNames = new Set<string>();
+
+  for (const name of entityNames ?? registry.getEntityNames()) {
+    const tableName = getEntityTableName(registry.getEntity(name));
+    if (tableName) {
+      tableNames.add(tableName);
+    }
+  }
+
+  return [...tableNames].flatMap(tableName =>
+    getRowLevelSecurityStatements(tableName, config),
+  );
+}
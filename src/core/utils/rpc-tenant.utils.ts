@@ -0,0 +1,142 @@
+import { MicroserviceTenantConfig } from '../interfaces/tenant.interface';
+
+/**
+ * Default payload property carrying the tenant of microservice messages
+ */
+export const DEFAULT_RPC_TENANT_PAYLOAD_KEY = 'tenantId';
+
+/**
+ * Default header carrying the tenant of microservice messages
+ */
+export const DEFAULT_RPC_TENANT_HEADER = 'x-tenant-id';
+
+type HeaderLookup = { get(name: string): unknown };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!isRecord(value) || Array.isArray(value)) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function hasGetter(value: unknown): value is HeaderLookup {
+  return isRecord(value) && typeof value.get === 'function';
+}
+
+function callMethod(target: unknown, method: string): unknown {
+  if (!isRecord(target) || typeof target[method] !== 'function') {
+    return undefined;
+  }
+  return (target[method] as () => unknown).call(target);
+}
+
+/**
+ * Normalizes a header or payload value (string, Buffer or list) to a tenant ID
+ */
+function toTenantId(value: unknown): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+
+  if (typeof first === 'string') return first.trim() || undefined;
+  if (Buffer.isBuffer(first)) return first.toString('utf8').trim() || undefined;
+  return undefined;
+}
+
+/**
+ * Finds the headers of an incoming message across transports: NATS headers,
+ * Kafka and RabbitMQ message headers, MQTT 5 user properties and gRPC
+ * metadata.
+ * @param context - The transport context
+ * @returns The headers, or undefined for transports without metadata
+ */
+function getRpcHeaders(context: unknown): unknown {
+  if (hasGetter(context)) return context;
+
+  const natsHeaders = callMethod(context, 'getHeaders');
+  if (natsHeaders) return natsHeaders;
+
+  const message = callMethod(context, 'getMessage');
+  if (isRecord(message)) {
+    const properties = message.properties;
+    return (
+      message.headers ?? (isRecord(properties) ? properties.headers : undefined)
+    );
+  }
+
+  const packet = callMethod(context, 'getPacket');
+  if (isRecord(packet) && isRecord(packet.properties)) {
+    return packet.properties.userProperties;
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads a header of an incoming microservice message.
+ * @param context - The transport context
+ * @param name - The header name (case-insensitive for plain header objects)
+ * @returns The header value, or undefined if not present
+ */
+export function readRpcHeader(
+  context: unknown,
+  name: string,
+): string | undefined {
+  const headers = getRpcHeaders(context);
+
+  if (hasGetter(headers)) {
+    return toTenantId(headers.get(name));
+  }
+
+  if (!isRecord(headers)) return undefined;
+
+  const lowerName = name.toLowerCase();
+  const key = Object.keys(headers).find(
+    header => header.toLowerCase() === lowerName,
+  );
+  return key ? toTenantId(headers[key]) : undefined;
+}
+
+/**
+ * Reads the tenant of an incoming microservice message from the payload,
+ * falling back to the message headers.
+ * @param data - The message payload
+ * @param context - The transport context
+ * @param config - The microservice tenant configuration
+ * @returns The tenant ID, or undefined if the message has none
+ */
+export function extractRpcTenant(
+  data: unknown,
+  context: unknown,
+  config: MicroserviceTenantConfig = {},
+): string | undefined {
+  const payloadKey = config.payloadKey || DEFAULT_RPC_TENANT_PAYLOAD_KEY;
+  const fromPayload = isRecord(data) ? toTenantId(data[payloadKey]) : undefined;
+
+  return (
+    fromPayload ||
+    readRpcHeader(context, config.headerName || DEFAULT_RPC_TENANT_HEADER)
+  );
+}
+
+/**
+ * Adds the tenant to a plain object payload. Other payloads, such as
+ * primitives or transport records (`RmqRecord`, `NatsRecord`), are returned
+ * unchanged; use a custom stamper to carry the tenant in their metadata.
+ * @param data - The message payload
+ * @param tenantId - The tenant ID
+ * @param config - The microservice tenant configuration
+ * @returns The payload to send
+ */
+export function stampRpcTenant(
+  data: unknown,
+  tenantId: string,
+  config: MicroserviceTenantConfig = {},
+): unknown {
+  if (config.stamper) return config.stamper(data, tenantId);
+  if (!isPlainObject(data)) return data;
+
+  const payloadKey = config.payloadKey || DEFAULT_RPC_TENANT_PAYLOAD_KEY;
+  return payloadKey in data ? data : { ...data, [payloadKey]: tenantId };
+}
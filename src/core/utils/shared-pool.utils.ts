@@ -0,0 +1,118 @@
+import type { PoolClient, QueryConfig, QueryResult } from 'pg';
+
+/**
+ * Releases a pooled client. Passing an error destroys the client instead of
+ * returning it to the pool.
+ */
+export type ReleasePoolClient = (error?: Error | boolean) => void;
+
+/**
+ * Setting holding the ID of the current tenant in 'row' isolation, read by the
+ * row-level security policies with `current_setting('app.tenant_id', true)`
+ */
+export const ROW_LEVEL_TENANT_SETTING = 'app.tenant_id';
+
+/**
+ * Quotes a PostgreSQL identifier such as a schema name
+ */
+export function quoteIdentifier(identifier: string): string {
+  return `"${identifier.replaceAll('"', '""')}"`;
+}
+
+/**
+ * Sets the search_path of a client checked out from the shared pool to a
+ * tenant schema. In 'row' isolation the tenant ID is also set in
+ * `app.tenant_id`.
+ *
+ * The returned release function resets the settings before the client goes
+ * back to the pool. When the reset fails the client is destroyed, so the
+ * settings of one tenant are never used by the next checkout.
+ *
+ * @param client - The checked out client
+ * @param schema - The tenant schema, or the schema of the shared tables
+ * @param release - Releases the client to the pool
+ * @param rowLevelTenant - The ID of the tenant whose rows are visible
+ * @returns The release function to use instead of `release`
+ */
+export async function scopeClientToSchema(
+  client: Pick<PoolClient, 'query'>,
+  schema: string,
+  release: ReleasePoolClient,
+  rowLevelTenant?: string,
+): Promise<ReleasePoolClient> {
+  try {
+    await (rowLevelTenant === undefined
+      ? client.query(`SET search_path TO ${quoteIdentifier(schema)}`)
+      : client.query(
+          'SELECT set_config($1, $2, false), set_config($3, $4, false)',
+          [
+            'search_path',
+            quoteIdentifier(schema),
+            ROW_LEVEL_TENANT_SETTING,
+            rowLevelTenant,
+          ],
+        ));
+  } catch (error) {
+    release(error as Error);
+    throw error;
+  }
+
+  const reset =
+    rowLevelTenant === undefined
+      ? 'RESET search_path'
+      : `RESET search_path; RESET ${ROW_LEVEL_TENANT_SETTING}`;
+
+  return error => {
+    if (error) {
+      release(error);
+      return;
+    }
+
+    client.query(reset).then(
+      () => release(),
+      (resetError: Error) => release(resetError),
+    );
+  };
+}
+
+/**
+ * Pool handed to Drizzle for a tenant in 'shared-pool' mode or 'row'
+ * isolation. Each query and transaction checks out a client of the shared
+ * pool scoped to the tenant schema, or to the shared tables and the tenant.
+ *
+ * The class name has to contain "Pool": Drizzle only checks out a dedicated
+ * client for transactions when its client looks like a pool.
+ */
+export class TenantSchemaPool {
+  constructor(
+    readonly pool: { connect(): Promise<PoolClient> },
+    readonly schema: string,
+    readonly rowLevelTenant?: string,
+  ) {}
+
+  /**
+   * Checks out a client using the tenant schema until it is released
+   */
+  async connect(): Promise<PoolClient> {
+    const client = await this.pool.connect();
+    client.release = await scopeClientToSchema(
+      client,
+      this.schema,
+      client.release,
+      this.rowLevelTenant,
+    );
+    return client;
+  }
+
+  async query(
+    queryTextOrConfig: string | QueryConfig,
+    values?: unknown[],
+  ): Promise<QueryResult> {
+    const client = await this.connect();
+    try {
+      return await client.query(queryTextOrConfig, values);
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import { Client, ClientConfig } from 'pg';
+
+import {
+  TenantCredentialsResolver,
+  TenantDatabaseConnectionInfo,
+} from '../interfaces/tenant.interface';
+import { DatabaseConfig } from '../interfaces/typeorm.interface';
+import { quoteIdentifier } from './shared-pool.utils';
+
+/**
+ * Database used to run `CREATE DATABASE` on the tenant server
+ */
+const MAINTENANCE_DATABASE = 'postgres';
+
+/**
+ * Resolves the database configuration of a tenant in 'database' isolation.
+ * Fields missing from the tenant connection info are taken from the module
+ * database configuration, and the database name defaults to the tenant code.
+ *
+ * @param baseConfig - The module database configuration
+ * @param tenantCode - The tenant code (schema name)
+ * @param connection - The connection info of the tenant record
+ * @param resolveCredentials - Resolves `credentialRef` to credentials
+ * @returns The database configuration of the tenant
+ */
+export async function resolveTenantDatabaseConfig(
+  baseConfig: DatabaseConfig,
+  tenantCode: string,
+  connection?: TenantDatabaseConnectionInfo | null,
+  resolveCredentials?: TenantCredentialsResolver,
+): Promise<DatabaseConfig> {
+  const config: DatabaseConfig = {
+    ...baseConfig,
+    host: connection?.host ?? baseConfig.host,
+    port: connection?.port ?? baseConfig.port,
+    database: connection?.database ?? tenantCode,
+    ssl: connection?.ssl ?? baseConfig.ssl,
+    // Replicas of another server do not hold the tenant database
+    replicas:
+      connection?.replicas ??
+      (connection?.host ? undefined : baseConfig.replicas),
+  };
+
+  if (!connection?.credentialRef) {
+    return config;
+  }
+
+  if (!resolveCredentials) {
+    throw new Error(
+      `Tenant ${tenantCode} references credentials but no tenantCredentials resolver is configured`,
+    );
+  }
+
+  const { username, password } = await resolveCredentials(
+    connection.credentialRef,
+    tenantCode,
+  );
+
+  return { ...config, username, password };
+}
+
+function toClientConfig(
+  config: DatabaseConfig,
+  database: string,
+): ClientConfig {
+  return {
+    host: config.host,
+    port: config.port,
+    user: config.username,
+    password: config.password,
+    database,
+    ssl: config.ssl as ClientConfig['ssl'],
+  };
+}
+
+async function runOnDatabase<T>(
+  config: DatabaseConfig,
+  database: string,
+  work: (client: Client) => Promise<T>,
+): Promise<T> {
+  const client = new Client(toClientConfig(config, database));
+  await client.connect();
+  try {
+    return await work(client);
+  } finally {
+    await client.end();
+  }
+}
+
+/**
+ * Creates the database of a tenant, and the tenant schema inside it, when they
+ * do not exist yet. `CREATE DATABASE` runs on the maintenance database of the
+ * tenant server, outside of any transaction.
+ *
+ * @param config - The database configuration of the tenant
+ * @param schema - The tenant schema to create in the database
+ * @returns Whether the database was created
+ */
+export async function ensureTenantDatabase(
+  config: DatabaseConfig,
+  schema: string,
+): Promise<boolean> {
+  const created = await runOnDatabase(
+    config,
+    MAINTENANCE_DATABASE,
+    async client => {
+      const { rowCount } = await client.query(
+        'SELECT 1 FROM pg_database WHERE datname = $1',
+        [config.database],
+      );
+      if (rowCount) {
+        return false;
+      }
+
+      await client.query(`CREATE DATABASE ${quoteIdentifier(config.database)}`);
+      return true;
+    },
+  );
+
+  await runOnDatabase(config, config.database, client =>
+    client.query(`CREATE SCHEMA IF NOT EXISTS ${quoteIdentifier(schema)}`),
+  );
+
+  return created;
+}
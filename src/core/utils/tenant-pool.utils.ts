@@ -0,0 +1,42 @@
+import {
+  ConnectionPoolConfig,
+  TenantPoolSettings,
+} from '../interfaces/typeorm.interface';
+
+/**
+ * Settings of tenant pools that are not configured
+ */
+export const DEFAULT_TENANT_POOL_SETTINGS: Required<TenantPoolSettings> = {
+  max: 20,
+  idleTimeoutMillis: 30_000,
+  connectionTimeoutMillis: 2000,
+};
+
+const DEFAULT_TIER_SETTING = 'tier';
+
+/**
+ * Resolves the pool settings of a tenant. From lowest to highest precedence:
+ * the `tenantPool` defaults, the tier named by `settings[tierSetting]` and
+ * the `connectionPool` entry of the tenant settings.
+ *
+ * @param config - The connection pool configuration
+ * @param tenantSettings - The custom settings of the tenant
+ * @returns The pool settings, or undefined when none is configured
+ */
+export function resolveTenantPoolSettings(
+  config: ConnectionPoolConfig,
+  tenantSettings?: Record<string, unknown> | null,
+): TenantPoolSettings | undefined {
+  const tierName = tenantSettings?.[config.tierSetting ?? DEFAULT_TIER_SETTING];
+  const tier =
+    typeof tierName === 'string' ? config.tiers?.[tierName] : undefined;
+  const overrides = tenantSettings?.connectionPool as
+    | TenantPoolSettings
+    | undefined;
+
+  if (!config.tenantPool && !tier && !overrides) {
+    return undefined;
+  }
+
+  return { ...config.tenantPool, ...tier, ...overrides };
+}
@@ -0,0 +1,608 @@
+import { Logger } from '@nestjs/common';
+
+import {
+  InvalidTenantTokenError,
+  JwtVerificationConfigError,
+  TenantResolutionConflictError,
+} from '../exceptions/custom-errors';
+import {
+  DomainResolutionStrategy,
+  JwtVerificationOptions,
+  SubdomainResolutionStrategy,
+  TenantResolutionConfig,
+  TenantResolutionStrategyConfig,
+  TenantResolutionStrategyType,
+} from '../interfaces/tenant.interface';
+import {
+  TenantResolver,
+  TenantResolverRequest,
+} from '../interfaces/tenant-resolver.interface';
+import { tenantIdFromCode } from '../services/multi-tenant-config.service';
+import { getJwtVerifier } from './jwt-verifier';
+
+/**
+ * Default pattern for the 'path' strategy
+ */
+export const DEFAULT_TENANT_PATH_PATTERN = '/t/:tenant';
+
+/**
+ * Subdomains ignored by the 'subdomain' and 'domain' strategies by default
+ */
+export const DEFAULT_RESERVED_SUBDOMAINS = ['www'];
+
+const TENANT_PATH_PLACEHOLDERS = new Set([':tenant', '{tenant}']);
+
+const pathPatternCache = new Map<string, RegExp>();
+
+/**
+ * Result of matching a URL against a tenant path pattern
+ */
+export interface TenantPathMatch {
+  tenantId: string;
+
+  /**
+   * The URL without the matched prefix, keeping the query string
+   */
+  strippedUrl: string;
+}
+
+/**
+ * A tenant ID yielded by one strategy of the resolution chain
+ */
+export interface TenantResolutionCandidate {
+  tenantId: string;
+  source: TenantResolutionStrategyType;
+}
+
+/**
+ * Outcome of running the resolution chain
+ */
+export interface TenantChainResolution {
+  /**
+   * The winning candidate, if any strategy resolved a tenant
+   */
+  resolved?: TenantResolutionCandidate;
+
+  /**
+   * Every candidate that was evaluated
+   */
+  candidates: TenantResolutionCandidate[];
+
+  /**
+   * Whether at least two candidates disagree on the tenant ID
+   */
+  conflict: boolean;
+}
+
+/**
+ * Platform request fields used to build a TenantResolverRequest
+ */
+export interface TenantResolverRequestInit {
+  method: string;
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  ip?: string;
+  raw: unknown;
+}
+
+/**
+ * Services used to resolve a single strategy, provided by the middleware or
+ * resolver running the chain
+ */
+export interface TenantStrategyServices {
+  schemaNamingStrategy: (tenantId: string) => string;
+
+  /**
+   * Lookup of verified custom domains, for the 'domain' strategy
+   */
+  findByDomain?: (domain: string) => Promise<{ code: string } | undefined>;
+
+  /**
+   * Injectable resolver of the 'custom' strategy
+   */
+  tenantResolver?: TenantResolver;
+
+  /**
+   * Argument of a `customResolver` function (default: the raw request)
+   */
+  customResolverRequest?: unknown;
+
+  logger: Logger;
+
+  /**
+   * Log prefix of the caller, such as `[Express]` or `[WS]`
+   */
+  label: string;
+}
+
+/**
+ * Normalizes the resolution config into an ordered list of strategies.
+ * The legacy single `strategy` option (and its top-level options) is mapped
+ * to a one-entry chain so both shapes are handled the same way.
+ *
+ * @param config - The tenant resolution configuration
+ * @returns The ordered list of strategy configurations
+ */
+export function normalizeResolutionStrategies(
+  config: TenantResolutionConfig,
+): TenantResolutionStrategyConfig[] {
+  if (config.strategies?.length) {
+    return config.strategies.map(strategy => {
+      if (typeof strategy === 'string') {
+        return toStrategyConfig(strategy, {
+          jwtVerification: config.jwtVerification,
+        });
+      }
+      if (strategy.type === 'jwt' && !strategy.verification) {
+        return { ...strategy, verification: config.jwtVerification };
+      }
+      return strategy;
+    });
+  }
+
+  return [toStrategyConfig(config.strategy || 'header', config)];
+}
+
+/**
+ * Builds a strategy configuration from a strategy name, taking its options
+ * from the legacy top-level fields of the resolution config.
+ */
+function toStrategyConfig(
+  type: TenantResolutionStrategyType,
+  config: TenantResolutionConfig,
+): TenantResolutionStrategyConfig {
+  switch (type) {
+    case 'header': {
+      return { type, headerName: config.headerName };
+    }
+    case 'subdomain':
+    case 'domain': {
+      return {
+        type,
+        baseDomain: config.baseDomain,
+        reservedSubdomains: config.reservedSubdomains,
+      };
+    }
+    case 'jwt': {
+      return {
+        type,
+        claimName: config.jwtClaimName,
+        verification: config.jwtVerification,
+      };
+    }
+    case 'path': {
+      return {
+        type,
+        pattern: config.pathPattern,
+        stripPrefix: config.stripTenantPath,
+      };
+    }
+    case 'query': {
+      return { type, parameterName: config.queryParamName };
+    }
+    case 'custom': {
+      return { type, resolver: config.customResolver };
+    }
+    default: {
+      return { type } as TenantResolutionStrategyConfig;
+    }
+  }
+}
+
+/**
+ * Runs the resolution chain in order and applies the conflict policy.
+ * With 'first-wins' the chain stops at the first hit; the other policies
+ * evaluate every strategy so disagreements can be detected.
+ *
+ * @param config - The tenant resolution configuration
+ * @param resolveStrategy - Platform-specific resolver for a single strategy
+ * @returns The chain resolution outcome
+ * @throws TenantResolutionConflictError when the policy is 'reject' and candidates disagree
+ */
+export async function resolveTenantChain(
+  config: TenantResolutionConfig,
+  resolveStrategy: (
+    strategy: TenantResolutionStrategyConfig,
+  ) => Promise<string | undefined> | string | undefined,
+): Promise<TenantChainResolution> {
+  const conflictPolicy = config.conflictPolicy || 'first-wins';
+  const candidates: TenantResolutionCandidate[] = [];
+
+  for (const strategy of normalizeResolutionStrategies(config)) {
+    const tenantId = await resolveStrategy(strategy);
+    if (!tenantId) continue;
+
+    candidates.push({ tenantId, source: strategy.type });
+
+    if (conflictPolicy === 'first-wins') break;
+  }
+
+  const conflict = new Set(candidates.map(c => c.tenantId)).size > 1;
+
+  if (conflict && conflictPolicy === 'reject') {
+    throw new TenantResolutionConflictError(candidates);
+  }
+
+  return { resolved: candidates[0], candidates, conflict };
+}
+
+/**
+ * Whether an error raised during resolution must reject the request
+ * instead of being logged and ignored.
+ *
+ * @param error - The error raised while resolving the tenant
+ * @returns True if the error should be forwarded to the exception filter
+ */
+export function isTenantResolutionRejection(error: unknown): error is Error {
+  return (
+    error instanceof TenantResolutionConflictError ||
+    error instanceof InvalidTenantTokenError ||
+    error instanceof JwtVerificationConfigError
+  );
+}
+
+/**
+ * Matches the start of a URL against a tenant path pattern.
+ *
+ * @param url - The request URL (path and optional query string)
+ * @param pattern - The path pattern containing a `:tenant` placeholder
+ * @returns The tenant ID and the URL without the prefix, or undefined
+ */
+export function matchTenantPath(
+  url: string,
+  pattern: string = DEFAULT_TENANT_PATH_PATTERN,
+): TenantPathMatch | undefined {
+  const match = compilePathPattern(pattern).exec(url);
+  if (!match) return undefined;
+
+  let tenantId: string;
+  try {
+    tenantId = decodeURIComponent(match[1]).trim();
+  } catch {
+    return undefined;
+  }
+  if (!tenantId) return undefined;
+
+  const rest = url.slice(match[0].length);
+  return { tenantId, strippedUrl: rest.startsWith('/') ? rest : `/${rest}` };
+}
+
+/**
+ * Reads a query parameter from a raw request URL.
+ *
+ * @param url - The request URL
+ * @param parameterName - The query parameter name
+ * @returns The trimmed parameter value, or undefined
+ */
+export function getQueryParameter(
+  url: string,
+  parameterName: string,
+): string | undefined {
+  const [path] = url.split('#');
+  const queryStart = path.indexOf('?');
+  if (queryStart === -1) return undefined;
+
+  const query = new URLSearchParams(path.slice(queryStart + 1));
+  return query.get(parameterName)?.trim() || undefined;
+}
+
+/**
+ * Creates a `rewriteUrl` function for the Fastify adapter that removes the
+ * tenant path prefix before routing. The original URL stays available on
+ * `req.originalUrl`, which the 'path' strategy reads.
+ *
+ * @example new FastifyAdapter({ rewriteUrl: createTenantPathRewriter('/t/:tenant') })
+ *
+ * @param pattern - The path pattern containing a `:tenant` placeholder
+ * @returns The URL rewriter
+ */
+export function createTenantPathRewriter(
+  pattern: string = DEFAULT_TENANT_PATH_PATTERN,
+): (req: { url?: string }) => string {
+  compilePathPattern(pattern);
+
+  return req => {
+    const url = req.url || '/';
+    return matchTenantPath(url, pattern)?.strippedUrl ?? url;
+  };
+}
+
+/**
+ * Compiles a path pattern into an anchored regular expression whose first
+ * capture group is the tenant segment.
+ */
+function compilePathPattern(pattern: string): RegExp {
+  const cached = pathPatternCache.get(pattern);
+  if (cached) return cached;
+
+  const segments = pattern.split('/').filter(Boolean);
+  if (!segments.some(segment => TENANT_PATH_PLACEHOLDERS.has(segment))) {
+    throw new Error(
+      `Tenant path pattern must contain a :tenant placeholder: ${pattern}`,
+    );
+  }
+
+  const source = segments
+    .map(segment => {
+      if (TENANT_PATH_PLACEHOLDERS.has(segment)) return '([^/?#]+)';
+      if (segment.startsWith(':')) return '[^/?#]+';
+      return segment.replaceAll(/[$()*+.?[\\\]^{|}]/g, String.raw`\$&`);
+    })
+    .join('/');
+
+  const regex = new RegExp(`^/${source}(?=[/?#]|$)`);
+  pathPatternCache.set(pattern, regex);
+  return regex;
+}
+
+/**
+ * Normalizes a Host header: lowercase, without port or trailing dot.
+ *
+ * @param host - The raw host header
+ * @returns The normalized host name, or undefined if empty
+ */
+export function normalizeHost(host: string | undefined): string | undefined {
+  const hostname = host
+    ?.trim()
+    .toLowerCase()
+    .replace(/:\d+$/, '')
+    .replace(/\.$/, '');
+  return hostname || undefined;
+}
+
+/**
+ * Extracts the tenant subdomain from a host. With a base domain only hosts
+ * under it are considered, which handles multi-level TLDs such as `.co.uk`;
+ * without it the last two labels are treated as the domain.
+ * Reserved subdomains (e.g. `www`) are skipped.
+ *
+ * @param host - The raw host header
+ * @param strategy - The subdomain options
+ * @returns The tenant subdomain, or undefined
+ */
+export function extractTenantSubdomain(
+  host: string | undefined,
+  strategy: Omit<SubdomainResolutionStrategy, 'type'>,
+): string | undefined {
+  const hostname = normalizeHost(host);
+  if (!hostname) return undefined;
+
+  const labels = getSubdomainLabels(hostname, strategy.baseDomain);
+  if (!labels) return undefined;
+
+  const reserved = strategy.reservedSubdomains ?? DEFAULT_RESERVED_SUBDOMAINS;
+  const candidates = labels.filter(label => !reserved.includes(label));
+  return candidates[strategy.position ?? 0]?.trim() || undefined;
+}
+
+/**
+ * Resolves the tenant for the 'domain' strategy. Hosts under the base
+ * domain resolve from their subdomain; any other host is looked up in the
+ * verified custom domains. Tenant codes are mapped back to tenant IDs with
+ * the schema naming strategy, like the other strategies return them.
+ *
+ * @param host - The raw host header
+ * @param strategy - The domain strategy options
+ * @param schemaNamingStrategy - The configured schema naming strategy
+ * @param findByDomain - Lookup of verified custom domains
+ * @returns The tenant ID, or undefined
+ */
+export async function resolveTenantFromHost(
+  host: string | undefined,
+  strategy: DomainResolutionStrategy,
+  schemaNamingStrategy: (tenantId: string) => string,
+  findByDomain?: (domain: string) => Promise<{ code: string } | undefined>,
+): Promise<string | undefined> {
+  const hostname = normalizeHost(host);
+  if (!hostname) return undefined;
+
+  if (
+    strategy.baseDomain &&
+    getSubdomainLabels(hostname, strategy.baseDomain)
+  ) {
+    return extractTenantSubdomain(hostname, strategy);
+  }
+
+  if (!findByDomain) return undefined;
+
+  const tenant = await findByDomain(hostname);
+  return tenant
+    ? tenantIdFromCode(tenant.code, schemaNamingStrategy)
+    : undefined;
+}
+
+/**
+ * Returns the labels in front of the base domain, or undefined when the
+ * host is not under it.
+ */
+function getSubdomainLabels(
+  hostname: string,
+  baseDomain?: string,
+): string[] | undefined {
+  if (!baseDomain) return hostname.split('.').slice(0, -2);
+
+  const base = normalizeHost(baseDomain)!;
+  if (hostname === base) return [];
+  if (!hostname.endsWith(`.${base}`)) return undefined;
+
+  return hostname.slice(0, -(base.length + 1)).split('.');
+}
+
+/**
+ * Builds the platform-independent request passed to TenantResolver
+ * implementations. The query string is parsed from the URL so both
+ * platforms yield the same flat values regardless of their query parser.
+ *
+ * @param init - The platform request fields
+ * @returns The normalized request
+ */
+export function createTenantResolverRequest(
+  init: TenantResolverRequestInit,
+): TenantResolverRequest {
+  const [url] = init.url.split('#');
+  const queryStart = url.indexOf('?');
+  const query: Record<string, string | string[]> = {};
+
+  if (queryStart !== -1) {
+    for (const [key, value] of new URLSearchParams(url.slice(queryStart + 1))) {
+      const existing = query[key];
+      query[key] = existing === undefined ? value : [existing, value].flat();
+    }
+  }
+
+  const host = init.headers.host;
+
+  return {
+    method: init.method,
+    url: init.url,
+    path: queryStart === -1 ? url : url.slice(0, queryStart),
+    hostname: normalizeHost(Array.isArray(host) ? host[0] : host),
+    ip: init.ip,
+    headers: init.headers,
+    query,
+    header: (name: string) => {
+      const value = init.headers[name.toLowerCase()];
+      return Array.isArray(value) ? value.join(', ') : value;
+    },
+    raw: init.raw,
+  };
+}
+
+/**
+ * Resolves the tenant ID using a single strategy of the chain. Shared by the
+ * Express and Fastify middlewares and the handshake resolver, so every
+ * entry point reads a strategy the same way.
+ *
+ * @param request - The normalized request
+ * @param strategy - The strategy configuration
+ * @param services - The lookups, resolver and logger of the caller
+ * @returns The resolved tenant ID or undefined
+ * @throws InvalidTenantTokenError if JWT verification is enabled and the token is invalid
+ * @throws JwtVerificationConfigError if the JWT verification keys cannot be loaded
+ */
+export async function resolveFromStrategy(
+  request: TenantResolverRequest,
+  strategy: TenantResolutionStrategyConfig,
+  services: TenantStrategyServices,
+): Promise<string | undefined> {
+  const { logger, label } = services;
+
+  switch (strategy.type) {
+    case 'header': {
+      return (
+        request.header(strategy.headerName || 'x-tenant-id')?.trim() ||
+        undefined
+      );
+    }
+
+    case 'subdomain': {
+      return extractTenantSubdomain(request.header('host'), strategy);
+    }
+
+    case 'domain': {
+      if (!services.findByDomain) {
+        logger.debug(
+          `${label} Validation strategy does not support custom domain lookup`,
+        );
+      }
+      return resolveTenantFromHost(
+        request.header('host'),
+        strategy,
+        services.schemaNamingStrategy,
+        services.findByDomain,
+      );
+    }
+
+    case 'jwt': {
+      return resolveTenantFromJwt(
+        request,
+        strategy.claimName || 'tenantId',
+        strategy.verification,
+        services,
+      );
+    }
+
+    case 'path': {
+      return matchTenantPath(request.url, strategy.pattern)?.tenantId;
+    }
+
+    case 'query': {
+      return getQueryParameter(request.url, strategy.parameterName || 'tenant');
+    }
+
+    case 'custom': {
+      if (strategy.resolver) {
+        return strategy.resolver(services.customResolverRequest ?? request.raw);
+      }
+      if (!services.tenantResolver) {
+        logger.warn(
+          `${label} Custom strategy has neither a resolver function nor a resolverClass`,
+        );
+        return undefined;
+      }
+      const tenantId = await services.tenantResolver.resolve(request);
+      return tenantId?.trim() || undefined;
+    }
+
+    default: {
+      logger.warn(
+        `${label} Unknown tenant resolution strategy: ${(strategy as { type: string }).type}`,
+      );
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Resolves the tenant ID from the bearer token of a request. Claims that are
+ * not strings are ignored.
+ */
+function resolveTenantFromJwt(
+  request: TenantResolverRequest,
+  claimName: string,
+  verification: JwtVerificationOptions | undefined,
+  { logger, label }: TenantStrategyServices,
+): string | undefined {
+  // Invalid key material is a configuration error, not a missing tenant
+  const verifier = verification && getJwtVerifier(verification);
+  const authorization = request.header('authorization');
+  if (!authorization?.startsWith('Bearer ')) return undefined;
+
+  const token = authorization.slice(7);
+  try {
+    const payload = verifier
+      ? verifier.verify(token)
+      : decodeJwtPayload(token, logger, label);
+
+    const tenantId = (payload as Record<string, unknown> | undefined)?.[
+      claimName
+    ];
+    return typeof tenantId === 'string'
+      ? tenantId.trim() || undefined
+      : undefined;
+  } catch (error) {
+    if (isTenantResolutionRejection(error)) throw error;
+    logger.debug(`${label} Error resolving tenant from JWT:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Decodes the payload of an unverified JWT
+ * @returns The payload, or undefined when the token cannot be decoded
+ */
+function decodeJwtPayload(
+  token: string,
+  logger: Logger,
+  label: string,
+): unknown {
+  try {
+    const parts = token.split('.');
+    if (parts.length !== 3) return undefined;
+
+    return JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+  } catch (error) {
+    logger.debug(`${label} Error decoding JWT payload:`, error);
+    return undefined;
+  }
+}
@@ -0,0 +1,77 @@
+import { CallHandler, Logger } from '@nestjs/common';
+import { finalize, Observable } from 'rxjs';
+
+import {
+  ITenantConnectionService,
+  TenantConnectionLease,
+} from '../interfaces/tenant.interface';
+import { runInTenantContext } from '../services/async-local-tenant-context.service';
+
+/**
+ * Services used to run a handler for a tenant outside of the HTTP middleware
+ */
+export interface TenantScopeServices {
+  schemaNamingStrategy: (tenantId: string) => string;
+  connectionService?: ITenantConnectionService;
+  logger: Logger;
+
+  /**
+   * Log prefix of the caller, such as `[RPC]` or `[WS]`
+   */
+  label: string;
+}
+
+/**
+ * Opens the tenant connection before the handler runs so the singleton
+ * repository proxies can use it synchronously. Failures surface again when
+ * the connection is used.
+ * @returns The lease of the connection, or undefined when it was not opened
+ */
+async function openTenantConnection(
+  schema: string,
+  { connectionService, logger, label }: TenantScopeServices,
+): Promise<TenantConnectionLease | undefined> {
+  if (!connectionService) return undefined;
+
+  try {
+    return await connectionService.acquire(schema);
+  } catch (error) {
+    logger.debug(
+      `${label} Could not open connection for schema ${schema}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Runs an interceptor's handler for a tenant. The handler runs inside the
+ * tenant context, which the request-scoped context service also reads, with
+ * the tenant connection leased until the handler completes.
+ *
+ * @param tenantId - The tenant ID
+ * @param next - The interceptor's call handler
+ * @param services - The naming strategy, connection service and logger
+ * @returns The handler's observable
+ */
+export async function handleInTenantScope(
+  tenantId: string,
+  next: CallHandler,
+  services: TenantScopeServices,
+): Promise<Observable<unknown>> {
+  const { schemaNamingStrategy, logger, label } = services;
+  const schema = schemaNamingStrategy(tenantId);
+  const lease = await openTenantConnection(schema, services);
+
+  logger.debug(`${label} Tenant context set: ID=${tenantId}, Schema=${schema}`);
+
+  return new Observable(subscriber =>
+    runInTenantContext(tenantId, schemaNamingStrategy, () =>
+      next
+        .handle()
+        .pipe(finalize(() => lease?.release()))
+        .subscribe(subscriber),
+    ),
+  );
+}
@@ -0,0 +1,77 @@
+import { HttpStatus } from '@nestjs/common';
+
+import { TenantStatus } from '../../constants';
+import { TenantNotActiveError } from '../exceptions/custom-errors';
+import {
+  TenantStatusInfo,
+  TenantStatusPolicy,
+} from '../interfaces/tenant.interface';
+import { ITenantValidationStrategy } from '../interfaces/tenant-validation.interface';
+
+/**
+ * Default request policy per tenant status
+ */
+export const DEFAULT_TENANT_STATUS_POLICY: Required<TenantStatusPolicy> = {
+  [TenantStatus.ACTIVE]: 'allow',
+  [TenantStatus.SUSPENDED]: {
+    statusCode: HttpStatus.LOCKED,
+    reasonSetting: 'suspensionReason',
+  },
+  [TenantStatus.PENDING]: { statusCode: HttpStatus.FORBIDDEN },
+  [TenantStatus.INACTIVE]: { statusCode: HttpStatus.NOT_FOUND },
+};
+
+/**
+ * Rejects the tenant when its status is not allowed by the policy.
+ *
+ * @param tenantCode - The tenant code reported in the error
+ * @param info - The tenant status and settings
+ * @param policy - The status policy (default: DEFAULT_TENANT_STATUS_POLICY)
+ * @throws TenantNotActiveError if the status is not allowed
+ */
+export function assertTenantStatus(
+  tenantCode: string,
+  info: TenantStatusInfo,
+  policy?: TenantStatusPolicy,
+): void {
+  const rule =
+    policy?.[info.status] ?? DEFAULT_TENANT_STATUS_POLICY[info.status];
+  if (!rule || rule === 'allow') return;
+
+  const reason = rule.reasonSetting
+    ? info.settings?.[rule.reasonSetting]
+    : undefined;
+
+  throw new TenantNotActiveError(
+    tenantCode,
+    info.status,
+    rule.statusCode,
+    typeof reason === 'string' ? reason : undefined,
+  );
+}
+
+/**
+ * Checks that a tenant exists and that its status is allowed. Strategies
+ * without `findStatusByCode` only get the existence check.
+ *
+ * @param validationStrategy - The tenant validation strategy
+ * @param schema - The tenant schema (stored tenant code)
+ * @param policy - The status policy
+ * @returns False if the tenant does not exist
+ * @throws TenantNotActiveError if the status is not allowed
+ */
+export async function checkTenantAvailable(
+  validationStrategy: ITenantValidationStrategy,
+  schema: string,
+  policy?: TenantStatusPolicy,
+): Promise<boolean> {
+  if (!validationStrategy.findStatusByCode) {
+    return validationStrategy.validateTenantExists(schema);
+  }
+
+  const info = await validationStrategy.findStatusByCode(schema);
+  if (!info) return false;
+
+  assertTenantStatus(schema, info, policy);
+  return true;
+}
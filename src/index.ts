@@ -5,11 +5,30 @@ export { MultiTenantModule } from './multi-tenant.module';
 // Services
 export { DrizzleTenantAdminService } from './admin/services/drizzle-tenant-admin.service';
 export { TenantAdminService } from './admin/services/tenant-admin.service';
+export {
+  AsyncLocalTenantContextService,
+  TenantContext,
+} from './core/services/async-local-tenant-context.service';
 export { MultiTenantConfigService } from './core/services/multi-tenant-config.service';
 export { TenantConnectionService } from './core/services/tenant-connection.service';
 export { TenantContextService } from './core/services/tenant-context.service';
+export { TenantEventListener } from './core/services/tenant-event-listener.service';
+export { TenantExecutor } from './core/services/tenant-executor.service';
+export { TenantHandshakeResolver } from './core/services/tenant-handshake-resolver.service';
+export { TenantHttpPropagator } from './core/services/tenant-http-propagation.service';
+
+// Strategies
+export {
+  DEFAULT_TENANT_EVENT_CHANNEL,
+  PostgresTenantEventTransport,
+} from './core/strategies/events/postgres-tenant-event.transport';
+export { CachedTenantValidationStrategy } from './core/strategies/validation/cached-tenant-validation.strategy';
 
 // Providers
+export {
+  createTenantClientProvider,
+  TenantClientProxy,
+} from './core/providers/tenant-client.provider';
 export {
   createSpecificTenantRepositoryProvider,
   createTenantRepositoryFactory,
@@ -19,25 +38,46 @@ export {
 } from './core/providers/tenant-repository.provider';
 
 // Decorators
+export { InjectTenantClient } from './core/decorators/inject-tenant-client.decorator';
 export {
   InjectTenantDb,
   InjectTenantDbFactory,
+  InjectTenantDbOptions,
 } from './core/decorators/inject-tenant-db.decorator';
 export {
   InjectTenantDataSource,
   InjectTenantRepository,
   InjectTenantRepositoryFactory,
 } from './core/decorators/inject-tenant-repository.decorator';
+export { ReadOnly } from './core/decorators/read-only.decorator';
+export {
+  PublicRoute,
+  RequireTenant,
+  RequireTenantOptions,
+  TENANT_REQUIREMENT_KEY,
+  TenantOptional,
+  TenantRequirement,
+  TenantRequirementLevel,
+} from './core/decorators/tenant-requirement.decorator';
+
+// Guards
+export { TenantGuard } from './core/guards/tenant.guard';
+
+// Interceptors
+export { ReadOnlyInterceptor } from './core/interceptors/read-only.interceptor';
+export { TenantGatewayInterceptor } from './core/interceptors/tenant-gateway.interceptor';
+export { TenantRpcInterceptor } from './core/interceptors/tenant-rpc.interceptor';
 
 // Middleware
 export { TenantFastifyMiddleware } from './core/middleware/tenant-fastify.middleware';
 export { TenantResolverMiddleware } from './core/middleware/tenant-resolver.middleware';
 
 // Entities
-export { Tenant } from './admin/entities/tenant.entity';
+export { Tenant, TenantDomain } from './admin/entities/tenant.entity';
 
 // DTOs
 export { CreateTenantDto } from './admin/dto/create-tenant.dto';
+export { CreateTenantDomainDto } from './admin/dto/create-tenant-domain.dto';
 export { TenantFilterDto } from './admin/dto/filter-tenant.dto';
 export { UpdateTenantDto } from './admin/dto/update-tenant.dto';
 
@@ -47,24 +87,74 @@ export {
   TENANT_ADMIN_SERVICE,
 } from './admin/interfaces/tenant-admin.interface';
 export {
+  ConnectionMode,
+  TenantConnectionTarget,
+} from './core/interfaces/orm-abstraction.interface';
+export {
+  HttpTenantPropagationConfig,
   IEntityConfig,
   IMultiTenantConfigService,
   ITenant,
   ITenantConnectionService,
   ITenantContext,
   ITenantContextService,
+  ITenantDomain,
+  JsonWebKeySet,
+  JwtAlgorithm,
+  JwtVerificationOptions,
+  MicroserviceTenantConfig,
   MultiTenantModuleAsyncOptions,
   MultiTenantModuleOptions,
   PlatformType,
+  RowLevelSecurityConfig,
+  RpcTenantExtractor,
+  RpcTenantStamper,
+  TenantConflictPolicy,
+  TenantConnectionLease,
+  TenantContextMode,
+  TenantCredentialsResolver,
+  TenantDatabaseConnectionInfo,
+  TenantDatabaseCredentials,
+  TenantIsolation,
   TenantResolutionConfig,
+  TenantResolutionSource,
+  TenantResolutionStrategyConfig,
+  TenantResolutionStrategyType,
+  TenantStatusInfo,
+  TenantStatusPolicy,
+  TenantStatusRule,
+  TenantTokenSigningOptions,
 } from './core/interfaces/tenant.interface';
+export {
+  ITenantEventTransport,
+  TENANT_EVENT_TRANSPORT,
+  TenantChangeEvent,
+  TenantChangeHandler,
+  TenantChangeType,
+  TenantEventsConfig,
+} from './core/interfaces/tenant-events.interface';
+export {
+  ForEachTenantOptions,
+  TenantExecutionContext,
+  TenantExecutionResult,
+} from './core/interfaces/tenant-executor.interface';
 export {
   ITenantMiddlewareExpress,
   ITenantMiddlewareFastify,
   TenantExpressRequest,
   TenantFastifyRequest,
 } from './core/interfaces/tenant-middleware.interface';
-export { TENANT_VALIDATION_STRATEGY } from './core/interfaces/tenant-validation.interface';
+export {
+  TENANT_RESOLVER,
+  TenantHandshake,
+  TenantResolver,
+  TenantResolverRequest,
+} from './core/interfaces/tenant-resolver.interface';
+export {
+  ITenantValidationStrategy,
+  TENANT_VALIDATION_STRATEGY,
+  TenantCacheConfig,
+} from './core/interfaces/tenant-validation.interface';
 
 // Enums
 // export { Platform } from "./enums/platform.enum";
@@ -75,8 +165,15 @@ export {
 } from './core/interfaces/entity-registry.interface';
 export {
   ConnectionPoolConfig,
+  ConnectionWarmUpConfig,
   DatabaseConfig,
+  DatabaseReplicaConfig,
+  IConnectionCircuitStats,
   IConnectionPoolStats,
+  IConnectionUsageStats,
+  TenantCircuitBreakerConfig,
+  TenantCircuitState,
+  TenantPoolSettings,
 } from './core/interfaces/typeorm.interface';
 
 // Configuration
@@ -115,11 +212,16 @@ export {
   ErrorTypeMapper,
   InvalidConnectionTypeError,
   InvalidTenantCodeError,
+  InvalidTenantTokenError,
+  JwtVerificationConfigError,
   MultitenantExceptionFilter,
   NoTenantContextError,
   SchemaNotFoundError,
   StructuredLogger,
   TenantConflictError,
+  TenantNotActiveError,
+  TenantResolutionConflictError,
+  TenantUnavailableError,
   TenantValidationError,
   TransactionFailedError,
 } from './core/exceptions';
@@ -133,6 +235,11 @@ export {
 // Utilities
 export { createTenantControllerFactory } from './core/utils/create-tenant-controller.factory';
 export { createTenantStrategyProvider } from './core/utils/create-tenant-strategy.provider';
+export {
+  DOMAIN_VERIFICATION_RECORD_PREFIX,
+  DomainVerificationRecord,
+  getDomainVerificationRecord,
+} from './core/utils/domain-verification.utils';
 export {
   configureEntityRegistry,
   getEntityClasses,
@@ -141,6 +248,32 @@ export {
   validateEntityNames,
 } from './core/utils/entity-registry.utils';
 export {
+  getTenantClientToken,
   getTenantRepositoryToken,
   TOKEN_CONSTANTS,
 } from './core/utils/generate-token.provider';
+export { ReadOnlyScope } from './core/utils/read-replica.utils';
+export {
+  generateRowLevelSecurityPolicies,
+  getRowLevelSecurityStatements,
+  RowLevelSecurityPolicyOptions,
+} from './core/utils/row-level-security.utils';
+export {
+  DEFAULT_RPC_TENANT_HEADER,
+  DEFAULT_RPC_TENANT_PAYLOAD_KEY,
+  extractRpcTenant,
+} from './core/utils/rpc-tenant.utils';
+export {
+  ensureTenantDatabase,
+  resolveTenantDatabaseConfig,
+} from './core/utils/tenant-database.utils';
+export {
+  DEFAULT_TENANT_POOL_SETTINGS,
+  resolveTenantPoolSettings,
+} from './core/utils/tenant-pool.utils';
+export {
+  createTenantPathRewriter,
+  DEFAULT_RESERVED_SUBDOMAINS,
+  DEFAULT_TENANT_PATH_PATTERN,
+} from './core/utils/tenant-resolution.utils';
+export { DEFAULT_TENANT_STATUS_POLICY } from './core/utils/tenant-status.utils';
@@ -1,5 +1,6 @@
 import { HttpService } from '@nestjs/axios';
 import {
+  BeforeApplicationShutdown,
   DynamicModule,
   Global,
   Inject,
@@ -7,39 +8,63 @@ import {
   MiddlewareConsumer,
   Module,
   NestModule,
+  OnApplicationShutdown,
   OnModuleInit,
   Provider,
   Type,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { ModuleRef } from '@nestjs/core';
+import { APP_GUARD, APP_INTERCEPTOR, ModuleRef } from '@nestjs/core';
 import { getRepositoryToken, TypeOrmModule } from '@nestjs/typeorm';
 import { NodePgDatabase } from 'drizzle-orm/node-postgres';
 import { DataSource, Repository } from 'typeorm';
 
 import { TenantAdminController } from './admin/controllers/tenant-admin.controller';
-import { Tenant } from './admin/entities/tenant.entity';
+import { Tenant, TenantDomain } from './admin/entities/tenant.entity';
 import { TENANT_ADMIN_SERVICE } from './admin/interfaces/tenant-admin.interface';
 import {
   ADMIN_DATABASE,
   DrizzleTenantAdminService,
 } from './admin/services/drizzle-tenant-admin.service';
 import { TenantAdminService } from './admin/services/tenant-admin.service';
-import { getAdminDatabaseConfig } from './config/database.config';
+import {
+  createDatabaseConfigFromEnv,
+  getAdminDatabaseConfig,
+} from './config/database.config';
+import { TenantGuard } from './core/guards/tenant.guard';
+import { TenantGatewayInterceptor } from './core/interceptors/tenant-gateway.interceptor';
+import { TenantRpcInterceptor } from './core/interceptors/tenant-rpc.interceptor';
+import { IOrmStrategy } from './core/interfaces/orm-abstraction.interface';
 import {
   BuildMultitenantModuleOptions,
   IMultiTenantConfigService,
+  ITenantConnectionService,
   MultiTenantModuleAsyncOptions,
   MultiTenantModuleOptions,
+  TenantContextMode,
 } from './core/interfaces/tenant.interface';
-import { TENANT_VALIDATION_STRATEGY } from './core/interfaces/tenant-validation.interface';
+import {
+  ITenantEventTransport,
+  TENANT_EVENT_TRANSPORT,
+} from './core/interfaces/tenant-events.interface';
+import { TENANT_RESOLVER } from './core/interfaces/tenant-resolver.interface';
+import {
+  ITenantValidationStrategy,
+  TENANT_VALIDATION_STRATEGY,
+  TenantCacheConfig,
+} from './core/interfaces/tenant-validation.interface';
 import { TenantFastifyMiddleware } from './core/middleware/tenant-fastify.middleware';
 import { TenantResolverMiddleware } from './core/middleware/tenant-resolver.middleware';
-import { AdminDatabaseProvider } from './core/providers/admin-database.provider';
+import {
+  AdminDatabaseProvider,
+  AdminDatabaseType,
+} from './core/providers/admin-database.provider';
 import {
   TenantDataSourceProvider,
   TenantDrizzleDbProvider,
+  TenantDrizzleReadDbProvider,
 } from './core/providers/tenant-repository.provider';
+import { AsyncLocalTenantContextService } from './core/services/async-local-tenant-context.service';
 import {
   MULTI_TENANT_CONFIG_SERVICE,
   MultiTenantConfigService,
@@ -53,18 +78,33 @@ import {
   TENANT_CONTEXT_SERVICE,
   TenantContextService,
 } from './core/services/tenant-context.service';
+import { TenantEventListener } from './core/services/tenant-event-listener.service';
+import { TenantExecutor } from './core/services/tenant-executor.service';
+import { TenantHandshakeResolver } from './core/services/tenant-handshake-resolver.service';
+import { TenantHttpPropagator } from './core/services/tenant-http-propagation.service';
+import { PostgresTenantEventTransport } from './core/strategies/events/postgres-tenant-event.transport';
 import { DrizzleStrategy } from './core/strategies/orm/drizzle.strategy';
 import { TypeOrmStrategy } from './core/strategies/orm/typeorm.strategy';
+import { CachedTenantValidationStrategy } from './core/strategies/validation/cached-tenant-validation.strategy';
 import { DrizzleLocalTenantValidationStrategy } from './core/strategies/validation/drizzle-local-tenant-validation.strategy';
 import { LocalTenantValidationStrategy } from './core/strategies/validation/local-tenant-validation.strategy';
 import { RemoteTenantValidationStrategy } from './core/strategies/validation/remote-tenant-validation.strategy';
+import { getJwtVerifier } from './core/utils/jwt-verifier';
+import { normalizeResolutionStrategies } from './core/utils/tenant-resolution.utils';
 
 type ImportType = (Type<unknown> | DynamicModule | Promise<DynamicModule>)[];
 type ExportType = (symbol | Provider)[];
 @Global()
 @Module({})
-export class MultiTenantModule implements NestModule, OnModuleInit {
+export class MultiTenantModule
+  implements
+    NestModule,
+    OnModuleInit,
+    BeforeApplicationShutdown,
+    OnApplicationShutdown
+{
   private readonly logger = new Logger(MultiTenantModule.name);
+  private drained = true;
 
   constructor(
     private readonly moduleRef: ModuleRef,
@@ -106,6 +146,123 @@ export class MultiTenantModule implements NestModule, OnModuleInit {
         'Using Drizzle ORM. Admin module available with Drizzle support.',
       );
     }
+
+    this.loadJwtVerifiers();
+  }
+
+  /**
+   * Loads the keys of the verified 'jwt' strategies, so invalid key material
+   * fails the startup instead of every request
+   */
+  private loadJwtVerifiers(): void {
+    if (!this.options.tenantResolution) {
+      return;
+    }
+
+    for (const strategy of normalizeResolutionStrategies(
+      this.options.tenantResolution,
+    )) {
+      if (strategy.type === 'jwt' && strategy.verification) {
+        getJwtVerifier(strategy.verification);
+      }
+    }
+  }
+
+  /**
+   * Stops opening tenant connections and waits for in-flight tenant work,
+   * up to `shutdownTimeout`
+   */
+  async beforeApplicationShutdown(signal?: string): Promise<void> {
+    const connectionService = this.getConnectionService();
+    if (!connectionService) {
+      return;
+    }
+
+    const timeout = this.options.shutdownTimeout ?? 10_000;
+    this.logger.log(
+      `Shutting down${signal ? ` on ${signal}` : ''}: waiting up to ${timeout}ms for in-flight tenant work`,
+    );
+    this.drained = await connectionService.drain(timeout);
+
+    if (!this.drained) {
+      this.logger.warn(
+        `Tenant work still in flight after ${timeout}ms, closing connections anyway`,
+      );
+    }
+  }
+
+  /**
+   * Closes the tenant connections, the shared pool and the Drizzle admin pool
+   */
+  async onApplicationShutdown(): Promise<void> {
+    const connectionService = this.getConnectionService();
+    let closedConnections = 0;
+
+    try {
+      if (connectionService) {
+        const { total, draining } = connectionService.getConnectionPoolStats();
+        closedConnections = total + draining;
+        await connectionService.closeAllConnections();
+      } else {
+        await this.moduleRef
+          .get<IOrmStrategy>(ORM_STRATEGY, { strict: false })
+          .dispose?.();
+      }
+    } catch (error) {
+      this.logger.error('Error closing tenant connections:', error);
+    }
+
+    const adminPoolClosed = await this.closeAdminPool();
+
+    this.logger.log(
+      `Shutdown complete: closed ${closedConnections} tenant connections${
+        this.drained ? '' : ' with work in flight'
+      }${adminPoolClosed ? ' and the admin pool' : ''}`,
+    );
+  }
+
+  /**
+   * Resolves the connection service shared by every request, or undefined
+   * when the application replaced it with one that cannot be resolved here
+   */
+  private getConnectionService(): ITenantConnectionService | undefined {
+    try {
+      return this.moduleRef.get<ITenantConnectionService>(
+        TENANT_CONNECTION_SERVICE,
+        { strict: false },
+      );
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Ends the pool of the Drizzle admin database
+   * @returns Whether the pool was closed
+   */
+  private async closeAdminPool(): Promise<boolean> {
+    if ((this.options.orm?.type || 'typeorm') !== 'drizzle') {
+      // The TypeORM admin DataSource is closed by TypeOrmModule
+      return false;
+    }
+
+    let adminDb: AdminDatabaseType;
+    try {
+      adminDb = this.moduleRef.get<AdminDatabaseType>(ADMIN_DATABASE, {
+        strict: false,
+      });
+    } catch {
+      // No admin database with remote validation
+      return false;
+    }
+
+    try {
+      await adminDb.$client.end();
+      return true;
+    } catch (error) {
+      this.logger.error('Error closing the admin pool:', error);
+      return false;
+    }
   }
 
   static forRoot(options: MultiTenantModuleOptions): DynamicModule {
@@ -119,16 +276,28 @@ export class MultiTenantModule implements NestModule, OnModuleInit {
         provide: MULTI_TENANT_CONFIG_SERVICE,
         useClass: MultiTenantConfigService,
       },
-      {
-        provide: TENANT_CONTEXT_SERVICE,
-        useClass: TenantContextService,
-      },
+      this.resolveContextService(options.contextMode),
       {
         provide: TENANT_CONNECTION_SERVICE,
         useClass: TenantConnectionService,
       },
+      {
+        provide: APP_GUARD,
+        useClass: TenantGuard,
+      },
+      {
+        provide: APP_INTERCEPTOR,
+        useClass: TenantGatewayInterceptor,
+      },
+      TenantExecutor,
+      TenantHandshakeResolver,
+      TenantHttpPropagator,
     ];
 
+    if (options.enableMicroservices || options.microservices) {
+      providers.push(this.resolveRpcInterceptor());
+    }
+
     const imports: ImportType = [...(options.customImports || [])];
 
     const controllers: Type<unknown>[] = [...(options.customControllers || [])];
@@ -140,12 +309,18 @@ export class MultiTenantModule implements NestModule, OnModuleInit {
     if (ormType === 'typeorm') {
       providers.push(TenantDataSourceProvider);
     } else if (ormType === 'drizzle') {
-      providers.push(TenantDrizzleDbProvider);
+      providers.push(TenantDrizzleDbProvider, TenantDrizzleReadDbProvider);
     }
 
-    // Determine validation strategy
+    // Determine validation strategy and the cluster-wide tenant change events
     const validationStrategy = this.resolveValidationStrategy(options, ormType);
-    providers.push(validationStrategy);
+    providers.push(validationStrategy, ...this.resolveTenantEvents(options));
+
+    // Injectable resolver for the 'custom' resolution strategy
+    const resolverClass = options.tenantResolution?.resolverClass;
+    if (resolverClass) {
+      providers.push({ provide: TENANT_RESOLVER, useClass: resolverClass });
+    }
 
     // Admin module configuration based on ORM and validation strategy
     if (options.validationStrategy === 'local' || !options.validationStrategy) {
@@ -158,7 +333,7 @@ export class MultiTenantModule implements NestModule, OnModuleInit {
             useFactory: (configService: ConfigService) =>
               getAdminDatabaseConfig(configService, options.database),
           }),
-          TypeOrmModule.forFeature([Tenant], 'admin'),
+          TypeOrmModule.forFeature([Tenant, TenantDomain], 'admin'),
         );
 
         // Only load TenantAdminService if NO customProviders
@@ -217,13 +392,23 @@ export class MultiTenantModule implements NestModule, OnModuleInit {
       TENANT_CONNECTION_SERVICE,
       TENANT_VALIDATION_STRATEGY,
       ORM_STRATEGY,
+      TenantExecutor,
+      TenantHandshakeResolver,
+      TenantHttpPropagator,
     ];
 
+    if (resolverClass) {
+      exportedProviders.push(TENANT_RESOLVER);
+    }
+
     // Add ORM-specific exports
     if (ormType === 'typeorm') {
       exportedProviders.push(TenantDataSourceProvider);
     } else if (ormType === 'drizzle') {
-      exportedProviders.push(TenantDrizzleDbProvider);
+      exportedProviders.push(
+        TenantDrizzleDbProvider,
+        TenantDrizzleReadDbProvider,
+      );
       if (
         options.validationStrategy === 'local' ||
         !options.validationStrategy
@@ -252,16 +437,28 @@ export class MultiTenantModule implements NestModule, OnModuleInit {
         provide: MULTI_TENANT_CONFIG_SERVICE,
         useClass: MultiTenantConfigService,
       },
-      {
-        provide: TENANT_CONTEXT_SERVICE,
-        useClass: TenantContextService,
-      },
+      this.resolveContextService(options.contextMode),
       {
         provide: TENANT_CONNECTION_SERVICE,
         useClass: TenantConnectionService,
       },
+      {
+        provide: APP_GUARD,
+        useClass: TenantGuard,
+      },
+      {
+        provide: APP_INTERCEPTOR,
+        useClass: TenantGatewayInterceptor,
+      },
+      TenantExecutor,
+      TenantHandshakeResolver,
+      TenantHttpPropagator,
     ];
 
+    if (options.enableMicroservices) {
+      asyncProviders.push(this.resolveRpcInterceptor());
+    }
+
     const imports = [...(options.imports || [])];
     const controllers: Type<unknown>[] = [];
 
@@ -281,13 +478,18 @@ export class MultiTenantModule implements NestModule, OnModuleInit {
 
           switch (ormType) {
             case 'typeorm': {
-              return new TypeOrmStrategy(configService, databaseConfig);
+              return new TypeOrmStrategy(
+                configService,
+                databaseConfig,
+                moduleOptions.connectionMode,
+              );
             }
             case 'drizzle': {
               return new DrizzleStrategy(
                 configService,
                 ormConfig,
                 databaseConfig,
+                moduleOptions.connectionMode,
               );
             }
             default: {
@@ -303,6 +505,7 @@ export class MultiTenantModule implements NestModule, OnModuleInit {
     asyncProviders.push(
       TenantDataSourceProvider,
       TenantDrizzleDbProvider,
+      TenantDrizzleReadDbProvider,
       AdminDatabaseProvider,
     );
 
@@ -334,9 +537,12 @@ export class MultiTenantModule implements NestModule, OnModuleInit {
                   'remoteServiceUrl is required for remote validation strategy.',
                 );
               }
-              return new RemoteTenantValidationStrategy(
-                httpService,
-                moduleOptions.remoteServiceUrl!,
+              return this.withTenantCache(
+                new RemoteTenantValidationStrategy(
+                  httpService,
+                  moduleOptions.remoteServiceUrl!,
+                ),
+                moduleOptions.tenantCache,
               );
             }
 
@@ -347,14 +553,20 @@ export class MultiTenantModule implements NestModule, OnModuleInit {
                     'TenantRepository is required for local validation strategy. Add TypeOrmModule.forFeature([Tenant]) to imports of MultiTenantModule',
                   );
                 }
-                return new LocalTenantValidationStrategy(tenantRepository);
+                return this.withTenantCache(
+                  new LocalTenantValidationStrategy(tenantRepository),
+                  moduleOptions.tenantCache,
+                );
               } else if (ormType === 'drizzle') {
                 if (!adminDb) {
                   throw new Error(
                     'Admin database is required for local validation strategy with Drizzle.',
                   );
                 }
-                return new DrizzleLocalTenantValidationStrategy(adminDb);
+                return this.withTenantCache(
+                  new DrizzleLocalTenantValidationStrategy(adminDb),
+                  moduleOptions.tenantCache,
+                );
               }
               throw new Error(
                 `Unsupported ORM type for local validation: ${ormType}. Use 'typeorm' or 'drizzle'.`,
@@ -392,6 +604,36 @@ export class MultiTenantModule implements NestModule, OnModuleInit {
       });
     }
 
+    // Tenant change events, with the transport of the 'custom' option
+    if (options.eventTransportProvider) {
+      asyncProviders.push(options.eventTransportProvider);
+    } else {
+      asyncProviders.push({
+        provide: TENANT_EVENT_TRANSPORT,
+        useFactory: (
+          moduleOptions: MultiTenantModuleOptions,
+          configService: ConfigService,
+        ) => {
+          const events = moduleOptions.tenantEvents;
+          if (!events || events.enabled === false) {
+            return;
+          }
+          if (events.transport === 'custom') {
+            throw new Error(
+              'Custom tenant event transport requires eventTransportProvider',
+            );
+          }
+          return new PostgresTenantEventTransport(
+            moduleOptions.database ??
+              createDatabaseConfigFromEnv(configService),
+            events.channel,
+          );
+        },
+        inject: ['MULTI_TENANT_OPTIONS', ConfigService],
+      });
+    }
+    asyncProviders.push(TenantEventListener);
+
     // Management strategy (TENANT_ADMIN_SERVICE)
     if (options.managementStrategyProvider) {
       asyncProviders.push(options.managementStrategyProvider);
@@ -405,6 +647,9 @@ export class MultiTenantModule implements NestModule, OnModuleInit {
           typeormDataSource?: DataSource,
           drizzleDb?: NodePgDatabase,
           configService?: IMultiTenantConfigService,
+          connectionService?: ITenantConnectionService,
+          tenantValidationStrategy?: ITenantValidationStrategy,
+          eventTransport?: ITenantEventTransport,
         ) => {
           // Only create if admin module is enabled
           if (moduleOptions.enableAdminModule === false) {
@@ -434,12 +679,21 @@ export class MultiTenantModule implements NestModule, OnModuleInit {
               tenantRepository,
               typeormDataSource,
               configService,
+              connectionService,
+              tenantValidationStrategy,
+              eventTransport,
             );
           } else if (ormType === 'drizzle') {
             if (!drizzleDb) {
               throw new Error('Admin database required for Drizzle admin.');
             }
-            return new DrizzleTenantAdminService(drizzleDb, configService);
+            return new DrizzleTenantAdminService(
+              drizzleDb,
+              configService,
+              connectionService,
+              tenantValidationStrategy,
+              eventTransport,
+            );
           }
 
           return;
@@ -462,10 +716,30 @@ export class MultiTenantModule implements NestModule, OnModuleInit {
             token: MULTI_TENANT_CONFIG_SERVICE,
             optional: true,
           },
+          {
+            token: TENANT_CONNECTION_SERVICE,
+            optional: true,
+          },
+          {
+            token: TENANT_VALIDATION_STRATEGY,
+            optional: true,
+          },
+          {
+            token: TENANT_EVENT_TRANSPORT,
+            optional: true,
+          },
         ],
       });
     }
 
+    // Injectable resolver for the 'custom' resolution strategy
+    if (options.resolverClass) {
+      asyncProviders.push({
+        provide: TENANT_RESOLVER,
+        useClass: options.resolverClass,
+      });
+    }
+
     // FIX: Merge controllers from options
     // options.controllers are user-provided at configuration time
     if (options.controllers?.length) {
@@ -483,14 +757,45 @@ export class MultiTenantModule implements NestModule, OnModuleInit {
         TENANT_CONNECTION_SERVICE,
         TENANT_VALIDATION_STRATEGY,
         ORM_STRATEGY,
+        TenantExecutor,
+        TenantHandshakeResolver,
+        TenantHttpPropagator,
         TENANT_ADMIN_SERVICE,
         TenantDataSourceProvider,
         TenantDrizzleDbProvider,
+        TenantDrizzleReadDbProvider,
         ADMIN_DATABASE,
+        ...(options.resolverClass ? [TENANT_RESOLVER] : []),
       ],
     };
   }
 
+  /**
+   * Global interceptor that sets the tenant of `@MessagePattern` and
+   * `@EventPattern` handlers, registered when microservice support is enabled
+   */
+  private static resolveRpcInterceptor(): Provider {
+    return {
+      provide: APP_INTERCEPTOR,
+      useClass: TenantRpcInterceptor,
+    };
+  }
+
+  /**
+   * Resolves the tenant context service based on the context mode
+   */
+  private static resolveContextService(
+    contextMode: TenantContextMode = 'request',
+  ): Provider {
+    return {
+      provide: TENANT_CONTEXT_SERVICE,
+      useClass:
+        contextMode === 'async-local-storage'
+          ? AsyncLocalTenantContextService
+          : TenantContextService,
+    };
+  }
+
   /**
    * Resolves the ORM strategy based on the options
    */
@@ -503,13 +808,18 @@ export class MultiTenantModule implements NestModule, OnModuleInit {
       useFactory: (configService: ConfigService) => {
         switch (ormType) {
           case 'typeorm': {
-            return new TypeOrmStrategy(configService, options.database);
+            return new TypeOrmStrategy(
+              configService,
+              options.database,
+              options.connectionMode,
+            );
           }
           case 'drizzle': {
             return new DrizzleStrategy(
               configService,
               options.orm,
               options.database,
+              options.connectionMode,
             );
           }
           default: {
@@ -540,9 +850,12 @@ export class MultiTenantModule implements NestModule, OnModuleInit {
                 'HttpService is required for remote validation strategy. Add HttpModule to imports',
               );
             }
-            return new RemoteTenantValidationStrategy(
-              httpService,
-              options.remoteServiceUrl!,
+            return this.withTenantCache(
+              new RemoteTenantValidationStrategy(
+                httpService,
+                options.remoteServiceUrl!,
+              ),
+              options.tenantCache,
             );
           },
           inject: [{ token: HttpService, optional: false }],
@@ -560,16 +873,71 @@ export class MultiTenantModule implements NestModule, OnModuleInit {
         return ormType === 'drizzle'
           ? {
               provide: TENANT_VALIDATION_STRATEGY,
-              useClass: DrizzleLocalTenantValidationStrategy,
+              useFactory: (adminDb: NodePgDatabase) =>
+                this.withTenantCache(
+                  new DrizzleLocalTenantValidationStrategy(adminDb),
+                  options.tenantCache,
+                ),
+              inject: [ADMIN_DATABASE],
             }
           : {
               provide: TENANT_VALIDATION_STRATEGY,
-              useClass: LocalTenantValidationStrategy,
+              useFactory: (tenantRepository: Repository<Tenant>) =>
+                this.withTenantCache(
+                  new LocalTenantValidationStrategy(tenantRepository),
+                  options.tenantCache,
+                ),
+              inject: [getRepositoryToken(Tenant, 'admin')],
             };
       }
     }
   }
 
+  /**
+   * Resolves the providers of tenant change events. The listener is always
+   * registered, as with `forRootAsync`, and does nothing without a transport.
+   * @param options The options for the module.
+   * @returns The listener, and the event transport if events are enabled.
+   */
+  private static resolveTenantEvents(
+    options: MultiTenantModuleOptions,
+  ): Provider[] {
+    const events = options.tenantEvents;
+    // A 'custom' transport is provided by the developer in customProviders
+    if (!events || events.enabled === false || events.transport === 'custom') {
+      return [TenantEventListener];
+    }
+
+    return [
+      {
+        provide: TENANT_EVENT_TRANSPORT,
+        useFactory: (configService: ConfigService) =>
+          new PostgresTenantEventTransport(
+            options.database ?? createDatabaseConfigFromEnv(configService),
+            events.channel,
+          ),
+        inject: [ConfigService],
+      },
+      TenantEventListener,
+    ];
+  }
+
+  /**
+   * Puts the tenant cache in front of a validation strategy when it is enabled
+   * @param strategy The validation strategy
+   * @param config The tenant cache configuration
+   * @returns The cached strategy, or the strategy itself
+   */
+  private static withTenantCache(
+    strategy: ITenantValidationStrategy,
+    config?: TenantCacheConfig,
+  ): ITenantValidationStrategy {
+    if (!config || config.enabled === false) {
+      return strategy;
+    }
+    return new CachedTenantValidationStrategy(strategy, config);
+  }
+
   /**
    * HELPER METHOD: Build properly configured forRootAsync options
    *
@@ -587,6 +955,9 @@ export class MultiTenantModule implements NestModule, OnModuleInit {
       additionalImports = [],
       additionalControllers = [],
       managementStrategyProvider,
+      resolverClass,
+      contextMode,
+      enableMicroservices,
     } = config;
 
     const imports = [...additionalImports];
@@ -609,7 +980,7 @@ export class MultiTenantModule implements NestModule, OnModuleInit {
             );
           },
         }),
-        TypeOrmModule.forFeature([Tenant], 'admin'),
+        TypeOrmModule.forFeature([Tenant, TenantDomain], 'admin'),
       );
     }
 
@@ -624,6 +995,9 @@ export class MultiTenantModule implements NestModule, OnModuleInit {
       imports,
       controllers,
       managementStrategyProvider,
+      resolverClass,
+      contextMode,
+      enableMicroservices,
     };
   }
 
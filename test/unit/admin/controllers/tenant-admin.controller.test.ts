@@ -9,7 +9,10 @@ import { TenantAdminController } from '../../../../src/admin/controllers/tenant-
 import { CreateTenantDto } from '../../../../src/admin/dto/create-tenant.dto';
 import { TenantFilterDto } from '../../../../src/admin/dto/filter-tenant.dto';
 import { UpdateTenantDto } from '../../../../src/admin/dto/update-tenant.dto';
-import { Tenant } from '../../../../src/admin/entities/tenant.entity';
+import {
+  Tenant,
+  TenantDomain,
+} from '../../../../src/admin/entities/tenant.entity';
 import {
   FindAllTenants,
   ITenantAdminService,
@@ -395,6 +398,26 @@ describe('TenantAdminController', () => {
     });
   });
 
+  describe('GET /admin/tenant/status/:code (findStatusByCode)', () => {
+    it('should return the tenant status and settings', async () => {
+      // Arrange
+      const statusInfo = {
+        status: TenantStatus.SUSPENDED,
+        settings: { suspensionReason: 'Unpaid invoice' },
+      };
+      tenantAdminService.findStatusByCode.mockResolvedValue(statusInfo);
+
+      // Act
+      const result = await controller.findStatusByCode('tenant_test');
+
+      // Assert
+      expect(result).toEqual(statusInfo);
+      expect(tenantAdminService.findStatusByCode).toHaveBeenCalledWith(
+        'tenant_test',
+      );
+    });
+  });
+
   describe('PATCH /admin/tenant/:id (update)', () => {
     it('should update a tenant successfully', async () => {
       // Arrange
@@ -964,4 +987,109 @@ describe('TenantAdminController', () => {
       expect(result).toEqual(tenant);
     });
   });
+
+  describe('Custom domains', () => {
+    const tenantId = '123e4567-e89b-12d3-a456-426614174000';
+
+    const createMockTenantDomain = (
+      overrides?: Partial<TenantDomain>,
+    ): TenantDomain =>
+      Object.assign(new TenantDomain(), {
+        id: 'domain-1',
+        tenantId,
+        domain: 'portal.customer.com',
+        verified: false,
+        verificationToken: 'token',
+        createdAt: new Date('2024-01-01T00:00:00Z'),
+        updatedAt: new Date('2024-01-01T00:00:00Z'),
+        ...overrides,
+      });
+
+    it('should add a domain to a tenant', async () => {
+      // Arrange
+      const tenantDomain = createMockTenantDomain();
+      tenantAdminService.addDomain.mockResolvedValue(tenantDomain);
+
+      // Act
+      const result = await controller.addDomain(tenantId, {
+        domain: 'portal.customer.com',
+      });
+
+      // Assert
+      expect(tenantAdminService.addDomain).toHaveBeenCalledWith(tenantId, {
+        domain: 'portal.customer.com',
+      });
+      expect(result).toEqual(tenantDomain);
+    });
+
+    it('should list the domains of a tenant', async () => {
+      // Arrange
+      const domains = [createMockTenantDomain()];
+      tenantAdminService.findDomains.mockResolvedValue(domains);
+
+      // Act
+      const result = await controller.findDomains(tenantId);
+
+      // Assert
+      expect(tenantAdminService.findDomains).toHaveBeenCalledWith(tenantId);
+      expect(result).toEqual(domains);
+    });
+
+    it('should verify a domain', async () => {
+      // Arrange
+      const tenantDomain = createMockTenantDomain({ verified: true });
+      tenantAdminService.verifyDomain.mockResolvedValue(tenantDomain);
+
+      // Act
+      const result = await controller.verifyDomain(tenantId, 'domain-1');
+
+      // Assert
+      expect(tenantAdminService.verifyDomain).toHaveBeenCalledWith(
+        tenantId,
+        'domain-1',
+      );
+      expect(result.verified).toBe(true);
+    });
+
+    it('should propagate verification failures', async () => {
+      // Arrange
+      tenantAdminService.verifyDomain.mockRejectedValue(
+        new BadRequestException('Domain portal.customer.com is not verified'),
+      );
+
+      // Act & Assert
+      await expect(
+        controller.verifyDomain(tenantId, 'domain-1'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should remove a domain', async () => {
+      // Arrange
+      tenantAdminService.removeDomain.mockResolvedValue();
+
+      // Act
+      await controller.removeDomain(tenantId, 'domain-1');
+
+      // Assert
+      expect(tenantAdminService.removeDomain).toHaveBeenCalledWith(
+        tenantId,
+        'domain-1',
+      );
+    });
+
+    it('should find a tenant by domain', async () => {
+      // Arrange
+      const tenant = createMockTenant();
+      tenantAdminService.findByDomain.mockResolvedValue(tenant);
+
+      // Act
+      const result = await controller.findByDomain('portal.customer.com');
+
+      // Assert
+      expect(tenantAdminService.findByDomain).toHaveBeenCalledWith(
+        'portal.customer.com',
+      );
+      expect(result).toEqual(tenant);
+    });
+  });
 });
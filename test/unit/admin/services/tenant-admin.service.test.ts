@@ -1,11 +1,17 @@
+import { resolveTxt } from 'node:dns/promises';
+
 import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Client } from 'pg';
 import { DataSource, IsNull, Repository } from 'typeorm';
-import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 import { CreateTenantDto } from '../../../../src/admin/dto/create-tenant.dto';
 import { TenantFilterDto } from '../../../../src/admin/dto/filter-tenant.dto';
 import { UpdateTenantDto } from '../../../../src/admin/dto/update-tenant.dto';
-import { Tenant } from '../../../../src/admin/entities/tenant.entity';
+import {
+  Tenant,
+  TenantDomain,
+} from '../../../../src/admin/entities/tenant.entity';
 import {
   FindAllTenants,
   TenantStats,
@@ -17,10 +23,17 @@ import {
   TenantConflictError,
   TenantValidationError,
 } from '../../../../src/core/exceptions/custom-errors';
-import { IMultiTenantConfigService } from '../../../../src/core/interfaces/tenant.interface';
+import {
+  IMultiTenantConfigService,
+  ITenantConnectionService,
+} from '../../../../src/core/interfaces/tenant.interface';
+import { ITenantEventTransport } from '../../../../src/core/interfaces/tenant-events.interface';
+import { ITenantValidationStrategy } from '../../../../src/core/interfaces/tenant-validation.interface';
 import { LocalTenantValidationStrategy } from '../../../../src/core/strategies/validation/local-tenant-validation.strategy';
 import { createMock, Mock } from '../../../utils/mock';
 
+vi.mock('node:dns/promises', () => ({ resolveTxt: vi.fn() }));
+
 // Factory functions para crear datos de prueba
 const createMockTenant = (overrides?: Partial<Tenant>): Tenant => {
   const tenant = new Tenant();
@@ -116,6 +129,10 @@ describe('TenantAdminService', () => {
     configService.isAutoCreateSchemasEnabled.mockReturnValue(false);
   });
 
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
   describe('create', () => {
     it('should create a tenant successfully', async () => {
       // Arrange
@@ -147,6 +164,28 @@ describe('TenantAdminService', () => {
       expect(tenantRepository.save).toHaveBeenCalledWith(expectedTenant);
     });
 
+    it('should name the schema with the configured schema naming strategy', async () => {
+      // Arrange
+      const createDto = createMockCreateTenantDto();
+      configService.getSchemaNamingStrategy.mockReturnValue(
+        tenantId => `org_${tenantId}`,
+      );
+      tenantRepository.findOne.mockResolvedValue(undefined as any);
+      tenantRepository.create.mockReturnValue(createMockTenant());
+      tenantRepository.save.mockResolvedValue(createMockTenant());
+
+      // Act
+      await service.create(createDto);
+
+      // Assert
+      expect(tenantRepository.findOne).toHaveBeenCalledWith({
+        where: { code: 'org_test' },
+      });
+      expect(tenantRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'org_test' }),
+      );
+    });
+
     it('should throw ConflictException when tenant code already exists', async () => {
       // Arrange
       const createDto = createMockCreateTenantDto();
@@ -199,6 +238,59 @@ describe('TenantAdminService', () => {
       );
     });
 
+    it('should create the tenant database in database isolation', async () => {
+      // Arrange
+      const createDto = createMockCreateTenantDto();
+      const expectedTenant = createMockTenant();
+
+      tenantRepository.findOne.mockResolvedValue(undefined as any);
+      tenantRepository.create.mockReturnValue(expectedTenant);
+      tenantRepository.save.mockResolvedValue(expectedTenant);
+      configService.getIsolation.mockReturnValue('database');
+      configService.isAutoCreateDatabasesEnabled.mockReturnValue(true);
+      configService.isAutoCreateSchemasEnabled.mockReturnValue(true);
+      configService.getDatabaseConfig.mockReturnValue({
+        host: 'localhost',
+        port: 5432,
+        username: 'postgres',
+        password: 'password',
+        database: 'multitenant_db',
+      });
+      vi.spyOn(Client.prototype, 'connect').mockResolvedValue(undefined);
+      vi.spyOn(Client.prototype, 'end').mockResolvedValue(undefined);
+      const query = vi
+        .spyOn(Client.prototype, 'query')
+        .mockResolvedValue({ rowCount: 0 } as never);
+
+      // Act
+      await service.create(createDto);
+
+      // Assert
+      expect(query).toHaveBeenCalledWith('CREATE DATABASE "tenant_test"');
+      expect(query).toHaveBeenCalledWith(
+        'CREATE SCHEMA IF NOT EXISTS "tenant_test"',
+      );
+      expect(dataSource.query).not.toHaveBeenCalled();
+    });
+
+    it('should not create a schema for tenants in row isolation', async () => {
+      // Arrange
+      const createDto = createMockCreateTenantDto({ isolation: 'row' });
+      const expectedTenant = createMockTenant();
+
+      tenantRepository.findOne.mockResolvedValue(undefined as any);
+      tenantRepository.create.mockReturnValue(expectedTenant);
+      tenantRepository.save.mockResolvedValue(expectedTenant);
+      configService.getIsolation.mockReturnValue('schema');
+      configService.isAutoCreateSchemasEnabled.mockReturnValue(true);
+
+      // Act
+      await service.create(createDto);
+
+      // Assert
+      expect(dataSource.query).not.toHaveBeenCalled();
+    });
+
     it('should handle database errors gracefully', async () => {
       // Arrange
       const createDto = createMockCreateTenantDto();
@@ -825,6 +917,219 @@ describe('TenantAdminService', () => {
     });
   });
 
+  describe('findStatusByCode', () => {
+    it('should return the status and settings including soft-deleted tenants', async () => {
+      // Arrange
+      const suspendedTenant = createMockTenant({
+        status: TenantStatus.SUSPENDED,
+        settings: { suspensionReason: 'Unpaid invoice' },
+        deletedAt: new Date(),
+      });
+      tenantRepository.findOne.mockResolvedValue(suspendedTenant);
+
+      // Act
+      const result = await service.findStatusByCode('tenant_test');
+
+      // Assert
+      expect(result).toEqual({
+        status: TenantStatus.SUSPENDED,
+        settings: { suspensionReason: 'Unpaid invoice' },
+      });
+      expect(tenantRepository.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { code: 'tenant_test' },
+          withDeleted: true,
+        }),
+      );
+    });
+
+    it('should throw NotFoundException when tenant not found', async () => {
+      // Arrange
+      tenantRepository.findOne.mockResolvedValue(undefined as any);
+
+      // Act & Assert
+      await expect(service.findStatusByCode('tenant_ghost')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('Connection release', () => {
+    let connectionService: Mock<ITenantConnectionService>;
+
+    beforeEach(() => {
+      connectionService = createMock<ITenantConnectionService>();
+      service = new TenantAdminService(
+        tenantRepository,
+        dataSource,
+        configService,
+        connectionService,
+      );
+    });
+
+    it('should close the tenant connections on deactivate', async () => {
+      // Arrange
+      const activeTenant = createMockTenant();
+      tenantRepository.findOne.mockResolvedValue(activeTenant);
+      tenantRepository.save.mockImplementation(async data => data as Tenant);
+
+      // Act
+      await service.deactivate(activeTenant.id);
+
+      // Assert
+      expect(connectionService.removeConnection).toHaveBeenCalledWith(
+        'tenant_test',
+      );
+    });
+
+    it('should keep the tenant connections on activate', async () => {
+      // Arrange
+      const suspendedTenant = createMockTenant({
+        status: TenantStatus.SUSPENDED,
+      });
+      tenantRepository.findOne.mockResolvedValue(suspendedTenant);
+      tenantRepository.save.mockImplementation(async data => data as Tenant);
+
+      // Act
+      await service.activate(suspendedTenant.id);
+
+      // Assert
+      expect(connectionService.removeConnection).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Cache invalidation', () => {
+    let validationStrategy: Mock<ITenantValidationStrategy>;
+
+    beforeEach(() => {
+      validationStrategy = createMock<ITenantValidationStrategy>();
+      service = new TenantAdminService(
+        tenantRepository,
+        dataSource,
+        configService,
+        undefined,
+        validationStrategy,
+      );
+      tenantRepository.save.mockImplementation(async data => data as Tenant);
+    });
+
+    it('should invalidate the cached tenant on update', async () => {
+      // Arrange
+      tenantRepository.findOne.mockResolvedValue(createMockTenant());
+
+      // Act
+      await service.update('tenant-id', createMockUpdateTenantDto());
+
+      // Assert
+      expect(validationStrategy.invalidate).toHaveBeenCalledWith('tenant_test');
+    });
+
+    it('should invalidate the cached tenant on remove', async () => {
+      // Arrange
+      tenantRepository.findOne.mockResolvedValue(createMockTenant());
+
+      // Act
+      await service.remove('tenant-id');
+
+      // Assert
+      expect(validationStrategy.invalidate).toHaveBeenCalledWith('tenant_test');
+    });
+
+    it('should invalidate the cached tenant on activate', async () => {
+      // Arrange
+      tenantRepository.findOne.mockResolvedValue(
+        createMockTenant({ status: TenantStatus.SUSPENDED }),
+      );
+
+      // Act
+      await service.activate('tenant-id');
+
+      // Assert
+      expect(validationStrategy.invalidate).toHaveBeenCalledWith('tenant_test');
+    });
+
+    it('should invalidate the cached tenant on deactivate', async () => {
+      // Arrange
+      tenantRepository.findOne.mockResolvedValue(createMockTenant());
+
+      // Act
+      await service.deactivate('tenant-id');
+
+      // Assert
+      expect(validationStrategy.invalidate).toHaveBeenCalledWith('tenant_test');
+    });
+
+    it('should drop a cached miss when the tenant is created', async () => {
+      // Arrange
+      tenantRepository.findOne.mockResolvedValue(undefined as any);
+      tenantRepository.create.mockReturnValue(createMockTenant());
+
+      // Act
+      await service.create(createMockCreateTenantDto());
+
+      // Assert
+      expect(validationStrategy.invalidate).toHaveBeenCalledWith('tenant_test');
+    });
+  });
+
+  describe('Tenant change events', () => {
+    let connectionService: Mock<ITenantConnectionService>;
+    let eventTransport: Mock<ITenantEventTransport>;
+
+    beforeEach(() => {
+      connectionService = createMock<ITenantConnectionService>();
+      eventTransport = createMock<ITenantEventTransport>();
+      service = new TenantAdminService(
+        tenantRepository,
+        dataSource,
+        configService,
+        connectionService,
+        undefined,
+        eventTransport,
+      );
+      tenantRepository.findOne.mockResolvedValue(createMockTenant());
+      tenantRepository.save.mockImplementation(async data => data as Tenant);
+    });
+
+    it('should publish the change to every instance', async () => {
+      // Act
+      await service.deactivate('tenant-id');
+
+      // Assert
+      expect(eventTransport.publish).toHaveBeenCalledWith({
+        type: 'deactivated',
+        code: 'tenant_test',
+      });
+    });
+
+    it('should close the tenant connections on update, as its entities may change', async () => {
+      // Act
+      await service.update(
+        'tenant-id',
+        createMockUpdateTenantDto({
+          enabledEntities: ['user'] as EntityName[],
+        }),
+      );
+
+      // Assert
+      expect(connectionService.removeConnection).toHaveBeenCalledWith(
+        'tenant_test',
+      );
+      expect(eventTransport.publish).toHaveBeenCalledWith({
+        type: 'updated',
+        code: 'tenant_test',
+      });
+    });
+
+    it('should not fail the change when publishing fails', async () => {
+      // Arrange
+      eventTransport.publish.mockRejectedValue(new Error('connection lost'));
+
+      // Act & Assert
+      await expect(service.remove('tenant-id')).resolves.toBeUndefined();
+    });
+  });
+
   describe('Edge Cases and Performance', () => {
     it('should handle large datasets in findAll', async () => {
       // Arrange
@@ -984,4 +1289,205 @@ describe('TenantAdminService', () => {
       );
     });
   });
+
+  describe('Custom domains', () => {
+    let domainRepository: Mock<Repository<TenantDomain>>;
+    const tenant = createMockTenant();
+
+    const createMockTenantDomain = (
+      overrides?: Partial<TenantDomain>,
+    ): TenantDomain =>
+      Object.assign(new TenantDomain(), {
+        id: 'domain-1',
+        tenantId: tenant.id,
+        domain: 'portal.customer.com',
+        verified: false,
+        verificationToken: 'abc123',
+        ...overrides,
+      });
+
+    beforeEach(() => {
+      domainRepository = createMock<Repository<TenantDomain>>();
+      Object.assign(tenantRepository, {
+        manager: { getRepository: vi.fn().mockReturnValue(domainRepository) },
+      });
+      tenantRepository.findOne.mockResolvedValue(tenant);
+      domainRepository.create.mockImplementation(data => data as TenantDomain);
+      domainRepository.save.mockImplementation(async data => data as any);
+    });
+
+    it('should add a normalized, unverified domain with a token', async () => {
+      // Arrange
+      domainRepository.findOne.mockResolvedValue(undefined as any);
+
+      // Act
+      const result = await service.addDomain(tenant.id, {
+        domain: 'Portal.Customer.COM.',
+      });
+
+      // Assert
+      expect(domainRepository.findOne).toHaveBeenCalledWith({
+        where: { domain: 'portal.customer.com' },
+      });
+      expect(result).toMatchObject({
+        tenantId: tenant.id,
+        domain: 'portal.customer.com',
+        verified: false,
+      });
+      expect(result.verificationToken).toMatch(/^[\da-f]{32}$/);
+    });
+
+    it('should reject invalid domains', async () => {
+      // Act & Assert
+      await expect(
+        service.addDomain(tenant.id, { domain: 'not a domain' }),
+      ).rejects.toThrow(TenantValidationError);
+      expect(domainRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject domains mapped to another tenant', async () => {
+      // Arrange
+      domainRepository.findOne.mockResolvedValue(createMockTenantDomain());
+
+      // Act & Assert
+      await expect(
+        service.addDomain(tenant.id, { domain: 'portal.customer.com' }),
+      ).rejects.toThrow(TenantConflictError);
+    });
+
+    it('should verify a domain when the TXT record is published', async () => {
+      // Arrange
+      domainRepository.findOne.mockResolvedValue(createMockTenantDomain());
+      vi.mocked(resolveTxt).mockResolvedValue([['abc123']]);
+
+      // Act
+      const result = await service.verifyDomain(tenant.id, 'domain-1');
+
+      // Assert
+      expect(resolveTxt).toHaveBeenCalledWith(
+        '_tenant-verification.portal.customer.com',
+      );
+      expect(result.verified).toBe(true);
+      expect(result.verifiedAt).toBeInstanceOf(Date);
+    });
+
+    it('should not verify a domain without the TXT record', async () => {
+      // Arrange
+      domainRepository.findOne.mockResolvedValue(createMockTenantDomain());
+      vi.mocked(resolveTxt).mockRejectedValue(new Error('ENOTFOUND'));
+
+      // Act & Assert
+      await expect(service.verifyDomain(tenant.id, 'domain-1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(domainRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for a domain of another tenant', async () => {
+      // Arrange
+      domainRepository.findOne.mockResolvedValue(undefined as any);
+
+      // Act & Assert
+      await expect(service.removeDomain(tenant.id, 'domain-2')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(domainRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 'domain-2', tenantId: tenant.id },
+      });
+    });
+
+    it('should remove a domain', async () => {
+      // Arrange
+      const tenantDomain = createMockTenantDomain();
+      domainRepository.findOne.mockResolvedValue(tenantDomain);
+
+      // Act
+      await service.removeDomain(tenant.id, 'domain-1');
+
+      // Assert
+      expect(domainRepository.remove).toHaveBeenCalledWith(tenantDomain);
+    });
+
+    describe('domain changes', () => {
+      let connectionService: Mock<ITenantConnectionService>;
+      let validationStrategy: Mock<ITenantValidationStrategy>;
+      let eventTransport: Mock<ITenantEventTransport>;
+
+      beforeEach(() => {
+        connectionService = createMock<ITenantConnectionService>();
+        validationStrategy = createMock<ITenantValidationStrategy>();
+        eventTransport = createMock<ITenantEventTransport>();
+        service = new TenantAdminService(
+          tenantRepository,
+          dataSource,
+          configService,
+          connectionService,
+          validationStrategy,
+          eventTransport,
+        );
+        domainRepository.findOne.mockResolvedValue(createMockTenantDomain());
+      });
+
+      it('should invalidate the domain lookup and publish the change on verify', async () => {
+        // Arrange
+        vi.mocked(resolveTxt).mockResolvedValue([['abc123']]);
+
+        // Act
+        await service.verifyDomain(tenant.id, 'domain-1');
+
+        // Assert
+        expect(validationStrategy.invalidateDomain).toHaveBeenCalledWith(
+          'portal.customer.com',
+        );
+        expect(eventTransport.publish).toHaveBeenCalledWith({
+          type: 'domainChanged',
+          code: tenant.code,
+          domain: 'portal.customer.com',
+        });
+        expect(connectionService.removeConnection).not.toHaveBeenCalled();
+      });
+
+      it('should invalidate the domain lookup and publish the change on remove', async () => {
+        // Act
+        await service.removeDomain(tenant.id, 'domain-1');
+
+        // Assert
+        expect(validationStrategy.invalidateDomain).toHaveBeenCalledWith(
+          'portal.customer.com',
+        );
+        expect(eventTransport.publish).toHaveBeenCalledWith({
+          type: 'domainChanged',
+          code: tenant.code,
+          domain: 'portal.customer.com',
+        });
+        expect(connectionService.removeConnection).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should find a tenant by verified domain', async () => {
+      // Arrange
+      const mockQueryBuilder = {
+        innerJoin: vi.fn().mockReturnThis(),
+        where: vi.fn().mockReturnThis(),
+        andWhere: vi.fn().mockReturnThis(),
+        getOne: vi.fn().mockResolvedValue(tenant),
+      };
+      tenantRepository.createQueryBuilder.mockReturnValue(
+        mockQueryBuilder as any,
+      );
+
+      // Act
+      const result = await service.findByDomain('Portal.Customer.com');
+
+      // Assert
+      expect(mockQueryBuilder.where).toHaveBeenCalledWith(
+        'domain.domain = :domain',
+        { domain: 'portal.customer.com' },
+      );
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        'domain.verified = true',
+      );
+      expect(result).toEqual(tenant);
+    });
+  });
 });
@@ -50,6 +50,35 @@ describe('database.config', () => {
     expect(cfg.entities?.length).toBeGreaterThan(0);
   });
 
+  it('getMultiTenantDatabaseConfig routes reads to the primary by default when replicas are configured', () => {
+    const cfg = getMultiTenantDatabaseConfig(
+      mockConfigService,
+      'tenant_abc',
+      undefined,
+      {
+        database: 'db',
+        host: 'primary',
+        port: 5432,
+        username: 'user',
+        password: 'pass',
+        replicas: [{ host: 'replica-1' }, { host: 'replica-2', port: 6432 }],
+      },
+    );
+    expect((cfg as any).replication).toEqual({
+      master: expect.objectContaining({ host: 'primary', database: 'db' }),
+      slaves: [
+        expect.objectContaining({
+          host: 'replica-1',
+          port: 5432,
+          username: 'user',
+          database: 'db',
+        }),
+        expect.objectContaining({ host: 'replica-2', port: 6432 }),
+      ],
+      defaultMode: 'master',
+    });
+  });
+
   it('createDatabaseConfigFromEnv maps env vars correctly', () => {
     mockConfigService.get.mockImplementation((key: string, def?: any) => {
       const map: Record<string, any> = {
@@ -0,0 +1,145 @@
+import { ArgumentsHost, HttpStatus } from '@nestjs/common';
+import { firstValueFrom, Observable } from 'rxjs';
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  NoTenantContextError,
+  TenantUnavailableError,
+} from '../../../../src/core/exceptions/custom-errors';
+import { MultitenantExceptionFilter } from '../../../../src/core/exceptions/multitenant-exception-filter';
+import { createMock } from '../../../utils/mock';
+
+const createHost = (
+  type: string,
+  overrides: Partial<ArgumentsHost> = {},
+): ArgumentsHost =>
+  createMock<ArgumentsHost>({
+    getType: () => type as any,
+    ...overrides,
+  });
+
+describe('MultitenantExceptionFilter', () => {
+  const filter = new MultitenantExceptionFilter();
+
+  it('should write the error response to HTTP responses', () => {
+    // Arrange
+    const response = {
+      setHeader: vi.fn(),
+      status: vi.fn(),
+      json: vi.fn(),
+    };
+    response.status.mockReturnValue(response);
+    const host = createHost('http', {
+      switchToHttp: () =>
+        ({
+          getResponse: () => response,
+          getRequest: () => ({ headers: {}, method: 'GET', url: '/users' }),
+        }) as any,
+    });
+
+    // Act
+    filter.catch(new NoTenantContextError(), host);
+
+    // Assert
+    expect(response.status).toHaveBeenCalledWith(HttpStatus.BAD_REQUEST);
+    expect(response.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        success: false,
+        error: expect.objectContaining({ code: 'MISSING_TENANT_CONTEXT' }),
+      }),
+    );
+  });
+
+  it('should send Retry-After with 503 for unavailable tenants', () => {
+    // Arrange
+    const response = {
+      setHeader: vi.fn(),
+      status: vi.fn(),
+      json: vi.fn(),
+    };
+    response.status.mockReturnValue(response);
+    const host = createHost('http', {
+      switchToHttp: () =>
+        ({
+          getResponse: () => response,
+          getRequest: () => ({ headers: {}, method: 'GET', url: '/users' }),
+        }) as any,
+    });
+
+    // Act
+    filter.catch(new TenantUnavailableError('tenant_acme', 12), host);
+
+    // Assert
+    expect(response.status).toHaveBeenCalledWith(
+      HttpStatus.SERVICE_UNAVAILABLE,
+    );
+    expect(response.setHeader).toHaveBeenCalledWith('Retry-After', '12');
+    expect(response.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        error: expect.objectContaining({
+          code: 'TENANT_UNAVAILABLE',
+          details: expect.objectContaining({
+            connection: expect.objectContaining({ retryAfter: 12 }),
+          }),
+        }),
+      }),
+    );
+  });
+
+  it('should return an error with extensions for GraphQL resolvers', () => {
+    // Arrange
+    const host = createHost('graphql', {
+      getArgByIndex: () =>
+        ({ req: { headers: {}, method: 'POST', url: '/graphql' } }) as any,
+    });
+
+    // Act
+    const error = filter.catch(new NoTenantContextError(), host) as Error & {
+      extensions: Record<string, unknown>;
+    };
+
+    // Assert
+    expect(error).toBeInstanceOf(Error);
+    expect(error.extensions).toMatchObject({
+      code: 'MISSING_TENANT_CONTEXT',
+      statusCode: HttpStatus.BAD_REQUEST,
+      request: { method: 'POST', url: '/graphql' },
+    });
+  });
+
+  it('should emit an exception event to WebSocket clients', () => {
+    // Arrange
+    const client = { emit: vi.fn(), handshake: { headers: {} } };
+    const host = createHost('ws', {
+      switchToWs: () => ({ getClient: () => client }) as any,
+    });
+
+    // Act
+    filter.catch(new NoTenantContextError(), host);
+
+    // Assert
+    expect(client.emit).toHaveBeenCalledWith(
+      'exception',
+      expect.objectContaining({
+        error: expect.objectContaining({ code: 'MISSING_TENANT_CONTEXT' }),
+      }),
+    );
+  });
+
+  it('should return an erroring observable for microservice handlers', async () => {
+    // Arrange
+    const host = createHost('rpc');
+
+    // Act
+    const result = filter.catch(
+      new NoTenantContextError(),
+      host,
+    ) as Observable<unknown>;
+
+    // Assert
+    await expect(firstValueFrom(result)).rejects.toMatchObject({
+      code: 'MISSING_TENANT_CONTEXT',
+      request: { method: 'RPC' },
+    });
+  });
+});
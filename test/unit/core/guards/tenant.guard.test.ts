@@ -0,0 +1,250 @@
+import { ExecutionContext, HttpStatus } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { TenantStatus } from '../../../../src/constants';
+import {
+  PublicRoute,
+  RequireTenant,
+  TenantOptional,
+} from '../../../../src/core/decorators/tenant-requirement.decorator';
+import {
+  NoTenantContextError,
+  SchemaNotFoundError,
+  TenantNotActiveError,
+} from '../../../../src/core/exceptions/custom-errors';
+import { TenantGuard } from '../../../../src/core/guards/tenant.guard';
+import {
+  IMultiTenantConfigService,
+  TenantResolutionSource,
+} from '../../../../src/core/interfaces/tenant.interface';
+import { ITenantValidationStrategy } from '../../../../src/core/interfaces/tenant-validation.interface';
+import { TenantContext } from '../../../../src/core/services/async-local-tenant-context.service';
+import { createMock, Mock } from '../../../utils/mock';
+
+@RequireTenant()
+class RequiredController {
+  handler() {}
+
+  @TenantOptional()
+  optionalHandler() {}
+
+  @PublicRoute()
+  publicHandler() {}
+
+  @RequireTenant({ allowDefault: true })
+  defaultAllowedHandler() {}
+}
+
+class UndecoratedController {
+  handler() {}
+}
+
+const createContext = (
+  controller: { prototype: object },
+  handlerName: string,
+  request: object = {},
+  type = 'http',
+): ExecutionContext =>
+  createMock<ExecutionContext>({
+    getType: () => type as any,
+    getClass: () => controller as any,
+    getHandler: () => (controller.prototype as any)[handlerName],
+    switchToHttp: () =>
+      ({
+        getRequest: () => request,
+      }) as any,
+  });
+
+const tenantRequest = (source: TenantResolutionSource, tenantId = 'acme') => ({
+  tenant: { id: tenantId, schema: `tenant_${tenantId}`, source },
+});
+
+describe('TenantGuard', () => {
+  let guard: TenantGuard;
+  let mockConfigService: Mock<IMultiTenantConfigService>;
+  let mockValidationStrategy: Mock<ITenantValidationStrategy>;
+
+  beforeEach(() => {
+    mockConfigService = createMock<IMultiTenantConfigService>();
+    mockValidationStrategy = createMock<ITenantValidationStrategy>({
+      findStatusByCode: undefined,
+    });
+
+    mockConfigService.getAllOptions.mockReturnValue({
+      database: {} as any,
+    });
+    mockConfigService.getTenantStatusPolicy.mockReturnValue({});
+    mockValidationStrategy.validateTenantExists.mockResolvedValue(true);
+
+    guard = new TenantGuard(
+      new Reflector(),
+      mockConfigService,
+      mockValidationStrategy,
+    );
+  });
+
+  describe('canActivate', () => {
+    it('should allow undecorated routes without a tenant by default', async () => {
+      // Act
+      const result = await guard.canActivate(
+        createContext(UndecoratedController, 'handler'),
+      );
+
+      // Assert
+      expect(result).toBe(true);
+      expect(
+        mockValidationStrategy.validateTenantExists,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should reject required routes without a tenant', async () => {
+      // Act & Assert
+      await expect(
+        guard.canActivate(createContext(RequiredController, 'handler')),
+      ).rejects.toBeInstanceOf(NoTenantContextError);
+    });
+
+    it('should allow required routes with a known tenant', async () => {
+      // Act
+      const result = await guard.canActivate(
+        createContext(RequiredController, 'handler', tenantRequest('header')),
+      );
+
+      // Assert
+      expect(result).toBe(true);
+      expect(mockValidationStrategy.validateTenantExists).toHaveBeenCalledWith(
+        'tenant_acme',
+      );
+    });
+
+    it('should reject unknown tenants with SchemaNotFoundError', async () => {
+      // Arrange
+      mockValidationStrategy.validateTenantExists.mockResolvedValue(false);
+
+      // Act & Assert
+      await expect(
+        guard.canActivate(
+          createContext(
+            RequiredController,
+            'handler',
+            tenantRequest('header', 'ghost'),
+          ),
+        ),
+      ).rejects.toMatchObject({
+        name: SchemaNotFoundError.name,
+        tenantCode: 'ghost',
+      });
+    });
+
+    it('should reject suspended tenants with TenantNotActiveError', async () => {
+      // Arrange
+      mockValidationStrategy.findStatusByCode = vi.fn().mockResolvedValue({
+        status: TenantStatus.SUSPENDED,
+        settings: { suspensionReason: 'Unpaid invoice' },
+      });
+
+      // Act & Assert
+      const error = await guard
+        .canActivate(
+          createContext(RequiredController, 'handler', tenantRequest('header')),
+        )
+        .catch((error_: unknown) => error_);
+
+      expect(error).toBeInstanceOf(TenantNotActiveError);
+      expect(error).toMatchObject({
+        statusCode: HttpStatus.LOCKED,
+        reason: 'Unpaid invoice',
+      });
+      expect(
+        mockValidationStrategy.validateTenantExists,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should reject the default tenant unless allowed', async () => {
+      // Arrange
+      const request = tenantRequest('default', 'fallback');
+
+      // Act & Assert
+      await expect(
+        guard.canActivate(
+          createContext(RequiredController, 'handler', request),
+        ),
+      ).rejects.toBeInstanceOf(NoTenantContextError);
+      await expect(
+        guard.canActivate(
+          createContext(RequiredController, 'defaultAllowedHandler', request),
+        ),
+      ).resolves.toBe(true);
+    });
+
+    it('should read the tenant source from the raw Fastify request', async () => {
+      // Act & Assert
+      await expect(
+        guard.canActivate(
+          createContext(RequiredController, 'handler', {
+            raw: tenantRequest('default', 'fallback'),
+          }),
+        ),
+      ).rejects.toBeInstanceOf(NoTenantContextError);
+    });
+
+    it('should read the tenant of TenantContext when the request has none', async () => {
+      // Act
+      const result = await TenantContext.run('acme', () =>
+        guard.canActivate(createContext(RequiredController, 'handler')),
+      );
+
+      // Assert
+      expect(result).toBe(true);
+      expect(mockValidationStrategy.validateTenantExists).toHaveBeenCalledWith(
+        'tenant_acme',
+      );
+    });
+
+    it('should let handler decorators override the controller', async () => {
+      // Act & Assert
+      await expect(
+        guard.canActivate(createContext(RequiredController, 'optionalHandler')),
+      ).resolves.toBe(true);
+      await expect(
+        guard.canActivate(createContext(RequiredController, 'publicHandler')),
+      ).resolves.toBe(true);
+    });
+
+    it('should require a tenant on undecorated routes when requireTenant is enabled', async () => {
+      // Arrange
+      mockConfigService.getAllOptions.mockReturnValue({
+        database: {} as any,
+        requireTenant: true,
+      });
+
+      // Act & Assert
+      await expect(
+        guard.canActivate(createContext(UndecoratedController, 'handler')),
+      ).rejects.toBeInstanceOf(NoTenantContextError);
+    });
+
+    it('should skip non-HTTP contexts', async () => {
+      // Act
+      const result = await guard.canActivate(
+        createContext(RequiredController, 'handler', {}, 'rpc'),
+      );
+
+      // Assert
+      expect(result).toBe(true);
+    });
+
+    it('should skip validation without a validation strategy', async () => {
+      // Arrange
+      guard = new TenantGuard(new Reflector(), mockConfigService);
+
+      // Act & Assert
+      await expect(
+        guard.canActivate(
+          createContext(RequiredController, 'handler', tenantRequest('header')),
+        ),
+      ).resolves.toBe(true);
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { CallHandler, ExecutionContext } from '@nestjs/common';
+import { defer, firstValueFrom, of } from 'rxjs';
+import { describe, expect, it } from 'vitest';
+
+import { ReadOnlyInterceptor } from '../../../../src/core/interceptors/read-only.interceptor';
+import { ReadOnlyScope } from '../../../../src/core/utils/read-replica.utils';
+import { createMock } from '../../../utils/mock';
+
+describe('ReadOnlyInterceptor', () => {
+  it('should run the handler in a read-only scope', async () => {
+    // Arrange
+    const next: CallHandler = {
+      handle: () => defer(async () => ReadOnlyScope.isActive()),
+    };
+
+    // Act
+    const result = await firstValueFrom(
+      new ReadOnlyInterceptor().intercept(createMock<ExecutionContext>(), next),
+    );
+
+    // Assert
+    expect(result).toBe(true);
+    expect(ReadOnlyScope.isActive()).toBe(false);
+  });
+
+  it('should pass the handler result through', async () => {
+    // Act
+    const result = await firstValueFrom(
+      new ReadOnlyInterceptor().intercept(createMock<ExecutionContext>(), {
+        handle: () => of('handled'),
+      }),
+    );
+
+    // Assert
+    expect(result).toBe('handled');
+  });
+});
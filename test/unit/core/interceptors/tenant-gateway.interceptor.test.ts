@@ -0,0 +1,149 @@
+import { CallHandler, ExecutionContext } from '@nestjs/common';
+import { defer, firstValueFrom, of } from 'rxjs';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { TenantGatewayInterceptor } from '../../../../src/core/interceptors/tenant-gateway.interceptor';
+import {
+  IMultiTenantConfigService,
+  ITenantConnectionService,
+  TenantConnectionLease,
+} from '../../../../src/core/interfaces/tenant.interface';
+import { TenantContext } from '../../../../src/core/services/async-local-tenant-context.service';
+import { defaultSchemaNamingStrategy } from '../../../../src/core/services/multi-tenant-config.service';
+import { TenantHandshakeResolver } from '../../../../src/core/services/tenant-handshake-resolver.service';
+import { createMock, Mock } from '../../../utils/mock';
+
+const createWsContext = (client: unknown): ExecutionContext =>
+  createMock<ExecutionContext>({
+    getType: () => 'ws' as any,
+    switchToWs: () => ({ getClient: () => client }) as any,
+  });
+
+const createGraphQLContext = (gqlContext: unknown): ExecutionContext =>
+  createMock<ExecutionContext>({
+    getType: () => 'graphql' as any,
+    getArgByIndex: <T>(index: number) =>
+      (index === 2 ? gqlContext : undefined) as T,
+  });
+
+describe('TenantGatewayInterceptor', () => {
+  let interceptor: TenantGatewayInterceptor;
+  let handshakeResolver: TenantHandshakeResolver;
+  let mockConfigService: Mock<IMultiTenantConfigService>;
+  let mockConnectionService: Mock<ITenantConnectionService>;
+  let lease: Mock<TenantConnectionLease>;
+  let next: CallHandler;
+
+  const handle = async (context: ExecutionContext) =>
+    firstValueFrom(await interceptor.intercept(context, next));
+
+  beforeEach(() => {
+    mockConfigService = createMock<IMultiTenantConfigService>();
+    mockConfigService.getTenantResolutionConfig.mockReturnValue({
+      strategy: 'header',
+    });
+    mockConfigService.getSchemaNamingStrategy.mockReturnValue(
+      defaultSchemaNamingStrategy,
+    );
+    mockConnectionService = createMock<ITenantConnectionService>();
+    lease = createMock<TenantConnectionLease>();
+    mockConnectionService.acquire.mockResolvedValue(lease);
+    handshakeResolver = new TenantHandshakeResolver(mockConfigService);
+    next = { handle: () => defer(() => of(TenantContext.current()?.tenantId)) };
+
+    interceptor = new TenantGatewayInterceptor(
+      mockConfigService,
+      handshakeResolver,
+      mockConnectionService,
+    );
+  });
+
+  it('should ignore HTTP contexts', async () => {
+    // Arrange
+    const context = createMock<ExecutionContext>({
+      getType: () => 'http' as any,
+    });
+
+    // Act
+    const tenantId = await handle(context);
+
+    // Assert
+    expect(tenantId).toBeUndefined();
+    expect(mockConnectionService.acquire).not.toHaveBeenCalled();
+  });
+
+  describe('WebSocket gateways', () => {
+    it('should use the tenant bound on connection', async () => {
+      // Arrange
+      const client = {};
+      await handshakeResolver.bindClient(client, {
+        headers: { 'x-tenant-id': 'acme' },
+      });
+
+      // Act
+      const tenantId = await handle(createWsContext(client));
+
+      // Assert
+      expect(tenantId).toBe('acme');
+    });
+
+    it('should bind socket.io clients from their handshake on the first message', async () => {
+      // Arrange
+      const socket = { handshake: { headers: { 'x-tenant-id': 'globex' } } };
+
+      // Act
+      const tenantId = await handle(createWsContext(socket));
+
+      // Assert
+      expect(tenantId).toBe('globex');
+      expect(handshakeResolver.getClientTenant(socket)).toBe('globex');
+    });
+
+    it('should run the handler without a tenant when none is found', async () => {
+      // Act
+      const tenantId = await handle(createWsContext({}));
+
+      // Assert
+      expect(tenantId).toBeUndefined();
+      expect(mockConnectionService.acquire).not.toHaveBeenCalled();
+    });
+
+    it('should lease the tenant connection until the handler completes', async () => {
+      // Arrange
+      const socket = { handshake: { headers: { 'x-tenant-id': 'acme' } } };
+      next = { handle: () => defer(() => of(TenantContext.current())) };
+
+      // Act
+      const context = await handle(createWsContext(socket));
+
+      // Assert
+      expect(context).toMatchObject({
+        tenantId: 'acme',
+        tenantSchema: 'tenant_acme',
+      });
+      expect(mockConnectionService.acquire).toHaveBeenCalledWith('tenant_acme');
+      expect(lease.release).toHaveBeenCalledTimes(1);
+      expect(TenantContext.current()).toBeUndefined();
+    });
+  });
+
+  describe('GraphQL resolvers', () => {
+    it('should use the tenant added by the context factory', async () => {
+      // Act
+      const tenantId = await handle(createGraphQLContext({ tenantId: 'acme' }));
+
+      // Assert
+      expect(tenantId).toBe('acme');
+    });
+
+    it('should use the tenant resolved by the middleware', async () => {
+      // Act
+      const tenantId = await handle(
+        createGraphQLContext({ req: { tenant: { id: 'globex' } } }),
+      );
+
+      // Assert
+      expect(tenantId).toBe('globex');
+    });
+  });
+});
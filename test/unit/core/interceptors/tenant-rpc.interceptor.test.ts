@@ -0,0 +1,287 @@
+import { createServer } from 'node:net';
+
+import {
+  CallHandler,
+  Controller,
+  ExecutionContext,
+  INestMicroservice,
+  Module,
+} from '@nestjs/common';
+import { APP_INTERCEPTOR, NestFactory } from '@nestjs/core';
+import {
+  ClientProxy,
+  ClientTCP,
+  MessagePattern,
+  Payload,
+  Transport,
+} from '@nestjs/microservices';
+import { defer, firstValueFrom, of } from 'rxjs';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { TenantRpcInterceptor } from '../../../../src/core/interceptors/tenant-rpc.interceptor';
+import {
+  IMultiTenantConfigService,
+  ITenantConnectionService,
+  TenantConnectionLease,
+} from '../../../../src/core/interfaces/tenant.interface';
+import { TenantClientProxy } from '../../../../src/core/providers/tenant-client.provider';
+import {
+  AsyncLocalTenantContextService,
+  TenantContext,
+} from '../../../../src/core/services/async-local-tenant-context.service';
+import {
+  defaultSchemaNamingStrategy,
+  MULTI_TENANT_CONFIG_SERVICE,
+} from '../../../../src/core/services/multi-tenant-config.service';
+import { TENANT_CONNECTION_SERVICE } from '../../../../src/core/services/tenant-connection.service';
+import { createMock, Mock } from '../../../utils/mock';
+
+const createRpcContext = (
+  data: unknown,
+  rpcContext: unknown = {},
+  type = 'rpc',
+): ExecutionContext =>
+  createMock<ExecutionContext>({
+    getType: () => type as any,
+    switchToRpc: () =>
+      ({
+        getData: () => data,
+        getContext: () => rpcContext,
+      }) as any,
+  });
+
+const createConfigService = (): Mock<IMultiTenantConfigService> => {
+  const configService = createMock<IMultiTenantConfigService>();
+  configService.getMicroserviceConfig.mockReturnValue({});
+  configService.getTenantResolutionConfig.mockReturnValue({});
+  configService.getSchemaNamingStrategy.mockReturnValue(
+    defaultSchemaNamingStrategy,
+  );
+  return configService;
+};
+
+const findFreePort = (): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once('error', reject);
+    server.listen(0, () => {
+      const { port } = server.address() as { port: number };
+      server.close(() => resolve(port));
+    });
+  });
+
+@Controller()
+class TenantEchoController {
+  @MessagePattern('whoami')
+  whoami(@Payload() data: { delay?: number }) {
+    return new Promise(resolve =>
+      setTimeout(() => resolve(TenantContext.current()), data.delay ?? 0),
+    );
+  }
+}
+
+describe('TenantRpcInterceptor', () => {
+  let interceptor: TenantRpcInterceptor;
+  let mockConfigService: Mock<IMultiTenantConfigService>;
+  let mockConnectionService: Mock<ITenantConnectionService>;
+  let lease: Mock<TenantConnectionLease>;
+  let next: CallHandler;
+
+  const handle = async (context: ExecutionContext) =>
+    firstValueFrom(await interceptor.intercept(context, next));
+
+  beforeEach(() => {
+    mockConfigService = createConfigService();
+    mockConnectionService = createMock<ITenantConnectionService>();
+    lease = createMock<TenantConnectionLease>();
+    mockConnectionService.acquire.mockResolvedValue(lease);
+    next = { handle: () => defer(() => of(TenantContext.current()?.tenantId)) };
+
+    interceptor = new TenantRpcInterceptor(
+      mockConfigService,
+      mockConnectionService,
+    );
+  });
+
+  describe('intercept', () => {
+    it('should ignore non-RPC contexts', async () => {
+      // Act
+      const tenantId = await handle(
+        createRpcContext({ tenantId: 'acme' }, {}, 'http'),
+      );
+
+      // Assert
+      expect(tenantId).toBeUndefined();
+      expect(mockConnectionService.acquire).not.toHaveBeenCalled();
+    });
+
+    it('should set the tenant from the message payload', async () => {
+      // Act
+      const tenantId = await handle(
+        createRpcContext({ tenantId: 'acme', orderId: 1 }),
+      );
+
+      // Assert
+      expect(tenantId).toBe('acme');
+    });
+
+    it('should set the tenant from the message headers', async () => {
+      // Arrange
+      const natsContext = {
+        getHeaders: () => new Map([['x-tenant-id', 'globex']]),
+      };
+
+      // Act
+      const tenantId = await handle(createRpcContext({}, natsContext));
+
+      // Assert
+      expect(tenantId).toBe('globex');
+    });
+
+    it('should use the configured extractor', async () => {
+      // Arrange
+      mockConfigService.getMicroserviceConfig.mockReturnValue({
+        extractor: async data => (data as { org: string }).org,
+      });
+
+      // Act
+      const tenantId = await handle(createRpcContext({ org: 'initech' }));
+
+      // Assert
+      expect(tenantId).toBe('initech');
+    });
+
+    it('should fall back to the default tenant', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        defaultTenant: 'default',
+      });
+
+      // Act
+      const tenantId = await handle(createRpcContext({}));
+
+      // Assert
+      expect(tenantId).toBe('default');
+    });
+
+    it('should run the handler without a tenant when none is found', async () => {
+      // Act
+      const tenantId = await handle(createRpcContext('ping'));
+
+      // Assert
+      expect(tenantId).toBeUndefined();
+      expect(mockConnectionService.acquire).not.toHaveBeenCalled();
+    });
+
+    it('should lease the tenant connection until the handler completes', async () => {
+      // Arrange
+      next = {
+        handle: () =>
+          defer(() => {
+            expect(lease.release).not.toHaveBeenCalled();
+            return of(TenantContext.current());
+          }),
+      };
+
+      // Act
+      const context = await handle(createRpcContext({ tenantId: 'acme' }));
+
+      // Assert
+      expect(mockConnectionService.acquire).toHaveBeenCalledWith('tenant_acme');
+      expect(lease.release).toHaveBeenCalledTimes(1);
+      expect(context).toEqual({
+        tenantId: 'acme',
+        tenantSchema: 'tenant_acme',
+        hasTenant: true,
+      });
+      expect(TenantContext.current()).toBeUndefined();
+    });
+
+    it('should run the handler when the connection cannot be opened', async () => {
+      // Arrange
+      mockConnectionService.acquire.mockRejectedValue(new Error('down'));
+
+      // Act
+      const tenantId = await handle(createRpcContext({ tenantId: 'acme' }));
+
+      // Assert
+      expect(tenantId).toBe('acme');
+    });
+  });
+
+  describe('TCP transport', () => {
+    let app: INestMicroservice;
+    let client: TenantClientProxy;
+
+    beforeAll(async () => {
+      const port = await findFreePort();
+      const configService = createConfigService();
+
+      @Module({
+        controllers: [TenantEchoController],
+        providers: [
+          { provide: MULTI_TENANT_CONFIG_SERVICE, useValue: configService },
+          {
+            provide: TENANT_CONNECTION_SERVICE,
+            useValue: createMock<ITenantConnectionService>(),
+          },
+          { provide: APP_INTERCEPTOR, useClass: TenantRpcInterceptor },
+        ],
+      })
+      class TenantEchoModule {}
+
+      app = await NestFactory.createMicroservice(TenantEchoModule, {
+        transport: Transport.TCP,
+        options: { host: '127.0.0.1', port },
+        logger: false,
+      });
+      await app.listen();
+
+      client = new TenantClientProxy(
+        new ClientTCP({ host: '127.0.0.1', port }) as unknown as ClientProxy,
+        new AsyncLocalTenantContextService(configService),
+      );
+      await client.connect();
+    });
+
+    afterAll(async () => {
+      await client?.close();
+      await app?.close();
+    });
+
+    it('should propagate the caller tenant to the handler', async () => {
+      // Act
+      const context = await TenantContext.run('acme', () =>
+        firstValueFrom(client.send('whoami', {})),
+      );
+
+      // Assert
+      expect(context).toEqual({
+        tenantId: 'acme',
+        tenantSchema: 'tenant_acme',
+        hasTenant: true,
+      });
+    });
+
+    it('should keep concurrent messages isolated', async () => {
+      // Act
+      const contexts = await Promise.all(
+        ['acme', 'globex'].map((tenantId, index) =>
+          TenantContext.run(tenantId, () =>
+            firstValueFrom(
+              client.send<{ tenantId: string }>('whoami', {
+                delay: 10 - index * 5,
+              }),
+            ),
+          ),
+        ),
+      );
+
+      // Assert
+      expect(contexts.map(context => context.tenantId)).toEqual([
+        'acme',
+        'globex',
+      ]);
+    });
+  });
+});
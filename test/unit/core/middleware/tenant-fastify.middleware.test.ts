@@ -1,7 +1,14 @@
+import { createHmac } from 'node:crypto';
+
 import { Logger } from '@nestjs/common';
 import { FastifyReply } from 'fastify';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
+import {
+  InvalidTenantTokenError,
+  JwtVerificationConfigError,
+  TenantResolutionConflictError,
+} from '../../../../src/core/exceptions/custom-errors';
 import {
   IMultiTenantConfigService,
   ITenantContext,
@@ -9,9 +16,26 @@ import {
   TenantResolutionConfig,
 } from '../../../../src/core/interfaces/tenant.interface';
 import { TenantFastifyRequest } from '../../../../src/core/interfaces/tenant-middleware.interface';
+import { TenantResolver } from '../../../../src/core/interfaces/tenant-resolver.interface';
+import { ITenantValidationStrategy } from '../../../../src/core/interfaces/tenant-validation.interface';
 import { TenantFastifyMiddleware } from '../../../../src/core/middleware/tenant-fastify.middleware';
+import { defaultSchemaNamingStrategy } from '../../../../src/core/services/multi-tenant-config.service';
 import { createMock, Mock } from '../../../utils/mock';
 
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const createToken = (payload: Record<string, unknown>) =>
+  `header.${encode(payload)}.signature`;
+
+const createSignedToken = (
+  payload: Record<string, unknown>,
+  secret: string,
+) => {
+  const input = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}`;
+  return `${input}.${createHmac('sha256', secret).update(input).digest('base64url')}`;
+};
+
 describe('TenantFastifyMiddleware', () => {
   let middleware: TenantFastifyMiddleware;
   let mockTenantContextService: Mock<ITenantContextService>;
@@ -43,11 +67,14 @@ describe('TenantFastifyMiddleware', () => {
     mockRequest = createMock<TenantFastifyRequest>({
       headers: {},
       url: '/test',
+      originalUrl: '/test',
       method: 'GET',
       query: {},
       params: {},
       body: {},
     });
+    // Plain headers object, so unset headers read as undefined
+    mockRequest.headers = {};
 
     // Mock del reply de Fastify
     mockReply = createMock<FastifyReply['raw']>({
@@ -101,6 +128,7 @@ describe('TenantFastifyMiddleware', () => {
       expect(mockRequest.tenant).toEqual({
         id: tenantId,
         schema: `tenant_${tenantId}`,
+        source: 'header',
       });
       expect(mockReply.setHeader).toHaveBeenCalledWith('X-Tenant-ID', tenantId);
       expect(mockReply.setHeader).toHaveBeenCalledWith(
@@ -138,6 +166,7 @@ describe('TenantFastifyMiddleware', () => {
       expect(mockRequest.tenant).toEqual({
         id: tenantId,
         schema: `tenant_${tenantId}`,
+        source: 'header',
       });
     });
 
@@ -197,6 +226,7 @@ describe('TenantFastifyMiddleware', () => {
       expect(mockRequest.tenant).toEqual({
         id: tenantId,
         schema: `tenant_${tenantId}`,
+        source: 'subdomain',
       });
       expect(mockLogger.debug).toHaveBeenCalledWith(
         `[Fastify] Tenant resolved using subdomain strategy: ${tenantId}`,
@@ -293,6 +323,7 @@ describe('TenantFastifyMiddleware', () => {
       expect(mockRequest.tenant).toEqual({
         id: tenantId,
         schema: `tenant_${tenantId}`,
+        source: 'jwt',
       });
       expect(mockLogger.debug).toHaveBeenCalledWith(
         `[Fastify] Tenant resolved using jwt strategy: ${tenantId}`,
@@ -456,6 +487,7 @@ describe('TenantFastifyMiddleware', () => {
       expect(mockRequest.tenant).toEqual({
         id: tenantId,
         schema: `tenant_${tenantId}`,
+        source: 'custom',
       });
     });
 
@@ -551,6 +583,7 @@ describe('TenantFastifyMiddleware', () => {
       expect(mockRequest.tenant).toEqual({
         id: defaultTenant,
         schema: `tenant_${defaultTenant}`,
+        source: 'default',
       });
       expect(mockReply.setHeader).toHaveBeenCalledWith(
         'X-Tenant-ID',
@@ -597,6 +630,7 @@ describe('TenantFastifyMiddleware', () => {
       expect(mockRequest.tenant).toEqual({
         id: resolvedTenant,
         schema: `tenant_${resolvedTenant}`,
+        source: 'header',
       });
     });
 
@@ -710,6 +744,7 @@ describe('TenantFastifyMiddleware', () => {
       expect(mockRequest.tenant).toEqual({
         id: defaultTenant,
         schema: `tenant_${defaultTenant}`,
+        source: 'default',
       });
     });
 
@@ -740,6 +775,7 @@ describe('TenantFastifyMiddleware', () => {
       expect(mockRequest.tenant).toEqual({
         id: defaultTenant,
         schema: `tenant_${defaultTenant}`,
+        source: 'default',
       });
     });
 
@@ -770,6 +806,7 @@ describe('TenantFastifyMiddleware', () => {
       expect(mockRequest.tenant).toEqual({
         id: defaultTenant,
         schema: `tenant_${defaultTenant}`,
+        source: 'default',
       });
     });
 
@@ -870,6 +907,560 @@ describe('TenantFastifyMiddleware', () => {
     });
   });
 
+  describe('use - Strategy Chain', () => {
+    beforeEach(() => {
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategies: [
+          'jwt',
+          { type: 'header', headerName: 'x-tenant-id' },
+          'subdomain',
+        ],
+        defaultTenant: 'default-tenant',
+      });
+      mockTenantContextService.getContext.mockImplementation(() => ({
+        tenantId: mockTenantContextService.setContext.mock.calls[0]?.[0],
+        tenantSchema: `tenant_${mockTenantContextService.setContext.mock.calls[0]?.[0]}`,
+        hasTenant: true,
+      }));
+    });
+
+    it('should stop at the first strategy that resolves a tenant', async () => {
+      // Arrange
+      mockRequest.headers = {
+        authorization: `Bearer ${createToken({ tenantId: 'jwt-tenant' })}`,
+        'x-tenant-id': 'header-tenant',
+      };
+
+      // Act
+      await middleware.use(mockRequest, mockReply, mockDone);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledTimes(1);
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'jwt-tenant',
+      );
+      expect(mockRequest.tenant?.source).toBe('jwt');
+      expect(mockLogger.warn).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the next strategies in order', async () => {
+      // Arrange
+      mockRequest.headers = { host: 'sub-tenant.example.com' };
+
+      // Act
+      await middleware.use(mockRequest, mockReply, mockDone);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'sub-tenant',
+      );
+      expect(mockRequest.tenant?.source).toBe('subdomain');
+      expect(mockLogger.debug).toHaveBeenCalledWith(
+        `[Fastify] Tenant resolved using subdomain strategy: sub-tenant`,
+      );
+    });
+
+    it('should use the default tenant when no strategy resolves', async () => {
+      // Arrange
+      mockRequest.headers = {};
+
+      // Act
+      await middleware.use(mockRequest, mockReply, mockDone);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'default-tenant',
+      );
+      expect(mockRequest.tenant?.source).toBe('default');
+    });
+
+    it('should apply per-strategy options', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategies: [
+          { type: 'jwt', claimName: 'org' },
+          { type: 'header', headerName: 'x-org' },
+        ],
+      });
+      mockRequest.headers = {
+        authorization: `Bearer ${createToken({ tenantId: 'ignored', org: 'acme' })}`,
+      };
+
+      // Act
+      await middleware.use(mockRequest, mockReply, mockDone);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith('acme');
+    });
+
+    it('should log a warning and keep the first hit with the log policy', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategies: ['jwt', 'header'],
+        conflictPolicy: 'log',
+      });
+      mockRequest.headers = {
+        authorization: `Bearer ${createToken({ tenantId: 'jwt-tenant' })}`,
+        'x-tenant-id': 'header-tenant',
+      };
+
+      // Act
+      await middleware.use(mockRequest, mockReply, mockDone);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'jwt-tenant',
+      );
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        '[Fastify] Tenant resolution strategies disagree: jwt=jwt-tenant, header=header-tenant. Using jwt.',
+      );
+      expect(mockDone).toHaveBeenCalledWith();
+    });
+
+    it('should reject the request when strategies disagree with the reject policy', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategies: ['jwt', 'header'],
+        conflictPolicy: 'reject',
+        defaultTenant: 'default-tenant',
+      });
+      mockRequest.headers = {
+        authorization: `Bearer ${createToken({ tenantId: 'jwt-tenant' })}`,
+        'x-tenant-id': 'header-tenant',
+      };
+
+      // Act
+      await middleware.use(mockRequest, mockReply, mockDone);
+
+      // Assert
+      expect(mockTenantContextService.setContext).not.toHaveBeenCalled();
+      expect(mockDone).toHaveBeenCalledTimes(1);
+      const error = vi.mocked(mockDone).mock
+        .calls[0][0] as TenantResolutionConflictError;
+      expect(error).toBeInstanceOf(TenantResolutionConflictError);
+      expect(error.candidates).toEqual([
+        { source: 'jwt', tenantId: 'jwt-tenant' },
+        { source: 'header', tenantId: 'header-tenant' },
+      ]);
+    });
+
+    it('should not reject when all strategies agree', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategies: ['jwt', 'header'],
+        conflictPolicy: 'reject',
+      });
+      mockRequest.headers = {
+        authorization: `Bearer ${createToken({ tenantId: 'same-tenant' })}`,
+        'x-tenant-id': 'same-tenant',
+      };
+
+      // Act
+      await middleware.use(mockRequest, mockReply, mockDone);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'same-tenant',
+      );
+      expect(mockDone).toHaveBeenCalledWith();
+    });
+  });
+
+  describe('use - Verified JWT', () => {
+    const secret = 'jwt-secret';
+
+    beforeEach(() => {
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategy: 'jwt',
+        jwtClaimName: 'tenantId',
+        jwtVerification: { secret, issuer: 'auth-service' },
+        defaultTenant: 'default-tenant',
+      });
+    });
+
+    it('should resolve the tenant from a verified token', async () => {
+      // Arrange
+      mockRequest.headers = {
+        authorization: `Bearer ${createSignedToken({ tenantId: 'verified-tenant', iss: 'auth-service' }, secret)}`,
+      };
+
+      // Act
+      await middleware.use(mockRequest, mockReply, mockDone);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'verified-tenant',
+      );
+      expect(mockDone).toHaveBeenCalledWith();
+    });
+
+    it('should reject an unsigned token instead of using the default tenant', async () => {
+      // Arrange
+      mockRequest.headers = {
+        authorization: `Bearer ${createToken({ tenantId: 'forged-tenant' })}`,
+      };
+
+      // Act
+      await middleware.use(mockRequest, mockReply, mockDone);
+
+      // Assert
+      expect(mockTenantContextService.setContext).not.toHaveBeenCalled();
+      expect(mockDone).toHaveBeenCalledWith(
+        expect.any(InvalidTenantTokenError),
+      );
+    });
+
+    it('should reject a token with an unexpected issuer', async () => {
+      // Arrange
+      mockRequest.headers = {
+        authorization: `Bearer ${createSignedToken({ tenantId: 'verified-tenant', iss: 'other' }, secret)}`,
+      };
+
+      // Act
+      await middleware.use(mockRequest, mockReply, mockDone);
+
+      // Assert
+      expect(mockTenantContextService.setContext).not.toHaveBeenCalled();
+      const error = vi.mocked(mockDone).mock
+        .calls[0][0] as InvalidTenantTokenError;
+      expect(error).toBeInstanceOf(InvalidTenantTokenError);
+      expect(error.reason).toBe('Invalid issuer');
+    });
+
+    it('should use the default tenant when no token is sent', async () => {
+      // Arrange
+      mockRequest.headers = {};
+
+      // Act
+      await middleware.use(mockRequest, mockReply, mockDone);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'default-tenant',
+      );
+    });
+
+    it('should reject the request when no verification key is configured', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategy: 'jwt',
+        jwtVerification: {},
+        defaultTenant: 'default-tenant',
+      });
+      mockRequest.headers = {
+        authorization: `Bearer ${createSignedToken({ tenantId: 'verified-tenant' }, secret)}`,
+      };
+
+      // Act
+      await middleware.use(mockRequest, mockReply, mockDone);
+
+      // Assert
+      expect(mockTenantContextService.setContext).not.toHaveBeenCalled();
+      expect(mockDone).toHaveBeenCalledWith(
+        expect.any(JwtVerificationConfigError),
+      );
+    });
+  });
+
+  describe('use - Path and Query Strategies', () => {
+    it('should resolve the tenant from the default path pattern', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategy: 'path',
+      });
+      Object.assign(mockRequest, {
+        originalUrl: '/t/acme/orders',
+        url: '/t/acme/orders',
+      });
+
+      // Act
+      await middleware.use(mockRequest, mockReply, mockDone);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith('acme');
+      expect(mockRequest.tenant?.source).toBe('path');
+    });
+
+    it('should resolve the tenant from a custom path pattern', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategies: [
+          { type: 'path', pattern: '/api/:version/tenants/:tenant' },
+        ],
+      });
+      Object.assign(mockRequest, {
+        originalUrl: '/api/v2/tenants/techcorp/users',
+        url: '/api/v2/tenants/techcorp/users',
+      });
+
+      // Act
+      await middleware.use(mockRequest, mockReply, mockDone);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'techcorp',
+      );
+    });
+
+    it('should fall back to the default tenant when the path does not match', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategy: 'path',
+        defaultTenant: 'default-tenant',
+      });
+      Object.assign(mockRequest, { originalUrl: '/orders', url: '/orders' });
+
+      // Act
+      await middleware.use(mockRequest, mockReply, mockDone);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'default-tenant',
+      );
+    });
+
+    it('should read the original URL when the prefix was rewritten', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategy: 'path',
+        stripTenantPath: true,
+      });
+      Object.assign(mockRequest, {
+        originalUrl: '/t/acme/orders',
+        url: '/orders',
+      });
+
+      // Act
+      await middleware.use(mockRequest, mockReply, mockDone);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith('acme');
+      expect(mockRequest.url).toBe('/orders');
+    });
+
+    it('should resolve the tenant from the query parameter', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategy: 'query',
+      });
+      Object.assign(mockRequest, {
+        originalUrl: '/webhooks/stripe?tenant=acme&event=paid',
+        url: '/webhooks/stripe?tenant=acme&event=paid',
+      });
+
+      // Act
+      await middleware.use(mockRequest, mockReply, mockDone);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith('acme');
+      expect(mockRequest.tenant?.source).toBe('query');
+    });
+
+    it('should use the configured query parameter name', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategies: [{ type: 'query', parameterName: 'org' }],
+      });
+      Object.assign(mockRequest, {
+        originalUrl: '/webhooks?tenant=ignored&org=techcorp',
+        url: '/webhooks?tenant=ignored&org=techcorp',
+      });
+
+      // Act
+      await middleware.use(mockRequest, mockReply, mockDone);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'techcorp',
+      );
+    });
+  });
+
+  describe('use - Domain Strategy', () => {
+    let mockValidationStrategy: Mock<ITenantValidationStrategy>;
+
+    beforeEach(() => {
+      mockValidationStrategy = createMock<ITenantValidationStrategy>();
+      middleware = new TenantFastifyMiddleware(
+        mockTenantContextService,
+        mockConfigService,
+        mockValidationStrategy,
+      );
+      (middleware as any).logger = mockLogger;
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategy: 'domain',
+        baseDomain: 'example.co.uk',
+        defaultTenant: 'default-tenant',
+      });
+      mockConfigService.getSchemaNamingStrategy.mockReturnValue(
+        defaultSchemaNamingStrategy,
+      );
+    });
+
+    it('should resolve subdomains of a multi-level base domain', async () => {
+      // Arrange
+      mockRequest.headers = { host: 'acme.example.co.uk' };
+
+      // Act
+      await middleware.use(mockRequest, mockReply, mockDone);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith('acme');
+      expect(mockValidationStrategy.findByDomain).not.toHaveBeenCalled();
+    });
+
+    it('should ignore the www subdomain of the base domain', async () => {
+      // Arrange
+      mockRequest.headers = { host: 'www.example.co.uk' };
+
+      // Act
+      await middleware.use(mockRequest, mockReply, mockDone);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'default-tenant',
+      );
+    });
+
+    it('should resolve verified custom domains through the validation strategy', async () => {
+      // Arrange
+      mockRequest.headers = { host: 'portal.customer.com' };
+      vi.mocked(mockValidationStrategy.findByDomain!).mockResolvedValue({
+        code: 'tenant_customer',
+      } as any);
+
+      // Act
+      await middleware.use(mockRequest, mockReply, mockDone);
+
+      // Assert
+      expect(mockValidationStrategy.findByDomain).toHaveBeenCalledWith(
+        'portal.customer.com',
+      );
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'customer',
+      );
+      expect(mockRequest.tenant?.source).toBe('domain');
+    });
+
+    it('should ignore www for the subdomain strategy', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategy: 'subdomain',
+        defaultTenant: 'default-tenant',
+      });
+      mockRequest.headers = { host: 'www.example.com' };
+
+      // Act
+      await middleware.use(mockRequest, mockReply, mockDone);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'default-tenant',
+      );
+    });
+  });
+
+  describe('use - Resolver Class', () => {
+    let mockTenantResolver: Mock<TenantResolver>;
+
+    beforeEach(() => {
+      mockTenantResolver = createMock<TenantResolver>();
+      middleware = new TenantFastifyMiddleware(
+        mockTenantContextService,
+        mockConfigService,
+        undefined,
+        mockTenantResolver,
+      );
+      (middleware as any).logger = mockLogger;
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategy: 'custom',
+        defaultTenant: 'default-tenant',
+      });
+      Object.assign(mockRequest, {
+        originalUrl: '/orders?region=eu&tag=a&tag=b',
+        ip: '10.0.0.1',
+      });
+    });
+
+    it('should resolve the tenant with a normalized request', async () => {
+      // Arrange
+      mockRequest.headers = {
+        host: 'Acme.Example.com:3000',
+        'x-api-key': 'key-123',
+      };
+      mockTenantResolver.resolve.mockResolvedValue('acme');
+
+      // Act
+      await middleware.use(mockRequest, mockReply, mockDone);
+
+      // Assert
+      const request = mockTenantResolver.resolve.mock.calls[0][0];
+      expect(request).toMatchObject({
+        method: 'GET',
+        url: '/orders?region=eu&tag=a&tag=b',
+        path: '/orders',
+        hostname: 'acme.example.com',
+        ip: '10.0.0.1',
+        query: { region: 'eu', tag: ['a', 'b'] },
+        raw: mockRequest,
+      });
+      expect(request.header('X-Api-Key')).toBe('key-123');
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith('acme');
+      expect(mockRequest.tenant?.source).toBe('custom');
+    });
+
+    it('should prefer the resolver function when both are configured', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategy: 'custom',
+        customResolver: () => 'function-tenant',
+      });
+
+      // Act
+      await middleware.use(mockRequest, mockReply, mockDone);
+
+      // Assert
+      expect(mockTenantResolver.resolve).not.toHaveBeenCalled();
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'function-tenant',
+      );
+    });
+
+    it('should log resolver errors without setting a tenant', async () => {
+      // Arrange
+      mockTenantResolver.resolve.mockRejectedValue(new Error('Lookup failed'));
+
+      // Act
+      await middleware.use(mockRequest, mockReply, mockDone);
+
+      // Assert
+      expect(mockLogger.error).toHaveBeenCalled();
+      expect(mockTenantContextService.setContext).not.toHaveBeenCalled();
+    });
+
+    it('should warn when no resolver is available', async () => {
+      // Arrange
+      middleware = new TenantFastifyMiddleware(
+        mockTenantContextService,
+        mockConfigService,
+      );
+      (middleware as any).logger = mockLogger;
+
+      // Act
+      await middleware.use(mockRequest, mockReply, mockDone);
+
+      // Assert
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'neither a resolver function nor a resolverClass',
+        ),
+      );
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'default-tenant',
+      );
+    });
+  });
+
   describe('adaptFastifyRequest', () => {
     it('should adapt Fastify request to Express-like format', async () => {
       // Arrange
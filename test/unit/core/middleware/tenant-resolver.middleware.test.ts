@@ -1,17 +1,47 @@
+import { createHmac } from 'node:crypto';
+
 import { Logger } from '@nestjs/common';
 import { NextFunction, Response } from 'express';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
+import {
+  InvalidTenantTokenError,
+  JwtVerificationConfigError,
+  TenantResolutionConflictError,
+} from '../../../../src/core/exceptions/custom-errors';
 import {
   IMultiTenantConfigService,
+  ITenantConnectionService,
   ITenantContext,
   ITenantContextService,
+  TenantConnectionLease,
   TenantResolutionConfig,
 } from '../../../../src/core/interfaces/tenant.interface';
 import { TenantExpressRequest } from '../../../../src/core/interfaces/tenant-middleware.interface';
+import { TenantResolver } from '../../../../src/core/interfaces/tenant-resolver.interface';
+import { ITenantValidationStrategy } from '../../../../src/core/interfaces/tenant-validation.interface';
 import { TenantResolverMiddleware } from '../../../../src/core/middleware/tenant-resolver.middleware';
+import {
+  AsyncLocalTenantContextService,
+  TenantContext,
+} from '../../../../src/core/services/async-local-tenant-context.service';
+import { defaultSchemaNamingStrategy } from '../../../../src/core/services/multi-tenant-config.service';
 import { createMock, Mock } from '../../../utils/mock';
 
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const createToken = (payload: Record<string, unknown>) =>
+  `header.${encode(payload)}.signature`;
+
+const createSignedToken = (
+  payload: Record<string, unknown>,
+  secret: string,
+) => {
+  const input = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}`;
+  return `${input}.${createHmac('sha256', secret).update(input).digest('base64url')}`;
+};
+
 describe('TenantResolverMiddleware', () => {
   let middleware: TenantResolverMiddleware;
   let mockTenantContextService: Mock<ITenantContextService>;
@@ -43,12 +73,15 @@ describe('TenantResolverMiddleware', () => {
     mockRequest = createMock<TenantExpressRequest>({
       headers: {},
       url: '/test',
+      originalUrl: '/test',
       method: 'GET',
       query: {},
       params: {},
       body: {},
       get: vi.fn().mockReturnValue(undefined),
     });
+    // Plain headers object, so unset headers read as undefined
+    mockRequest.headers = {};
 
     // Mock del response de Express
     mockResponse = createMock<Response>();
@@ -100,6 +133,7 @@ describe('TenantResolverMiddleware', () => {
       expect(mockRequest.tenant).toEqual({
         id: tenantId,
         schema: `tenant_${tenantId}`,
+        source: 'header',
       });
       expect(mockNext).toHaveBeenCalledWith();
       expect(mockLogger.debug).toHaveBeenCalledWith(
@@ -135,6 +169,7 @@ describe('TenantResolverMiddleware', () => {
       expect(mockRequest.tenant).toEqual({
         id: tenantId,
         schema: `tenant_${tenantId}`,
+        source: 'header',
       });
     });
 
@@ -158,6 +193,7 @@ describe('TenantResolverMiddleware', () => {
       expect(mockRequest.tenant).toEqual({
         id: defaultTenant,
         schema: `tenant_${defaultTenant}`,
+        source: 'default',
       });
       expect(mockNext).toHaveBeenCalledWith();
       expect(mockLogger.debug).toHaveBeenCalledWith(
@@ -201,7 +237,7 @@ describe('TenantResolverMiddleware', () => {
     it('should resolve tenant from subdomain successfully', async () => {
       // Arrange
       const tenantId = 'subdomain-tenant';
-      mockRequest.get = vi.fn().mockReturnValue(`${tenantId}.example.com`);
+      mockRequest.headers = { host: `${tenantId}.example.com` };
       mockTenantContextService.getContext.mockReturnValue({
         tenantId,
         tenantSchema: `tenant_${tenantId}`,
@@ -212,13 +248,13 @@ describe('TenantResolverMiddleware', () => {
       await middleware.use(mockRequest, mockResponse, mockNext);
 
       // Assert
-      expect(mockRequest.get).toHaveBeenCalledWith('host');
       expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
         tenantId,
       );
       expect(mockRequest.tenant).toEqual({
         id: tenantId,
         schema: `tenant_${tenantId}`,
+        source: 'subdomain',
       });
       expect(mockLogger.debug).toHaveBeenCalledWith(
         `[Express] Tenant resolved using subdomain strategy: ${tenantId}`,
@@ -227,7 +263,7 @@ describe('TenantResolverMiddleware', () => {
 
     it('should handle missing host header', async () => {
       // Arrange
-      mockRequest.get = vi.fn().mockReturnValue(undefined);
+      mockRequest.headers = {};
       const defaultTenant = 'default-tenant';
       mockTenantContextService.getContext.mockReturnValue({
         tenantId: defaultTenant,
@@ -246,7 +282,7 @@ describe('TenantResolverMiddleware', () => {
 
     it('should handle invalid subdomain format', async () => {
       // Arrange
-      mockRequest.get = vi.fn().mockReturnValue('example.com'); // No subdomain
+      mockRequest.headers = { host: 'example.com' }; // No subdomain
       const defaultTenant = 'default-tenant';
       mockTenantContextService.getContext.mockReturnValue({
         tenantId: defaultTenant,
@@ -266,9 +302,7 @@ describe('TenantResolverMiddleware', () => {
     it('should handle complex subdomain structures', async () => {
       // Arrange
       const tenantId = 'multi';
-      mockRequest.get = vi
-        .fn()
-        .mockReturnValue('multi.level.subdomain.example.com');
+      mockRequest.headers = { host: 'multi.level.subdomain.example.com' };
       mockTenantContextService.getContext.mockReturnValue({
         tenantId,
         tenantSchema: `tenant_${tenantId}`,
@@ -320,6 +354,7 @@ describe('TenantResolverMiddleware', () => {
       expect(mockRequest.tenant).toEqual({
         id: tenantId,
         schema: `tenant_${tenantId}`,
+        source: 'jwt',
       });
       expect(mockLogger.debug).toHaveBeenCalledWith(
         `[Express] Tenant resolved using jwt strategy: ${tenantId}`,
@@ -475,6 +510,7 @@ describe('TenantResolverMiddleware', () => {
       expect(mockRequest.tenant).toEqual({
         id: tenantId,
         schema: `tenant_${tenantId}`,
+        source: 'custom',
       });
       expect(mockLogger.debug).toHaveBeenCalledWith(
         `[Express] Tenant resolved using custom strategy: ${tenantId}`,
@@ -551,6 +587,7 @@ describe('TenantResolverMiddleware', () => {
       expect(mockRequest.tenant).toEqual({
         id: defaultTenant,
         schema: `tenant_${defaultTenant}`,
+        source: 'default',
       });
       expect(mockLogger.debug).toHaveBeenCalledWith(
         `[Express] Using default tenant: ${defaultTenant}`,
@@ -731,7 +768,7 @@ describe('TenantResolverMiddleware', () => {
 
       it('should handle localhost development scenarios', async () => {
         // Arrange
-        mockRequest.get = vi.fn().mockReturnValue('localhost:3000');
+        mockRequest.headers = { host: 'localhost:3000' };
         // Para 'localhost:3000', host.split('.').slice(0, -2) resultaría en []
         // por lo que no habría tenant y se usaría el default
         const defaultTenant = 'default-tenant';
@@ -752,7 +789,7 @@ describe('TenantResolverMiddleware', () => {
 
       it('should handle IP addresses', async () => {
         // Arrange
-        mockRequest.get = vi.fn().mockReturnValue('192.168.1.1:3000');
+        mockRequest.headers = { host: '192.168.1.1:3000' };
         // Según el código, host.split('.').slice(0, -2) para '192.168.1.1:3000'
         // resultaría en ['192', '168'] y tomaría '192' como tenant
         const expectedTenant = '192';
@@ -830,6 +867,645 @@ describe('TenantResolverMiddleware', () => {
     });
   });
 
+  describe('use - Strategy Chain', () => {
+    beforeEach(() => {
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategies: [
+          'jwt',
+          { type: 'header', headerName: 'x-tenant-id' },
+          'subdomain',
+        ],
+        defaultTenant: 'default-tenant',
+      });
+      mockTenantContextService.getContext.mockImplementation(() => ({
+        tenantId: mockTenantContextService.setContext.mock.calls[0]?.[0],
+        tenantSchema: `tenant_${mockTenantContextService.setContext.mock.calls[0]?.[0]}`,
+        hasTenant: true,
+      }));
+    });
+
+    it('should stop at the first strategy that resolves a tenant', async () => {
+      // Arrange
+      mockRequest.headers = {
+        authorization: `Bearer ${createToken({ tenantId: 'jwt-tenant' })}`,
+        'x-tenant-id': 'header-tenant',
+      };
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledTimes(1);
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'jwt-tenant',
+      );
+      expect(mockRequest.tenant?.source).toBe('jwt');
+      expect(mockLogger.warn).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the next strategies in order', async () => {
+      // Arrange
+      mockRequest.headers = {};
+      mockRequest.headers.host = 'sub-tenant.example.com';
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'sub-tenant',
+      );
+      expect(mockRequest.tenant?.source).toBe('subdomain');
+      expect(mockLogger.debug).toHaveBeenCalledWith(
+        `[Express] Tenant resolved using subdomain strategy: sub-tenant`,
+      );
+    });
+
+    it('should use the default tenant when no strategy resolves', async () => {
+      // Arrange
+      mockRequest.headers = {};
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'default-tenant',
+      );
+      expect(mockRequest.tenant?.source).toBe('default');
+    });
+
+    it('should apply per-strategy options', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategies: [
+          { type: 'jwt', claimName: 'org' },
+          { type: 'header', headerName: 'x-org' },
+        ],
+      });
+      mockRequest.headers = {
+        authorization: `Bearer ${createToken({ tenantId: 'ignored', org: 'acme' })}`,
+      };
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith('acme');
+    });
+
+    it('should log a warning and keep the first hit with the log policy', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategies: ['jwt', 'header'],
+        conflictPolicy: 'log',
+      });
+      mockRequest.headers = {
+        authorization: `Bearer ${createToken({ tenantId: 'jwt-tenant' })}`,
+        'x-tenant-id': 'header-tenant',
+      };
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'jwt-tenant',
+      );
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        '[Express] Tenant resolution strategies disagree: jwt=jwt-tenant, header=header-tenant. Using jwt.',
+      );
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should reject the request when strategies disagree with the reject policy', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategies: ['jwt', 'header'],
+        conflictPolicy: 'reject',
+        defaultTenant: 'default-tenant',
+      });
+      mockRequest.headers = {
+        authorization: `Bearer ${createToken({ tenantId: 'jwt-tenant' })}`,
+        'x-tenant-id': 'header-tenant',
+      };
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockTenantContextService.setContext).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledTimes(1);
+      const error = vi.mocked(mockNext).mock
+        .calls[0][0] as unknown as TenantResolutionConflictError;
+      expect(error).toBeInstanceOf(TenantResolutionConflictError);
+      expect(error.candidates).toEqual([
+        { source: 'jwt', tenantId: 'jwt-tenant' },
+        { source: 'header', tenantId: 'header-tenant' },
+      ]);
+    });
+
+    it('should not reject when all strategies agree', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategies: ['jwt', 'header'],
+        conflictPolicy: 'reject',
+      });
+      mockRequest.headers = {
+        authorization: `Bearer ${createToken({ tenantId: 'same-tenant' })}`,
+        'x-tenant-id': 'same-tenant',
+      };
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'same-tenant',
+      );
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+  });
+
+  describe('use - Verified JWT', () => {
+    const secret = 'jwt-secret';
+
+    beforeEach(() => {
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategy: 'jwt',
+        jwtClaimName: 'tenantId',
+        jwtVerification: { secret, issuer: 'auth-service' },
+        defaultTenant: 'default-tenant',
+      });
+    });
+
+    it('should resolve the tenant from a verified token', async () => {
+      // Arrange
+      mockRequest.headers = {
+        authorization: `Bearer ${createSignedToken({ tenantId: 'verified-tenant', iss: 'auth-service' }, secret)}`,
+      };
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'verified-tenant',
+      );
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should reject an unsigned token instead of using the default tenant', async () => {
+      // Arrange
+      mockRequest.headers = {
+        authorization: `Bearer ${createToken({ tenantId: 'forged-tenant' })}`,
+      };
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockTenantContextService.setContext).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.any(InvalidTenantTokenError),
+      );
+    });
+
+    it('should reject a token with an unexpected issuer', async () => {
+      // Arrange
+      mockRequest.headers = {
+        authorization: `Bearer ${createSignedToken({ tenantId: 'verified-tenant', iss: 'other' }, secret)}`,
+      };
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockTenantContextService.setContext).not.toHaveBeenCalled();
+      const error = vi.mocked(mockNext).mock
+        .calls[0][0] as unknown as InvalidTenantTokenError;
+      expect(error).toBeInstanceOf(InvalidTenantTokenError);
+      expect(error.reason).toBe('Invalid issuer');
+    });
+
+    it('should use the default tenant when no token is sent', async () => {
+      // Arrange
+      mockRequest.headers = {};
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'default-tenant',
+      );
+    });
+
+    it('should reject the request when no verification key is configured', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategy: 'jwt',
+        jwtVerification: {},
+        defaultTenant: 'default-tenant',
+      });
+      mockRequest.headers = {
+        authorization: `Bearer ${createSignedToken({ tenantId: 'verified-tenant' }, secret)}`,
+      };
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockTenantContextService.setContext).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.any(JwtVerificationConfigError),
+      );
+    });
+  });
+
+  describe('use - Path and Query Strategies', () => {
+    it('should resolve the tenant from the default path pattern', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategy: 'path',
+      });
+      mockRequest.originalUrl = '/t/acme/orders';
+      mockRequest.url = '/t/acme/orders';
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith('acme');
+      expect(mockRequest.tenant?.source).toBe('path');
+    });
+
+    it('should resolve the tenant from a custom path pattern', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategies: [
+          { type: 'path', pattern: '/api/:version/tenants/:tenant' },
+        ],
+      });
+      mockRequest.originalUrl = '/api/v2/tenants/techcorp/users';
+      mockRequest.url = '/api/v2/tenants/techcorp/users';
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'techcorp',
+      );
+    });
+
+    it('should fall back to the default tenant when the path does not match', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategy: 'path',
+        defaultTenant: 'default-tenant',
+      });
+      mockRequest.originalUrl = '/orders';
+      mockRequest.url = '/orders';
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'default-tenant',
+      );
+    });
+
+    it('should strip the tenant prefix from the URL when configured', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategies: ['header', { type: 'path', stripPrefix: true }],
+      });
+      mockRequest.headers = { 'x-tenant-id': 'header-tenant' };
+      mockRequest.originalUrl = '/t/acme/orders?page=2';
+      mockRequest.url = '/t/acme/orders?page=2';
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'header-tenant',
+      );
+      expect(mockRequest.url).toBe('/orders?page=2');
+      expect(mockRequest.originalUrl).toBe('/t/acme/orders?page=2');
+    });
+
+    it('should keep the URL when stripping is disabled', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategy: 'path',
+      });
+      mockRequest.originalUrl = '/t/acme/orders';
+      mockRequest.url = '/t/acme/orders';
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockRequest.url).toBe('/t/acme/orders');
+    });
+
+    it('should resolve the tenant from the query parameter', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategy: 'query',
+      });
+      mockRequest.originalUrl = '/webhooks/stripe?tenant=acme&event=paid';
+      mockRequest.url = '/webhooks/stripe?tenant=acme&event=paid';
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith('acme');
+      expect(mockRequest.tenant?.source).toBe('query');
+    });
+
+    it('should use the configured query parameter name', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategies: [{ type: 'query', parameterName: 'org' }],
+      });
+      mockRequest.originalUrl = '/webhooks?tenant=ignored&org=techcorp';
+      mockRequest.url = '/webhooks?tenant=ignored&org=techcorp';
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'techcorp',
+      );
+    });
+  });
+
+  describe('use - Domain Strategy', () => {
+    let mockValidationStrategy: Mock<ITenantValidationStrategy>;
+
+    beforeEach(() => {
+      mockValidationStrategy = createMock<ITenantValidationStrategy>();
+      middleware = new TenantResolverMiddleware(
+        mockTenantContextService,
+        mockConfigService,
+        mockValidationStrategy,
+      );
+      (middleware as any).logger = mockLogger;
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategy: 'domain',
+        baseDomain: 'example.co.uk',
+        defaultTenant: 'default-tenant',
+      });
+      mockConfigService.getSchemaNamingStrategy.mockReturnValue(
+        defaultSchemaNamingStrategy,
+      );
+    });
+
+    it('should resolve subdomains of a multi-level base domain', async () => {
+      // Arrange
+      mockRequest.headers.host = 'acme.example.co.uk';
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith('acme');
+      expect(mockValidationStrategy.findByDomain).not.toHaveBeenCalled();
+    });
+
+    it('should ignore the www subdomain of the base domain', async () => {
+      // Arrange
+      mockRequest.headers.host = 'www.example.co.uk';
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'default-tenant',
+      );
+    });
+
+    it('should resolve verified custom domains through the validation strategy', async () => {
+      // Arrange
+      mockRequest.headers.host = 'portal.customer.com';
+      vi.mocked(mockValidationStrategy.findByDomain!).mockResolvedValue({
+        code: 'tenant_customer',
+      } as any);
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockValidationStrategy.findByDomain).toHaveBeenCalledWith(
+        'portal.customer.com',
+      );
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'customer',
+      );
+      expect(mockRequest.tenant?.source).toBe('domain');
+    });
+
+    it('should ignore www for the subdomain strategy', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategy: 'subdomain',
+        defaultTenant: 'default-tenant',
+      });
+      mockRequest.headers.host = 'www.example.com';
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'default-tenant',
+      );
+    });
+  });
+
+  describe('use - Resolver Class', () => {
+    let mockTenantResolver: Mock<TenantResolver>;
+
+    beforeEach(() => {
+      mockTenantResolver = createMock<TenantResolver>();
+      middleware = new TenantResolverMiddleware(
+        mockTenantContextService,
+        mockConfigService,
+        undefined,
+        mockTenantResolver,
+      );
+      (middleware as any).logger = mockLogger;
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategy: 'custom',
+        defaultTenant: 'default-tenant',
+      });
+      Object.assign(mockRequest, {
+        originalUrl: '/orders?region=eu&tag=a&tag=b',
+        ip: '10.0.0.1',
+      });
+    });
+
+    it('should resolve the tenant with a normalized request', async () => {
+      // Arrange
+      mockRequest.headers = {
+        host: 'Acme.Example.com:3000',
+        'x-api-key': 'key-123',
+      };
+      mockTenantResolver.resolve.mockResolvedValue('acme');
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      const request = mockTenantResolver.resolve.mock.calls[0][0];
+      expect(request).toMatchObject({
+        method: 'GET',
+        url: '/orders?region=eu&tag=a&tag=b',
+        path: '/orders',
+        hostname: 'acme.example.com',
+        ip: '10.0.0.1',
+        query: { region: 'eu', tag: ['a', 'b'] },
+        raw: mockRequest,
+      });
+      expect(request.header('X-Api-Key')).toBe('key-123');
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith('acme');
+      expect(mockRequest.tenant?.source).toBe('custom');
+    });
+
+    it('should prefer the resolver function when both are configured', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategy: 'custom',
+        customResolver: () => 'function-tenant',
+      });
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockTenantResolver.resolve).not.toHaveBeenCalled();
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'function-tenant',
+      );
+    });
+
+    it('should log resolver errors without setting a tenant', async () => {
+      // Arrange
+      mockTenantResolver.resolve.mockRejectedValue(new Error('Lookup failed'));
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockLogger.error).toHaveBeenCalled();
+      expect(mockTenantContextService.setContext).not.toHaveBeenCalled();
+    });
+
+    it('should warn when no resolver is available', async () => {
+      // Arrange
+      middleware = new TenantResolverMiddleware(
+        mockTenantContextService,
+        mockConfigService,
+      );
+      (middleware as any).logger = mockLogger;
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'neither a resolver function nor a resolverClass',
+        ),
+      );
+      expect(mockTenantContextService.setContext).toHaveBeenCalledWith(
+        'default-tenant',
+      );
+    });
+  });
+
+  describe('use - Async Local Context', () => {
+    let asyncContextService: AsyncLocalTenantContextService;
+    let mockConnectionService: Mock<ITenantConnectionService>;
+
+    beforeEach(() => {
+      mockConfigService.getSchemaNamingStrategy.mockReturnValue(
+        defaultSchemaNamingStrategy,
+      );
+      asyncContextService = new AsyncLocalTenantContextService(
+        mockConfigService,
+      );
+      mockConnectionService = createMock<ITenantConnectionService>();
+      middleware = new TenantResolverMiddleware(
+        asyncContextService,
+        mockConfigService,
+        undefined,
+        undefined,
+        mockConnectionService,
+      );
+      (middleware as any).logger = mockLogger;
+    });
+
+    it('should lease the tenant connection and run the handler in the tenant context', async () => {
+      // Arrange
+      mockRequest.headers = { 'x-tenant-id': 'acme' };
+      const lease = createMock<TenantConnectionLease>();
+      mockConnectionService.acquire.mockResolvedValue(lease);
+      const next = vi.fn(() => TenantContext.current());
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, next);
+
+      // Assert
+      expect(mockConnectionService.acquire).toHaveBeenCalledWith('tenant_acme');
+      expect(mockResponse.once).toHaveBeenCalledWith('close', lease.release);
+      expect(next.mock.results[0].value).toMatchObject({
+        tenantId: 'acme',
+        tenantSchema: 'tenant_acme',
+      });
+    });
+
+    it('should continue when the tenant connection cannot be opened', async () => {
+      // Arrange
+      mockRequest.headers = { 'x-tenant-id': 'ghost' };
+      mockConnectionService.acquire.mockRejectedValue(
+        new Error('Schema not found: tenant_ghost'),
+      );
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith();
+      expect(mockLogger.error).not.toHaveBeenCalled();
+    });
+
+    it('should not open connections with the request-scoped context', async () => {
+      // Arrange
+      middleware = new TenantResolverMiddleware(
+        mockTenantContextService,
+        mockConfigService,
+        undefined,
+        undefined,
+        mockConnectionService,
+      );
+      mockRequest.headers = { 'x-tenant-id': 'acme' };
+
+      // Act
+      await middleware.use(mockRequest, mockResponse, mockNext);
+
+      // Assert
+      expect(mockConnectionService.acquire).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Integration Scenarios', () => {
     it('should handle multiple resolution attempts with fallback', async () => {
       // Arrange - First try header (fails), then use default
@@ -851,6 +1527,7 @@ describe('TenantResolverMiddleware', () => {
       expect(mockRequest.tenant).toEqual({
         id: defaultTenant,
         schema: `tenant_${defaultTenant}`,
+        source: 'default',
       });
     });
 
@@ -877,6 +1554,7 @@ describe('TenantResolverMiddleware', () => {
       expect(mockRequest.tenant).toEqual({
         id: tenantId1,
         schema: `tenant_${tenantId1}`,
+        source: 'header',
       });
 
       // Reset mocks for second request
@@ -884,9 +1562,11 @@ describe('TenantResolverMiddleware', () => {
 
       // Second request setup
       const mockRequest2 = createMock<TenantExpressRequest>({
-        headers: { 'x-tenant-id': tenantId2 },
+        url: '/test',
+        originalUrl: '/test',
         get: vi.fn(),
       });
+      mockRequest2.headers = { 'x-tenant-id': tenantId2 };
       mockTenantContextService.getContext.mockReturnValue({
         tenantId: tenantId2,
         tenantSchema: `tenant_${tenantId2}`,
@@ -903,6 +1583,7 @@ describe('TenantResolverMiddleware', () => {
       expect(mockRequest2.tenant).toEqual({
         id: tenantId2,
         schema: `tenant_${tenantId2}`,
+        source: 'header',
       });
     });
   });
@@ -0,0 +1,118 @@
+import { FactoryProvider } from '@nestjs/common';
+import { ClientProxy } from '@nestjs/microservices';
+import { of } from 'rxjs';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  IMultiTenantConfigService,
+  ITenantContextService,
+} from '../../../../src/core/interfaces/tenant.interface';
+import {
+  createTenantClientProvider,
+  TenantClientProxy,
+} from '../../../../src/core/providers/tenant-client.provider';
+import { MULTI_TENANT_CONFIG_SERVICE } from '../../../../src/core/services/multi-tenant-config.service';
+import { TENANT_CONTEXT_SERVICE } from '../../../../src/core/services/tenant-context.service';
+import { createMock, Mock } from '../../../utils/mock';
+
+describe('TenantClientProxy', () => {
+  let mockClient: Mock<ClientProxy>;
+  let mockTenantContextService: Mock<ITenantContextService>;
+  let proxy: TenantClientProxy;
+
+  const setTenant = (tenantId?: string) => {
+    mockTenantContextService.getContext.mockReturnValue({
+      tenantId,
+      tenantSchema: tenantId ? `tenant_${tenantId}` : undefined,
+      hasTenant: tenantId !== undefined,
+    });
+  };
+
+  beforeEach(() => {
+    mockClient = createMock<ClientProxy>();
+    mockClient.send.mockReturnValue(of('sent'));
+    mockClient.emit.mockReturnValue(of('emitted'));
+    mockTenantContextService = createMock<ITenantContextService>();
+    setTenant('acme');
+
+    proxy = new TenantClientProxy(mockClient, mockTenantContextService);
+  });
+
+  it('should stamp the current tenant on sent messages', () => {
+    // Act
+    proxy.send('orders.find', { status: 'open' });
+
+    // Assert
+    expect(mockClient.send).toHaveBeenCalledWith('orders.find', {
+      status: 'open',
+      tenantId: 'acme',
+    });
+  });
+
+  it('should stamp the current tenant on emitted events', () => {
+    // Act
+    proxy.emit('order.created', { orderId: 1 });
+
+    // Assert
+    expect(mockClient.emit).toHaveBeenCalledWith('order.created', {
+      orderId: 1,
+      tenantId: 'acme',
+    });
+  });
+
+  it('should send the payload unchanged without a tenant', () => {
+    // Arrange
+    setTenant();
+    const data = { status: 'open' };
+
+    // Act
+    proxy.send('orders.find', data);
+
+    // Assert
+    expect(mockClient.send).toHaveBeenCalledWith('orders.find', data);
+  });
+
+  it('should use the configured payload key', () => {
+    // Arrange
+    proxy = new TenantClientProxy(mockClient, mockTenantContextService, {
+      payloadKey: 'org',
+    });
+
+    // Act
+    proxy.send('orders.find', {});
+
+    // Assert
+    expect(mockClient.send).toHaveBeenCalledWith('orders.find', {
+      org: 'acme',
+    });
+  });
+});
+
+describe('createTenantClientProvider', () => {
+  it('should wrap the registered client with the module configuration', () => {
+    // Arrange
+    const client = createMock<ClientProxy>();
+    const configService = createMock<IMultiTenantConfigService>();
+    configService.getMicroserviceConfig.mockReturnValue({ payloadKey: 'org' });
+
+    // Act
+    const provider = createTenantClientProvider(
+      'ORDERS_SERVICE',
+    ) as FactoryProvider;
+    const proxy = provider.useFactory(
+      client,
+      createMock<ITenantContextService>(),
+      configService,
+    );
+
+    // Assert
+    expect(provider.provide).toBe('TENANT_CLIENT_ORDERS_SERVICE');
+    expect(provider.inject).toEqual([
+      'ORDERS_SERVICE',
+      TENANT_CONTEXT_SERVICE,
+      MULTI_TENANT_CONFIG_SERVICE,
+    ]);
+    expect(proxy).toBeInstanceOf(TenantClientProxy);
+    expect(proxy.client).toBe(client);
+  });
+});
@@ -1,10 +1,15 @@
 // eslint-disable-next-line @typescript-eslint/ban-ts-comment
 // @ts-nocheck
+import { IncomingMessage } from 'node:http';
+import { Socket } from 'node:net';
+
 import { Provider } from '@nestjs/common';
 import { DataSource, EntityTarget, ObjectLiteral, Repository } from 'typeorm';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
+import { NoTenantContextError } from '../../../../src/core/exceptions/custom-errors';
 import {
+  IMultiTenantConfigService,
   ITenantConnectionService,
   ITenantContext,
   ITenantContextService,
@@ -15,9 +20,21 @@ import {
   createTenantRepositoryProvider,
   createTenantRepositoryProviders,
   TenantDataSourceProvider,
+  TenantDrizzleReadDbProvider,
 } from '../../../../src/core/providers/tenant-repository.provider';
+import {
+  AsyncLocalTenantContextService,
+  TenantContext,
+} from '../../../../src/core/services/async-local-tenant-context.service';
+import {
+  defaultSchemaNamingStrategy,
+  MULTI_TENANT_CONFIG_SERVICE,
+} from '../../../../src/core/services/multi-tenant-config.service';
 import { TENANT_CONNECTION_SERVICE } from '../../../../src/core/services/tenant-connection.service';
-import { TENANT_CONTEXT_SERVICE } from '../../../../src/core/services/tenant-context.service';
+import {
+  TENANT_CONTEXT_SERVICE,
+  TenantContextService,
+} from '../../../../src/core/services/tenant-context.service';
 import {
   getTenantRepositoryToken,
   TOKEN_CONSTANTS,
@@ -49,6 +66,7 @@ class MockProductEntity {
 describe('tenant-repository.provider', () => {
   let mockTenantConnectionService: Mock<ITenantConnectionService>;
   let mockTenantContextService: Mock<ITenantContextService>;
+  let mockConfigService: Mock<IMultiTenantConfigService>;
   let mockDataSource: Mock<DataSource>;
   let mockRepository: Mock<Repository<any>>;
 
@@ -68,6 +86,7 @@ describe('tenant-repository.provider', () => {
     // Crear mocks de servicios
     mockTenantConnectionService = createMock<ITenantConnectionService>();
     mockTenantContextService = createMock<ITenantContextService>();
+    mockConfigService = createMock<IMultiTenantConfigService>();
     mockDataSource = createMock<DataSource>();
     mockRepository = createMock<Repository<any>>();
 
@@ -77,6 +96,9 @@ describe('tenant-repository.provider', () => {
     // Configurar comportamiento por defecto de los mocks
     mockTenantContextService.getContext.mockReturnValue(mockTenantContext);
     mockDataSource.getRepository.mockReturnValue(mockRepository);
+    mockConfigService.getSchemaNamingStrategy.mockReturnValue(
+      (tenantId: string) => `tenant_${tenantId}`,
+    );
 
     // Ahora getConnectionForSchema debe retornar el mock de conexión TypeORM
     mockTenantConnectionService.getConnectionForSchema.mockResolvedValue(
@@ -400,7 +422,10 @@ describe('tenant-repository.provider', () => {
       expect(provider).toBeDefined();
       expect(provider.provide).toBe(`TENANT_REPOSITORY_User_${tenantId}`);
       expect(provider.useFactory).toBeInstanceOf(Function);
-      expect(provider.inject).toEqual([TENANT_CONNECTION_SERVICE]);
+      expect(provider.inject).toEqual([
+        TENANT_CONNECTION_SERVICE,
+        MULTI_TENANT_CONFIG_SERVICE,
+      ]);
     });
 
     it('debería crear provider con token único para diferentes tenants', () => {
@@ -436,7 +461,10 @@ describe('tenant-repository.provider', () => {
         );
 
         // Act
-        const result = await provider.useFactory!(mockTenantConnectionService);
+        const result = await provider.useFactory!(
+          mockTenantConnectionService,
+          mockConfigService,
+        );
 
         // Assert
         expect(result).toBe(mockRepository);
@@ -461,7 +489,7 @@ describe('tenant-repository.provider', () => {
 
         // Act & Assert
         await expect(
-          provider.useFactory!(mockTenantConnectionService),
+          provider.useFactory!(mockTenantConnectionService, mockConfigService),
         ).rejects.toThrow('Specific tenant connection failed');
       });
 
@@ -473,14 +501,20 @@ describe('tenant-repository.provider', () => {
           entity,
           tenantId,
         );
+        mockConfigService.getSchemaNamingStrategy.mockReturnValue(
+          (id: string) => `org_${id}`,
+        );
 
         // Act
-        await provider.useFactory!(mockTenantConnectionService);
+        await provider.useFactory!(
+          mockTenantConnectionService,
+          mockConfigService,
+        );
 
         // Assert
         expect(
           mockTenantConnectionService.getConnectionForSchema,
-        ).toHaveBeenCalledWith('tenant_company-123');
+        ).toHaveBeenCalledWith('org_company-123');
       });
 
       // Nueva prueba: verificar que lance error cuando la conexión no es TypeORM
@@ -505,7 +539,7 @@ describe('tenant-repository.provider', () => {
 
         // Act & Assert
         await expect(
-          provider.useFactory!(mockTenantConnectionService),
+          provider.useFactory!(mockTenantConnectionService, mockConfigService),
         ).rejects.toThrow(
           'Cannot create TypeORM repository with non-TypeORM connection',
         );
@@ -527,7 +561,10 @@ describe('tenant-repository.provider', () => {
         `TENANT_REPOSITORY_User${TOKEN_CONSTANTS.FACTORY_SUFFIX}`,
       );
       expect(provider.useFactory).toBeInstanceOf(Function);
-      expect(provider.inject).toEqual([TENANT_CONNECTION_SERVICE]);
+      expect(provider.inject).toEqual([
+        TENANT_CONNECTION_SERVICE,
+        MULTI_TENANT_CONFIG_SERVICE,
+      ]);
     });
 
     it('debería crear factory con tokens únicos para diferentes entidades', () => {
@@ -552,7 +589,10 @@ describe('tenant-repository.provider', () => {
         const provider = createTenantRepositoryFactory(entity);
 
         // Act
-        const factory = provider.useFactory!(mockTenantConnectionService);
+        const factory = provider.useFactory!(
+          mockTenantConnectionService,
+          mockConfigService,
+        );
 
         // Assert
         expect(factory).toBeInstanceOf(Function);
@@ -565,7 +605,10 @@ describe('tenant-repository.provider', () => {
         const tenantId = 'factory-tenant';
 
         // Act
-        const factory = provider.useFactory!(mockTenantConnectionService);
+        const factory = provider.useFactory!(
+          mockTenantConnectionService,
+          mockConfigService,
+        );
         const result = await factory(tenantId);
 
         // Assert
@@ -580,7 +623,10 @@ describe('tenant-repository.provider', () => {
         // Arrange
         const entity = MockUserEntity;
         const provider = createTenantRepositoryFactory(entity);
-        const factory = provider.useFactory!(mockTenantConnectionService);
+        const factory = provider.useFactory!(
+          mockTenantConnectionService,
+          mockConfigService,
+        );
 
         // Act
         await factory('tenant-1');
@@ -602,7 +648,10 @@ describe('tenant-repository.provider', () => {
         // Arrange
         const entity = MockUserEntity;
         const provider = createTenantRepositoryFactory(entity);
-        const factory = provider.useFactory!(mockTenantConnectionService);
+        const factory = provider.useFactory!(
+          mockTenantConnectionService,
+          mockConfigService,
+        );
         const connectionError = new Error('Factory connection failed');
         mockTenantConnectionService.getConnectionForSchema.mockRejectedValue(
           connectionError,
@@ -619,7 +668,10 @@ describe('tenant-repository.provider', () => {
         // Arrange
         const entity = MockUserEntity;
         const provider = createTenantRepositoryFactory(entity);
-        const factory = provider.useFactory!(mockTenantConnectionService);
+        const factory = provider.useFactory!(
+          mockTenantConnectionService,
+          mockConfigService,
+        );
 
         // Simular una conexión Drizzle (no TypeORM)
         const drizzleConnection = {
@@ -639,6 +691,217 @@ describe('tenant-repository.provider', () => {
     });
   });
 
+  describe('TenantDrizzleReadDbProvider', () => {
+    it('debería retornar la instancia de lectura de las réplicas', async () => {
+      // Arrange
+      const db = {};
+      const readDb = {};
+      mockTenantConnectionService.getConnectionForSchema.mockResolvedValue({
+        type: 'drizzle',
+        db,
+        readDb,
+      });
+
+      // Act
+      const result = await TenantDrizzleReadDbProvider.useFactory!(
+        mockTenantConnectionService,
+        mockTenantContextService,
+      );
+
+      // Assert
+      expect(TenantDrizzleReadDbProvider.provide).toBe(
+        TOKEN_CONSTANTS.DRIZZLE_READ_DB,
+      );
+      expect(result).toBe(readDb);
+    });
+
+    it('debería retornar la instancia principal cuando no hay réplicas', async () => {
+      // Arrange
+      const db = {};
+      mockTenantConnectionService.getConnectionForSchema.mockResolvedValue({
+        type: 'drizzle',
+        db,
+      });
+
+      // Act
+      const result = await TenantDrizzleReadDbProvider.useFactory!(
+        mockTenantConnectionService,
+        mockTenantContextService,
+      );
+
+      // Assert
+      expect(result).toBe(db);
+    });
+
+    it('debería lanzar error cuando la conexión no es Drizzle', async () => {
+      // Act & Assert
+      await expect(
+        TenantDrizzleReadDbProvider.useFactory!(
+          mockTenantConnectionService,
+          mockTenantContextService,
+        ),
+      ).rejects.toThrow(
+        'Cannot provide Drizzle DB with non-Drizzle connection',
+      );
+    });
+  });
+
+  describe('Leases de conexión', () => {
+    let release: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      release = vi.fn();
+      mockTenantConnectionService.acquire.mockResolvedValue({
+        schema: 'tenant_test-tenant',
+        connection: mockTypeOrmConnection,
+        release,
+      });
+    });
+
+    it('debería mantener el lease hasta que termine la petición HTTP', async () => {
+      // Arrange
+      const request = new IncomingMessage(new Socket());
+      const contextService = new TenantContextService(
+        mockConfigService,
+        request,
+      );
+      contextService.setContext('test-tenant');
+      const provider = createTenantRepositoryProvider(MockUserEntity);
+
+      // Act
+      const repository = await provider.useFactory!(
+        mockTenantConnectionService,
+        contextService,
+      );
+
+      // Assert
+      expect(repository).toBe(mockRepository);
+      expect(mockTenantConnectionService.acquire).toHaveBeenCalledWith(
+        'tenant_test-tenant',
+      );
+      expect(release).not.toHaveBeenCalled();
+
+      request.emit('close');
+      expect(release).toHaveBeenCalledTimes(1);
+    });
+
+    it('debería liberar el lease de inmediato fuera de peticiones HTTP', async () => {
+      // Arrange
+      const contextService = new TenantContextService(mockConfigService, {
+        pattern: 'orders.find',
+      });
+      contextService.setContext('test-tenant');
+
+      // Act
+      await TenantDataSourceProvider.useFactory!(
+        mockTenantConnectionService,
+        contextService,
+      );
+
+      // Assert
+      expect(release).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Modo async-local-storage', () => {
+    let asyncContextService: AsyncLocalTenantContextService;
+
+    beforeEach(() => {
+      mockConfigService.getSchemaNamingStrategy.mockReturnValue(
+        defaultSchemaNamingStrategy,
+      );
+      asyncContextService = new AsyncLocalTenantContextService(
+        mockConfigService,
+      );
+      mockTenantConnectionService.getPooledConnection.mockReturnValue(
+        undefined,
+      );
+    });
+
+    it('debería retornar un proxy singleton sin abrir conexiones', async () => {
+      // Arrange
+      const provider = createTenantRepositoryProvider(MockUserEntity);
+
+      // Act
+      const repository = await provider.useFactory!(
+        mockTenantConnectionService,
+        asyncContextService,
+      );
+
+      // Assert
+      expect(repository).not.toBe(mockRepository);
+      expect(repository.then).toBeUndefined();
+      expect(repository.onModuleInit).toBeUndefined();
+      expect(
+        mockTenantConnectionService.getConnectionForSchema,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('debería usar la conexión abierta del tenant actual en cada llamada', async () => {
+      // Arrange
+      const provider = createTenantRepositoryProvider(MockUserEntity);
+      const repository = await provider.useFactory!(
+        mockTenantConnectionService,
+        asyncContextService,
+      );
+      mockTenantConnectionService.getPooledConnection.mockReturnValue(
+        mockTypeOrmConnection,
+      );
+      mockRepository.create.mockReturnValue({ id: '1' });
+
+      // Act
+      const entity = TenantContext.run('acme', () =>
+        repository.create({ id: '1' }),
+      );
+
+      // Assert
+      expect(entity).toEqual({ id: '1' });
+      expect(
+        mockTenantConnectionService.getPooledConnection,
+      ).toHaveBeenCalledWith('tenant_acme');
+      expect(mockDataSource.getRepository).toHaveBeenCalledWith(MockUserEntity);
+    });
+
+    it('debería abrir la conexión en métodos cuando no está abierta', async () => {
+      // Arrange
+      const provider = createTenantRepositoryProvider(MockUserEntity);
+      const repository = await provider.useFactory!(
+        mockTenantConnectionService,
+        asyncContextService,
+      );
+      const release = vi.fn();
+      mockTenantConnectionService.acquire.mockResolvedValue({
+        schema: 'tenant_acme',
+        connection: mockTypeOrmConnection,
+        release,
+      });
+      mockRepository.find.mockResolvedValue([{ id: '1' }]);
+
+      // Act
+      const result = await TenantContext.run('acme', () => repository.find());
+
+      // Assert
+      expect(result).toEqual([{ id: '1' }]);
+      expect(mockTenantConnectionService.acquire).toHaveBeenCalledWith(
+        'tenant_acme',
+      );
+      expect(release).toHaveBeenCalledTimes(1);
+    });
+
+    it('debería lanzar NoTenantContextError fuera de un contexto de tenant', async () => {
+      // Arrange
+      const repository = await TenantDataSourceProvider.useFactory!(
+        mockTenantConnectionService,
+        asyncContextService,
+      );
+
+      // Act & Assert
+      expect(() => repository.getRepository(MockUserEntity)).toThrow(
+        NoTenantContextError,
+      );
+    });
+  });
+
   describe('Verificación de tipos y contratos', () => {
     it('debería retornar providers que implementen la interfaz Provider correctamente', () => {
       // Arrange
@@ -775,7 +1038,10 @@ describe('tenant-repository.provider', () => {
       );
 
       // Act
-      await provider.useFactory!(mockTenantConnectionService);
+      await provider.useFactory!(
+        mockTenantConnectionService,
+        mockConfigService,
+      );
 
       // Assert
       expect(
@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { IMultiTenantConfigService } from '../../../../src/core/interfaces/tenant.interface';
+import {
+  AsyncLocalTenantContextService,
+  TenantContext,
+} from '../../../../src/core/services/async-local-tenant-context.service';
+import { defaultSchemaNamingStrategy } from '../../../../src/core/services/multi-tenant-config.service';
+import { createMock, Mock } from '../../../utils/mock';
+
+describe('AsyncLocalTenantContextService', () => {
+  let service: AsyncLocalTenantContextService;
+  let mockConfigService: Mock<IMultiTenantConfigService>;
+
+  beforeEach(() => {
+    mockConfigService = createMock<IMultiTenantConfigService>();
+    mockConfigService.getSchemaNamingStrategy.mockReturnValue(
+      defaultSchemaNamingStrategy,
+    );
+
+    service = new AsyncLocalTenantContextService(mockConfigService);
+  });
+
+  describe('TenantContext', () => {
+    it('should have no context outside of run()', () => {
+      // Act & Assert
+      expect(TenantContext.current()).toBeUndefined();
+      expect(service.getContext()).toEqual({
+        tenantId: undefined,
+        tenantSchema: undefined,
+        hasTenant: false,
+      });
+    });
+
+    it('should keep the tenant across async calls inside run()', async () => {
+      // Act
+      const context = await TenantContext.run('acme', async () => {
+        await new Promise(resolve => setTimeout(resolve, 1));
+        return TenantContext.current();
+      });
+
+      // Assert
+      expect(context).toEqual({
+        tenantId: 'acme',
+        tenantSchema: 'tenant_acme',
+        hasTenant: true,
+      });
+      expect(TenantContext.current()).toBeUndefined();
+    });
+
+    it('should isolate concurrent runs', async () => {
+      // Act
+      const schemas = await Promise.all(
+        ['acme', 'globex'].map(tenantId =>
+          TenantContext.run(tenantId, async () => {
+            await new Promise(resolve => setTimeout(resolve, 1));
+            return service.getTenantSchema();
+          }),
+        ),
+      );
+
+      // Assert
+      expect(schemas).toEqual(['tenant_acme', 'tenant_globex']);
+    });
+
+    it('should use the configured schema naming strategy', () => {
+      // Arrange
+      mockConfigService.getSchemaNamingStrategy.mockReturnValue(
+        tenantId => `org_${tenantId}`,
+      );
+      service = new AsyncLocalTenantContextService(mockConfigService);
+
+      // Act
+      const schema = service.run('acme', () => service.getTenantSchema());
+      const nestedSchema = service.run('acme', () =>
+        TenantContext.run('globex', () => service.getTenantSchema()),
+      );
+
+      // Assert
+      expect(schema).toBe('org_acme');
+      expect(nestedSchema).toBe('org_globex');
+    });
+
+    it('should not share the naming strategy between instances', () => {
+      // Arrange
+      mockConfigService.getSchemaNamingStrategy.mockReturnValue(
+        tenantId => `org_${tenantId}`,
+      );
+      const customService = new AsyncLocalTenantContextService(
+        mockConfigService,
+      );
+
+      // Act
+      const schema = service.run('acme', () => customService.getTenantSchema());
+      const defaultSchema = TenantContext.run('acme', () =>
+        customService.getTenantSchema(),
+      );
+
+      // Assert
+      expect(schema).toBe('tenant_acme');
+      expect(defaultSchema).toBe('tenant_acme');
+    });
+  });
+
+  describe('runInScope', () => {
+    it('should start without a tenant until setContext is called', async () => {
+      // Act
+      const context = await service.runInScope(async () => {
+        expect(TenantContext.current()).toBeUndefined();
+        service.setContext('acme');
+        await Promise.resolve();
+        return service.getContext();
+      });
+
+      // Assert
+      expect(context).toEqual({
+        tenantId: 'acme',
+        tenantSchema: 'tenant_acme',
+        hasTenant: true,
+      });
+    });
+
+    it('should reject setContext outside of a scope', () => {
+      // Act & Assert
+      expect(() => service.setContext('acme')).toThrow(
+        'No tenant scope to set the tenant in',
+      );
+      expect(TenantContext.current()).toBeUndefined();
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { beforeEach, describe, expect, it } from 'vitest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 import { EntityRegistryType } from '../../../../src/config/entity.registry';
 import { EntityName, TenantPreset } from '../../../../src/constants';
@@ -7,7 +7,11 @@ import {
   ConnectionPoolConfig,
   DatabaseConfig,
 } from '../../../../src/core/interfaces/typeorm.interface';
-import { MultiTenantConfigService } from '../../../../src/core/services/multi-tenant-config.service';
+import {
+  defaultSchemaNamingStrategy,
+  MultiTenantConfigService,
+  tenantIdFromCode,
+} from '../../../../src/core/services/multi-tenant-config.service';
 
 // Mock data factories
 const createMockDatabaseConfig = (): DatabaseConfig => ({
@@ -355,6 +359,106 @@ describe('MultiTenantConfigService', () => {
     });
   });
 
+  describe('isAutoCreateDatabasesEnabled', () => {
+    it('should return true when auto create databases is enabled', () => {
+      mockOptions.autoCreateDatabases = true;
+      service = new MultiTenantConfigService(mockOptions);
+
+      expect(service.isAutoCreateDatabasesEnabled()).toBe(true);
+    });
+
+    it('should return false when auto create databases is not specified (default)', () => {
+      expect(service.isAutoCreateDatabasesEnabled()).toBe(false);
+    });
+  });
+
+  describe('getConnectionMode', () => {
+    it('should return the configured connection mode', () => {
+      mockOptions.connectionMode = 'shared-pool';
+      service = new MultiTenantConfigService(mockOptions);
+
+      expect(service.getConnectionMode()).toBe('shared-pool');
+    });
+
+    it('should default to a pool per tenant', () => {
+      expect(service.getConnectionMode()).toBe('pool-per-tenant');
+    });
+  });
+
+  describe('getIsolation', () => {
+    it('should return the configured isolation', () => {
+      mockOptions.isolation = 'database';
+      service = new MultiTenantConfigService(mockOptions);
+
+      expect(service.getIsolation()).toBe('database');
+    });
+
+    it('should default to schema isolation', () => {
+      expect(service.getIsolation()).toBe('schema');
+    });
+  });
+
+  describe('getRowLevelSecurityConfig', () => {
+    it('should return the configured shared tables', () => {
+      mockOptions.rowLevelSecurity = { schema: 'shared', tenantColumn: 'org' };
+      service = new MultiTenantConfigService(mockOptions);
+
+      expect(service.getRowLevelSecurityConfig()).toEqual({
+        schema: 'shared',
+        tenantColumn: 'org',
+      });
+    });
+
+    it('should return an empty config when not configured', () => {
+      expect(service.getRowLevelSecurityConfig()).toEqual({});
+    });
+  });
+
+  describe('getTenantCredentialsResolver', () => {
+    it('should return the configured resolver', () => {
+      const resolver = vi
+        .fn()
+        .mockReturnValue({ username: 'acme', password: 'secret' });
+      mockOptions.tenantCredentials = resolver;
+      service = new MultiTenantConfigService(mockOptions);
+
+      expect(service.getTenantCredentialsResolver()).toBe(resolver);
+    });
+
+    it('should return undefined when no resolver is configured', () => {
+      expect(service.getTenantCredentialsResolver()).toBeUndefined();
+    });
+  });
+
+  describe('getMicroserviceConfig', () => {
+    it('should return microservice configuration when provided', () => {
+      mockOptions.microservices = { payloadKey: 'org', headerName: 'x-org' };
+      service = new MultiTenantConfigService(mockOptions);
+
+      const result = service.getMicroserviceConfig();
+      expect(result).toEqual({ payloadKey: 'org', headerName: 'x-org' });
+    });
+
+    it('should return empty object when microservice configuration is not provided', () => {
+      const result = service.getMicroserviceConfig();
+      expect(result).toEqual({});
+    });
+  });
+
+  describe('getHttpPropagationConfig', () => {
+    it('should return HTTP propagation configuration when provided', () => {
+      mockOptions.httpPropagation = { allowedHosts: ['users.internal'] };
+      service = new MultiTenantConfigService(mockOptions);
+
+      const result = service.getHttpPropagationConfig();
+      expect(result).toEqual({ allowedHosts: ['users.internal'] });
+    });
+
+    it('should return undefined when HTTP propagation is not configured', () => {
+      expect(service.getHttpPropagationConfig()).toBeUndefined();
+    });
+  });
+
   describe('getSchemaNamingStrategy', () => {
     it('should return custom schema naming strategy when provided', () => {
       mockOptions.schemaNamingStrategy = customStrategy;
@@ -404,6 +508,31 @@ describe('MultiTenantConfigService', () => {
     });
   });
 
+  describe('tenantIdFromCode', () => {
+    it('should map stored codes back to tenant IDs', () => {
+      expect(tenantIdFromCode('tenant_acme', defaultSchemaNamingStrategy)).toBe(
+        'acme',
+      );
+      expect(tenantIdFromCode('custom_acme', customStrategy)).toBe('acme');
+      expect(
+        tenantIdFromCode('org_acme_data', tenantId => `org_${tenantId}_data`),
+      ).toBe('acme');
+    });
+
+    it('should return values the strategy does not produce as is', () => {
+      expect(tenantIdFromCode('acme', defaultSchemaNamingStrategy)).toBe(
+        'acme',
+      );
+      expect(tenantIdFromCode('tenant_', defaultSchemaNamingStrategy)).toBe(
+        'tenant_',
+      );
+      expect(tenantIdFromCode('tenant_acme', customStrategy)).toBe(
+        'tenant_acme',
+      );
+      expect(tenantIdFromCode('acme', () => 'shared')).toBe('acme');
+    });
+  });
+
   describe('getAllOptions', () => {
     it('should return complete module options', () => {
       const result = service.getAllOptions();
@@ -1,4 +1,5 @@
 import { NotFoundException } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
 import {
   IOrmStrategy,
   TenantOrmConnection,
@@ -7,15 +8,24 @@ import { ITenantValidationStrategy } from 'src/core/interfaces/tenant-validation
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 import { Tenant } from '../../../../src/admin/entities/tenant.entity';
+import { ITenantAdminService } from '../../../../src/admin/interfaces/tenant-admin.interface';
+import { TenantStatus } from '../../../../src/constants';
 import {
-  IMultiTenantConfigService,
-  ITenantContext,
-  ITenantContextService,
-} from '../../../../src/core/interfaces/tenant.interface';
+  ConnectionPoolExhaustedError,
+  TenantNotActiveError,
+  TenantUnavailableError,
+} from '../../../../src/core/exceptions/custom-errors';
+import { IMultiTenantConfigService } from '../../../../src/core/interfaces/tenant.interface';
 import {
   ConnectionPoolConfig,
+  ConnectionWarmUpConfig,
   DatabaseConfig,
 } from '../../../../src/core/interfaces/typeorm.interface';
+import {
+  runInTenantContext,
+  TenantContext,
+} from '../../../../src/core/services/async-local-tenant-context.service';
+import { defaultSchemaNamingStrategy } from '../../../../src/core/services/multi-tenant-config.service';
 import { TenantConnectionService } from '../../../../src/core/services/tenant-connection.service';
 import { createMock, Mock } from '../../../utils/mock';
 
@@ -87,18 +97,8 @@ const createMockTenant = (overrides?: Partial<Tenant>): Tenant => {
   return Object.assign(tenant, overrides);
 };
 
-const createMockTenantContext = (
-  overrides?: Partial<ITenantContext>,
-): ITenantContext => ({
-  tenantId: 'test-tenant',
-  tenantSchema: 'tenant_test-tenant',
-  hasTenant: true,
-  ...overrides,
-});
-
 describe('TenantConnectionService', () => {
   let service: TenantConnectionService;
-  let mockTenantContextService: Mock<ITenantContextService>;
   let mockMultiTenantConfigService: Mock<IMultiTenantConfigService>;
   let mockTenantAdminService: Mock<ITenantValidationStrategy>;
   let mockOrmStrategy: Mock<IOrmStrategy>;
@@ -106,9 +106,10 @@ describe('TenantConnectionService', () => {
 
   beforeEach(async () => {
     // Crear mocks de servicios
-    mockTenantContextService = createMock<ITenantContextService>();
     mockMultiTenantConfigService = createMock<IMultiTenantConfigService>();
-    mockTenantAdminService = createMock<ITenantValidationStrategy>();
+    mockTenantAdminService = createMock<ITenantValidationStrategy>({
+      findStatusByCode: undefined,
+    });
     mockOrmStrategy = createMock<IOrmStrategy>();
     mockConnection = createMock<TenantOrmConnection>();
 
@@ -128,19 +129,11 @@ describe('TenantConnectionService', () => {
       createMockDatabaseConfig(),
     );
 
-    mockTenantContextService.getTenantSchema.mockReturnValue(
-      'tenant_test-tenant',
-    );
-    mockTenantContextService.getContext.mockReturnValue(
-      createMockTenantContext(),
-    );
-
     mockTenantAdminService.validateTenantExists.mockResolvedValue(true);
     mockTenantAdminService.findByCode.mockResolvedValue(createMockTenant());
 
     // Crear instancia del servicio
     service = new TenantConnectionService(
-      mockTenantContextService,
       mockMultiTenantConfigService,
       mockOrmStrategy,
       mockTenantAdminService,
@@ -168,7 +161,6 @@ describe('TenantConnectionService', () => {
       );
 
       const newService = new TenantConnectionService(
-        mockTenantContextService,
         mockMultiTenantConfigService,
         mockOrmStrategy,
         mockTenantAdminService,
@@ -192,7 +184,6 @@ describe('TenantConnectionService', () => {
       );
 
       const newService = new TenantConnectionService(
-        mockTenantContextService,
         mockMultiTenantConfigService,
         mockOrmStrategy,
         mockTenantAdminService,
@@ -212,7 +203,6 @@ describe('TenantConnectionService', () => {
       );
 
       const newService = new TenantConnectionService(
-        mockTenantContextService,
         mockMultiTenantConfigService,
         mockOrmStrategy,
         mockTenantAdminService,
@@ -232,7 +222,6 @@ describe('TenantConnectionService', () => {
       );
 
       const newService = new TenantConnectionService(
-        mockTenantContextService,
         mockMultiTenantConfigService,
         mockOrmStrategy,
         mockTenantAdminService,
@@ -243,7 +232,6 @@ describe('TenantConnectionService', () => {
 
     it('should work without tenant admin service (optional dependency)', () => {
       const newService = new TenantConnectionService(
-        mockTenantContextService,
         mockMultiTenantConfigService,
         mockOrmStrategy,
         undefined,
@@ -297,6 +285,26 @@ describe('TenantConnectionService', () => {
       );
     });
 
+    it('should close pooled connections and reject tenants that are no longer active', async () => {
+      // Arrange
+      const schema = 'tenant_suspended';
+      (service as any).connectionPool.set(schema, mockConnection);
+      mockMultiTenantConfigService.getTenantStatusPolicy.mockReturnValue({});
+      mockTenantAdminService.findStatusByCode = vi
+        .fn()
+        .mockResolvedValue({ status: TenantStatus.SUSPENDED });
+
+      // Act & Assert
+      await expect(
+        service.getConnectionForSchema(schema),
+      ).rejects.toBeInstanceOf(TenantNotActiveError);
+      expect(mockOrmStrategy.destroyConnection).toHaveBeenCalledWith(
+        mockConnection,
+      );
+      expect((service as any).connectionPool.has(schema)).toBe(false);
+      expect(mockOrmStrategy.createConnection).not.toHaveBeenCalled();
+    });
+
     it('should skip validation for public schema', async () => {
       // Arrange
       const schema = 'public';
@@ -337,7 +345,6 @@ describe('TenantConnectionService', () => {
       // Arrange
       const schema = 'custom-schema';
       const serviceWithoutAdmin = new TenantConnectionService(
-        mockTenantContextService,
         mockMultiTenantConfigService,
         mockOrmStrategy,
         undefined,
@@ -392,6 +399,167 @@ describe('TenantConnectionService', () => {
       expect((service as any).connectionPool.has(newSchema)).toBe(true);
     });
 
+    it('should evict the least recently used connection when the pool is full', async () => {
+      // Arrange
+      mockMultiTenantConfigService.getConnectionPoolConfig.mockReturnValue({
+        ...createMockConnectionPoolConfig(),
+        maxConnections: 3,
+        enableCleanup: false,
+      });
+      const smallPoolService = new TenantConnectionService(
+        mockMultiTenantConfigService,
+        mockOrmStrategy,
+        mockTenantAdminService,
+      );
+      const connections = new Map<string, TenantOrmConnection>();
+      mockOrmStrategy.createConnection.mockImplementation(async schema => {
+        const connection = createMock<TenantOrmConnection>();
+        connections.set(schema, connection);
+        return connection;
+      });
+
+      await smallPoolService.getConnectionForSchema('schema-a');
+      await smallPoolService.getConnectionForSchema('schema-b');
+      await smallPoolService.getConnectionForSchema('schema-c');
+      // schema-a pasa a ser la más reciente
+      await smallPoolService.getConnectionForSchema('schema-a');
+
+      // Act
+      await smallPoolService.getConnectionForSchema('schema-d');
+
+      // Assert
+      expect(mockOrmStrategy.destroyConnection).toHaveBeenCalledTimes(1);
+      expect(mockOrmStrategy.destroyConnection).toHaveBeenCalledWith(
+        connections.get('schema-b'),
+      );
+      expect(smallPoolService.getConnectionPoolStats().schemas).toEqual([
+        'schema-c',
+        'schema-a',
+        'schema-d',
+      ]);
+    });
+
+    it('should size the pool with the pool settings of the tenant tier', async () => {
+      // Arrange
+      mockMultiTenantConfigService.getConnectionPoolConfig.mockReturnValue({
+        ...createMockConnectionPoolConfig(),
+        tenantPool: { max: 2, idleTimeoutMillis: 10_000 },
+        tiers: { enterprise: { max: 40 } },
+        tierSetting: 'plan',
+      });
+      mockTenantAdminService.findByCode.mockResolvedValue(
+        createMockTenant({ settings: { plan: 'enterprise' } }),
+      );
+
+      // Act
+      await service.getConnectionForSchema('tenant_acme');
+
+      // Assert
+      expect(mockOrmStrategy.createConnection).toHaveBeenCalledWith(
+        'tenant_acme',
+        ['user', 'role'],
+        { pool: { max: 40, idleTimeoutMillis: 10_000 } },
+      );
+    });
+
+    it('should evict connections to stay under the physical connection cap', async () => {
+      // Arrange
+      mockMultiTenantConfigService.getConnectionPoolConfig.mockReturnValue({
+        ...createMockConnectionPoolConfig(),
+        tenantPool: { max: 20 },
+        maxPhysicalConnections: 50,
+        enableCleanup: false,
+      });
+      const cappedService = new TenantConnectionService(
+        mockMultiTenantConfigService,
+        mockOrmStrategy,
+        mockTenantAdminService,
+      );
+      const connections = new Map<string, TenantOrmConnection>();
+      mockOrmStrategy.createConnection.mockImplementation(async schema => {
+        const connection = createMock<TenantOrmConnection>();
+        connections.set(schema, connection);
+        return connection;
+      });
+
+      await cappedService.getConnectionForSchema('schema-a');
+      await cappedService.getConnectionForSchema('schema-b');
+
+      // Act
+      await cappedService.getConnectionForSchema('schema-c');
+
+      // Assert
+      expect(mockOrmStrategy.destroyConnection).toHaveBeenCalledTimes(1);
+      expect(mockOrmStrategy.destroyConnection).toHaveBeenCalledWith(
+        connections.get('schema-a'),
+      );
+      expect(cappedService.getConnectionPoolStats()).toMatchObject({
+        schemas: ['schema-b', 'schema-c'],
+        physicalConnections: 40,
+      });
+    });
+
+    it('should shrink pools larger than the physical connection cap', async () => {
+      // Arrange
+      mockMultiTenantConfigService.getConnectionPoolConfig.mockReturnValue({
+        ...createMockConnectionPoolConfig(),
+        maxPhysicalConnections: 30,
+        enableCleanup: false,
+      });
+      mockMultiTenantConfigService.getDatabaseConfig.mockReturnValue({
+        ...createMockDatabaseConfig(),
+        replicas: [{ host: 'replica-1' }],
+      });
+      const cappedService = new TenantConnectionService(
+        mockMultiTenantConfigService,
+        mockOrmStrategy,
+        mockTenantAdminService,
+      );
+
+      // Act
+      await cappedService.getConnectionForSchema('tenant_acme');
+
+      // Assert
+      // 20 clientes por defecto, reducidos a 15 para el primario y la réplica
+      expect(mockOrmStrategy.createConnection).toHaveBeenCalledWith(
+        'tenant_acme',
+        ['user', 'role'],
+        { pool: { max: 15 } },
+      );
+      expect(cappedService.getConnectionPoolStats().physicalConnections).toBe(
+        30,
+      );
+    });
+
+    it('should not count connections on the shared pool against the physical connection cap', async () => {
+      // Arrange
+      mockMultiTenantConfigService.getConnectionPoolConfig.mockReturnValue({
+        ...createMockConnectionPoolConfig(),
+        maxPhysicalConnections: 10,
+        enableCleanup: false,
+      });
+      mockMultiTenantConfigService.getConnectionMode.mockReturnValue(
+        'shared-pool',
+      );
+      const cappedService = new TenantConnectionService(
+        mockMultiTenantConfigService,
+        mockOrmStrategy,
+        mockTenantAdminService,
+      );
+
+      // Act
+      await cappedService.getConnectionForSchema('tenant_acme');
+
+      // Assert
+      expect(mockOrmStrategy.createConnection).toHaveBeenCalledWith(
+        'tenant_acme',
+        ['user', 'role'],
+      );
+      expect(cappedService.getConnectionPoolStats().physicalConnections).toBe(
+        0,
+      );
+    });
+
     it('should handle connection initialization failure', async () => {
       // Arrange
       const schema = 'fail-schema';
@@ -405,56 +573,234 @@ describe('TenantConnectionService', () => {
     });
   });
 
-  describe('getTenantConnection', () => {
-    it('should return connection for current tenant schema', async () => {
+  const failConnections = async (schema: string, attempts: number) => {
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      await expect(service.getConnectionForSchema(schema)).rejects.toThrow(
+        'Connection failed',
+      );
+    }
+  };
+
+  describe('circuit breaker', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ now: 0 });
+      mockOrmStrategy.createConnection.mockRejectedValue(
+        new Error('Connection failed'),
+      );
+    });
+
+    it('should fail fast once the failure threshold is reached', async () => {
+      // Arrange
+      await failConnections('tenant_broken', 3);
+
+      // Act & Assert
+      const error = await service
+        .getConnectionForSchema('tenant_broken')
+        .catch((error_: unknown) => error_);
+      expect(error).toBeInstanceOf(TenantUnavailableError);
+      expect(error).toMatchObject({
+        tenantCode: 'tenant_broken',
+        retryAfter: 5,
+      });
+      expect(mockOrmStrategy.createConnection).toHaveBeenCalledTimes(3);
+      expect(service.getConnectionPoolStats().circuits).toEqual([
+        {
+          schema: 'tenant_broken',
+          state: 'open',
+          failures: 3,
+          retryAt: new Date(5000),
+        },
+      ]);
+    });
+
+    it('should count failures to plan the connection', async () => {
+      // Arrange
+      mockTenantAdminService.findByCode.mockRejectedValue(
+        new Error('Catalog unreachable'),
+      );
+      for (let attempt = 0; attempt < 3; attempt++) {
+        await expect(
+          service.getConnectionForSchema('tenant_broken'),
+        ).rejects.toThrow('Catalog unreachable');
+      }
+      mockTenantAdminService.findByCode.mockClear();
+
+      // Act & Assert
+      await expect(
+        service.getConnectionForSchema('tenant_broken'),
+      ).rejects.toThrow(TenantUnavailableError);
+      expect(mockTenantAdminService.findByCode).not.toHaveBeenCalled();
+      expect(mockOrmStrategy.createConnection).not.toHaveBeenCalled();
+    });
+
+    it('should not look the tenant up while the circuit is open', async () => {
+      // Arrange
+      await failConnections('tenant_broken', 3);
+      mockTenantAdminService.validateTenantExists.mockClear();
+
+      // Act & Assert
+      await expect(
+        service.getConnectionForSchema('tenant_broken'),
+      ).rejects.toThrow(TenantUnavailableError);
+      expect(
+        mockTenantAdminService.validateTenantExists,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should report the remaining backoff of the circuit', async () => {
+      // Arrange
+      await failConnections('tenant_broken', 3);
+      vi.advanceTimersByTime(3500);
+
+      // Act & Assert
+      await expect(
+        service.getConnectionForSchema('tenant_broken'),
+      ).rejects.toMatchObject({ retryAfter: 2 });
+    });
+
+    it('should not affect the connections of other schemas', async () => {
+      // Arrange
+      await failConnections('tenant_broken', 3);
+      mockOrmStrategy.createConnection.mockResolvedValue(mockConnection);
+
+      // Act
+      const connection = await service.getConnectionForSchema('tenant_ok');
+
+      // Assert
+      expect(connection).toBe(mockConnection);
+    });
+
+    it('should close the circuit when the half-open attempt succeeds', async () => {
+      // Arrange
+      await failConnections('tenant_broken', 3);
+      vi.advanceTimersByTime(5000);
+      mockOrmStrategy.createConnection.mockResolvedValue(mockConnection);
+
+      // Act
+      const connection = await service.getConnectionForSchema('tenant_broken');
+
+      // Assert
+      expect(connection).toBe(mockConnection);
+      expect(service.getConnectionPoolStats().circuits).toEqual([]);
+    });
+
+    it('should reopen the circuit for twice as long when the half-open attempt fails', async () => {
+      // Arrange
+      await failConnections('tenant_broken', 3);
+      vi.advanceTimersByTime(5000);
+
+      // Act
+      await failConnections('tenant_broken', 1);
+
+      // Assert
+      expect(service.getConnectionPoolStats().circuits).toEqual([
+        {
+          schema: 'tenant_broken',
+          state: 'open',
+          failures: 4,
+          retryAt: new Date(15_000),
+        },
+      ]);
+      await expect(
+        service.getConnectionForSchema('tenant_broken'),
+      ).rejects.toMatchObject({ retryAfter: 10 });
+    });
+
+    it('should keep retrying when the circuit breaker is disabled', async () => {
       // Arrange
-      const schema = 'tenant_test-tenant';
-      mockTenantContextService.getTenantSchema.mockReturnValue(schema);
+      mockMultiTenantConfigService.getConnectionPoolConfig.mockReturnValue({
+        ...createMockConnectionPoolConfig(),
+        circuitBreaker: { enabled: false },
+      });
+      service = new TenantConnectionService(
+        mockMultiTenantConfigService,
+        mockOrmStrategy,
+        mockTenantAdminService,
+      );
 
       // Act
-      const result = await service.getTenantConnection();
+      await failConnections('tenant_broken', 5);
+
+      // Assert
+      expect(mockOrmStrategy.createConnection).toHaveBeenCalledTimes(5);
+      expect(service.getConnectionPoolStats().circuits).toEqual([]);
+    });
+  });
+
+  describe('getTenantConnection', () => {
+    it('should return connection for current tenant schema', async () => {
+      // Act
+      const result = await TenantContext.run('test-tenant', () =>
+        service.getTenantConnection(),
+      );
 
       // Assert
       expect(result).toBeDefined();
-      expect(mockTenantContextService.getTenantSchema).toHaveBeenCalled();
       expect(mockOrmStrategy.createConnection).toHaveBeenCalledWith(
-        schema,
+        'tenant_test_tenant',
         expect.any(Array),
       );
     });
 
     it('should throw error when no tenant context is available', async () => {
-      // Arrange
-      mockTenantContextService.getTenantSchema.mockReturnValue(
-        undefined as any,
-      );
-
       // Act & Assert
       await expect(service.getTenantConnection()).rejects.toThrow(
         'No tenant context available',
       );
     });
 
-    it('should throw error when tenant schema is undefined', async () => {
+    it('should throw error when tenant schema is empty string', async () => {
+      // Act & Assert
+      await expect(
+        runInTenantContext(
+          'test-tenant',
+          () => '',
+          () => service.getTenantConnection(),
+        ),
+      ).rejects.toThrow('No tenant context available');
+    });
+  });
+
+  describe('drain', () => {
+    it('should resolve once every lease is released', async () => {
       // Arrange
-      mockTenantContextService.getTenantSchema.mockReturnValue(
-        undefined as any,
-      );
+      const lease = await service.acquire('schema1');
 
-      // Act & Assert
-      await expect(service.getTenantConnection()).rejects.toThrow(
-        'No tenant context available',
-      );
+      // Act
+      const drained = service.drain(1000);
+      lease.release();
+
+      // Assert
+      await expect(drained).resolves.toBe(true);
     });
 
-    it('should throw error when tenant schema is empty string', async () => {
+    it('should give up when the timeout expires', async () => {
       // Arrange
-      mockTenantContextService.getTenantSchema.mockReturnValue('');
+      vi.useFakeTimers();
+      await service.acquire('schema1');
 
-      // Act & Assert
-      await expect(service.getTenantConnection()).rejects.toThrow(
-        'No tenant context available',
+      // Act
+      const drained = service.drain(1000);
+      vi.advanceTimersByTime(1000);
+
+      // Assert
+      await expect(drained).resolves.toBe(false);
+    });
+
+    it('should stop opening new connections but keep serving pooled ones', async () => {
+      // Arrange
+      await service.getConnectionForSchema('schema1');
+
+      // Act
+      await service.drain(1000);
+
+      // Assert
+      await expect(service.getConnectionForSchema('schema1')).resolves.toBe(
+        mockConnection,
       );
+      await expect(
+        service.getConnectionForSchema('schema2'),
+      ).rejects.toBeInstanceOf(ConnectionPoolExhaustedError);
     });
   });
 
@@ -476,6 +822,18 @@ describe('TenantConnectionService', () => {
       expect((service as any).connectionPool.size).toBe(0);
     });
 
+    it('should dispose the resources shared by the ORM strategy', async () => {
+      // Arrange
+      mockOrmStrategy.dispose = vi.fn().mockResolvedValue(undefined);
+      await service.getConnectionForSchema('schema1');
+
+      // Act
+      await service.closeAllConnections();
+
+      // Assert
+      expect(mockOrmStrategy.dispose).toHaveBeenCalledTimes(1);
+    });
+
     it('should clear cleanup timer when closing connections', async () => {
       // Arrange
       vi.useFakeTimers();
@@ -490,7 +848,6 @@ describe('TenantConnectionService', () => {
       );
 
       const serviceWithTimer = new TenantConnectionService(
-        mockTenantContextService,
         mockMultiTenantConfigService,
         mockOrmStrategy,
         mockTenantAdminService,
@@ -530,16 +887,15 @@ describe('TenantConnectionService', () => {
       mockOrmStrategy.destroyConnection.mockRejectedValueOnce(error);
       (service as any).connectionPool.set('test-schema', mockConnection);
 
-      // Act & Assert - El método puede lanzar error ya que usa Promise.all
-      await expect(service.closeAllConnections()).rejects.toThrow(
-        'Destruction failed',
-      );
+      // Act
+      await service.closeAllConnections();
 
-      // Pero el pool debe limpiarse de todas formas después del error
+      // Assert
       expect(mockOrmStrategy.destroyConnection).toHaveBeenCalled();
+      expect((service as any).connectionPool.size).toBe(0);
     });
 
-    it('should handle errors during connection destruction', async () => {
+    it('should still dispose the strategy when connections fail to close', async () => {
       // Arrange
       const schemas = ['schema1', 'schema2'];
       for (const schema of schemas) {
@@ -550,10 +906,13 @@ describe('TenantConnectionService', () => {
         new Error('Destroy failed'),
       );
 
-      // Act & Assert - El método lanzará error ya que usa Promise.all
-      await expect(service.closeAllConnections()).rejects.toThrow(
-        'Destroy failed',
-      );
+      // Act
+      await service.closeAllConnections();
+
+      // Assert
+      expect(mockOrmStrategy.destroyConnection).toHaveBeenCalledTimes(2);
+      expect(mockOrmStrategy.dispose).toHaveBeenCalled();
+      expect(service.getConnectionPoolStats().total).toBe(0);
     });
 
     it('should handle empty connection pool', async () => {
@@ -574,9 +933,39 @@ describe('TenantConnectionService', () => {
         active: 0,
         inactive: 0,
         schemas: [],
+        connections: [],
+        draining: 0,
+        waiting: 0,
+        circuits: [],
       });
     });
 
+    it('should report the age, idle time and hits of each connection', async () => {
+      // Arrange
+      vi.useFakeTimers({ now: 0 });
+      await service.getConnectionForSchema('schema1');
+      vi.advanceTimersByTime(1000);
+      service.getPooledConnection('schema1');
+      vi.advanceTimersByTime(500);
+
+      // Act
+      const stats = service.getConnectionPoolStats();
+
+      // Assert
+      expect(stats.connections).toEqual([
+        {
+          schema: 'schema1',
+          active: true,
+          age: 1500,
+          idleTime: 500,
+          hits: 2,
+          leases: 0,
+          createdAt: new Date(0),
+          lastUsedAt: new Date(1000),
+        },
+      ]);
+    });
+
     it('should return correct stats for pool with active connections', async () => {
       // Arrange
       const schemas = ['schema1', 'schema2', 'schema3'];
@@ -643,6 +1032,289 @@ describe('TenantConnectionService', () => {
     });
   });
 
+  describe('onModuleInit', () => {
+    let warmUpService: TenantConnectionService;
+    let moduleRef: Mock<ModuleRef>;
+
+    const setWarmUp = (warmUp: ConnectionWarmUpConfig) => {
+      mockMultiTenantConfigService.getConnectionPoolConfig.mockReturnValue({
+        ...createMockConnectionPoolConfig(),
+        enableCleanup: false,
+        warmUp,
+      });
+      warmUpService = new TenantConnectionService(
+        mockMultiTenantConfigService,
+        mockOrmStrategy,
+        mockTenantAdminService,
+        moduleRef,
+      );
+    };
+
+    beforeEach(() => {
+      mockMultiTenantConfigService.getSchemaNamingStrategy.mockReturnValue(
+        defaultSchemaNamingStrategy,
+      );
+      moduleRef = createMock<ModuleRef>();
+    });
+
+    it('should not open connections without warm-up configuration', async () => {
+      // Act
+      await service.onModuleInit();
+
+      // Assert
+      expect(mockOrmStrategy.createConnection).not.toHaveBeenCalled();
+    });
+
+    it('should connect the configured tenants', async () => {
+      // Arrange
+      setWarmUp({ tenants: ['acme', 'globex'] });
+
+      // Act
+      await warmUpService.onModuleInit();
+
+      // Assert
+      expect(warmUpService.getConnectionPoolStats().schemas).toEqual([
+        'tenant_acme',
+        'tenant_globex',
+      ]);
+    });
+
+    it('should connect the most recently active tenants of the catalog', async () => {
+      // Arrange
+      const adminService = createMock<ITenantAdminService>();
+      adminService.findAll.mockResolvedValue({
+        data: [createMockTenant({ code: 'tenant_initech' })],
+        meta: { total: 1, page: 1, limit: 5, totalPages: 1 },
+      });
+      moduleRef.get.mockReturnValue(adminService);
+      setWarmUp({ tenants: ['acme'], mostRecentlyActive: 5 });
+
+      // Act
+      await warmUpService.onModuleInit();
+
+      // Assert
+      expect(adminService.findAll).toHaveBeenCalledWith({
+        status: TenantStatus.ACTIVE,
+        sortBy: 'updatedAt',
+        sortOrder: 'DESC',
+        limit: 5,
+      });
+      expect(warmUpService.getConnectionPoolStats().schemas).toEqual([
+        'tenant_acme',
+        'tenant_initech',
+      ]);
+    });
+
+    it('should keep starting when a warm-up connection fails', async () => {
+      // Arrange
+      mockOrmStrategy.createConnection.mockImplementation(async schema => {
+        if (schema === 'tenant_ghost') {
+          throw new Error('Connection refused');
+        }
+        return mockConnection;
+      });
+      setWarmUp({ tenants: ['ghost', 'acme'] });
+
+      // Act & Assert
+      await expect(warmUpService.onModuleInit()).resolves.toBeUndefined();
+      expect(warmUpService.getConnectionPoolStats().schemas).toEqual([
+        'tenant_acme',
+      ]);
+    });
+  });
+
+  describe('acquire', () => {
+    let smallPoolService: TenantConnectionService;
+    let connections: Map<string, TenantOrmConnection>;
+
+    beforeEach(() => {
+      mockMultiTenantConfigService.getConnectionPoolConfig.mockReturnValue({
+        ...createMockConnectionPoolConfig(),
+        maxConnections: 2,
+        maxWaitingRequests: 1,
+        acquireTimeout: 1000,
+        enableCleanup: false,
+      });
+      smallPoolService = new TenantConnectionService(
+        mockMultiTenantConfigService,
+        mockOrmStrategy,
+        mockTenantAdminService,
+      );
+      connections = new Map();
+      mockOrmStrategy.createConnection.mockImplementation(async schema => {
+        const connection = createMock<TenantOrmConnection>();
+        connections.set(schema, connection);
+        return connection;
+      });
+    });
+
+    it('should lease the connection of a schema', async () => {
+      // Act
+      const lease = await smallPoolService.acquire('schema-a');
+      const second = await smallPoolService.acquire('schema-a');
+
+      // Assert
+      expect(lease.schema).toBe('schema-a');
+      expect(lease.connection).toBe(connections.get('schema-a'));
+      expect(second.connection).toBe(lease.connection);
+      expect(
+        smallPoolService.getConnectionPoolStats().connections[0].leases,
+      ).toBe(2);
+    });
+
+    it('should drain removed connections until their lease is released', async () => {
+      // Arrange
+      const lease = await smallPoolService.acquire('schema-a');
+
+      // Act
+      await smallPoolService.removeConnection('schema-a');
+
+      // Assert
+      expect(mockOrmStrategy.destroyConnection).not.toHaveBeenCalled();
+      expect(smallPoolService.getConnectionPoolStats()).toMatchObject({
+        total: 0,
+        draining: 1,
+      });
+
+      lease.release();
+      lease.release();
+      await vi.waitFor(() =>
+        expect(mockOrmStrategy.destroyConnection).toHaveBeenCalledTimes(1),
+      );
+      expect(mockOrmStrategy.destroyConnection).toHaveBeenCalledWith(
+        lease.connection,
+      );
+      expect(smallPoolService.getConnectionPoolStats().draining).toBe(0);
+    });
+
+    it('should only evict unleased connections when the pool is full', async () => {
+      // Arrange
+      await smallPoolService.acquire('schema-a');
+      await smallPoolService.getConnectionForSchema('schema-b');
+
+      // Act
+      await smallPoolService.getConnectionForSchema('schema-c');
+
+      // Assert
+      expect(mockOrmStrategy.destroyConnection).toHaveBeenCalledTimes(1);
+      expect(mockOrmStrategy.destroyConnection).toHaveBeenCalledWith(
+        connections.get('schema-b'),
+      );
+    });
+
+    it('should wait for a release when every connection is leased', async () => {
+      // Arrange
+      const lease = await smallPoolService.acquire('schema-a');
+      await smallPoolService.acquire('schema-b');
+
+      // Act
+      const pending = smallPoolService.getConnectionForSchema('schema-c');
+      await vi.waitFor(() =>
+        expect(smallPoolService.getConnectionPoolStats().waiting).toBe(1),
+      );
+      lease.release();
+
+      // Assert
+      expect(await pending).toBe(connections.get('schema-c'));
+      expect(mockOrmStrategy.destroyConnection).toHaveBeenCalledWith(
+        lease.connection,
+      );
+    });
+
+    it('should count connections being opened against the pool limit', async () => {
+      // Arrange
+      let open = 0;
+      let maxOpen = 0;
+      let openConnections!: () => void;
+      const opened = new Promise<void>(resolve => (openConnections = resolve));
+      mockOrmStrategy.createConnection.mockImplementation(async () => {
+        maxOpen = Math.max(maxOpen, ++open);
+        await opened;
+        return createMock<TenantOrmConnection>();
+      });
+      mockOrmStrategy.destroyConnection.mockImplementation(async () => {
+        open--;
+      });
+
+      // Act
+      const pending = ['schema-a', 'schema-b', 'schema-c'].map(schema =>
+        smallPoolService.getConnectionForSchema(schema),
+      );
+      await vi.waitFor(() =>
+        expect(smallPoolService.getConnectionPoolStats().waiting).toBe(1),
+      );
+      openConnections();
+      await Promise.all(pending);
+
+      // Assert
+      expect(maxOpen).toBe(2);
+      expect(mockOrmStrategy.createConnection).toHaveBeenCalledTimes(3);
+      expect(smallPoolService.getConnectionPoolStats().total).toBe(2);
+    });
+
+    it('should fail when the wait queue is full', async () => {
+      // Arrange
+      await smallPoolService.acquire('schema-a');
+      await smallPoolService.acquire('schema-b');
+      const waiting = smallPoolService.getConnectionForSchema('schema-c');
+      waiting.catch(() => {});
+      await vi.waitFor(() =>
+        expect(smallPoolService.getConnectionPoolStats().waiting).toBe(1),
+      );
+
+      // Act & Assert
+      await expect(
+        smallPoolService.getConnectionForSchema('schema-d'),
+      ).rejects.toBeInstanceOf(ConnectionPoolExhaustedError);
+    });
+
+    it('should fail when no connection is released within the acquire timeout', async () => {
+      // Arrange
+      vi.useFakeTimers();
+      await smallPoolService.acquire('schema-a');
+      await smallPoolService.acquire('schema-b');
+
+      // Act
+      const pending = smallPoolService.acquire('schema-c');
+      const assertion = expect(pending).rejects.toThrow(
+        'Timed out after 1000ms waiting for a connection for tenant: schema-c',
+      );
+      await vi.advanceTimersByTimeAsync(1000);
+
+      // Assert
+      await assertion;
+      expect(smallPoolService.getConnectionPoolStats().waiting).toBe(0);
+    });
+  });
+
+  describe('getPooledConnection', () => {
+    it('should return the pooled connection without validating the tenant', async () => {
+      // Arrange
+      const schema = 'pooled-schema';
+      await service.getConnectionForSchema(schema);
+      vi.clearAllMocks();
+
+      // Act
+      const result = service.getPooledConnection(schema);
+
+      // Assert
+      expect(result).toBe(mockConnection);
+      expect(
+        mockTenantAdminService.validateTenantExists,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should return undefined for missing or invalid connections', () => {
+      // Arrange
+      (service as any).connectionPool.set('invalid-schema', mockConnection);
+      mockOrmStrategy.isConnectionValid.mockReturnValue(false);
+
+      // Act & Assert
+      expect(service.getPooledConnection('missing-schema')).toBeUndefined();
+      expect(service.getPooledConnection('invalid-schema')).toBeUndefined();
+    });
+  });
+
   describe('removeConnection', () => {
     it('should remove and destroy existing initialized connection', async () => {
       // Arrange
@@ -696,9 +1368,29 @@ describe('TenantConnectionService', () => {
 
       // Assert
       expect(mockOrmStrategy.destroyConnection).toHaveBeenCalled();
-      // Cuando hay un error en destroyConnection, el delete está dentro del try
-      // por lo que NO se ejecuta y la conexión permanece en el pool
-      expect((service as any).connectionPool.has(schema)).toBe(true);
+      expect((service as any).connectionPool.has(schema)).toBe(false);
+    });
+
+    it('should not hand out a connection while it is being destroyed', async () => {
+      // Arrange
+      const schema = 'closing-schema';
+      await service.getConnectionForSchema(schema);
+      const newConnection = createMock<TenantOrmConnection>();
+      mockOrmStrategy.createConnection.mockResolvedValueOnce(newConnection);
+      let destroyed!: () => void;
+      mockOrmStrategy.destroyConnection.mockReturnValueOnce(
+        new Promise<void>(resolve => (destroyed = resolve)),
+      );
+
+      // Act
+      const removal = service.removeConnection(schema);
+      const connection = await service.getConnectionForSchema(schema);
+      destroyed();
+      await removal;
+
+      // Assert
+      expect(connection).toBe(newConnection);
+      expect(service.getPooledConnection(schema)).toBe(newConnection);
     });
   });
 
@@ -728,7 +1420,6 @@ describe('TenantConnectionService', () => {
     it('should return default entities when admin service is not available', async () => {
       // Arrange
       const serviceWithoutAdmin = new TenantConnectionService(
-        mockTenantContextService,
         mockMultiTenantConfigService,
         mockOrmStrategy,
         undefined,
@@ -744,6 +1435,86 @@ describe('TenantConnectionService', () => {
       );
     });
 
+    it('should connect to the tenant database in database isolation', async () => {
+      // Arrange
+      const resolveCredentials = vi
+        .fn()
+        .mockResolvedValue({ username: 'acme', password: 'secret' });
+      mockMultiTenantConfigService.getIsolation.mockReturnValue('database');
+      mockMultiTenantConfigService.getTenantCredentialsResolver.mockReturnValue(
+        resolveCredentials,
+      );
+      mockTenantAdminService.findByCode.mockResolvedValue(
+        createMockTenant({
+          connection: { host: 'db-acme.internal', credentialRef: 'acme-db' },
+        }),
+      );
+
+      // Act
+      await service.getConnectionForSchema('tenant_acme');
+
+      // Assert
+      expect(resolveCredentials).toHaveBeenCalledWith('acme-db', 'tenant_acme');
+      expect(mockOrmStrategy.createConnection).toHaveBeenCalledWith(
+        'tenant_acme',
+        ['user', 'role'],
+        {
+          database: expect.objectContaining({
+            host: 'db-acme.internal',
+            port: 5432,
+            database: 'tenant_acme',
+            username: 'acme',
+            password: 'secret',
+          }),
+        },
+      );
+    });
+
+    it('should connect to the shared tables as the tenant in row isolation', async () => {
+      // Arrange
+      mockMultiTenantConfigService.getIsolation.mockReturnValue('row');
+      mockMultiTenantConfigService.getRowLevelSecurityConfig.mockReturnValue({
+        schema: 'shared',
+      });
+      mockMultiTenantConfigService.getSchemaNamingStrategy.mockReturnValue(
+        defaultSchemaNamingStrategy,
+      );
+
+      // Act
+      await service.getConnectionForSchema('tenant_acme');
+
+      // Assert
+      expect(mockOrmStrategy.createConnection).toHaveBeenCalledWith(
+        'tenant_acme',
+        ['user', 'role'],
+        { rowLevel: { schema: 'shared', tenant: 'acme' } },
+      );
+    });
+
+    it('should use the isolation of the tenant record', async () => {
+      // Arrange
+      mockMultiTenantConfigService.getIsolation.mockReturnValue('schema');
+      mockMultiTenantConfigService.getRowLevelSecurityConfig.mockReturnValue(
+        {},
+      );
+      mockMultiTenantConfigService.getSchemaNamingStrategy.mockReturnValue(
+        defaultSchemaNamingStrategy,
+      );
+      mockTenantAdminService.findByCode.mockResolvedValue(
+        createMockTenant({ isolation: 'row' }),
+      );
+
+      // Act
+      await service.getConnectionForSchema('tenant_acme');
+
+      // Assert
+      expect(mockOrmStrategy.createConnection).toHaveBeenCalledWith(
+        'tenant_acme',
+        ['user', 'role'],
+        { rowLevel: { schema: 'public', tenant: 'acme' } },
+      );
+    });
+
     it('should return default entities when tenant has no entity config', async () => {
       // Arrange
       const mockTenant = createMockTenant({ entityConfig: undefined as any });
@@ -773,11 +1544,12 @@ describe('TenantConnectionService', () => {
       );
     });
 
-    it('should perform scheduled cleanup when pool size exceeds threshold', async () => {
+    it('should close connections idle for longer than idleTimeout', async () => {
       // Arrange
       vi.useFakeTimers();
       const poolConfig = {
         ...createMockConnectionPoolConfig(),
+        idleTimeout: 300_000,
         enableCleanup: true,
         cleanupInterval: 1000,
       };
@@ -786,27 +1558,27 @@ describe('TenantConnectionService', () => {
       );
 
       const serviceWithCleanup = new TenantConnectionService(
-        mockTenantContextService,
         mockMultiTenantConfigService,
         mockOrmStrategy,
         mockTenantAdminService,
       );
 
-      // Llenar el pool por encima del 80%
-      for (let i = 0; i < 45; i++) {
+      for (let i = 0; i < 5; i++) {
         await serviceWithCleanup.getConnectionForSchema(`schema-${i}`);
       }
-
-      const initialSize = (serviceWithCleanup as any).connectionPool.size;
+      vi.advanceTimersByTime(poolConfig.idleTimeout - 1000);
+      // schema-0 se vuelve a usar antes de que venza el idleTimeout
+      await serviceWithCleanup.getConnectionForSchema('schema-0');
+      vi.setSystemTime(Date.now() + 1000);
 
       // Act
       await (serviceWithCleanup as any).performScheduledCleanup();
 
       // Assert
-      expect((serviceWithCleanup as any).connectionPool.size).toBeLessThan(
-        initialSize,
-      );
-      expect(mockOrmStrategy.destroyConnection).toHaveBeenCalled();
+      expect(mockOrmStrategy.destroyConnection).toHaveBeenCalledTimes(4);
+      expect(serviceWithCleanup.getConnectionPoolStats().schemas).toEqual([
+        'schema-0',
+      ]);
 
       vi.useRealTimers();
     });
@@ -840,9 +1612,36 @@ describe('TenantConnectionService', () => {
         expect(result).toBeDefined();
       }
 
-      // El servicio actual no tiene lock mechanism, por lo que puede crear múltiples conexiones
-      // pero la última llamada debería reutilizar la conexión del pool
-      expect(mockOrmStrategy.createConnection).toHaveBeenCalled();
+      // Las llamadas concurrentes comparten la misma creación
+      expect(mockOrmStrategy.createConnection).toHaveBeenCalledTimes(1);
+      expect(new Set(results).size).toBe(1);
+    });
+
+    it('should propagate a failed concurrent creation to every caller', async () => {
+      // Arrange
+      mockOrmStrategy.createConnection.mockImplementation(async () => {
+        await new Promise(resolve => setTimeout(resolve, 1));
+        throw new Error('Connection refused');
+      });
+
+      // Act
+      const results = await Promise.allSettled([
+        service.getConnectionForSchema('cold-schema'),
+        service.getConnectionForSchema('cold-schema'),
+      ]);
+
+      // Assert
+      expect(mockOrmStrategy.createConnection).toHaveBeenCalledTimes(1);
+      expect(results).toEqual([
+        { status: 'rejected', reason: new Error('Connection refused') },
+        { status: 'rejected', reason: new Error('Connection refused') },
+      ]);
+
+      // A later call retries the creation
+      mockOrmStrategy.createConnection.mockResolvedValue(mockConnection);
+      await expect(service.getConnectionForSchema('cold-schema')).resolves.toBe(
+        mockConnection,
+      );
     });
 
     it('should handle very long schema names', async () => {
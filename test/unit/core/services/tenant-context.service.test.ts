@@ -4,6 +4,10 @@ import {
   IMultiTenantConfigService,
   ITenantContext,
 } from '../../../../src/core/interfaces/tenant.interface';
+import {
+  runInTenantScope,
+  TenantContext,
+} from '../../../../src/core/services/async-local-tenant-context.service';
 import { TenantContextService } from '../../../../src/core/services/tenant-context.service';
 import { createMock, Mock } from '../../../utils/mock';
 
@@ -393,6 +397,35 @@ describe('TenantContextService', () => {
     });
   });
 
+  describe('Tenant scope', () => {
+    it('should set the tenant on the tenant scope of the request', () => {
+      // Act
+      const context = runInTenantScope(mockSchemaNamingStrategy, () => {
+        service.setContext(mockTenantId);
+        return TenantContext.current();
+      });
+
+      // Assert
+      expect(context).toEqual({
+        tenantId: mockTenantId,
+        tenantSchema: mockSchemaName,
+        hasTenant: true,
+      });
+    });
+
+    it('should read the tenant of TenantContext until one is set', () => {
+      // Act
+      const context = TenantContext.run('acme', () => service.getContext());
+
+      // Assert
+      expect(context).toEqual({
+        tenantId: 'acme',
+        tenantSchema: 'tenant_acme',
+        hasTenant: true,
+      });
+    });
+  });
+
   describe('Performance and Memory', () => {
     it('should handle multiple rapid context changes', () => {
       // Arrange
@@ -0,0 +1,95 @@
+import { ModuleRef } from '@nestjs/core';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { ITenantConnectionService } from '../../../../src/core/interfaces/tenant.interface';
+import {
+  ITenantEventTransport,
+  TenantChangeHandler,
+} from '../../../../src/core/interfaces/tenant-events.interface';
+import { ITenantValidationStrategy } from '../../../../src/core/interfaces/tenant-validation.interface';
+import { TenantEventListener } from '../../../../src/core/services/tenant-event-listener.service';
+import { createMock, Mock } from '../../../utils/mock';
+
+describe('TenantEventListener', () => {
+  let moduleRef: Mock<ModuleRef>;
+  let transport: Mock<ITenantEventTransport>;
+  let validationStrategy: Mock<ITenantValidationStrategy>;
+  let connectionService: Mock<ITenantConnectionService>;
+  let listener: TenantEventListener;
+
+  beforeEach(() => {
+    moduleRef = createMock<ModuleRef>();
+    transport = createMock<ITenantEventTransport>();
+    validationStrategy = createMock<ITenantValidationStrategy>();
+    connectionService = createMock<ITenantConnectionService>();
+    moduleRef.get.mockReturnValue(connectionService);
+    listener = new TenantEventListener(
+      moduleRef,
+      transport,
+      validationStrategy,
+    );
+  });
+
+  it('should handle the events of the transport once the application starts', async () => {
+    // Arrange
+    let handler: TenantChangeHandler | undefined;
+    transport.subscribe.mockImplementation(async subscriber => {
+      handler = subscriber;
+    });
+    await listener.onApplicationBootstrap();
+
+    // Act
+    await handler?.({ type: 'updated', code: 'tenant_acme' });
+
+    // Assert
+    expect(validationStrategy.invalidate).toHaveBeenCalledWith('tenant_acme');
+    expect(connectionService.removeConnection).toHaveBeenCalledWith(
+      'tenant_acme',
+    );
+  });
+
+  it('should keep the connections of activated tenants', async () => {
+    // Act
+    await listener.handle({ type: 'activated', code: 'tenant_acme' });
+
+    // Assert
+    expect(validationStrategy.invalidate).toHaveBeenCalledWith('tenant_acme');
+    expect(connectionService.removeConnection).not.toHaveBeenCalled();
+  });
+
+  it('should drop the domain lookup and keep the connections on domain changes', async () => {
+    // Act
+    await listener.handle({
+      type: 'domainChanged',
+      code: 'tenant_acme',
+      domain: 'portal.acme.com',
+    });
+
+    // Assert
+    expect(validationStrategy.invalidateDomain).toHaveBeenCalledWith(
+      'portal.acme.com',
+    );
+    expect(connectionService.removeConnection).not.toHaveBeenCalled();
+  });
+
+  it('should only invalidate the cache when the connection service cannot be resolved', async () => {
+    // Arrange
+    moduleRef.get.mockImplementation(() => {
+      throw new Error('TENANT_CONNECTION_SERVICE is not available');
+    });
+
+    // Act
+    await listener.handle({ type: 'deactivated', code: 'tenant_acme' });
+
+    // Assert
+    expect(validationStrategy.invalidate).toHaveBeenCalledWith('tenant_acme');
+  });
+
+  it('should close the transport on shutdown', async () => {
+    // Act
+    await listener.onApplicationShutdown();
+
+    // Assert
+    expect(transport.close).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,279 @@
+import { ModuleRef } from '@nestjs/core';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { TENANT_ADMIN_SERVICE } from '../../../../src/admin/interfaces/tenant-admin.interface';
+import { TenantStatus } from '../../../../src/constants';
+import {
+  IMultiTenantConfigService,
+  ITenantConnectionService,
+  TenantConnectionLease,
+} from '../../../../src/core/interfaces/tenant.interface';
+import { TenantContext } from '../../../../src/core/services/async-local-tenant-context.service';
+import { defaultSchemaNamingStrategy } from '../../../../src/core/services/multi-tenant-config.service';
+import { TENANT_CONNECTION_SERVICE } from '../../../../src/core/services/tenant-connection.service';
+import { TenantExecutor } from '../../../../src/core/services/tenant-executor.service';
+import { createMock, Mock } from '../../../utils/mock';
+
+const tenants = (...entries: [string, TenantStatus][]) =>
+  entries.map(([code, status]) => ({ code, status }));
+
+describe('TenantExecutor', () => {
+  let executor: TenantExecutor;
+  let mockModuleRef: Mock<ModuleRef>;
+  let mockConfigService: Mock<IMultiTenantConfigService>;
+  let mockConnectionService: Mock<ITenantConnectionService>;
+  let mockLease: Mock<TenantConnectionLease>;
+  let mockAdminService: { findAll: ReturnType<typeof vi.fn> };
+  let providers: Map<unknown, unknown>;
+
+  beforeEach(() => {
+    mockConfigService = createMock<IMultiTenantConfigService>();
+    mockConfigService.getSchemaNamingStrategy.mockReturnValue(
+      defaultSchemaNamingStrategy,
+    );
+    mockConnectionService = createMock<ITenantConnectionService>();
+    mockLease = createMock<TenantConnectionLease>();
+    mockConnectionService.acquire.mockResolvedValue(mockLease);
+    mockAdminService = { findAll: vi.fn() };
+
+    providers = new Map<unknown, unknown>([
+      [TENANT_CONNECTION_SERVICE, mockConnectionService],
+      [TENANT_ADMIN_SERVICE, mockAdminService],
+    ]);
+    mockModuleRef = createMock<ModuleRef>();
+    mockModuleRef.resolve.mockImplementation(
+      async (token: unknown) => providers.get(token) as any,
+    );
+
+    executor = new TenantExecutor(
+      mockModuleRef,
+      mockConfigService,
+      mockConnectionService,
+    );
+  });
+
+  describe('runInTenant', () => {
+    it('should run inside the tenant context with the connection leased', async () => {
+      // Arrange
+      const fn = vi.fn(async () => {
+        await Promise.resolve();
+        expect(mockLease.release).not.toHaveBeenCalled();
+        return TenantContext.current();
+      });
+
+      // Act
+      const context = await executor.runInTenant('acme', fn);
+
+      // Assert
+      expect(context).toEqual({
+        tenantId: 'acme',
+        tenantSchema: 'tenant_acme',
+        hasTenant: true,
+      });
+      expect(mockConnectionService.acquire).toHaveBeenCalledWith('tenant_acme');
+      expect(fn).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tenantId: 'acme',
+          tenantSchema: 'tenant_acme',
+        }),
+      );
+      expect(mockLease.release).toHaveBeenCalledTimes(1);
+      expect(TenantContext.current()).toBeUndefined();
+    });
+
+    it('should accept stored tenant codes', async () => {
+      // Act
+      const context = await executor.runInTenant(
+        'tenant_acme',
+        ({ tenantId, tenantSchema }) => ({ tenantId, tenantSchema }),
+      );
+
+      // Assert
+      expect(context).toMatchObject({
+        tenantId: 'acme',
+        tenantSchema: 'tenant_acme',
+      });
+    });
+
+    it('should use the configured schema naming strategy', async () => {
+      // Arrange
+      mockConfigService.getSchemaNamingStrategy.mockReturnValue(
+        tenantId => `org_${tenantId}_data`,
+      );
+
+      // Act
+      const [fromId, fromCode] = await Promise.all(
+        ['acme', 'org_acme_data'].map(tenantIdOrCode =>
+          executor.runInTenant(tenantIdOrCode, () => TenantContext.current()),
+        ),
+      );
+
+      // Assert
+      expect(fromId).toEqual(fromCode);
+      expect(fromCode).toMatchObject({
+        tenantId: 'acme',
+        tenantSchema: 'org_acme_data',
+      });
+    });
+
+    it('should resolve providers in the same tenant scope', async () => {
+      // Act
+      await executor.runInTenant('acme', async ({ resolve }) => {
+        await resolve(TENANT_CONNECTION_SERVICE);
+        await resolve(TENANT_ADMIN_SERVICE);
+      });
+
+      // Assert
+      const contextIds = mockModuleRef.resolve.mock.calls.map(call => call[1]);
+      expect(contextIds).toHaveLength(2);
+      expect(new Set(contextIds).size).toBe(1);
+    });
+
+    it('should not create a request scope when no provider is resolved', async () => {
+      // Act
+      await executor.runInTenant('acme', vi.fn());
+
+      // Assert
+      expect(mockModuleRef.resolve).not.toHaveBeenCalled();
+    });
+
+    it('should not run the function when the tenant is not available', async () => {
+      // Arrange
+      const fn = vi.fn();
+      mockConnectionService.acquire.mockRejectedValue(
+        new Error('Schema not found: tenant_ghost'),
+      );
+
+      // Act & Assert
+      await expect(executor.runInTenant('ghost', fn)).rejects.toThrow(
+        'Schema not found',
+      );
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it('should release the connection when the function fails', async () => {
+      // Act & Assert
+      await expect(
+        executor.runInTenant('acme', () => {
+          throw new Error('Task failed');
+        }),
+      ).rejects.toThrow('Task failed');
+      expect(mockLease.release).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('forEachTenant', () => {
+    beforeEach(() => {
+      mockAdminService.findAll.mockResolvedValue({
+        data: tenants(
+          ['tenant_acme', TenantStatus.ACTIVE],
+          ['tenant_globex', TenantStatus.ACTIVE],
+          ['tenant_initech', TenantStatus.ACTIVE],
+        ),
+        meta: { total: 3, page: 1, limit: 100, totalPages: 1 },
+      });
+    });
+
+    it('should run for every active tenant and return the results in order', async () => {
+      // Act
+      const results = await executor.forEachTenant(
+        ({ tenantId }) => tenantId.toUpperCase(),
+        { concurrency: 2 },
+      );
+
+      // Assert
+      expect(mockAdminService.findAll).toHaveBeenCalledWith(
+        expect.objectContaining({ status: TenantStatus.ACTIVE }),
+      );
+      expect(results).toEqual([
+        { tenantId: 'acme', status: 'fulfilled', value: 'ACME' },
+        { tenantId: 'globex', status: 'fulfilled', value: 'GLOBEX' },
+        { tenantId: 'initech', status: 'fulfilled', value: 'INITECH' },
+      ]);
+    });
+
+    it('should filter by several statuses across pages', async () => {
+      // Arrange
+      mockAdminService.findAll
+        .mockResolvedValueOnce({
+          data: tenants(
+            ['tenant_acme', TenantStatus.ACTIVE],
+            ['tenant_globex', TenantStatus.INACTIVE],
+          ),
+          meta: { total: 3, page: 1, limit: 2, totalPages: 2 },
+        })
+        .mockResolvedValueOnce({
+          data: tenants(['tenant_initech', TenantStatus.PENDING]),
+          meta: { total: 3, page: 2, limit: 2, totalPages: 2 },
+        });
+
+      // Act
+      const results = await executor.forEachTenant(({ tenantId }) => tenantId, {
+        statusFilter: [TenantStatus.ACTIVE, TenantStatus.PENDING],
+      });
+
+      // Assert
+      expect(mockAdminService.findAll).toHaveBeenCalledTimes(2);
+      expect(results.map(result => result.tenantId)).toEqual([
+        'acme',
+        'initech',
+      ]);
+    });
+
+    it('should stop starting tenants after the first failure by default', async () => {
+      // Arrange
+      const error = new Error('Task failed');
+      const fn = vi.fn().mockRejectedValueOnce(error).mockResolvedValue('ok');
+
+      // Act
+      const results = await executor.forEachTenant(fn);
+
+      // Assert
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(results).toEqual([
+        { tenantId: 'acme', status: 'rejected', error },
+      ]);
+    });
+
+    it('should collect errors and continue when continueOnError is enabled', async () => {
+      // Arrange
+      const error = new Error('Task failed');
+      const fn = vi
+        .fn()
+        .mockResolvedValueOnce('ok')
+        .mockRejectedValueOnce(error)
+        .mockResolvedValueOnce('ok');
+
+      // Act
+      const results = await executor.forEachTenant(fn, {
+        continueOnError: true,
+      });
+
+      // Assert
+      expect(results.map(result => result.status)).toEqual([
+        'fulfilled',
+        'rejected',
+        'fulfilled',
+      ]);
+      expect(results[1]).toMatchObject({ tenantId: 'globex', error });
+    });
+
+    it('should not exceed the configured concurrency', async () => {
+      // Arrange
+      let running = 0;
+      let maxRunning = 0;
+      const fn = async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        running--;
+      };
+
+      // Act
+      await executor.forEachTenant(fn, { concurrency: 2 });
+
+      // Assert
+      expect(maxRunning).toBe(2);
+    });
+  });
+});
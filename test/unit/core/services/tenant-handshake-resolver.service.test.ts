@@ -0,0 +1,197 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  InvalidTenantTokenError,
+  JwtVerificationConfigError,
+} from '../../../../src/core/exceptions/custom-errors';
+import { IMultiTenantConfigService } from '../../../../src/core/interfaces/tenant.interface';
+import { TenantResolver } from '../../../../src/core/interfaces/tenant-resolver.interface';
+import { TenantHandshakeResolver } from '../../../../src/core/services/tenant-handshake-resolver.service';
+import { createMock, Mock } from '../../../utils/mock';
+
+const createToken = (payload: Record<string, unknown>) =>
+  [
+    Buffer.from(JSON.stringify({ alg: 'none' })).toString('base64url'),
+    Buffer.from(JSON.stringify(payload)).toString('base64url'),
+    'signature',
+  ].join('.');
+
+describe('TenantHandshakeResolver', () => {
+  let resolver: TenantHandshakeResolver;
+  let mockConfigService: Mock<IMultiTenantConfigService>;
+
+  beforeEach(() => {
+    mockConfigService = createMock<IMultiTenantConfigService>();
+    mockConfigService.getTenantResolutionConfig.mockReturnValue({
+      strategies: ['header', 'jwt'],
+    });
+
+    resolver = new TenantHandshakeResolver(mockConfigService);
+  });
+
+  describe('resolve', () => {
+    it('should resolve the tenant from the handshake headers', async () => {
+      // Act
+      const tenantId = await resolver.resolve({
+        headers: { 'X-Tenant-Id': 'acme' },
+      });
+
+      // Assert
+      expect(tenantId).toBe('acme');
+    });
+
+    it('should resolve the tenant from the connection params', async () => {
+      // Act
+      const tenantId = await resolver.resolve({
+        connectionParams: { 'x-tenant-id': 'acme' },
+      });
+
+      // Assert
+      expect(tenantId).toBe('acme');
+    });
+
+    it('should resolve the tenant from the auth token', async () => {
+      // Act
+      const tenantId = await resolver.resolve({
+        authToken: createToken({ tenantId: 'globex' }),
+      });
+
+      // Assert
+      expect(tenantId).toBe('globex');
+    });
+
+    it('should reject invalid tokens in verified mode', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategies: [{ type: 'jwt', verification: { secret: 'secret' } }],
+      });
+
+      // Act & Assert
+      await expect(
+        resolver.resolve({ authToken: createToken({ tenantId: 'acme' }) }),
+      ).rejects.toBeInstanceOf(InvalidTenantTokenError);
+    });
+
+    it('should reject instead of using the default tenant when no verification key is configured', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategies: [{ type: 'jwt', verification: {} }],
+        defaultTenant: 'default-tenant',
+      });
+
+      // Act & Assert
+      await expect(
+        resolver.resolve({ authToken: createToken({ tenantId: 'acme' }) }),
+      ).rejects.toBeInstanceOf(JwtVerificationConfigError);
+    });
+
+    it('should resolve the tenant from the handshake query', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategy: 'query',
+      });
+
+      // Act
+      const tenantId = await resolver.resolve({
+        url: '/socket.io/?tenant=acme&EIO=4',
+      });
+
+      // Assert
+      expect(tenantId).toBe('acme');
+    });
+
+    it('should use the resolver class for the custom strategy', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        strategy: 'custom',
+      });
+      const tenantResolver = createMock<TenantResolver>();
+      tenantResolver.resolve.mockResolvedValue('initech');
+      resolver = new TenantHandshakeResolver(
+        mockConfigService,
+        undefined,
+        tenantResolver,
+      );
+
+      // Act
+      const tenantId = await resolver.resolve({
+        headers: { 'x-api-key': 'key' },
+      });
+
+      // Assert
+      expect(tenantId).toBe('initech');
+      expect(tenantResolver.resolve.mock.calls[0][0].header('x-api-key')).toBe(
+        'key',
+      );
+    });
+
+    it('should fall back to the default tenant', async () => {
+      // Arrange
+      mockConfigService.getTenantResolutionConfig.mockReturnValue({
+        defaultTenant: 'default',
+      });
+
+      // Act & Assert
+      expect(await resolver.resolve({})).toBe('default');
+    });
+  });
+
+  describe('bindClient', () => {
+    it('should keep the tenant of a socket.io client', async () => {
+      // Arrange
+      const socket = {
+        handshake: {
+          headers: {},
+          url: '/socket.io/',
+          auth: { token: createToken({ tenantId: 'acme' }) },
+        },
+      };
+
+      // Act
+      const tenantId = await resolver.bindClient(socket);
+
+      // Assert
+      expect(tenantId).toBe('acme');
+      expect(resolver.getClientTenant(socket)).toBe('acme');
+    });
+
+    it('should resolve clients from the upgrade request', async () => {
+      // Arrange
+      const client = {};
+      const request = { headers: { 'x-tenant-id': 'globex' }, url: '/ws' };
+
+      // Act
+      await resolver.bindClient(client, request);
+
+      // Assert
+      expect(resolver.getClientTenant(client)).toBe('globex');
+      expect(resolver.getClientTenant({})).toBeUndefined();
+    });
+  });
+
+  describe('createGraphQLContext', () => {
+    it('should keep the tenant resolved by the middleware', async () => {
+      // Arrange
+      const req = { headers: {}, tenant: { id: 'acme' } };
+
+      // Act
+      const context = await resolver.createGraphQLContext()({ req });
+
+      // Assert
+      expect(context).toEqual({ req, tenantId: 'acme' });
+    });
+
+    it('should resolve subscriptions from their connection params', async () => {
+      // Act
+      const context = await resolver.createGraphQLContext()({
+        connectionParams: {
+          authorization: `Bearer ${createToken({ tenantId: 'globex' })}`,
+        },
+        extra: { request: { headers: {}, url: '/graphql' } },
+      });
+
+      // Assert
+      expect(context.tenantId).toBe('globex');
+    });
+  });
+});
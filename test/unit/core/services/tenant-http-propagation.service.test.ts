@@ -0,0 +1,247 @@
+import { HttpService } from '@nestjs/axios';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  HttpTenantPropagationConfig,
+  IMultiTenantConfigService,
+} from '../../../../src/core/interfaces/tenant.interface';
+import {
+  runInTenantScope,
+  TenantContext,
+} from '../../../../src/core/services/async-local-tenant-context.service';
+import { defaultSchemaNamingStrategy } from '../../../../src/core/services/multi-tenant-config.service';
+import {
+  getInboundTraceId,
+  isAllowedHost,
+  TenantHttpPropagator,
+} from '../../../../src/core/services/tenant-http-propagation.service';
+import { JwtVerifier } from '../../../../src/core/utils/jwt-verifier';
+import { createMock, Mock } from '../../../utils/mock';
+
+type AxiosInstance = HttpService['axiosRef'];
+
+/**
+ * Sends a request through the axios interceptors and returns the headers it
+ * would have been sent with
+ */
+const sendRequest = async (
+  axios: AxiosInstance,
+  url: string,
+  headers: Record<string, string> = {},
+): Promise<Record<string, unknown>> => {
+  const response = await axios.get(url, {
+    headers,
+    adapter: async config => ({
+      data: config.headers.toJSON(),
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+      config,
+    }),
+  });
+  return response.data;
+};
+
+describe('TenantHttpPropagator', () => {
+  let propagator: TenantHttpPropagator;
+  let httpService: HttpService;
+  let mockConfigService: Mock<IMultiTenantConfigService>;
+  let propagation: HttpTenantPropagationConfig;
+
+  beforeEach(() => {
+    propagation = { allowedHosts: ['users.internal', '*.svc.local'] };
+    mockConfigService = createMock<IMultiTenantConfigService>();
+    mockConfigService.getHttpPropagationConfig.mockReturnValue(propagation);
+    httpService = new HttpService(new HttpService().axiosRef.create());
+
+    propagator = new TenantHttpPropagator(mockConfigService, httpService);
+    propagator.onModuleInit();
+  });
+
+  it('should add the tenant and a trace ID to requests to allowed hosts', async () => {
+    // Act
+    const headers = await TenantContext.run('acme', () =>
+      sendRequest(httpService.axiosRef, 'http://users.internal/users'),
+    );
+
+    // Assert
+    expect(headers['x-tenant-id']).toBe('acme');
+    expect(headers['x-trace-id']).toMatch(/^mt_\d+_[a-z0-9]+$/);
+  });
+
+  it('should match wildcard entries against subdomains', async () => {
+    // Act
+    const headers = await TenantContext.run('acme', () =>
+      sendRequest(httpService.axiosRef, 'http://billing.svc.local:8080/'),
+    );
+
+    // Assert
+    expect(headers['x-tenant-id']).toBe('acme');
+  });
+
+  it('should not send tenant headers to other hosts', async () => {
+    // Act
+    const headers = await TenantContext.run('acme', () =>
+      sendRequest(httpService.axiosRef, 'https://api.stripe.com/v1/charges'),
+    );
+
+    // Assert
+    expect(headers['x-tenant-id']).toBeUndefined();
+    expect(headers['x-trace-id']).toBeUndefined();
+  });
+
+  it('should keep an existing trace ID and use the configured header names', async () => {
+    // Arrange
+    propagation.headerName = 'x-org';
+    propagation.traceHeaderName = 'x-request-trace';
+
+    // Act
+    const headers = await TenantContext.run('acme', () =>
+      sendRequest(httpService.axiosRef, 'http://users.internal/', {
+        'x-request-trace': 'trace-1',
+      }),
+    );
+
+    // Assert
+    expect(headers['x-org']).toBe('acme');
+    expect(headers['x-request-trace']).toBe('trace-1');
+  });
+
+  it('should reuse the trace ID of the inbound request', async () => {
+    // Act
+    const headers = await runInTenantScope(
+      defaultSchemaNamingStrategy,
+      () =>
+        TenantContext.run('acme', () =>
+          sendRequest(httpService.axiosRef, 'http://users.internal/'),
+        ),
+      'trace-in',
+    );
+
+    // Assert
+    expect(headers['x-trace-id']).toBe('trace-in');
+  });
+
+  it('should send the same generated trace ID on every request of a scope', async () => {
+    // Act
+    const [first, second] = await runInTenantScope(
+      defaultSchemaNamingStrategy,
+      async () => [
+        await sendRequest(httpService.axiosRef, 'http://users.internal/'),
+        await sendRequest(httpService.axiosRef, 'http://users.internal/'),
+      ],
+    );
+
+    // Assert
+    expect(first['x-trace-id']).toMatch(/^mt_\d+_[a-z0-9]+$/);
+    expect(second['x-trace-id']).toBe(first['x-trace-id']);
+  });
+
+  it('should only add the trace ID outside of a tenant context', async () => {
+    // Act
+    const headers = await sendRequest(
+      httpService.axiosRef,
+      'http://users.internal/',
+    );
+
+    // Assert
+    expect(headers['x-tenant-id']).toBeUndefined();
+    expect(headers['x-trace-id']).toBeDefined();
+  });
+
+  it('should add a signed tenant token when configured', async () => {
+    // Arrange
+    propagation.signedToken = {
+      secret: 'shared-secret',
+      issuer: 'orders',
+      expiresIn: 30,
+    };
+
+    // Act
+    const headers = await TenantContext.run('acme', () =>
+      sendRequest(httpService.axiosRef, 'http://users.internal/'),
+    );
+
+    // Assert
+    const payload = new JwtVerifier({
+      secret: 'shared-secret',
+      issuer: 'orders',
+      requireExpiration: true,
+    }).verify(headers['x-tenant-token'] as string);
+    expect(payload.tenantId).toBe('acme');
+    expect(Number(payload.exp) - Number(payload.iat)).toBe(30);
+  });
+
+  it('should add the interceptor to other axios instances', async () => {
+    // Arrange
+    const axios = new HttpService().axiosRef.create();
+
+    // Act
+    propagator.apply(axios);
+    const headers = await TenantContext.run('acme', () =>
+      sendRequest(axios, 'http://users.internal/'),
+    );
+
+    // Assert
+    expect(headers['x-tenant-id']).toBe('acme');
+  });
+
+  it('should not register the interceptor when propagation is disabled', async () => {
+    // Arrange
+    mockConfigService.getHttpPropagationConfig.mockReturnValue(undefined);
+    httpService = new HttpService(new HttpService().axiosRef.create());
+
+    // Act
+    new TenantHttpPropagator(mockConfigService, httpService).onModuleInit();
+    const headers = await TenantContext.run('acme', () =>
+      sendRequest(httpService.axiosRef, 'http://users.internal/'),
+    );
+
+    // Assert
+    expect(headers['x-tenant-id']).toBeUndefined();
+  });
+
+  describe('getInboundTraceId', () => {
+    it('should read the trace header, then the correlation headers', () => {
+      // Act & Assert
+      expect(
+        getInboundTraceId({ 'x-trace-id': 'trace-1', 'x-request-id': 'req-1' }),
+      ).toBe('trace-1');
+      expect(
+        getInboundTraceId({ 'x-request-trace': 'trace-2' }, 'X-Request-Trace'),
+      ).toBe('trace-2');
+      expect(getInboundTraceId({ 'x-correlation-id': ['corr-1'] })).toBe(
+        'corr-1',
+      );
+      expect(getInboundTraceId({ 'x-request-id': 'req-1' })).toBe('req-1');
+      expect(getInboundTraceId({})).toBeUndefined();
+    });
+  });
+
+  describe('isAllowedHost', () => {
+    it('should match host names, ports and wildcards', () => {
+      // Arrange
+      const allowedHosts = ['users.internal', 'localhost:3001', '*.svc.local'];
+
+      // Act & Assert
+      expect(
+        isAllowedHost(new URL('http://USERS.internal/'), allowedHosts),
+      ).toBe(true);
+      expect(
+        isAllowedHost(new URL('http://localhost:3001/'), allowedHosts),
+      ).toBe(true);
+      expect(
+        isAllowedHost(new URL('http://localhost:3002/'), allowedHosts),
+      ).toBe(false);
+      expect(isAllowedHost(new URL('http://a.svc.local/'), allowedHosts)).toBe(
+        true,
+      );
+      expect(isAllowedHost(new URL('http://svc.local/'), allowedHosts)).toBe(
+        false,
+      );
+      expect(
+        isAllowedHost(new URL('http://evilsvc.local/'), allowedHosts),
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { Client } from 'pg';
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  MockInstance,
+  vi,
+} from 'vitest';
+
+import { PostgresTenantEventTransport } from '../../../../../src/core/strategies/events/postgres-tenant-event.transport';
+
+describe('PostgresTenantEventTransport', () => {
+  let clients: Client[];
+  let query: MockInstance<Client['query']>;
+  let transport: PostgresTenantEventTransport;
+
+  const notify = (
+    client: Client,
+    payload: string,
+    channel = 'tenant_changes',
+  ) => client.emit('notification', { processId: 1, channel, payload });
+
+  beforeEach(() => {
+    clients = [];
+    vi.spyOn(Client.prototype, 'connect').mockImplementation(async function (
+      this: Client,
+    ) {
+      clients.push(this);
+    });
+    vi.spyOn(Client.prototype, 'end').mockImplementation(async function (
+      this: Client,
+    ) {
+      this.emit('end');
+    });
+    query = vi
+      .spyOn(Client.prototype, 'query')
+      .mockResolvedValue({ rows: [] } as never);
+    transport = new PostgresTenantEventTransport({
+      host: 'localhost',
+      port: 5432,
+      username: 'app',
+      password: 'secret',
+      database: 'multitenant_db',
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should listen on the channel and deliver events to subscribers', async () => {
+    // Arrange
+    const handler = vi.fn();
+    await transport.subscribe(handler);
+
+    // Act
+    notify(clients[0], '{"type":"updated","code":"tenant_acme"}');
+    await vi.waitFor(() => expect(handler).toHaveBeenCalled());
+
+    // Assert
+    expect(query).toHaveBeenCalledWith('LISTEN "tenant_changes"');
+    expect(handler).toHaveBeenCalledWith({
+      type: 'updated',
+      code: 'tenant_acme',
+    });
+  });
+
+  it('should publish events with pg_notify', async () => {
+    // Act
+    await transport.publish({ type: 'deactivated', code: 'tenant_acme' });
+
+    // Assert
+    expect(query).toHaveBeenCalledWith('SELECT pg_notify($1, $2)', [
+      'tenant_changes',
+      '{"type":"deactivated","code":"tenant_acme"}',
+    ]);
+    expect(clients).toHaveLength(1);
+  });
+
+  it('should ignore malformed payloads and other channels', async () => {
+    // Arrange
+    const handler = vi.fn();
+    await transport.subscribe(handler);
+
+    // Act
+    notify(clients[0], 'not json');
+    notify(clients[0], '{"type":"updated","code":"tenant_acme"}', 'other');
+    await Promise.resolve();
+
+    // Assert
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should reconnect when the connection is lost', async () => {
+    // Arrange
+    vi.useFakeTimers();
+    await transport.subscribe(vi.fn());
+
+    // Act
+    clients[0].emit('end');
+    await vi.advanceTimersByTimeAsync(5000);
+
+    // Assert
+    expect(clients).toHaveLength(2);
+  });
+
+  it('should keep retrying when the database is unavailable on subscribe', async () => {
+    // Arrange
+    vi.useFakeTimers();
+    const handler = vi.fn();
+    const connect = vi.mocked(Client.prototype.connect);
+    connect
+      .mockRejectedValueOnce(new Error('connect ECONNREFUSED'))
+      .mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+
+    // Act
+    await transport.subscribe(handler);
+    await vi.advanceTimersByTimeAsync(10_000);
+    notify(clients[0], '{"type":"updated","code":"tenant_acme"}');
+    await vi.waitFor(() => expect(handler).toHaveBeenCalled());
+
+    // Assert
+    expect(connect).toHaveBeenCalledTimes(3);
+    expect(clients).toHaveLength(1);
+    expect(query).toHaveBeenCalledWith('LISTEN "tenant_changes"');
+  });
+
+  it('should not reconnect once closed', async () => {
+    // Arrange
+    vi.useFakeTimers();
+    await transport.subscribe(vi.fn());
+
+    // Act
+    await transport.close();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    // Assert
+    expect(clients).toHaveLength(1);
+    await expect(
+      transport.publish({ type: 'updated', code: 'tenant_acme' }),
+    ).rejects.toThrow('Tenant event transport is closed');
+  });
+});
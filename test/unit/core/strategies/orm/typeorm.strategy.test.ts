@@ -0,0 +1,320 @@
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { PostgresDriver } from 'typeorm/driver/postgres/PostgresDriver';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ITypeOrmConnection } from '../../../../../src/core/interfaces/orm-abstraction.interface';
+import { DatabaseConfig } from '../../../../../src/core/interfaces/typeorm.interface';
+import { TypeOrmStrategy } from '../../../../../src/core/strategies/orm/typeorm.strategy';
+import { ReadOnlyScope } from '../../../../../src/core/utils/read-replica.utils';
+import { createMock } from '../../../../utils/mock';
+
+const databaseConfig: DatabaseConfig = {
+  host: 'localhost',
+  port: 5432,
+  username: 'postgres',
+  password: 'password',
+  database: 'multitenant_db',
+};
+
+/**
+ * Client checked out of a pool, with the release callback it was handed out
+ * with
+ */
+const createPoolClient = () => ({
+  client: { query: vi.fn().mockResolvedValue({ rows: [] }) },
+  release: vi.fn(),
+});
+
+/**
+ * Creates a tenant connection of a database with one read replica
+ * @returns The driver of the tenant DataSource
+ */
+const createReplicaDriver = async () => {
+  const strategy = new TypeOrmStrategy(createMock<ConfigService>(), {
+    ...databaseConfig,
+    replicas: [{ host: 'replica-1' }],
+  });
+  const { dataSource } = (await strategy.createConnection(
+    'tenant_acme',
+  )) as ITypeOrmConnection;
+  return dataSource.driver as PostgresDriver;
+};
+
+describe('TypeOrmStrategy', () => {
+  let primary: ReturnType<typeof createPoolClient>;
+  let replica: ReturnType<typeof createPoolClient>;
+  let replicaPools: PostgresDriver['slaves'];
+
+  beforeEach(() => {
+    primary = createPoolClient();
+    replica = createPoolClient();
+    replicaPools = [];
+
+    // Stands in for the pg pools that PostgresDriver opens on initialize
+    vi.spyOn(DataSource.prototype, 'initialize').mockImplementation(
+      async function (this: DataSource) {
+        const driver = this.driver as PostgresDriver;
+        driver.obtainMasterConnection = vi
+          .fn()
+          .mockResolvedValue([primary.client, primary.release]);
+        driver.slaves = replicaPools;
+        Object.assign(this, { isInitialized: true });
+        return this;
+      },
+    );
+    vi.spyOn(DataSource.prototype, 'destroy').mockImplementation(
+      async function (this: DataSource) {
+        Object.assign(this, { isInitialized: false });
+      },
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('shared pool', () => {
+    let strategy: TypeOrmStrategy;
+
+    beforeEach(() => {
+      strategy = new TypeOrmStrategy(
+        createMock<ConfigService>(),
+        databaseConfig,
+        'shared-pool',
+      );
+    });
+
+    it('should create tenant views over a single shared DataSource', async () => {
+      // Act
+      const acme = (await strategy.createConnection(
+        'tenant_acme',
+      )) as ITypeOrmConnection;
+      const globex = (await strategy.createConnection(
+        'tenant_globex',
+      )) as ITypeOrmConnection;
+
+      // Assert
+      const shared = Object.getPrototypeOf(acme.dataSource) as DataSource;
+      expect(Object.getPrototypeOf(globex.dataSource)).toBe(shared);
+      expect(shared.options).toMatchObject({
+        name: 'tenant_shared_pool',
+        schema: undefined,
+        synchronize: false,
+      });
+      expect(DataSource.prototype.initialize).toHaveBeenCalledTimes(1);
+    });
+
+    it('should bind the driver and the manager of the view to the view', async () => {
+      // Act
+      const { dataSource } = (await strategy.createConnection(
+        'tenant_acme',
+      )) as ITypeOrmConnection;
+
+      // Assert
+      const shared = Object.getPrototypeOf(dataSource) as DataSource;
+      expect(dataSource.driver).not.toBe(shared.driver);
+      expect(Object.getPrototypeOf(dataSource.driver)).toBe(shared.driver);
+      expect(dataSource.manager).not.toBe(shared.manager);
+      expect(dataSource.manager.connection).toBe(dataSource);
+    });
+
+    it('should set the search_path of the clients checked out by the view', async () => {
+      // Arrange
+      const { dataSource } = (await strategy.createConnection(
+        'tenant_acme',
+      )) as ITypeOrmConnection;
+      const driver = dataSource.driver as PostgresDriver;
+
+      // Act
+      const [client, release] = await driver.obtainMasterConnection();
+      release();
+
+      // Assert
+      expect(client).toBe(primary.client);
+      expect(primary.client.query).toHaveBeenCalledWith(
+        'SET search_path TO "tenant_acme"',
+      );
+      await vi.waitFor(() => expect(primary.release).toHaveBeenCalledWith());
+      expect(primary.client.query).toHaveBeenLastCalledWith(
+        'RESET search_path',
+      );
+    });
+
+    it('should set the tenant setting of the clients in row isolation', async () => {
+      // Arrange
+      const { dataSource } = (await strategy.createConnection(
+        'tenant_acme',
+        [],
+        { rowLevel: { schema: 'public', tenant: 'acme' } },
+      )) as ITypeOrmConnection;
+
+      // Act
+      await (dataSource.driver as PostgresDriver).obtainMasterConnection();
+
+      // Assert
+      expect(primary.client.query).toHaveBeenCalledWith(
+        'SELECT set_config($1, $2, false), set_config($3, $4, false)',
+        ['search_path', '"public"', 'app.tenant_id', 'acme'],
+      );
+    });
+
+    it('should keep the shared DataSource when a view is destroyed', async () => {
+      // Arrange
+      const connection = (await strategy.createConnection(
+        'tenant_acme',
+      )) as ITypeOrmConnection;
+
+      // Act
+      await strategy.destroyConnection(connection);
+
+      // Assert
+      expect(DataSource.prototype.destroy).not.toHaveBeenCalled();
+      expect(connection.isInitialized()).toBe(true);
+    });
+
+    it('should close the shared DataSource on dispose', async () => {
+      // Arrange
+      const connection = (await strategy.createConnection(
+        'tenant_acme',
+      )) as ITypeOrmConnection;
+
+      // Act
+      await strategy.dispose();
+
+      // Assert
+      expect(DataSource.prototype.destroy).toHaveBeenCalledTimes(1);
+      expect(connection.isInitialized()).toBe(false);
+    });
+
+    it('should retry initializing the shared DataSource after a failure', async () => {
+      // Arrange
+      vi.mocked(DataSource.prototype.initialize).mockRejectedValueOnce(
+        new Error('Connection refused'),
+      );
+
+      // Act & Assert
+      await expect(strategy.createConnection('tenant_acme')).rejects.toThrow(
+        'Connection refused',
+      );
+      await expect(
+        strategy.createConnection('tenant_acme'),
+      ).resolves.toBeDefined();
+    });
+
+    it('should give tenants with their own database a dedicated DataSource', async () => {
+      // Act
+      const { dataSource } = (await strategy.createConnection(
+        'tenant_acme',
+        undefined,
+        { database: { ...databaseConfig, host: 'acme-db' } },
+      )) as ITypeOrmConnection;
+
+      // Assert
+      expect(dataSource.options).toMatchObject({
+        name: 'tenant_tenant_acme',
+        host: 'acme-db',
+      });
+    });
+  });
+
+  it('should size the pool with the pool settings of the tenant', async () => {
+    // Arrange
+    const strategy = new TypeOrmStrategy(
+      createMock<ConfigService>(),
+      databaseConfig,
+    );
+
+    // Act
+    const { dataSource } = (await strategy.createConnection(
+      'tenant_acme',
+      undefined,
+      { pool: { max: 2, idleTimeoutMillis: 5000 } },
+    )) as ITypeOrmConnection;
+
+    // Assert
+    expect(dataSource.options).toMatchObject({
+      name: 'tenant_tenant_acme',
+      poolSize: 2,
+      extra: { idleTimeoutMillis: 5000 },
+    });
+    expect(dataSource.options).not.toHaveProperty('connectTimeoutMS');
+  });
+
+  describe('read replicas', () => {
+    beforeEach(() => {
+      replicaPools.push({
+        connect: vi.fn(callback =>
+          callback(undefined, replica.client, replica.release),
+        ),
+      });
+    });
+
+    it('should check out primary clients outside of read-only scopes', async () => {
+      // Arrange
+      const driver = await createReplicaDriver();
+
+      // Act
+      const [client] = await driver.obtainMasterConnection();
+
+      // Assert
+      expect(client).toBe(primary.client);
+    });
+
+    it('should check out replica clients in read-only scopes', async () => {
+      // Arrange
+      const driver = await createReplicaDriver();
+
+      // Act
+      const [client, release] = await ReadOnlyScope.run(() =>
+        driver.obtainMasterConnection(),
+      );
+
+      // Assert
+      expect(client).toBe(replica.client);
+      expect(release).toBe(replica.release);
+    });
+
+    it('should check out replica clients for slave query runners', async () => {
+      // Arrange
+      const driver = await createReplicaDriver();
+
+      // Act
+      const [client] = await driver.obtainSlaveConnection();
+
+      // Assert
+      expect(client).toBe(replica.client);
+    });
+
+    it('should fall back to the primary when the replica is unavailable', async () => {
+      // Arrange
+      vi.mocked(replicaPools[0].connect).mockImplementation(
+        (callback: (error: Error) => void) =>
+          callback(new Error('Connection refused')),
+      );
+      const driver = await createReplicaDriver();
+
+      // Act
+      const [client] = await ReadOnlyScope.run(() =>
+        driver.obtainMasterConnection(),
+      );
+
+      // Assert
+      expect(client).toBe(primary.client);
+    });
+
+    it('should keep the driver as is without replicas', async () => {
+      // Arrange
+      replicaPools.length = 0;
+      const driver = await createReplicaDriver();
+
+      // Act
+      const [client] = await ReadOnlyScope.run(() =>
+        driver.obtainMasterConnection(),
+      );
+
+      // Assert
+      expect(client).toBe(primary.client);
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { Tenant } from '../../../../../src/admin/entities/tenant.entity';
+import { TenantStatus } from '../../../../../src/constants';
+import { ITenantValidationStrategy } from '../../../../../src/core/interfaces/tenant-validation.interface';
+import { CachedTenantValidationStrategy } from '../../../../../src/core/strategies/validation/cached-tenant-validation.strategy';
+import { createMock, Mock } from '../../../../utils/mock';
+
+const createTenant = (overrides?: Partial<Tenant>): Tenant =>
+  Object.assign(new Tenant(), {
+    id: 'tenant-id',
+    code: 'tenant_acme',
+    status: TenantStatus.ACTIVE,
+    settings: { tier: 'pro' },
+    ...overrides,
+  });
+
+describe('CachedTenantValidationStrategy', () => {
+  let strategy: Mock<ITenantValidationStrategy>;
+  let cache: CachedTenantValidationStrategy;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    strategy = createMock<ITenantValidationStrategy>();
+    strategy.findByCode.mockResolvedValue(createTenant());
+    vi.mocked(strategy.findStatusByCode!).mockResolvedValue(undefined);
+    vi.mocked(strategy.findByDomain!).mockResolvedValue(createTenant());
+    cache = new CachedTenantValidationStrategy(strategy, {
+      ttl: 30_000,
+      negativeTtl: 5000,
+      maxEntries: 3,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should look up a tenant once until its ttl expires', async () => {
+    // Act
+    await cache.findByCode('tenant_acme');
+    await cache.findByCode('tenant_acme');
+    vi.advanceTimersByTime(30_001);
+    await cache.findByCode('tenant_acme');
+
+    // Assert
+    expect(strategy.findByCode).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share a lookup between concurrent callers', async () => {
+    // Act
+    await Promise.all([
+      cache.findByCode('tenant_acme'),
+      cache.findByCode('tenant_acme'),
+    ]);
+
+    // Assert
+    expect(strategy.findByCode).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep missing tenants for the negative ttl', async () => {
+    // Arrange
+    strategy.findByCode.mockResolvedValue(undefined);
+
+    // Act
+    await cache.findByCode('tenant_ghost');
+    vi.advanceTimersByTime(4000);
+    await cache.findByCode('tenant_ghost');
+    vi.advanceTimersByTime(1001);
+    await cache.findByCode('tenant_ghost');
+
+    // Assert
+    expect(strategy.findByCode).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache failed lookups', async () => {
+    // Arrange
+    strategy.findByCode.mockRejectedValueOnce(new Error('connection refused'));
+
+    // Act & Assert
+    await expect(cache.findByCode('tenant_acme')).rejects.toThrow(
+      'connection refused',
+    );
+    await expect(cache.findByCode('tenant_acme')).resolves.toEqual(
+      createTenant(),
+    );
+    expect(strategy.findByCode).toHaveBeenCalledTimes(2);
+  });
+
+  it('should answer existence and status checks from the cached tenant', async () => {
+    // Act
+    const exists = await cache.validateTenantExists('tenant_acme');
+    const status = await cache.findStatusByCode!('tenant_acme');
+    await cache.findByCode('tenant_acme');
+
+    // Assert
+    expect(exists).toBe(true);
+    expect(status).toEqual({
+      status: TenantStatus.ACTIVE,
+      settings: { tier: 'pro' },
+    });
+    expect(strategy.findByCode).toHaveBeenCalledTimes(1);
+    expect(strategy.validateTenantExists).not.toHaveBeenCalled();
+    expect(strategy.findStatusByCode).not.toHaveBeenCalled();
+  });
+
+  it('should ask the strategy for the status of deleted tenants', async () => {
+    // Arrange
+    strategy.findByCode.mockResolvedValue(undefined);
+    vi.mocked(strategy.findStatusByCode!).mockResolvedValue({
+      status: TenantStatus.SUSPENDED,
+    });
+
+    // Act
+    const status = await cache.findStatusByCode!('tenant_acme');
+
+    // Assert
+    expect(status).toEqual({ status: TenantStatus.SUSPENDED });
+  });
+
+  it('should evict the least recently used lookups over the size limit', async () => {
+    // Act
+    await cache.findByCode('tenant_a');
+    await cache.findByCode('tenant_b');
+    await cache.findByCode('tenant_c');
+    await cache.findByCode('tenant_a');
+    await cache.findByCode('tenant_d');
+    await cache.findByCode('tenant_a');
+    await cache.findByCode('tenant_b');
+
+    // Assert
+    expect(strategy.findByCode).toHaveBeenCalledTimes(5);
+  });
+
+  it('should drop the lookups of an invalidated tenant, including its domains', async () => {
+    // Arrange
+    await cache.findByCode('tenant_acme');
+    await cache.findByDomain!('acme.example.com');
+
+    // Act
+    cache.invalidate('tenant_acme');
+    await cache.findByCode('tenant_acme');
+    await cache.findByDomain!('acme.example.com');
+
+    // Assert
+    expect(strategy.findByCode).toHaveBeenCalledTimes(2);
+    expect(strategy.findByDomain).toHaveBeenCalledTimes(2);
+    expect(strategy.invalidate).toHaveBeenCalledWith('tenant_acme');
+  });
+
+  describe('custom domains', () => {
+    it('should resolve a domain added and then verified once it is invalidated', async () => {
+      // Arrange
+      vi.mocked(strategy.findByDomain!).mockResolvedValue(undefined);
+      await cache.findByDomain!('portal.acme.com');
+
+      // Act
+      vi.mocked(strategy.findByDomain!).mockResolvedValue(createTenant());
+      const beforeInvalidation = await cache.findByDomain!('portal.acme.com');
+      cache.invalidateDomain('portal.acme.com');
+      const afterInvalidation = await cache.findByDomain!('portal.acme.com');
+
+      // Assert
+      expect(beforeInvalidation).toBeUndefined();
+      expect(afterInvalidation).toEqual(createTenant());
+      expect(strategy.invalidateDomain).toHaveBeenCalledWith('portal.acme.com');
+    });
+
+    it('should stop resolving a removed domain once it is invalidated', async () => {
+      // Arrange
+      await cache.findByDomain!('portal.acme.com');
+
+      // Act
+      vi.mocked(strategy.findByDomain!).mockResolvedValue(undefined);
+      cache.invalidateDomain('portal.acme.com');
+      const tenant = await cache.findByDomain!('portal.acme.com');
+
+      // Assert
+      expect(tenant).toBeUndefined();
+      expect(strategy.findByDomain).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep the lookups of other domains and of the tenant', async () => {
+      // Arrange
+      await cache.findByCode('tenant_acme');
+      await cache.findByDomain!('portal.acme.com');
+      await cache.findByDomain!('shop.acme.com');
+
+      // Act
+      cache.invalidateDomain('portal.acme.com');
+      await cache.findByCode('tenant_acme');
+      await cache.findByDomain!('shop.acme.com');
+
+      // Assert
+      expect(strategy.findByCode).toHaveBeenCalledTimes(1);
+      expect(strategy.findByDomain).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it('should only offer the optional lookups of the strategy', () => {
+    // Act
+    const minimal = new CachedTenantValidationStrategy({
+      validateTenantExists: vi.fn(),
+      findByCode: vi.fn(),
+    });
+
+    // Assert
+    expect(minimal.findStatusByCode).toBeUndefined();
+    expect(minimal.findByDomain).toBeUndefined();
+  });
+});
@@ -0,0 +1,106 @@
+import { HttpService } from '@nestjs/axios';
+import { of, throwError } from 'rxjs';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { CachedTenantValidationStrategy } from '../../../../../src/core/strategies/validation/cached-tenant-validation.strategy';
+import { RemoteTenantValidationStrategy } from '../../../../../src/core/strategies/validation/remote-tenant-validation.strategy';
+import { createMock, Mock } from '../../../../utils/mock';
+
+const tenant = { id: 'tenant-id', code: 'tenant_acme', status: 'active' };
+
+const respond = (data: unknown) => of({ data }) as never;
+
+describe('RemoteTenantValidationStrategy', () => {
+  let httpService: Mock<HttpService>;
+  let strategy: RemoteTenantValidationStrategy;
+
+  beforeEach(() => {
+    httpService = createMock<HttpService>();
+    strategy = new RemoteTenantValidationStrategy(
+      httpService,
+      'http://admin.local',
+    );
+  });
+
+  it('should validate tenants through the admin API', async () => {
+    // Arrange
+    httpService.get.mockReturnValue(respond({ exists: true }));
+
+    // Act
+    const exists = await strategy.validateTenantExists('tenant_acme');
+
+    // Assert
+    expect(exists).toBe(true);
+    expect(httpService.get).toHaveBeenCalledWith(
+      'http://admin.local/admin/tenant/validate/tenant_acme',
+    );
+  });
+
+  it('should find tenants and their status by code', async () => {
+    // Arrange
+    httpService.get.mockReturnValue(respond(tenant));
+
+    // Act
+    const found = await strategy.findByCode('tenant_acme');
+    await strategy.findStatusByCode('tenant_acme');
+
+    // Assert
+    expect(found).toEqual(tenant);
+    expect(httpService.get).toHaveBeenCalledWith(
+      'http://admin.local/admin/tenant/code/tenant_acme',
+    );
+    expect(httpService.get).toHaveBeenCalledWith(
+      'http://admin.local/admin/tenant/status/tenant_acme',
+    );
+  });
+
+  it('should encode the domain of custom domain lookups', async () => {
+    // Arrange
+    httpService.get.mockReturnValue(respond(tenant));
+
+    // Act
+    await strategy.findByDomain('portal.acme.com/x');
+
+    // Assert
+    expect(httpService.get).toHaveBeenCalledWith(
+      'http://admin.local/admin/tenant/domain/portal.acme.com%2Fx',
+    );
+  });
+
+  it('should treat failed requests as missing tenants', async () => {
+    // Arrange
+    httpService.get.mockReturnValue(
+      throwError(() => new Error('Service unavailable')),
+    );
+
+    // Act & Assert
+    await expect(strategy.validateTenantExists('tenant_acme')).resolves.toBe(
+      false,
+    );
+    await expect(strategy.findByCode('tenant_acme')).resolves.toBeUndefined();
+    await expect(
+      strategy.findByDomain('portal.acme.com'),
+    ).resolves.toBeUndefined();
+    await expect(
+      strategy.findStatusByCode('tenant_acme'),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should call the admin API once per ttl behind the tenant cache', async () => {
+    // Arrange
+    httpService.get.mockReturnValue(respond(tenant));
+    const cache = new CachedTenantValidationStrategy(strategy, {
+      ttl: 30_000,
+    });
+
+    // Act
+    await cache.validateTenantExists('tenant_acme');
+    await cache.findByCode('tenant_acme');
+
+    // Assert
+    expect(httpService.get).toHaveBeenCalledTimes(1);
+    expect(httpService.get).toHaveBeenCalledWith(
+      'http://admin.local/admin/tenant/code/tenant_acme',
+    );
+  });
+});
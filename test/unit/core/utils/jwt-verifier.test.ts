@@ -0,0 +1,344 @@
+import {
+  createHmac,
+  generateKeyPairSync,
+  KeyObject,
+  sign as signData,
+} from 'node:crypto';
+
+import { describe, expect, it } from 'vitest';
+
+import {
+  InvalidTenantTokenError,
+  JwtVerificationConfigError,
+} from '../../../../src/core/exceptions/custom-errors';
+import { JwtVerificationOptions } from '../../../../src/core/interfaces/tenant.interface';
+import {
+  getJwtVerifier,
+  JwtVerifier,
+  signJwt,
+} from '../../../../src/core/utils/jwt-verifier';
+
+const encode = (value: object): string =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const signHmac = (payload: object, secret: string): string => {
+  const input = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}`;
+  const signature = createHmac('sha256', secret)
+    .update(input)
+    .digest('base64url');
+  return `${input}.${signature}`;
+};
+
+const signAsymmetric = (
+  payload: object,
+  privateKey: KeyObject,
+  header: { alg: string; kid?: string },
+): string => {
+  const input = `${encode(header)}.${encode(payload)}`;
+  const hash = `sha${header.alg.slice(2)}`;
+  const signature = signData(
+    hash,
+    Buffer.from(input),
+    header.alg.startsWith('ES')
+      ? { key: privateKey, dsaEncoding: 'ieee-p1363' }
+      : privateKey,
+  ).toString('base64url');
+  return `${input}.${signature}`;
+};
+
+const toPem = (key: KeyObject): string =>
+  key.export({ type: 'spki', format: 'pem' }).toString();
+
+const nowInSeconds = (): number => Math.floor(Date.now() / 1000);
+
+const expectTokenError = (fn: () => unknown, reason: string): void => {
+  try {
+    fn();
+    expect.fail('Expected InvalidTenantTokenError');
+  } catch (error) {
+    expect(error).toBeInstanceOf(InvalidTenantTokenError);
+    expect((error as InvalidTenantTokenError).reason).toBe(reason);
+  }
+};
+
+describe('JwtVerifier', () => {
+  const secret = 'super-secret';
+  const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const ec = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+
+  describe('constructor', () => {
+    it('should throw when no key material is configured', () => {
+      // Act & Assert
+      expect(() => new JwtVerifier({})).toThrow(
+        'Invalid JWT verification configuration: a secret, public keys or a JWKS document is required',
+      );
+    });
+
+    it('should throw when a public key cannot be parsed', () => {
+      // Act & Assert
+      expect(() => new JwtVerifier({ publicKeys: 'not a pem' })).toThrow(
+        JwtVerificationConfigError,
+      );
+    });
+
+    it('should throw when a JWKS file cannot be read', () => {
+      // Act & Assert
+      expect(() => new JwtVerifier({ jwks: '/missing/jwks.json' })).toThrow(
+        /cannot load JWKS document/,
+      );
+    });
+  });
+
+  describe('HMAC tokens', () => {
+    it('should return the payload of a valid token', () => {
+      // Arrange
+      const verifier = new JwtVerifier({ secret });
+      const token = signHmac({ tenantId: 'tenant1' }, secret);
+
+      // Act
+      const payload = verifier.verify(token);
+
+      // Assert
+      expect(payload).toEqual({ tenantId: 'tenant1' });
+    });
+
+    it('should accept any of the configured secrets', () => {
+      // Arrange
+      const verifier = new JwtVerifier({ secret: ['old-secret', secret] });
+      const token = signHmac({ tenantId: 'tenant1' }, secret);
+
+      // Act & Assert
+      expect(verifier.verify(token).tenantId).toBe('tenant1');
+    });
+
+    it('should reject a token signed with another secret', () => {
+      // Arrange
+      const verifier = new JwtVerifier({ secret });
+      const token = signHmac({ tenantId: 'tenant1' }, 'other-secret');
+
+      // Act & Assert
+      expectTokenError(() => verifier.verify(token), 'Invalid signature');
+    });
+
+    it('should reject unsigned tokens', () => {
+      // Arrange
+      const verifier = new JwtVerifier({ secret });
+      const token = `${encode({ alg: 'none' })}.${encode({ tenantId: 'x' })}.`;
+
+      // Act & Assert
+      expectTokenError(
+        () => verifier.verify(token),
+        'Algorithm not allowed: none',
+      );
+    });
+
+    it('should reject malformed tokens', () => {
+      // Arrange
+      const verifier = new JwtVerifier({ secret });
+
+      // Act & Assert
+      expectTokenError(() => verifier.verify('not-a-jwt'), 'Malformed token');
+      expectTokenError(() => verifier.verify('a.b.c'), 'Malformed token');
+    });
+  });
+
+  describe('asymmetric tokens', () => {
+    it('should verify RS256 tokens with a PEM public key', () => {
+      // Arrange
+      const verifier = new JwtVerifier({
+        publicKeys: toPem(rsa.publicKey),
+      });
+      const token = signAsymmetric({ tenantId: 'tenant1' }, rsa.privateKey, {
+        alg: 'RS256',
+      });
+
+      // Act & Assert
+      expect(verifier.verify(token).tenantId).toBe('tenant1');
+    });
+
+    it('should verify ES256 tokens with a PEM public key', () => {
+      // Arrange
+      const verifier = new JwtVerifier({
+        publicKeys: toPem(ec.publicKey),
+      });
+      const token = signAsymmetric({ tenantId: 'tenant1' }, ec.privateKey, {
+        alg: 'ES256',
+      });
+
+      // Act & Assert
+      expect(verifier.verify(token).tenantId).toBe('tenant1');
+    });
+
+    it('should not allow HMAC tokens when only public keys are configured', () => {
+      // Arrange
+      const pem = toPem(rsa.publicKey);
+      const verifier = new JwtVerifier({ publicKeys: pem });
+      const token = signHmac({ tenantId: 'tenant1' }, pem);
+
+      // Act & Assert
+      expectTokenError(
+        () => verifier.verify(token),
+        'Algorithm not allowed: HS256',
+      );
+    });
+
+    it('should select the JWKS key matching the kid', () => {
+      // Arrange
+      const other = generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const verifier = new JwtVerifier({
+        jwks: {
+          keys: [
+            { ...other.publicKey.export({ format: 'jwk' }), kid: 'old' },
+            { ...rsa.publicKey.export({ format: 'jwk' }), kid: 'current' },
+          ] as never,
+        },
+      });
+      const token = signAsymmetric({ tenantId: 'tenant1' }, rsa.privateKey, {
+        alg: 'RS256',
+        kid: 'current',
+      });
+
+      // Act & Assert
+      expect(verifier.verify(token).tenantId).toBe('tenant1');
+    });
+
+    it('should reject an unknown kid', () => {
+      // Arrange
+      const verifier = new JwtVerifier({
+        jwks: {
+          keys: [
+            { ...rsa.publicKey.export({ format: 'jwk' }), kid: 'current' },
+          ] as never,
+        },
+      });
+      const token = signAsymmetric({ tenantId: 'tenant1' }, rsa.privateKey, {
+        alg: 'RS256',
+        kid: 'rotated',
+      });
+
+      // Act & Assert
+      expectTokenError(() => verifier.verify(token), 'Unknown key id: rotated');
+    });
+
+    it('should fall back to the public keys for an unknown kid', () => {
+      // Arrange
+      const other = generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const verifier = new JwtVerifier({
+        publicKeys: toPem(rsa.publicKey),
+        jwks: {
+          keys: [
+            { ...other.publicKey.export({ format: 'jwk' }), kid: 'current' },
+          ] as never,
+        },
+      });
+      const token = signAsymmetric({ tenantId: 'tenant1' }, rsa.privateKey, {
+        alg: 'RS256',
+        kid: 'static',
+      });
+
+      // Act & Assert
+      expect(verifier.verify(token).tenantId).toBe('tenant1');
+    });
+  });
+
+  describe('claims', () => {
+    it('should reject expired tokens', () => {
+      // Arrange
+      const verifier = new JwtVerifier({ secret });
+      const token = signHmac({ exp: nowInSeconds() - 60 }, secret);
+
+      // Act & Assert
+      expectTokenError(() => verifier.verify(token), 'Token expired');
+    });
+
+    it('should apply the clock tolerance', () => {
+      // Arrange
+      const verifier = new JwtVerifier({ secret, clockTolerance: 120 });
+      const token = signHmac(
+        { tenantId: 'tenant1', exp: nowInSeconds() - 60 },
+        secret,
+      );
+
+      // Act & Assert
+      expect(verifier.verify(token).tenantId).toBe('tenant1');
+    });
+
+    it('should reject tokens that are not yet valid', () => {
+      // Arrange
+      const verifier = new JwtVerifier({ secret });
+      const token = signHmac({ nbf: nowInSeconds() + 60 }, secret);
+
+      // Act & Assert
+      expectTokenError(() => verifier.verify(token), 'Token not yet valid');
+    });
+
+    it('should require exp when configured', () => {
+      // Arrange
+      const verifier = new JwtVerifier({ secret, requireExpiration: true });
+      const token = signHmac({ tenantId: 'tenant1' }, secret);
+
+      // Act & Assert
+      expectTokenError(() => verifier.verify(token), 'Missing exp claim');
+    });
+
+    it('should validate issuer and audience', () => {
+      // Arrange
+      const verifier = new JwtVerifier({
+        secret,
+        issuer: 'https://auth.example.com',
+        audience: ['api', 'admin'],
+      });
+      const valid = signHmac(
+        { iss: 'https://auth.example.com', aud: ['web', 'api'] },
+        secret,
+      );
+      const wrongIssuer = signHmac(
+        { iss: 'https://evil.com', aud: 'api' },
+        secret,
+      );
+      const wrongAudience = signHmac(
+        { iss: 'https://auth.example.com', aud: 'web' },
+        secret,
+      );
+
+      // Act & Assert
+      expect(() => verifier.verify(valid)).not.toThrow();
+      expectTokenError(() => verifier.verify(wrongIssuer), 'Invalid issuer');
+      expectTokenError(
+        () => verifier.verify(wrongAudience),
+        'Invalid audience',
+      );
+    });
+  });
+
+  describe('getJwtVerifier', () => {
+    it('should reuse the verifier for the same options object', () => {
+      // Arrange
+      const options: JwtVerificationOptions = { secret };
+
+      // Act & Assert
+      expect(getJwtVerifier(options)).toBe(getJwtVerifier(options));
+      expect(getJwtVerifier({ secret })).not.toBe(getJwtVerifier(options));
+    });
+  });
+
+  describe('signJwt', () => {
+    it('should sign tokens the verifier accepts', () => {
+      // Arrange
+      const token = signJwt({ tenantId: 'acme' }, secret, 'HS512');
+
+      // Act
+      const payload = new JwtVerifier({ secret }).verify(token);
+
+      // Assert
+      expect(payload.tenantId).toBe('acme');
+    });
+
+    it('should reject asymmetric algorithms', () => {
+      // Act & Assert
+      expect(() => signJwt({}, secret, 'RS256')).toThrow(
+        'Unsupported JWT signing algorithm: RS256',
+      );
+    });
+  });
+});
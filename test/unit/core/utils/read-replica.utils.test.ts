@@ -0,0 +1,183 @@
+import type { Pool, PoolClient } from 'pg';
+
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  MockedFunction,
+  vi,
+} from 'vitest';
+
+import {
+  getReplicaConfig,
+  ReadOnlyScope,
+  ReadReplicaPool,
+  ReplicaRouter,
+} from '../../../../src/core/utils/read-replica.utils';
+import { createMock, Mock } from '../../../utils/mock';
+
+type Connect = () => Promise<string>;
+
+describe('read-replica.utils', () => {
+  describe('ReadOnlyScope', () => {
+    it('should be active inside run() only', async () => {
+      // Act
+      const inside = await ReadOnlyScope.run(async () => {
+        await Promise.resolve();
+        return ReadOnlyScope.isActive();
+      });
+
+      // Assert
+      expect(inside).toBe(true);
+      expect(ReadOnlyScope.isActive()).toBe(false);
+    });
+  });
+
+  describe('getReplicaConfig', () => {
+    it('should default the replica fields to the primary', () => {
+      // Act
+      const config = getReplicaConfig(
+        {
+          host: 'primary',
+          port: 5432,
+          username: 'app',
+          password: 'secret',
+          database: 'multitenant_db',
+          replicas: [{ host: 'replica-1' }],
+        },
+        { host: 'replica-1', username: 'reader' },
+      );
+
+      // Assert
+      expect(config).toEqual({
+        host: 'replica-1',
+        port: 5432,
+        username: 'reader',
+        password: 'secret',
+        database: 'multitenant_db',
+        replicas: undefined,
+      });
+    });
+  });
+
+  describe('ReplicaRouter', () => {
+    let primary: MockedFunction<Connect>;
+    let replicaA: MockedFunction<Connect>;
+    let replicaB: MockedFunction<Connect>;
+    let router: ReplicaRouter<string>;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      primary = vi.fn<Connect>().mockResolvedValue('primary');
+      replicaA = vi.fn<Connect>().mockResolvedValue('replica-a');
+      replicaB = vi.fn<Connect>().mockResolvedValue('replica-b');
+      router = new ReplicaRouter([replicaA, replicaB], primary);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should use the primary outside of read-only scopes', async () => {
+      // Act & Assert
+      await expect(router.connect()).resolves.toBe('primary');
+      expect(replicaA).not.toHaveBeenCalled();
+    });
+
+    it('should alternate between the replicas in read-only scopes', async () => {
+      // Act
+      const connections = await ReadOnlyScope.run(async () => [
+        await router.connect(),
+        await router.connect(),
+      ]);
+
+      // Assert
+      expect(connections).toEqual(['replica-a', 'replica-b']);
+      expect(primary).not.toHaveBeenCalled();
+    });
+
+    it('should skip a replica that fails to connect until the retry delay passes', async () => {
+      // Arrange
+      replicaA.mockRejectedValueOnce(new Error('connection refused'));
+
+      // Act & Assert
+      await expect(router.connect(true)).resolves.toBe('replica-b');
+      await expect(router.connect(true)).resolves.toBe('replica-b');
+      await expect(router.connect(true)).resolves.toBe('replica-b');
+      expect(replicaA).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(30_000);
+      await router.connect(true);
+      await router.connect(true);
+      expect(replicaA).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fall back to the primary when no replica connects', async () => {
+      // Arrange
+      replicaA.mockRejectedValue(new Error('connection refused'));
+      replicaB.mockRejectedValue(new Error('connection refused'));
+
+      // Act & Assert
+      await expect(router.connect(true)).resolves.toBe('primary');
+      await expect(router.connect(true)).resolves.toBe('primary');
+      expect(replicaA).toHaveBeenCalledTimes(1);
+      expect(replicaB).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('ReadReplicaPool', () => {
+    let primary: Mock<Pool>;
+    let replica: Mock<Pool>;
+    let primaryClient: Mock<PoolClient>;
+    let replicaClient: Mock<PoolClient>;
+    let pool: ReadReplicaPool;
+
+    beforeEach(() => {
+      primaryClient = createMock<PoolClient>();
+      replicaClient = createMock<PoolClient>();
+      primary = createMock<Pool>();
+      replica = createMock<Pool>();
+      primary.connect.mockResolvedValue(primaryClient as never);
+      replica.connect.mockResolvedValue(replicaClient as never);
+      pool = new ReadReplicaPool(primary, [replica]);
+    });
+
+    it('should run queries on the primary outside of read-only scopes', async () => {
+      // Act
+      await pool.query('SELECT 1');
+
+      // Assert
+      expect(primaryClient.query).toHaveBeenCalledWith('SELECT 1', undefined);
+      expect(primaryClient.release).toHaveBeenCalled();
+      expect(replica.connect).not.toHaveBeenCalled();
+    });
+
+    it('should run queries on a replica in read-only scopes', async () => {
+      // Act
+      await ReadOnlyScope.run(() => pool.query('SELECT 1'));
+
+      // Assert
+      expect(replicaClient.query).toHaveBeenCalledWith('SELECT 1', undefined);
+      expect(primary.connect).not.toHaveBeenCalled();
+    });
+
+    it('should always read from the replicas when read-only', async () => {
+      // Act
+      const client = await pool.asReadOnly().connect();
+
+      // Assert
+      expect(client).toBe(replicaClient);
+    });
+
+    it('should end the primary and replica pools', async () => {
+      // Act
+      await pool.end();
+
+      // Assert
+      expect(primary.end).toHaveBeenCalled();
+      expect(replica.end).toHaveBeenCalled();
+    });
+  });
+});
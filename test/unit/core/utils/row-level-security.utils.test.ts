@@ -0,0 +1,92 @@
+import { pgTable, uuid } from 'drizzle-orm/pg-core';
+import { Entity, EntityTarget, PrimaryGeneratedColumn } from 'typeorm';
+import { describe, expect, it } from 'vitest';
+
+import { EntityRegistry } from '../../../../src/config/entity.registry';
+import {
+  generateRowLevelSecurityPolicies,
+  getRowLevelSecurityStatements,
+} from '../../../../src/core/utils/row-level-security.utils';
+
+@Entity('rls_invoices')
+class RlsInvoice {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+}
+
+@Entity()
+class RlsInvoiceLine {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+}
+
+const rlsPayments = pgTable('rls_payments', {
+  id: uuid('id').primaryKey(),
+});
+
+describe('row-level-security.utils', () => {
+  describe('getRowLevelSecurityStatements', () => {
+    it('should enable row-level security with a policy on the tenant column', () => {
+      // Act
+      const statements = getRowLevelSecurityStatements('invoices');
+
+      // Assert
+      expect(statements).toEqual([
+        'ALTER TABLE "public"."invoices" ENABLE ROW LEVEL SECURITY',
+        'ALTER TABLE "public"."invoices" FORCE ROW LEVEL SECURITY',
+        'DROP POLICY IF EXISTS "invoices_tenant_isolation" ON "public"."invoices"',
+        `CREATE POLICY "invoices_tenant_isolation" ON "public"."invoices" USING ("tenant_id" = current_setting('app.tenant_id', true)) WITH CHECK ("tenant_id" = current_setting('app.tenant_id', true))`,
+      ]);
+    });
+
+    it('should use the configured schema and tenant column', () => {
+      // Act
+      const statements = getRowLevelSecurityStatements('invoices', {
+        schema: 'shared',
+        tenantColumn: 'org_code',
+      });
+
+      // Assert
+      expect(statements[0]).toBe(
+        'ALTER TABLE "shared"."invoices" ENABLE ROW LEVEL SECURITY',
+      );
+      expect(statements[3]).toContain(
+        `USING ("org_code" = current_setting('app.tenant_id', true))`,
+      );
+    });
+  });
+
+  describe('generateRowLevelSecurityPolicies', () => {
+    it('should generate policies for the tables of registered entities', () => {
+      // Arrange
+      EntityRegistry.getInstance().registerEntities({
+        rls_invoice: RlsInvoice,
+        rls_invoice_line: RlsInvoiceLine,
+        rls_payment: rlsPayments as unknown as EntityTarget<unknown>,
+        rls_audit: 'rls_audit_log',
+      });
+
+      // Act
+      const statements = generateRowLevelSecurityPolicies({
+        entityNames: [
+          'rls_invoice',
+          'rls_invoice_line',
+          'rls_payment',
+          'rls_audit',
+        ],
+      });
+
+      // Assert
+      const tables = statements
+        .filter(statement => statement.endsWith('ENABLE ROW LEVEL SECURITY'))
+        .map(statement => statement.split(' ')[2]);
+      expect(tables).toEqual([
+        '"public"."rls_invoices"',
+        '"public"."rls_invoice_line"',
+        '"public"."rls_payments"',
+        '"public"."rls_audit_log"',
+      ]);
+      expect(statements).toHaveLength(16);
+    });
+  });
+});
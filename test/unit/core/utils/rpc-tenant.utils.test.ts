@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  extractRpcTenant,
+  readRpcHeader,
+  stampRpcTenant,
+} from '../../../../src/core/utils/rpc-tenant.utils';
+
+const stamper = (data: unknown, tenantId: string) => ({
+  data,
+  headers: { 'x-tenant-id': tenantId },
+});
+
+describe('rpc-tenant.utils', () => {
+  describe('readRpcHeader', () => {
+    it('should read NATS headers', () => {
+      // Arrange
+      const context = {
+        getHeaders: () => new Map([['x-tenant-id', 'acme']]),
+      };
+
+      // Act & Assert
+      expect(readRpcHeader(context, 'x-tenant-id')).toBe('acme');
+    });
+
+    it('should read RabbitMQ message headers case-insensitively', () => {
+      // Arrange
+      const context = {
+        getMessage: () => ({
+          properties: { headers: { 'X-Tenant-Id': 'acme' } },
+        }),
+      };
+
+      // Act & Assert
+      expect(readRpcHeader(context, 'x-tenant-id')).toBe('acme');
+    });
+
+    it('should read Kafka message headers sent as buffers', () => {
+      // Arrange
+      const context = {
+        getMessage: () => ({ headers: { 'x-tenant-id': Buffer.from('acme') } }),
+      };
+
+      // Act & Assert
+      expect(readRpcHeader(context, 'x-tenant-id')).toBe('acme');
+    });
+
+    it('should read gRPC metadata', () => {
+      // Arrange
+      const metadata = {
+        get: (name: string) => (name === 'x-tenant-id' ? ['acme'] : []),
+      };
+
+      // Act & Assert
+      expect(readRpcHeader(metadata, 'x-tenant-id')).toBe('acme');
+    });
+
+    it('should return undefined for transports without metadata', () => {
+      // Arrange
+      const tcpContext = { getPattern: () => 'orders.find' };
+
+      // Act & Assert
+      expect(readRpcHeader(tcpContext, 'x-tenant-id')).toBeUndefined();
+    });
+  });
+
+  describe('extractRpcTenant', () => {
+    it('should prefer the payload over the headers', () => {
+      // Arrange
+      const context = {
+        getHeaders: () => new Map([['x-tenant-id', 'globex']]),
+      };
+
+      // Act & Assert
+      expect(extractRpcTenant({ tenantId: 'acme' }, context)).toBe('acme');
+    });
+
+    it('should use the configured payload key and header name', () => {
+      // Arrange
+      const config = { payloadKey: 'org', headerName: 'x-org' };
+      const context = { getHeaders: () => new Map([['x-org', 'globex']]) };
+
+      // Act & Assert
+      expect(extractRpcTenant({ org: ' acme ' }, {}, config)).toBe('acme');
+      expect(extractRpcTenant({ tenantId: 'acme' }, context, config)).toBe(
+        'globex',
+      );
+    });
+  });
+
+  describe('stampRpcTenant', () => {
+    it('should add the tenant to plain object payloads', () => {
+      // Act & Assert
+      expect(stampRpcTenant({ orderId: 1 }, 'acme')).toEqual({
+        orderId: 1,
+        tenantId: 'acme',
+      });
+    });
+
+    it('should keep a tenant already set in the payload', () => {
+      // Arrange
+      const data = { tenantId: 'globex' };
+
+      // Act & Assert
+      expect(stampRpcTenant(data, 'acme')).toBe(data);
+    });
+
+    it('should leave other payloads unchanged', () => {
+      // Arrange
+      class RmqRecord {
+        constructor(readonly data: unknown) {}
+      }
+      const record = new RmqRecord({ orderId: 1 });
+
+      // Act & Assert
+      expect(stampRpcTenant('ping', 'acme')).toBe('ping');
+      expect(stampRpcTenant([1, 2], 'acme')).toEqual([1, 2]);
+      expect(stampRpcTenant(record, 'acme')).toBe(record);
+    });
+
+    it('should use the configured stamper', () => {
+      // Act & Assert
+      expect(stampRpcTenant('ping', 'acme', { stamper })).toEqual({
+        data: 'ping',
+        headers: { 'x-tenant-id': 'acme' },
+      });
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import type { Pool, PoolClient } from 'pg';
+
+import { beforeEach, describe, expect, it, MockedFunction, vi } from 'vitest';
+
+import {
+  quoteIdentifier,
+  ReleasePoolClient,
+  scopeClientToSchema,
+  TenantSchemaPool,
+} from '../../../../src/core/utils/shared-pool.utils';
+import { createMock, Mock } from '../../../utils/mock';
+
+describe('shared-pool.utils', () => {
+  let client: Mock<PoolClient>;
+  let release: MockedFunction<ReleasePoolClient>;
+
+  beforeEach(() => {
+    client = createMock<PoolClient>();
+    client.query.mockResolvedValue({ rows: [] } as never);
+    release = vi.fn<ReleasePoolClient>();
+    Object.assign(client, { release });
+  });
+
+  describe('quoteIdentifier', () => {
+    it('should quote identifiers and escape double quotes', () => {
+      // Act & Assert
+      expect(quoteIdentifier('tenant_acme')).toBe('"tenant_acme"');
+      expect(quoteIdentifier('a"b')).toBe('"a""b"');
+    });
+  });
+
+  describe('scopeClientToSchema', () => {
+    it('should set the search_path and reset it before releasing', async () => {
+      // Act
+      const scopedRelease = await scopeClientToSchema(
+        client,
+        'tenant_acme',
+        release,
+      );
+      scopedRelease();
+      await vi.waitFor(() => expect(release).toHaveBeenCalled());
+
+      // Assert
+      expect(client.query).toHaveBeenNthCalledWith(
+        1,
+        'SET search_path TO "tenant_acme"',
+      );
+      expect(client.query).toHaveBeenNthCalledWith(2, 'RESET search_path');
+      expect(release).toHaveBeenCalledWith();
+    });
+
+    it('should set the tenant of row isolation and reset it before releasing', async () => {
+      // Act
+      const scopedRelease = await scopeClientToSchema(
+        client,
+        'public',
+        release,
+        'acme',
+      );
+      scopedRelease();
+      await vi.waitFor(() => expect(release).toHaveBeenCalled());
+
+      // Assert
+      expect(client.query.mock.calls).toEqual([
+        [
+          'SELECT set_config($1, $2, false), set_config($3, $4, false)',
+          ['search_path', '"public"', 'app.tenant_id', 'acme'],
+        ],
+        ['RESET search_path; RESET app.tenant_id'],
+      ]);
+    });
+
+    it('should destroy the client when the reset fails', async () => {
+      // Arrange
+      const resetError = new Error('connection lost');
+      const scopedRelease = await scopeClientToSchema(
+        client,
+        'tenant_acme',
+        release,
+      );
+      client.query.mockRejectedValueOnce(resetError);
+
+      // Act
+      scopedRelease();
+      await vi.waitFor(() => expect(release).toHaveBeenCalled());
+
+      // Assert
+      expect(release).toHaveBeenCalledWith(resetError);
+    });
+
+    it('should release errored clients without resetting them', async () => {
+      // Arrange
+      const error = new Error('query failed');
+      const scopedRelease = await scopeClientToSchema(
+        client,
+        'tenant_acme',
+        release,
+      );
+
+      // Act
+      scopedRelease(error);
+
+      // Assert
+      expect(client.query).toHaveBeenCalledTimes(1);
+      expect(release).toHaveBeenCalledWith(error);
+    });
+
+    it('should destroy the client and throw when setting the search_path fails', async () => {
+      // Arrange
+      const error = new Error('schema does not exist');
+      client.query.mockRejectedValueOnce(error);
+
+      // Act & Assert
+      await expect(
+        scopeClientToSchema(client, 'tenant_ghost', release),
+      ).rejects.toThrow(error);
+      expect(release).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('TenantSchemaPool', () => {
+    let pool: Mock<Pool>;
+    let tenantPool: TenantSchemaPool;
+
+    beforeEach(() => {
+      pool = createMock<Pool>();
+      pool.connect.mockResolvedValue(client as never);
+      tenantPool = new TenantSchemaPool(pool, 'tenant_acme');
+    });
+
+    it('should run queries on a client scoped to the tenant schema', async () => {
+      // Arrange
+      client.query.mockResolvedValueOnce({ rows: [] } as never);
+      client.query.mockResolvedValueOnce({ rows: [{ id: 1 }] } as never);
+
+      // Act
+      const result = await tenantPool.query(
+        'SELECT * FROM users WHERE id = $1',
+        [1],
+      );
+      await vi.waitFor(() => expect(release).toHaveBeenCalled());
+
+      // Assert
+      expect(result.rows).toEqual([{ id: 1 }]);
+      expect(client.query.mock.calls).toEqual([
+        ['SET search_path TO "tenant_acme"'],
+        ['SELECT * FROM users WHERE id = $1', [1]],
+        ['RESET search_path'],
+      ]);
+    });
+
+    it('should release the client when the query fails', async () => {
+      // Arrange
+      client.query.mockResolvedValueOnce({ rows: [] } as never);
+      client.query.mockRejectedValueOnce(new Error('syntax error'));
+
+      // Act & Assert
+      await expect(tenantPool.query('SELEC 1')).rejects.toThrow('syntax error');
+      await vi.waitFor(() => expect(release).toHaveBeenCalled());
+    });
+
+    it('should hand out scoped clients for transactions', async () => {
+      // Act
+      const checkedOut = await tenantPool.connect();
+      checkedOut.release();
+      await vi.waitFor(() => expect(release).toHaveBeenCalled());
+
+      // Assert
+      expect(checkedOut).toBe(client);
+      expect(client.query).toHaveBeenCalledWith('RESET search_path');
+    });
+  });
+});
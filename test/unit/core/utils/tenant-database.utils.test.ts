@@ -0,0 +1,172 @@
+import { Client } from 'pg';
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  MockInstance,
+  vi,
+} from 'vitest';
+
+import { DatabaseConfig } from '../../../../src/core/interfaces/typeorm.interface';
+import {
+  ensureTenantDatabase,
+  resolveTenantDatabaseConfig,
+} from '../../../../src/core/utils/tenant-database.utils';
+
+const baseConfig: DatabaseConfig = {
+  host: 'localhost',
+  port: 5432,
+  username: 'postgres',
+  password: 'password',
+  database: 'multitenant_db',
+  ssl: false,
+};
+
+describe('tenant-database.utils', () => {
+  describe('resolveTenantDatabaseConfig', () => {
+    it('should default to the module database server and the tenant code', async () => {
+      // Act
+      const config = await resolveTenantDatabaseConfig(
+        baseConfig,
+        'tenant_acme',
+      );
+
+      // Assert
+      expect(config).toEqual({ ...baseConfig, database: 'tenant_acme' });
+    });
+
+    it('should use the connection info of the tenant', async () => {
+      // Act
+      const config = await resolveTenantDatabaseConfig(
+        baseConfig,
+        'tenant_acme',
+        { host: 'db-acme.internal', port: 6432, database: 'acme', ssl: true },
+      );
+
+      // Assert
+      expect(config).toEqual({
+        ...baseConfig,
+        host: 'db-acme.internal',
+        port: 6432,
+        database: 'acme',
+        ssl: true,
+      });
+    });
+
+    it('should only keep the module replicas for tenants on the same server', async () => {
+      // Arrange
+      const config = { ...baseConfig, replicas: [{ host: 'replica-1' }] };
+
+      // Act
+      const sameServer = await resolveTenantDatabaseConfig(
+        config,
+        'tenant_acme',
+      );
+      const otherServer = await resolveTenantDatabaseConfig(
+        config,
+        'tenant_acme',
+        { host: 'db-acme.internal' },
+      );
+
+      // Assert
+      expect(sameServer.replicas).toEqual([{ host: 'replica-1' }]);
+      expect(otherServer.replicas).toBeUndefined();
+    });
+
+    it('should resolve referenced credentials', async () => {
+      // Arrange
+      const resolveCredentials = vi
+        .fn()
+        .mockResolvedValue({ username: 'acme', password: 'secret' });
+
+      // Act
+      const config = await resolveTenantDatabaseConfig(
+        baseConfig,
+        'tenant_acme',
+        { credentialRef: 'secrets/acme-db' },
+        resolveCredentials,
+      );
+
+      // Assert
+      expect(resolveCredentials).toHaveBeenCalledWith(
+        'secrets/acme-db',
+        'tenant_acme',
+      );
+      expect(config.username).toBe('acme');
+      expect(config.password).toBe('secret');
+    });
+
+    it('should fail when credentials are referenced without a resolver', async () => {
+      // Act & Assert
+      await expect(
+        resolveTenantDatabaseConfig(baseConfig, 'tenant_acme', {
+          credentialRef: 'secrets/acme-db',
+        }),
+      ).rejects.toThrow('no tenantCredentials resolver is configured');
+    });
+  });
+
+  describe('ensureTenantDatabase', () => {
+    let query: MockInstance<Client['query']>;
+
+    beforeEach(() => {
+      vi.spyOn(Client.prototype, 'connect').mockResolvedValue(undefined);
+      vi.spyOn(Client.prototype, 'end').mockResolvedValue(undefined);
+      query = vi
+        .spyOn(Client.prototype, 'query')
+        .mockResolvedValue({ rowCount: 0 } as never);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should create the database and the tenant schema', async () => {
+      // Arrange
+      const config = { ...baseConfig, database: 'tenant_acme' };
+
+      // Act
+      const created = await ensureTenantDatabase(config, 'tenant_acme');
+
+      // Assert
+      expect(created).toBe(true);
+      expect(query.mock.calls).toEqual([
+        ['SELECT 1 FROM pg_database WHERE datname = $1', ['tenant_acme']],
+        ['CREATE DATABASE "tenant_acme"'],
+        ['CREATE SCHEMA IF NOT EXISTS "tenant_acme"'],
+      ]);
+      expect(Client.prototype.end).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not create existing databases', async () => {
+      // Arrange
+      query.mockResolvedValueOnce({ rowCount: 1 } as never);
+
+      // Act
+      const created = await ensureTenantDatabase(
+        { ...baseConfig, database: 'tenant_acme' },
+        'tenant_acme',
+      );
+
+      // Assert
+      expect(created).toBe(false);
+      expect(query).not.toHaveBeenCalledWith('CREATE DATABASE "tenant_acme"');
+    });
+
+    it('should close the client when a query fails', async () => {
+      // Arrange
+      query.mockRejectedValueOnce(new Error('permission denied'));
+
+      // Act & Assert
+      await expect(
+        ensureTenantDatabase(
+          { ...baseConfig, database: 'tenant_acme' },
+          'tenant_acme',
+        ),
+      ).rejects.toThrow('permission denied');
+      expect(Client.prototype.end).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+
+import { ConnectionPoolConfig } from '../../../../src/core/interfaces/typeorm.interface';
+import { resolveTenantPoolSettings } from '../../../../src/core/utils/tenant-pool.utils';
+
+describe('tenant-pool.utils', () => {
+  describe('resolveTenantPoolSettings', () => {
+    const config: ConnectionPoolConfig = {
+      tenantPool: { max: 5, idleTimeoutMillis: 10_000 },
+      tiers: {
+        trial: { max: 2 },
+        enterprise: { max: 40, connectionTimeoutMillis: 5000 },
+      },
+    };
+
+    it('should return undefined when no pool settings are configured', () => {
+      // Act & Assert
+      expect(resolveTenantPoolSettings({}, { tier: 'trial' })).toBeUndefined();
+    });
+
+    it('should use the defaults for tenants without a tier', () => {
+      // Act & Assert
+      expect(resolveTenantPoolSettings(config, {})).toEqual({
+        max: 5,
+        idleTimeoutMillis: 10_000,
+      });
+    });
+
+    it('should apply the tier of the tenant over the defaults', () => {
+      // Act
+      const settings = resolveTenantPoolSettings(config, {
+        tier: 'enterprise',
+      });
+
+      // Assert
+      expect(settings).toEqual({
+        max: 40,
+        idleTimeoutMillis: 10_000,
+        connectionTimeoutMillis: 5000,
+      });
+    });
+
+    it('should read the tier from the configured setting', () => {
+      // Act
+      const settings = resolveTenantPoolSettings(
+        { ...config, tierSetting: 'plan' },
+        { tier: 'enterprise', plan: 'trial' },
+      );
+
+      // Assert
+      expect(settings?.max).toBe(2);
+    });
+
+    it('should apply the connectionPool setting of the tenant last', () => {
+      // Act
+      const settings = resolveTenantPoolSettings(config, {
+        tier: 'trial',
+        connectionPool: { max: 8 },
+      });
+
+      // Assert
+      expect(settings).toEqual({ max: 8, idleTimeoutMillis: 10_000 });
+    });
+
+    it('should ignore unknown tiers', () => {
+      // Act & Assert
+      expect(
+        resolveTenantPoolSettings({ tiers: config.tiers }, { tier: 'gold' }),
+      ).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,374 @@
+import { Logger } from '@nestjs/common';
+import { describe, expect, it, vi } from 'vitest';
+
+import { defaultSchemaNamingStrategy } from '../../../../src/core/services/multi-tenant-config.service';
+import {
+  createTenantPathRewriter,
+  createTenantResolverRequest,
+  extractTenantSubdomain,
+  getQueryParameter,
+  matchTenantPath,
+  normalizeResolutionStrategies,
+  resolveFromStrategy,
+  resolveTenantFromHost,
+  TenantStrategyServices,
+} from '../../../../src/core/utils/tenant-resolution.utils';
+import { createMock } from '../../../utils/mock';
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const createServices = (
+  overrides: Partial<TenantStrategyServices> = {},
+): TenantStrategyServices => ({
+  schemaNamingStrategy: defaultSchemaNamingStrategy,
+  logger: createMock<Logger>(),
+  label: '[Test]',
+  ...overrides,
+});
+
+const createRequest = (headers: Record<string, string> = {}) =>
+  createTenantResolverRequest({
+    method: 'GET',
+    url: '/orders?tenant=acme',
+    headers,
+    raw: { source: 'raw' },
+  });
+
+describe('tenant-resolution.utils', () => {
+  describe('normalizeResolutionStrategies', () => {
+    it('should map the legacy path and query options to strategy configs', () => {
+      // Act
+      const pathStrategies = normalizeResolutionStrategies({
+        strategy: 'path',
+        pathPattern: '/orgs/:tenant',
+        stripTenantPath: true,
+      });
+      const queryStrategies = normalizeResolutionStrategies({
+        strategy: 'query',
+        queryParamName: 'org',
+      });
+
+      // Assert
+      expect(pathStrategies).toEqual([
+        { type: 'path', pattern: '/orgs/:tenant', stripPrefix: true },
+      ]);
+      expect(queryStrategies).toEqual([
+        { type: 'query', parameterName: 'org' },
+      ]);
+    });
+  });
+
+  describe('matchTenantPath', () => {
+    it('should match the default pattern and strip the prefix', () => {
+      // Act
+      const match = matchTenantPath('/t/acme/orders?page=2');
+
+      // Assert
+      expect(match).toEqual({
+        tenantId: 'acme',
+        strippedUrl: '/orders?page=2',
+      });
+    });
+
+    it('should support {tenant} placeholders and named segments', () => {
+      // Act
+      const match = matchTenantPath(
+        '/api/v1/tenants/acme',
+        '/api/:version/tenants/{tenant}',
+      );
+
+      // Assert
+      expect(match).toEqual({ tenantId: 'acme', strippedUrl: '/' });
+    });
+
+    it('should only match whole segments at the start of the URL', () => {
+      // Act & Assert
+      expect(matchTenantPath('/orders/t/acme')).toBeUndefined();
+      expect(matchTenantPath('/tenants/acme', '/t/:tenant')).toBeUndefined();
+      expect(matchTenantPath('/t/')).toBeUndefined();
+    });
+
+    it('should decode the tenant segment', () => {
+      // Act & Assert
+      expect(matchTenantPath('/t/acme%20corp')?.tenantId).toBe('acme corp');
+      expect(matchTenantPath('/t/%E0%A4%A')).toBeUndefined();
+    });
+
+    it('should throw when the pattern has no tenant placeholder', () => {
+      // Act & Assert
+      expect(() => matchTenantPath('/t/acme', '/t/:id')).toThrow(
+        'Tenant path pattern must contain a :tenant placeholder: /t/:id',
+      );
+    });
+  });
+
+  describe('getQueryParameter', () => {
+    it('should read and trim the parameter', () => {
+      // Act & Assert
+      expect(getQueryParameter('/hook?tenant=%20acme%20&x=1', 'tenant')).toBe(
+        'acme',
+      );
+    });
+
+    it('should return undefined when missing or empty', () => {
+      // Act & Assert
+      expect(getQueryParameter('/hook', 'tenant')).toBeUndefined();
+      expect(getQueryParameter('/hook?tenant=', 'tenant')).toBeUndefined();
+      expect(getQueryParameter('/hook#?tenant=acme', 'tenant')).toBeUndefined();
+    });
+  });
+
+  describe('createTenantPathRewriter', () => {
+    it('should strip the tenant prefix and leave other URLs untouched', () => {
+      // Arrange
+      const rewriteUrl = createTenantPathRewriter('/t/:tenant');
+
+      // Act & Assert
+      expect(rewriteUrl({ url: '/t/acme/orders?page=2' })).toBe(
+        '/orders?page=2',
+      );
+      expect(rewriteUrl({ url: '/health' })).toBe('/health');
+    });
+  });
+
+  describe('extractTenantSubdomain', () => {
+    it('should skip reserved subdomains and ports', () => {
+      // Act & Assert
+      expect(extractTenantSubdomain('www.example.com', {})).toBeUndefined();
+      expect(extractTenantSubdomain('www.acme.example.com:3000', {})).toBe(
+        'acme',
+      );
+      expect(
+        extractTenantSubdomain('app.acme.example.com', {
+          reservedSubdomains: ['app'],
+        }),
+      ).toBe('acme');
+    });
+
+    it('should handle multi-level TLDs with a base domain', () => {
+      // Arrange
+      const strategy = { baseDomain: 'example.co.uk' };
+
+      // Act & Assert
+      expect(extractTenantSubdomain('acme.example.co.uk', strategy)).toBe(
+        'acme',
+      );
+      expect(extractTenantSubdomain('example.co.uk', strategy)).toBeUndefined();
+      expect(
+        extractTenantSubdomain('www.example.co.uk', strategy),
+      ).toBeUndefined();
+      expect(
+        extractTenantSubdomain('acme.other.co.uk', strategy),
+      ).toBeUndefined();
+    });
+  });
+
+  describe('resolveTenantFromHost', () => {
+    it('should resolve hosts under the base domain from the subdomain', async () => {
+      // Arrange
+      const findByDomain = vi.fn();
+
+      // Act
+      const tenantId = await resolveTenantFromHost(
+        'ACME.example.com',
+        { type: 'domain', baseDomain: 'example.com' },
+        defaultSchemaNamingStrategy,
+        findByDomain,
+      );
+
+      // Assert
+      expect(tenantId).toBe('acme');
+      expect(findByDomain).not.toHaveBeenCalled();
+    });
+
+    it('should look up custom domains and strip the code prefix', async () => {
+      // Arrange
+      const findByDomain = vi.fn().mockResolvedValue({ code: 'tenant_acme' });
+
+      // Act
+      const tenantId = await resolveTenantFromHost(
+        'portal.customer.com:443',
+        { type: 'domain', baseDomain: 'example.com' },
+        defaultSchemaNamingStrategy,
+        findByDomain,
+      );
+
+      // Assert
+      expect(findByDomain).toHaveBeenCalledWith('portal.customer.com');
+      expect(tenantId).toBe('acme');
+    });
+
+    it('should map the code back with a custom naming strategy', async () => {
+      // Arrange
+      const findByDomain = vi.fn().mockResolvedValue({ code: 'org_acme_db' });
+
+      // Act
+      const tenantId = await resolveTenantFromHost(
+        'portal.customer.com',
+        { type: 'domain' },
+        tenantId => `org_${tenantId}_db`,
+        findByDomain,
+      );
+
+      // Assert
+      expect(tenantId).toBe('acme');
+    });
+
+    it('should return undefined for unknown domains or without a lookup', async () => {
+      // Act & Assert
+      await expect(
+        resolveTenantFromHost(
+          'unknown.com',
+          { type: 'domain' },
+          defaultSchemaNamingStrategy,
+          vi.fn().mockResolvedValue(undefined),
+        ),
+      ).resolves.toBeUndefined();
+      await expect(
+        resolveTenantFromHost(
+          'portal.customer.com',
+          { type: 'domain' },
+          defaultSchemaNamingStrategy,
+        ),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('createTenantResolverRequest', () => {
+    it('should normalize the path, host, query and headers', () => {
+      // Act
+      const request = createTenantResolverRequest({
+        method: 'POST',
+        url: '/hooks/?tenant=acme#top',
+        headers: { host: 'API.Example.com:8080', accept: ['a', 'b'] },
+        raw: {},
+      });
+
+      // Assert
+      expect(request.path).toBe('/hooks/');
+      expect(request.hostname).toBe('api.example.com');
+      expect(request.query).toEqual({ tenant: 'acme' });
+      expect(request.header('Accept')).toBe('a, b');
+      expect(request.header('x-missing')).toBeUndefined();
+    });
+  });
+
+  describe('resolveFromStrategy', () => {
+    it('should read the tenant from a string JWT claim', async () => {
+      // Arrange
+      const token = `${encode({ alg: 'none' })}.${encode({ tenantId: ' acme ' })}.signature`;
+
+      // Act
+      const tenantId = await resolveFromStrategy(
+        createRequest({ authorization: `Bearer ${token}` }),
+        { type: 'jwt' },
+        createServices(),
+      );
+
+      // Assert
+      expect(tenantId).toBe('acme');
+    });
+
+    it('should ignore JWT claims that are not strings', async () => {
+      // Arrange
+      const token = `${encode({ alg: 'none' })}.${encode({ tenantId: 42 })}.signature`;
+
+      // Act
+      const tenantId = await resolveFromStrategy(
+        createRequest({ authorization: `Bearer ${token}` }),
+        { type: 'jwt' },
+        createServices(),
+      );
+
+      // Assert
+      expect(tenantId).toBeUndefined();
+    });
+
+    it('should log undecodable JWT payloads with the caller label', async () => {
+      // Arrange
+      const services = createServices();
+
+      // Act
+      const tenantId = await resolveFromStrategy(
+        createRequest({ authorization: 'Bearer header.%%%.signature' }),
+        { type: 'jwt' },
+        services,
+      );
+
+      // Assert
+      expect(tenantId).toBeUndefined();
+      expect(services.logger.debug).toHaveBeenCalledWith(
+        '[Test] Error decoding JWT payload:',
+        expect.any(Error),
+      );
+    });
+
+    it('should pass the raw request to custom resolver functions', async () => {
+      // Arrange
+      const resolver = vi.fn().mockReturnValue('acme');
+
+      // Act
+      const tenantId = await resolveFromStrategy(
+        createRequest(),
+        { type: 'custom', resolver },
+        createServices(),
+      );
+
+      // Assert
+      expect(tenantId).toBe('acme');
+      expect(resolver).toHaveBeenCalledWith({ source: 'raw' });
+    });
+
+    it('should pass the caller request to custom resolver functions when given', async () => {
+      // Arrange
+      const resolver = vi.fn().mockReturnValue('acme');
+      const customResolverRequest = { source: 'adapted' };
+
+      // Act
+      await resolveFromStrategy(
+        createRequest(),
+        { type: 'custom', resolver },
+        createServices({ customResolverRequest }),
+      );
+
+      // Assert
+      expect(resolver).toHaveBeenCalledWith(customResolverRequest);
+    });
+
+    it('should pass the normalized request to the TenantResolver', async () => {
+      // Arrange
+      const tenantResolver = { resolve: vi.fn().mockResolvedValue(' acme ') };
+      const request = createRequest();
+
+      // Act
+      const tenantId = await resolveFromStrategy(
+        request,
+        { type: 'custom' },
+        createServices({ tenantResolver }),
+      );
+
+      // Assert
+      expect(tenantId).toBe('acme');
+      expect(tenantResolver.resolve).toHaveBeenCalledWith(request);
+    });
+
+    it('should warn about unknown strategies', async () => {
+      // Arrange
+      const services = createServices();
+
+      // Act
+      const tenantId = await resolveFromStrategy(
+        createRequest(),
+        { type: 'unknown' } as never,
+        services,
+      );
+
+      // Assert
+      expect(tenantId).toBeUndefined();
+      expect(services.logger.warn).toHaveBeenCalledWith(
+        '[Test] Unknown tenant resolution strategy: unknown',
+      );
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { HttpStatus } from '@nestjs/common';
+import { describe, expect, it, vi } from 'vitest';
+
+import { TenantStatus } from '../../../../src/constants';
+import { TenantNotActiveError } from '../../../../src/core/exceptions/custom-errors';
+import { ITenantValidationStrategy } from '../../../../src/core/interfaces/tenant-validation.interface';
+import {
+  assertTenantStatus,
+  checkTenantAvailable,
+} from '../../../../src/core/utils/tenant-status.utils';
+import { createMock } from '../../../utils/mock';
+
+describe('tenant-status.utils', () => {
+  describe('assertTenantStatus', () => {
+    it('should allow active tenants', () => {
+      // Act & Assert
+      expect(() =>
+        assertTenantStatus('tenant_acme', { status: TenantStatus.ACTIVE }),
+      ).not.toThrow();
+    });
+
+    it('should reject suspended tenants with 423 and the suspension reason', () => {
+      // Act & Assert
+      expect(() =>
+        assertTenantStatus('tenant_acme', {
+          status: TenantStatus.SUSPENDED,
+          settings: { suspensionReason: 'Unpaid invoice' },
+        }),
+      ).toThrow(
+        expect.objectContaining({
+          name: TenantNotActiveError.name,
+          statusCode: HttpStatus.LOCKED,
+          reason: 'Unpaid invoice',
+          message: 'Tenant tenant_acme is suspended: Unpaid invoice',
+        }),
+      );
+    });
+
+    it('should reject pending tenants with 403 and inactive tenants with 404', () => {
+      // Act & Assert
+      expect(() =>
+        assertTenantStatus('tenant_acme', { status: TenantStatus.PENDING }),
+      ).toThrow(expect.objectContaining({ statusCode: HttpStatus.FORBIDDEN }));
+      expect(() =>
+        assertTenantStatus('tenant_acme', { status: TenantStatus.INACTIVE }),
+      ).toThrow(expect.objectContaining({ statusCode: HttpStatus.NOT_FOUND }));
+    });
+
+    it('should apply a custom policy over the defaults', () => {
+      // Act & Assert
+      expect(() =>
+        assertTenantStatus(
+          'tenant_acme',
+          { status: TenantStatus.PENDING },
+          { [TenantStatus.PENDING]: 'allow' },
+        ),
+      ).not.toThrow();
+      expect(() =>
+        assertTenantStatus(
+          'tenant_acme',
+          { status: TenantStatus.SUSPENDED },
+          { [TenantStatus.SUSPENDED]: { statusCode: HttpStatus.FORBIDDEN } },
+        ),
+      ).toThrow(expect.objectContaining({ statusCode: HttpStatus.FORBIDDEN }));
+    });
+  });
+
+  describe('checkTenantAvailable', () => {
+    it('should fall back to validateTenantExists without findStatusByCode', async () => {
+      // Arrange
+      const strategy = createMock<ITenantValidationStrategy>({
+        findStatusByCode: undefined,
+      });
+      strategy.validateTenantExists.mockResolvedValue(true);
+
+      // Act
+      const result = await checkTenantAvailable(strategy, 'tenant_acme');
+
+      // Assert
+      expect(result).toBe(true);
+      expect(strategy.validateTenantExists).toHaveBeenCalledWith('tenant_acme');
+    });
+
+    it('should return false when the status lookup finds no tenant', async () => {
+      // Arrange
+      const strategy = createMock<ITenantValidationStrategy>({
+        findStatusByCode: vi.fn().mockResolvedValue(undefined),
+      });
+
+      // Act
+      const result = await checkTenantAvailable(strategy, 'tenant_ghost');
+
+      // Assert
+      expect(result).toBe(false);
+      expect(strategy.validateTenantExists).not.toHaveBeenCalled();
+    });
+
+    it('should reject tenants whose status is not allowed', async () => {
+      // Arrange
+      const strategy = createMock<ITenantValidationStrategy>({
+        findStatusByCode: vi
+          .fn()
+          .mockResolvedValue({ status: TenantStatus.INACTIVE }),
+      });
+
+      // Act & Assert
+      await expect(
+        checkTenantAvailable(strategy, 'tenant_acme'),
+      ).rejects.toBeInstanceOf(TenantNotActiveError);
+    });
+  });
+});
@@ -0,0 +1,548 @@
+import { createServer as createHttpServer, Server } from 'node:http';
+import { createServer } from 'node:net';
+
+import { HttpModule, HttpService } from '@nestjs/axios';
+import {
+  Controller,
+  Get,
+  INestApplication,
+  Inject,
+  Injectable,
+  Provider,
+  Query,
+  Scope,
+  Type,
+} from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { ExternalContextCreator } from '@nestjs/core';
+import { ClientTCP, MessagePattern, Transport } from '@nestjs/microservices';
+import { Test, TestingModule } from '@nestjs/testing';
+import { firstValueFrom } from 'rxjs';
+import {
+  afterAll,
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+
+import { RequireTenant } from '../../src/core/decorators/tenant-requirement.decorator';
+import { JwtVerificationConfigError } from '../../src/core/exceptions/custom-errors';
+import { MultitenantExceptionFilter } from '../../src/core/exceptions/multitenant-exception-filter';
+import {
+  IOrmStrategy,
+  TenantOrmConnection,
+} from '../../src/core/interfaces/orm-abstraction.interface';
+import {
+  ITenantConnectionService,
+  ITenantContextService,
+  MultiTenantModuleOptions,
+} from '../../src/core/interfaces/tenant.interface';
+import {
+  ITenantEventTransport,
+  TENANT_EVENT_TRANSPORT,
+  TenantChangeHandler,
+} from '../../src/core/interfaces/tenant-events.interface';
+import {
+  ITenantValidationStrategy,
+  TENANT_VALIDATION_STRATEGY,
+} from '../../src/core/interfaces/tenant-validation.interface';
+import { TenantContext } from '../../src/core/services/async-local-tenant-context.service';
+import {
+  ORM_STRATEGY,
+  TENANT_CONNECTION_SERVICE,
+} from '../../src/core/services/tenant-connection.service';
+import { TENANT_CONTEXT_SERVICE } from '../../src/core/services/tenant-context.service';
+import { TenantEventListener } from '../../src/core/services/tenant-event-listener.service';
+import { MultiTenantModule } from '../../src/multi-tenant.module';
+import { createMock, Mock } from '../utils/mock';
+
+@Controller('items')
+class ItemsController {
+  @Get()
+  @RequireTenant()
+  find() {
+    return { ok: true };
+  }
+}
+
+@Controller('connections')
+class ConnectionsController {
+  constructor(
+    @Inject(TENANT_CONNECTION_SERVICE)
+    private readonly connectionService: ITenantConnectionService,
+  ) {}
+
+  @Get()
+  async open() {
+    await this.connectionService.getTenantConnection();
+    return this.connectionService.getConnectionPoolStats().schemas;
+  }
+}
+
+@Controller({ scope: Scope.REQUEST })
+class TenantEchoController {
+  constructor(
+    @Inject(TENANT_CONTEXT_SERVICE)
+    private readonly tenantContextService: ITenantContextService,
+  ) {}
+
+  @MessagePattern('whoami')
+  whoami() {
+    return this.tenantContextService.getContext();
+  }
+}
+
+/**
+ * Stands in for a `@WebSocketGateway` or GraphQL resolver: both are
+ * singletons whose handlers Nest wraps with the global enhancers
+ */
+@Injectable()
+class TenantEchoGateway {
+  whoami() {
+    return TenantContext.current();
+  }
+}
+
+@Controller('outbound')
+class OutboundController {
+  constructor(private readonly httpService: HttpService) {}
+
+  @Get()
+  async send(@Query('target') target: string) {
+    const { data } = await firstValueFrom(this.httpService.get(target));
+    return data;
+  }
+}
+
+const findFreePort = (): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once('error', reject);
+    server.listen(0, () => {
+      const { port } = server.address() as { port: number };
+      server.close(() => resolve(port));
+    });
+  });
+
+describe('MultiTenantModule (request context mode)', () => {
+  let app: INestApplication;
+  let url: string;
+  let ormStrategy: Mock<IOrmStrategy>;
+  let validationStrategy: Mock<ITenantValidationStrategy>;
+
+  const compile = (
+    options: Partial<MultiTenantModuleOptions>,
+    controllers: Type<unknown>[],
+    providers: Provider[] = [],
+    imports: Type<unknown>[] = [],
+  ): Promise<TestingModule> =>
+    Test.createTestingModule({
+      imports: [
+        ...imports,
+        ConfigModule.forRoot({ isGlobal: true, ignoreEnvFile: true }),
+        MultiTenantModule.forRoot({
+          database: {
+            host: 'localhost',
+            port: 5432,
+            username: 'app',
+            password: 'secret',
+            database: 'multitenant_db',
+          },
+          validationStrategy: 'custom',
+          customProviders: [
+            {
+              provide: TENANT_VALIDATION_STRATEGY,
+              useValue: validationStrategy,
+            },
+          ],
+          ...options,
+        }),
+      ],
+      controllers,
+      providers,
+    })
+      .overrideProvider(ORM_STRATEGY)
+      .useValue(ormStrategy)
+      .compile();
+
+  const createApp = async (
+    options: Partial<MultiTenantModuleOptions> = {},
+    controllers: Type<unknown>[] = [ItemsController],
+  ) => {
+    const moduleRef = await compile(options, controllers);
+    app = moduleRef.createNestApplication({ logger: false });
+    app.useGlobalFilters(new MultitenantExceptionFilter());
+    await app.listen(0);
+    url = await app.getUrl();
+  };
+
+  const createGatewayHandler = async (contextType: 'ws' | 'graphql') => {
+    const moduleRef = await compile({}, [], [TenantEchoGateway]);
+    app = moduleRef.createNestApplication({ logger: false });
+    await app.init();
+
+    const gateway = app.get(TenantEchoGateway);
+    return app
+      .get(ExternalContextCreator)
+      .create(
+        gateway,
+        gateway.whoami,
+        'whoami',
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        { guards: true, interceptors: true, filters: false },
+        contextType,
+      );
+  };
+
+  const get = (path: string, tenantId?: string) =>
+    fetch(`${url}${path}`, {
+      headers: tenantId ? { 'x-tenant-id': tenantId } : {},
+    });
+
+  beforeEach(() => {
+    ormStrategy = createMock<IOrmStrategy>({ type: 'typeorm' });
+    ormStrategy.isConnectionValid.mockReturnValue(true);
+    ormStrategy.createConnection.mockImplementation(async () =>
+      createMock<TenantOrmConnection>({ type: 'typeorm' }),
+    );
+    validationStrategy = createMock<ITenantValidationStrategy>({
+      findStatusByCode: undefined,
+    });
+    validationStrategy.validateTenantExists.mockResolvedValue(true);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await app?.close();
+  });
+
+  afterAll(() => {
+    // Test files share the module registry: let the next ones mock the
+    // modules this file loaded for real
+    vi.resetModules();
+  });
+
+  describe('TenantGuard', () => {
+    it('should enforce the tenant requirement of HTTP routes', async () => {
+      // Arrange
+      await createApp();
+
+      // Act
+      const withTenant = await get('/items', 'acme');
+      const withoutTenant = await get('/items');
+
+      // Assert
+      expect(withTenant.status).toBe(200);
+      expect(validationStrategy.validateTenantExists).toHaveBeenCalledWith(
+        'tenant_acme',
+      );
+      expect(withoutTenant.status).toBe(400);
+    });
+  });
+
+  describe('TenantConnectionService', () => {
+    it('should share one connection service between requests', async () => {
+      // Arrange
+      await createApp({}, [ConnectionsController]);
+
+      // Act
+      await get('/connections', 'acme');
+      const response = await get('/connections', 'globex');
+      await get('/connections', 'acme');
+
+      // Assert
+      const connectionService = app.get<ITenantConnectionService>(
+        TENANT_CONNECTION_SERVICE,
+      );
+      expect(await response.json()).toEqual(['tenant_acme', 'tenant_globex']);
+      expect(connectionService.getConnectionPoolStats().schemas).toEqual([
+        'tenant_globex',
+        'tenant_acme',
+      ]);
+      expect(ormStrategy.createConnection).toHaveBeenCalledTimes(2);
+    });
+
+    it('should share the physical connection cap between requests', async () => {
+      // Arrange
+      await createApp({ connectionPool: { maxPhysicalConnections: 30 } }, [
+        ConnectionsController,
+      ]);
+
+      // Act
+      await get('/connections', 'acme');
+      const response = await get('/connections', 'globex');
+
+      // Assert
+      const stats = app
+        .get<ITenantConnectionService>(TENANT_CONNECTION_SERVICE)
+        .getConnectionPoolStats();
+      expect(await response.json()).toEqual(['tenant_globex']);
+      expect(stats.physicalConnections).toBe(20);
+      expect(ormStrategy.destroyConnection).toHaveBeenCalledTimes(1);
+    });
+
+    it('should share the circuit of a failing tenant between requests', async () => {
+      // Arrange
+      vi.useFakeTimers({ now: 0, toFake: ['Date'] });
+      ormStrategy.createConnection.mockRejectedValue(
+        new Error('Connection failed'),
+      );
+      await createApp(
+        { connectionPool: { circuitBreaker: { failureThreshold: 2 } } },
+        [ConnectionsController],
+      );
+      await get('/connections', 'acme');
+      await get('/connections', 'acme');
+      vi.setSystemTime(2000);
+
+      // Act
+      const response = await get('/connections', 'acme');
+
+      // Assert
+      expect(response.status).toBe(503);
+      expect(response.headers.get('retry-after')).toBe('3');
+      expect(ormStrategy.createConnection).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('TenantEventListener', () => {
+    it('should close the connection of a changed tenant opened by a request', async () => {
+      // Arrange
+      let handler: TenantChangeHandler | undefined;
+      const transport = createMock<ITenantEventTransport>();
+      transport.subscribe.mockImplementation(async subscriber => {
+        handler = subscriber;
+      });
+      await createApp(
+        {
+          tenantEvents: { transport: 'custom' },
+          customProviders: [
+            {
+              provide: TENANT_VALIDATION_STRATEGY,
+              useValue: validationStrategy,
+            },
+            { provide: TENANT_EVENT_TRANSPORT, useValue: transport },
+          ],
+        },
+        [ConnectionsController],
+      );
+      await get('/connections', 'acme');
+
+      // Act
+      await handler?.({ type: 'deactivated', code: 'tenant_acme' });
+
+      // Assert
+      const connectionService = app.get<ITenantConnectionService>(
+        TENANT_CONNECTION_SERVICE,
+      );
+      expect(validationStrategy.invalidate).toHaveBeenCalledWith('tenant_acme');
+      expect(ormStrategy.destroyConnection).toHaveBeenCalledTimes(1);
+      expect(connectionService.getConnectionPoolStats().schemas).toEqual([]);
+    });
+
+    it('should be registered without a transport when events are disabled, as with forRootAsync', async () => {
+      // Act
+      await createApp({});
+
+      // Assert
+      expect(app.get(TenantEventListener)).toBeInstanceOf(TenantEventListener);
+      expect(() => app.get(TENANT_EVENT_TRANSPORT, { strict: false })).toThrow(
+        'Nest could not find',
+      );
+    });
+  });
+
+  describe('shutdown', () => {
+    it('should close the tenant connections opened by every request', async () => {
+      // Arrange
+      await createApp({}, [ConnectionsController]);
+      await get('/connections', 'acme');
+      await get('/connections', 'globex');
+      const connectionService = app.get<ITenantConnectionService>(
+        TENANT_CONNECTION_SERVICE,
+      );
+
+      // Act
+      await app.close();
+
+      // Assert
+      expect(ormStrategy.destroyConnection).toHaveBeenCalledTimes(2);
+      expect(connectionService.getConnectionPoolStats().total).toBe(0);
+      await expect(
+        connectionService.getConnectionForSchema('tenant_acme'),
+      ).rejects.toThrow('Not opening connections while shutting down');
+    });
+  });
+
+  describe('TenantHttpPropagator', () => {
+    let echoServer: Server;
+    let echoUrl: string;
+
+    beforeEach(async () => {
+      // Answers with the headers it received
+      echoServer = createHttpServer((request, response) => {
+        response.setHeader('content-type', 'application/json');
+        response.end(JSON.stringify(request.headers));
+      });
+      await new Promise<void>(resolve =>
+        echoServer.listen(0, '127.0.0.1', resolve),
+      );
+      const { port } = echoServer.address() as { port: number };
+      echoUrl = `http://127.0.0.1:${port}/`;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => echoServer.close(resolve));
+    });
+
+    it('should send the tenant and the inbound trace ID in request mode', async () => {
+      // Arrange
+      const moduleRef = await compile(
+        {
+          contextMode: 'request',
+          customImports: [HttpModule],
+          httpPropagation: { allowedHosts: [new URL(echoUrl).host] },
+        },
+        [OutboundController],
+        [],
+        [HttpModule],
+      );
+      app = moduleRef.createNestApplication({ logger: false });
+      await app.listen(0);
+      url = await app.getUrl();
+
+      // Act
+      const response = await fetch(
+        `${url}/outbound?target=${encodeURIComponent(echoUrl)}`,
+        { headers: { 'x-tenant-id': 'acme', 'x-correlation-id': 'trace-1' } },
+      );
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({
+        'x-tenant-id': 'acme',
+        'x-trace-id': 'trace-1',
+      });
+    });
+  });
+
+  describe('JWT verification', () => {
+    it('should fail the startup when the verification keys cannot be loaded', async () => {
+      // Act & Assert
+      await expect(
+        createApp({
+          tenantResolution: {
+            strategy: 'jwt',
+            jwtVerification: { publicKeys: 'not a pem' },
+          },
+        }),
+      ).rejects.toBeInstanceOf(JwtVerificationConfigError);
+    });
+  });
+
+  describe('TenantRpcInterceptor', () => {
+    let client: ClientTCP;
+
+    const createMicroservice = async (
+      options: Partial<MultiTenantModuleOptions>,
+    ) => {
+      const port = await findFreePort();
+      const moduleRef = await compile(options, [TenantEchoController]);
+      app = moduleRef.createNestApplication({ logger: false });
+      app.connectMicroservice(
+        { transport: Transport.TCP, options: { host: '127.0.0.1', port } },
+        { inheritAppConfig: true },
+      );
+      await app.startAllMicroservices();
+      await app.init();
+
+      client = new ClientTCP({ host: '127.0.0.1', port });
+      await client.connect();
+    };
+
+    afterEach(() => {
+      client?.close();
+    });
+
+    it('should set the tenant of request-scoped message handlers', async () => {
+      // Arrange
+      await createMicroservice({ microservices: {} });
+
+      // Act
+      const context = await firstValueFrom(
+        client.send('whoami', { tenantId: 'acme' }),
+      );
+
+      // Assert
+      expect(context).toEqual({
+        tenantId: 'acme',
+        tenantSchema: 'tenant_acme',
+        hasTenant: true,
+      });
+      expect(ormStrategy.createConnection).toHaveBeenCalledTimes(1);
+    });
+
+    it('should be registered with the enableMicroservices flag, as with forRootAsync', async () => {
+      // Arrange
+      await createMicroservice({ enableMicroservices: true });
+
+      // Act
+      const context = await firstValueFrom(
+        client.send('whoami', { tenantId: 'acme' }),
+      );
+
+      // Assert
+      expect(context).toMatchObject({ tenantId: 'acme', hasTenant: true });
+    });
+
+    it('should not be registered without the microservices option', async () => {
+      // Arrange
+      await createMicroservice({});
+
+      // Act
+      const context = await firstValueFrom(
+        client.send('whoami', { tenantId: 'acme' }),
+      );
+
+      // Assert
+      expect(context).toMatchObject({ hasTenant: false });
+      expect(ormStrategy.createConnection).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('TenantGatewayInterceptor', () => {
+    it('should set the tenant of gateway message handlers', async () => {
+      // Arrange
+      const handler = await createGatewayHandler('ws');
+      const socket = { handshake: { headers: { 'x-tenant-id': 'acme' } } };
+
+      // Act
+      const context = await handler(socket, {});
+
+      // Assert
+      expect(context).toEqual({
+        tenantId: 'acme',
+        tenantSchema: 'tenant_acme',
+        hasTenant: true,
+      });
+      expect(ormStrategy.createConnection).toHaveBeenCalledTimes(1);
+    });
+
+    it('should set the tenant of GraphQL resolvers', async () => {
+      // Arrange
+      const handler = await createGatewayHandler('graphql');
+
+      // Act
+      const context = await handler({}, {}, { tenantId: 'globex' }, {});
+
+      // Assert
+      expect(context).toMatchObject({ tenantId: 'globex' });
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { ModuleRef } from '@nestjs/core';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ADMIN_DATABASE } from '../../src/admin/services/drizzle-tenant-admin.service';
+import { IOrmStrategy } from '../../src/core/interfaces/orm-abstraction.interface';
+import {
+  ITenantConnectionService,
+  MultiTenantModuleOptions,
+} from '../../src/core/interfaces/tenant.interface';
+import {
+  ORM_STRATEGY,
+  TENANT_CONNECTION_SERVICE,
+} from '../../src/core/services/tenant-connection.service';
+import { MultiTenantModule } from '../../src/multi-tenant.module';
+import { createMock, Mock } from '../utils/mock';
+
+describe('MultiTenantModule', () => {
+  describe('shutdown', () => {
+    let moduleRef: Mock<ModuleRef>;
+    let connectionService: Mock<ITenantConnectionService>;
+    let ormStrategy: Mock<IOrmStrategy>;
+    let adminPool: { end: ReturnType<typeof vi.fn> };
+    let providers: Map<unknown, unknown>;
+
+    const createModule = (options: Partial<MultiTenantModuleOptions> = {}) =>
+      new MultiTenantModule(moduleRef, options as MultiTenantModuleOptions);
+
+    beforeEach(() => {
+      connectionService = createMock<ITenantConnectionService>();
+      connectionService.drain.mockResolvedValue(true);
+      connectionService.getConnectionPoolStats.mockReturnValue({
+        total: 2,
+        draining: 1,
+      } as never);
+      ormStrategy = createMock<IOrmStrategy>();
+      adminPool = { end: vi.fn().mockResolvedValue(undefined) };
+      providers = new Map<unknown, unknown>([
+        [TENANT_CONNECTION_SERVICE, connectionService],
+        [ORM_STRATEGY, ormStrategy],
+        [ADMIN_DATABASE, { $client: adminPool }],
+      ]);
+      moduleRef = createMock<ModuleRef>();
+      moduleRef.get.mockImplementation(((token: unknown) => {
+        if (!providers.has(token)) {
+          throw new Error(`Provider not found: ${String(token)}`);
+        }
+        return providers.get(token);
+      }) as never);
+    });
+
+    it('should drain tenant work up to the shutdown timeout', async () => {
+      // Arrange
+      const module = createModule({ shutdownTimeout: 2000 });
+
+      // Act
+      await module.beforeApplicationShutdown('SIGTERM');
+
+      // Assert
+      expect(connectionService.drain).toHaveBeenCalledWith(2000);
+    });
+
+    it('should close the tenant connections and the Drizzle admin pool', async () => {
+      // Arrange
+      const module = createModule({ orm: { type: 'drizzle' } });
+
+      // Act
+      await module.onApplicationShutdown();
+
+      // Assert
+      expect(connectionService.closeAllConnections).toHaveBeenCalled();
+      expect(adminPool.end).toHaveBeenCalled();
+    });
+
+    it('should leave the TypeORM admin DataSource to TypeOrmModule', async () => {
+      // Arrange
+      const module = createModule();
+
+      // Act
+      await module.onApplicationShutdown();
+
+      // Assert
+      expect(connectionService.closeAllConnections).toHaveBeenCalled();
+      expect(adminPool.end).not.toHaveBeenCalled();
+    });
+
+    it('should dispose the ORM strategy when the connection service is request-scoped', async () => {
+      // Arrange
+      providers.delete(TENANT_CONNECTION_SERVICE);
+      const module = createModule({ orm: { type: 'drizzle' } });
+
+      // Act
+      await module.beforeApplicationShutdown();
+      await module.onApplicationShutdown();
+
+      // Assert
+      expect(ormStrategy.dispose).toHaveBeenCalled();
+      expect(adminPool.end).toHaveBeenCalled();
+    });
+  });
+});
@@ -1,8 +1,10 @@
+import swc from 'unplugin-swc';
 import { defineConfig } from 'vitest/config';
 
 import { createVitestTestConfig } from './create-vitest-test-config';
 
 export default defineConfig({
   test: createVitestTestConfig('unit'),
-  plugins: [],
+  // SWC emits the decorator metadata Nest resolves constructor types from
+  plugins: [swc.vite({ module: { type: 'es6' } })],
 });